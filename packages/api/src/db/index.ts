@@ -77,14 +77,22 @@ db.exec(`
   -- Ensure default user exists
   INSERT OR IGNORE INTO users (id, name, created_at) VALUES ('default', 'Default User', strftime('%s', 'now'));
 
-  -- Raw transactions cache
+  -- Raw transactions cache, stored once however many wallets took part
   CREATE TABLE IF NOT EXISTS transactions (
     signature TEXT PRIMARY KEY,
-    wallet_address TEXT NOT NULL,
     timestamp INTEGER NOT NULL,
     block_slot INTEGER,
     raw_data TEXT NOT NULL,
-    parsed INTEGER DEFAULT 0
+    parsed INTEGER DEFAULT 0,
+    format TEXT NOT NULL DEFAULT 'enhanced'
+  );
+
+  -- Which wallets' signature lists each stored transaction came from
+  CREATE TABLE IF NOT EXISTS wallet_transactions (
+    wallet_address TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (wallet_address, signature)
   );
 
   -- Parsed trades
@@ -144,11 +152,18 @@ db.exec(`
   );
 
   -- Indexes for performance
-  CREATE INDEX IF NOT EXISTS idx_transactions_wallet ON transactions(wallet_address);
   CREATE INDEX IF NOT EXISTS idx_transactions_timestamp ON transactions(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_wallet_transactions_wallet_timestamp ON wallet_transactions(wallet_address, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_wallet_transactions_signature ON wallet_transactions(signature);
   CREATE INDEX IF NOT EXISTS idx_trades_wallet ON trades(wallet_address);
   CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_trades_signature ON trades(signature);
   CREATE INDEX IF NOT EXISTS idx_trades_token ON trades(token_mint);
+  CREATE INDEX IF NOT EXISTS idx_trades_token_timestamp ON trades(token_mint, timestamp);
+  -- Trade search: keyset pages per wallet in the common sort orders, and the mint filter
+  CREATE INDEX IF NOT EXISTS idx_trades_wallet_timestamp ON trades(wallet_address, timestamp, id);
+  CREATE INDEX IF NOT EXISTS idx_trades_wallet_sol ON trades(wallet_address, sol_amount, id);
+  CREATE INDEX IF NOT EXISTS idx_trades_wallet_token_timestamp ON trades(wallet_address, token_mint, timestamp);
   CREATE INDEX IF NOT EXISTS idx_cost_basis_wallet_token ON cost_basis_lots(wallet_address, token_mint);
 
   -- Token first-seen cache (built from stored raw transactions to avoid extra RPC/API hits)
@@ -190,8 +205,286 @@ db.exec(`
     scored_at INTEGER NOT NULL
   );
   CREATE INDEX IF NOT EXISTS idx_follow_scores_ratio ON wallet_follow_scores(followability_ratio DESC);
+
+  -- User-defined slippage profiles (buckets and dex_overrides are JSON)
+  CREATE TABLE IF NOT EXISTS slippage_profiles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL DEFAULT 'default',
+    name TEXT NOT NULL,
+    description TEXT,
+    buckets TEXT NOT NULL,
+    dex_overrides TEXT NOT NULL,
+    drift_per_second REAL NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  -- Follow simulation sweep: one row per wallet and (delay, slippage model) configuration
+  CREATE TABLE IF NOT EXISTS wallet_follow_sweeps (
+    wallet_address TEXT NOT NULL,
+    delay_seconds INTEGER NOT NULL,
+    slippage_model TEXT NOT NULL,
+    actual_pnl REAL NOT NULL,
+    simulated_pnl REAL NOT NULL,
+    followability_ratio REAL NOT NULL,
+    total_tokens_traded INTEGER NOT NULL,
+    followable_tokens INTEGER NOT NULL,
+    scored_at INTEGER NOT NULL,
+    PRIMARY KEY (wallet_address, delay_seconds, slippage_model)
+  );
+  CREATE INDEX IF NOT EXISTS idx_follow_sweeps_config ON wallet_follow_sweeps(slippage_model, delay_seconds);
+
+  -- User-defined alert rules (wallet_address NULL = all alerts-on wallets)
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL DEFAULT 'default',
+    wallet_address TEXT,
+    type TEXT NOT NULL CHECK (type IN ('new_token', 'buy_size', 'position_exit', 'pnl_cross')),
+    threshold REAL,
+    enabled INTEGER DEFAULT 1,
+    created_at INTEGER NOT NULL
+  );
+
+  -- Outbound alert destinations (the SSE status stream is always on)
+  CREATE TABLE IF NOT EXISTS alert_sinks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL DEFAULT 'default',
+    kind TEXT NOT NULL CHECK (kind IN ('webhook', 'telegram', 'discord')),
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    chat_id TEXT,
+    enabled INTEGER DEFAULT 1,
+    created_at INTEGER NOT NULL
+  );
+
+  -- Alerts that fired
+  CREATE TABLE IF NOT EXISTS alert_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL DEFAULT 'default',
+    rule_id INTEGER,
+    rule_type TEXT NOT NULL,
+    wallet_address TEXT NOT NULL,
+    token_mint TEXT,
+    signature TEXT,
+    message TEXT NOT NULL,
+    details TEXT,
+    delivered_to TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_alert_history_created ON alert_history(created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_alert_history_wallet ON alert_history(wallet_address, created_at DESC);
+
+  -- Background sync jobs (refresh / bulk analyze / backfill / reparse); survive restarts
+  CREATE TABLE IF NOT EXISTS sync_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL DEFAULT 'default',
+    kind TEXT NOT NULL CHECK (kind IN ('refresh', 'bulk_analyze', 'backfill', 'reparse')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    addresses TEXT NOT NULL, -- JSON array, processed in order
+    force_refresh INTEGER DEFAULT 0,
+    timeframe TEXT,
+    until_timestamp INTEGER, -- backfill target; NULL walks back to genesis
+    dry_run INTEGER DEFAULT 0, -- reparse: report without rewriting trades
+    total INTEGER NOT NULL,
+    completed INTEGER DEFAULT 0,
+    failed INTEGER DEFAULT 0,
+    current_address TEXT,
+    results TEXT, -- JSON per-wallet results, one entry per processed address
+    result TEXT, -- JSON final payload (aggregated stats for bulk_analyze)
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    started_at INTEGER,
+    finished_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status, id);
+
+  -- Observed token prices in SOL (from trades or an external provider)
+  CREATE TABLE IF NOT EXISTS price_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    mint TEXT NOT NULL,
+    price_sol REAL NOT NULL,
+    source TEXT NOT NULL,
+    observed_at INTEGER NOT NULL,
+    signature TEXT,
+    recorded_at INTEGER NOT NULL,
+    UNIQUE (mint, source, observed_at)
+  );
+  CREATE INDEX IF NOT EXISTS idx_price_snapshots_mint ON price_snapshots(mint, observed_at DESC);
+
+  -- Daily SOL/USD rates for USD exports (day is YYYY-MM-DD, UTC)
+  CREATE TABLE IF NOT EXISTS sol_usd_rates (
+    day TEXT PRIMARY KEY,
+    usd REAL NOT NULL,
+    source TEXT NOT NULL,
+    recorded_at INTEGER NOT NULL
+  );
+
+  -- Helius requests and credits per UTC day, API key (masked), endpoint and wallet ('' = none)
+  CREATE TABLE IF NOT EXISTS helius_usage (
+    day TEXT NOT NULL,
+    api_key TEXT NOT NULL,
+    endpoint TEXT NOT NULL,
+    wallet_address TEXT NOT NULL DEFAULT '',
+    requests INTEGER NOT NULL DEFAULT 0,
+    credits INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (day, api_key, endpoint, wallet_address)
+  );
+
+  -- Realization ledger: each sell and the buy lots it closed (default cost-basis method)
+  CREATE TABLE IF NOT EXISTS realizations (
+    sell_trade_id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    token_mint TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    matched_amount REAL NOT NULL,
+    cost_basis REAL NOT NULL,
+    proceeds REAL NOT NULL,
+    realized_pnl REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_realizations_wallet ON realizations(wallet_address, timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_realizations_wallet_token ON realizations(wallet_address, token_mint, timestamp DESC);
+
+  CREATE TABLE IF NOT EXISTS realization_lots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    sell_trade_id TEXT NOT NULL,
+    wallet_address TEXT NOT NULL,
+    buy_trade_id TEXT NOT NULL,
+    buy_timestamp INTEGER NOT NULL,
+    buy_price REAL NOT NULL,
+    amount REAL NOT NULL,
+    cost_basis REAL NOT NULL,
+    proceeds REAL NOT NULL,
+    realized_pnl REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_realization_lots_sell ON realization_lots(sell_trade_id);
+  CREATE INDEX IF NOT EXISTS idx_realization_lots_wallet ON realization_lots(wallet_address);
+
+  -- Rolling per-timeframe stats behind the discovery rankings, refreshed after each sync
+  CREATE TABLE IF NOT EXISTS wallet_timeframe_stats (
+    wallet_address TEXT NOT NULL,
+    timeframe TEXT NOT NULL,
+    realized_pnl REAL NOT NULL,
+    net_realized_pnl REAL NOT NULL,
+    total_fees REAL NOT NULL,
+    win_rate REAL NOT NULL,
+    total_sol_volume REAL NOT NULL,
+    total_trades INTEGER NOT NULL,
+
+    -- Follow simulation over the window (NULL until the wallet has been scored)
+    simulated_pnl REAL,
+    followability_ratio REAL,
+    avg_time_to_first_sell_sec REAL,
+    quick_dump_rate REAL,
+
+    -- Ranking within the timeframe; previous_rank is the rank as of previous_rank_at
+    rank INTEGER,
+    previous_rank INTEGER,
+    previous_rank_at INTEGER,
+
+    computed_at INTEGER NOT NULL,
+    PRIMARY KEY (wallet_address, timeframe)
+  );
+  CREATE INDEX IF NOT EXISTS idx_timeframe_stats_rank ON wallet_timeframe_stats(timeframe, rank);
+
+  -- Paper trading: portfolios that copy catalog wallets as their trades sync (wallets is JSON)
+  CREATE TABLE IF NOT EXISTS paper_portfolios (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL DEFAULT 'default',
+    name TEXT NOT NULL,
+    wallets TEXT NOT NULL,
+    start_at INTEGER NOT NULL,
+    starting_balance_sol REAL NOT NULL,
+    entry_size_sol REAL NOT NULL,
+    max_positions INTEGER NOT NULL,
+    stop_loss REAL,
+    take_profit REAL,
+    delay_seconds INTEGER NOT NULL,
+    slippage_model TEXT,
+    slippage_profile_id INTEGER,
+    pricing TEXT NOT NULL DEFAULT 'heuristic',
+    cash_sol REAL NOT NULL,
+    realized_pnl REAL NOT NULL DEFAULT 0,
+    processed_through INTEGER NOT NULL, -- followed trades up to this unix time are applied
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  -- Open paper positions (one per mint; closed positions live on in paper_fills)
+  CREATE TABLE IF NOT EXISTS paper_positions (
+    portfolio_id INTEGER NOT NULL,
+    token_mint TEXT NOT NULL,
+    token_symbol TEXT,
+    dex TEXT,
+    source_wallet TEXT NOT NULL,
+    token_amount REAL NOT NULL,
+    cost_sol REAL NOT NULL,
+    entry_price REAL NOT NULL,
+    leader_token_amount REAL NOT NULL, -- source wallet's holding, to mirror partial sells
+    opened_at INTEGER NOT NULL,
+    mark_price REAL,
+    mark_at INTEGER,
+    PRIMARY KEY (portfolio_id, token_mint)
+  );
+
+  CREATE TABLE IF NOT EXISTS paper_fills (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    portfolio_id INTEGER NOT NULL,
+    side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    reason TEXT NOT NULL CHECK (reason IN ('copy', 'stop_loss', 'take_profit')),
+    token_mint TEXT NOT NULL,
+    token_symbol TEXT,
+    source_wallet TEXT NOT NULL,
+    source_trade_id TEXT,
+    timestamp INTEGER NOT NULL,
+    token_amount REAL NOT NULL,
+    sol_amount REAL NOT NULL,
+    price REAL NOT NULL,
+    realized_pnl REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_paper_fills_portfolio ON paper_fills(portfolio_id, timestamp DESC);
+
+  -- Balance after every fill, for the equity curve
+  CREATE TABLE IF NOT EXISTS paper_balances (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    portfolio_id INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    cash_sol REAL NOT NULL,
+    positions_value_sol REAL NOT NULL,
+    equity_sol REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_paper_balances_portfolio ON paper_balances(portfolio_id, timestamp);
+
+  -- Copytrade-farmer reports, recomputed after each sync (signals and evidence are JSON)
+  CREATE TABLE IF NOT EXISTS wallet_farmer_reports (
+    wallet_address TEXT PRIMARY KEY,
+    score REAL NOT NULL,
+    verdict TEXT NOT NULL,
+    signals TEXT NOT NULL,
+    evidence TEXT NOT NULL,
+    computed_at INTEGER NOT NULL
+  );
 `);
 
+// Migration: transactions belonged to the first wallet that stored them; move that to
+// wallet_transactions so every wallet in a shared transaction can see it. Later wallets
+// only left a trace through their trades, so those are linked too. Runs before the
+// wallet column migrations, which seed from wallet_transactions.
+const transactionColumns = new Set((db.prepare("PRAGMA table_info(transactions)").all() as { name: string }[]).map(c => c.name));
+if (transactionColumns.has('wallet_address')) {
+  db.exec(`
+    INSERT OR IGNORE INTO wallet_transactions (wallet_address, signature, timestamp)
+    SELECT wallet_address, signature, timestamp FROM transactions;
+    INSERT OR IGNORE INTO wallet_transactions (wallet_address, signature, timestamp)
+    SELECT DISTINCT tr.wallet_address, tr.signature, t.timestamp
+    FROM trades tr JOIN transactions t ON t.signature = tr.signature;
+    DROP INDEX IF EXISTS idx_transactions_wallet;
+    ALTER TABLE transactions DROP COLUMN wallet_address;
+  `);
+  console.log('📦 Moved transaction ownership to wallet_transactions');
+}
+
 // Migration: Add total_sol_volume and total_trades columns if they don't exist
 // Using pragma to check columns safely preserves existing data
 const walletColumns = db.prepare("PRAGMA table_info(wallets)").all() as { name: string }[];
@@ -221,17 +514,99 @@ if (!columnNames.has('first_synced_at')) {
   db.exec('ALTER TABLE wallets ADD COLUMN first_synced_at INTEGER');
   console.log('📦 Added first_synced_at column to wallets table');
 
-  // Backfill from transactions table
+  // Backfill from stored transactions
   db.exec(`
     UPDATE wallets
     SET first_synced_at = (
-      SELECT MIN(timestamp) FROM transactions WHERE transactions.wallet_address = wallets.address
+      SELECT MIN(timestamp) FROM wallet_transactions WHERE wallet_transactions.wallet_address = wallets.address
     )
     WHERE first_synced_at IS NULL
   `);
   console.log('📦 Backfilled first_synced_at from transactions');
 }
 
+if (!columnNames.has('sync_interval_sec')) {
+  db.exec('ALTER TABLE wallets ADD COLUMN sync_interval_sec INTEGER');
+  console.log('📦 Added sync_interval_sec column to wallets table');
+}
+
+// History backfill cursor: oldest signature fetched so far and whether it reached genesis
+if (!columnNames.has('oldest_signature')) {
+  db.exec(`
+    ALTER TABLE wallets ADD COLUMN oldest_signature TEXT;
+    ALTER TABLE wallets ADD COLUMN oldest_timestamp INTEGER;
+    ALTER TABLE wallets ADD COLUMN history_complete INTEGER DEFAULT 0;
+    ALTER TABLE wallets ADD COLUMN backfill_until INTEGER;
+  `);
+  console.log('📦 Added history backfill columns to wallets table');
+
+  // Seed the cursor from what is already stored
+  db.exec(`
+    UPDATE wallets
+    SET oldest_signature = (
+      SELECT signature FROM wallet_transactions
+      WHERE wallet_transactions.wallet_address = wallets.address AND timestamp > 0
+      ORDER BY timestamp ASC LIMIT 1
+    ),
+    oldest_timestamp = (
+      SELECT MIN(timestamp) FROM wallet_transactions
+      WHERE wallet_transactions.wallet_address = wallets.address AND timestamp > 0
+    )
+  `);
+  console.log('📦 Seeded history cursors from transactions');
+}
+
+if (!columnNames.has('total_fees')) {
+  db.exec(`
+    ALTER TABLE wallets ADD COLUMN total_fees REAL;
+    ALTER TABLE wallets ADD COLUMN net_realized_pnl REAL;
+  `);
+  console.log('📦 Added fee columns to wallets table');
+}
+
+// Migration: trades carry their share of the transaction's fees and tips.
+// Older trades keep 0 until they are re-parsed (a full refresh), since their
+// solAmount may still include the fee depending on which parse path produced them.
+const tradeColumns = new Set((db.prepare("PRAGMA table_info(trades)").all() as { name: string }[]).map(c => c.name));
+if (!tradeColumns.has('network_fee')) {
+  db.exec(`
+    ALTER TABLE trades ADD COLUMN network_fee REAL DEFAULT 0;
+    ALTER TABLE trades ADD COLUMN priority_fee REAL DEFAULT 0;
+    ALTER TABLE trades ADD COLUMN tip REAL DEFAULT 0;
+  `);
+  console.log('📦 Added fee columns to trades table');
+}
+if (!tradeColumns.has('parser_version')) {
+  db.exec('ALTER TABLE trades ADD COLUMN parser_version INTEGER');
+  console.log('📦 Added parser_version column to trades table');
+}
+
+const followScoreColumns = new Set((db.prepare("PRAGMA table_info(wallet_follow_scores)").all() as { name: string }[]).map(c => c.name));
+if (!followScoreColumns.has('pricing')) {
+  db.exec(`
+    ALTER TABLE wallet_follow_scores ADD COLUMN pricing TEXT DEFAULT 'heuristic';
+    ALTER TABLE wallet_follow_scores ADD COLUMN tape_priced_legs INTEGER DEFAULT 0;
+    ALTER TABLE wallet_follow_scores ADD COLUMN estimated_legs INTEGER DEFAULT 0;
+  `);
+  console.log('📦 Added pricing columns to wallet_follow_scores table');
+}
+if (!followScoreColumns.has('slippage_profile_id')) {
+  db.exec('ALTER TABLE wallet_follow_scores ADD COLUMN slippage_profile_id INTEGER');
+  console.log('📦 Added slippage_profile_id column to wallet_follow_scores table');
+}
+
+const positionColumns = new Set((db.prepare("PRAGMA table_info(positions)").all() as { name: string }[]).map(c => c.name));
+if (!positionColumns.has('total_fees')) {
+  db.exec('ALTER TABLE positions ADD COLUMN total_fees REAL DEFAULT 0');
+  console.log('📦 Added total_fees column to positions table');
+}
+
+// Migration: raw data can come from plain RPC as well as Helius enhanced transactions
+if (!transactionColumns.has('format')) {
+  db.exec("ALTER TABLE transactions ADD COLUMN format TEXT NOT NULL DEFAULT 'enhanced'");
+  console.log('📦 Added format column to transactions table');
+}
+
 // Backfill total_sol_volume and total_trades from trades table for wallets missing this data
 db.exec(`
   UPDATE wallets
@@ -289,6 +664,54 @@ export function backfillBehaviorStats(
   console.log(`✅ Behavior stats backfill complete`);
 }
 
+/**
+ * Materialize timeframe ranking stats for wallets synced before they existed.
+ * Services are injected to keep this module free of service imports.
+ */
+export function backfillTimeframeStats(
+  refreshWalletStats: (address: string) => void,
+  rerank: () => void
+): void {
+  const walletsNeedingBackfill = timeframeStatsQueries.getWalletsMissingStats.all() as { address: string }[];
+
+  if (walletsNeedingBackfill.length === 0) return;
+
+  console.log(`📦 Backfilling timeframe stats for ${walletsNeedingBackfill.length} wallets...`);
+
+  for (const { address } of walletsNeedingBackfill) {
+    try {
+      refreshWalletStats(address);
+    } catch (err) {
+      console.warn(`Failed to backfill timeframe stats for ${address}:`, err);
+    }
+  }
+  rerank();
+
+  console.log(`✅ Timeframe stats backfill complete`);
+}
+
+/**
+ * Compute farmer reports for wallets with trades but no report yet.
+ * The detector is injected to keep this module free of service imports.
+ */
+export function backfillFarmerReports(refreshFarmerReport: (address: string) => void): void {
+  const walletsNeedingBackfill = farmerReportQueries.getWalletsMissingReports.all() as { address: string }[];
+
+  if (walletsNeedingBackfill.length === 0) return;
+
+  console.log(`📦 Backfilling farmer reports for ${walletsNeedingBackfill.length} wallets...`);
+
+  for (const { address } of walletsNeedingBackfill) {
+    try {
+      refreshFarmerReport(address);
+    } catch (err) {
+      console.warn(`Failed to backfill farmer report for ${address}:`, err);
+    }
+  }
+
+  console.log(`✅ Farmer report backfill complete`);
+}
+
 // Wallet queries
 export const walletQueries = {
   getWallet: db.prepare('SELECT * FROM wallets WHERE address = ? AND user_id = ?'),
@@ -318,6 +741,8 @@ export const walletQueries = {
       last_signature = @last_signature,
       total_transactions = @total_transactions,
       total_realized_pnl = @total_realized_pnl,
+      net_realized_pnl = @net_realized_pnl,
+      total_fees = @total_fees,
       win_rate = @win_rate,
       total_sol_volume = @total_sol_volume,
       total_trades = @total_trades,
@@ -326,36 +751,151 @@ export const walletQueries = {
     WHERE address = @address AND user_id = @user_id
   `),
   getAllWallets: db.prepare('SELECT * FROM wallets WHERE user_id = ? ORDER BY created_at DESC'),
+  // Every user's row for an address
+  getWalletRows: db.prepare('SELECT * FROM wallets WHERE address = ?'),
   deleteWallet: db.prepare('DELETE FROM wallets WHERE address = ? AND user_id = ?'),
+  // Fields whose set_ flag is 0 keep their value; a set null clears name or emoji
   updateWalletMetadata: db.prepare(`
-    UPDATE wallets SET name = @name, emoji = @emoji, alerts_on = @alerts_on
+    UPDATE wallets SET
+      name = CASE WHEN @set_name THEN @name ELSE name END,
+      emoji = CASE WHEN @set_emoji THEN @emoji ELSE emoji END,
+      alerts_on = COALESCE(@alerts_on, alerts_on)
+    WHERE address = @address AND user_id = @user_id
+  `),
+  updateSyncInterval: db.prepare(`
+    UPDATE wallets SET sync_interval_sec = @sync_interval_sec
     WHERE address = @address AND user_id = @user_id
   `),
+  // An incremental sync that found nothing new still brings the wallet up to date
+  markSynced: db.prepare('UPDATE wallets SET last_synced_at = ? WHERE address = ? AND user_id = ?'),
+  // Move the history cursor back (never forward) after fetching older signatures
+  updateHistoryCursor: db.prepare(`
+    UPDATE wallets SET
+      oldest_signature = CASE WHEN oldest_timestamp IS NULL OR @oldest_timestamp <= oldest_timestamp THEN @oldest_signature ELSE oldest_signature END,
+      oldest_timestamp = CASE WHEN oldest_timestamp IS NULL OR @oldest_timestamp <= oldest_timestamp THEN @oldest_timestamp ELSE oldest_timestamp END,
+      history_complete = MAX(COALESCE(history_complete, 0), @history_complete)
+    WHERE address = @address AND user_id = @user_id
+  `),
+  updateBackfillTarget: db.prepare(`
+    UPDATE wallets SET backfill_until = @backfill_until
+    WHERE address = @address AND user_id = @user_id
+  `),
+  addTransactionCount: db.prepare(`
+    UPDATE wallets SET total_transactions = COALESCE(total_transactions, 0) + @count
+    WHERE address = @address AND user_id = @user_id
+  `),
+  // Wallets eligible for scheduled incremental syncs (must have completed a first sync)
+  getScheduledWallets: db.prepare(`
+    SELECT address, name, emoji, alerts_on, last_synced_at, sync_interval_sec FROM wallets
+    WHERE user_id = ? AND last_synced_at IS NOT NULL
+  `),
 };
 
 // Transaction queries
 export const txQueries = {
   insertTransaction: db.prepare(`
-    INSERT OR IGNORE INTO transactions (signature, wallet_address, timestamp, block_slot, raw_data, parsed)
-    VALUES (@signature, @wallet_address, @timestamp, @block_slot, @raw_data, @parsed)
+    INSERT OR IGNORE INTO transactions (signature, timestamp, block_slot, raw_data, parsed, format)
+    VALUES (@signature, @timestamp, @block_slot, @raw_data, @parsed, @format)
+  `),
+  insertWalletTransaction: db.prepare(`
+    INSERT OR IGNORE INTO wallet_transactions (wallet_address, signature, timestamp)
+    VALUES (@wallet_address, @signature, @timestamp)
   `),
   getUnparsedTransactions: db.prepare(`
-    SELECT * FROM transactions WHERE wallet_address = ? AND parsed = 0 ORDER BY timestamp ASC
+    SELECT t.* FROM wallet_transactions w
+    JOIN transactions t ON t.signature = w.signature
+    WHERE w.wallet_address = ? AND t.parsed = 0 ORDER BY w.timestamp ASC
   `),
   markParsed: db.prepare('UPDATE transactions SET parsed = 1 WHERE signature = ?'),
+  getTransaction: db.prepare('SELECT * FROM transactions WHERE signature = ?'),
+  getTransactionWallets: db.prepare(`
+    SELECT wallet_address FROM wallet_transactions WHERE signature = ? ORDER BY rowid ASC
+  `),
+  // Already-stored transactions among the given signatures (JSON array), whoever stored them
+  getStoredTransactions: db.prepare(`
+    SELECT signature, raw_data, parsed, format FROM transactions
+    WHERE signature IN (SELECT value FROM json_each(?))
+  `),
   getLatestSignature: db.prepare(`
-    SELECT signature FROM transactions WHERE wallet_address = ? ORDER BY timestamp DESC LIMIT 1
+    SELECT signature FROM wallet_transactions WHERE wallet_address = ? ORDER BY timestamp DESC LIMIT 1
   `),
   getEarliestTimestamp: db.prepare(`
-    SELECT MIN(timestamp) as first_timestamp FROM transactions WHERE wallet_address = ?
+    SELECT MIN(timestamp) as first_timestamp FROM wallet_transactions WHERE wallet_address = ?
+  `),
+  getHistoryBounds: db.prepare(`
+    SELECT COUNT(*) as count, MIN(timestamp) as earliest, MAX(timestamp) as latest
+    FROM wallet_transactions WHERE wallet_address = ? AND timestamp > 0
+  `),
+  // One wallet's raw transactions in participation-rowid batches (used by re-parse)
+  getWalletTransactionsPage: db.prepare(`
+    SELECT w.rowid, t.signature, t.raw_data, t.format FROM wallet_transactions w
+    JOIN transactions t ON t.signature = w.signature
+    WHERE w.wallet_address = ? AND t.parsed = 1 AND w.rowid > ? ORDER BY w.rowid ASC LIMIT ?
+  `),
+  getStoredWalletAddresses: db.prepare('SELECT DISTINCT wallet_address FROM wallet_transactions'),
+  // Keyset pagination over every stored raw transaction (used by offline rebuilds)
+  getParsedTransactionsPage: db.prepare(`
+    SELECT rowid, signature, timestamp, block_slot, raw_data, format FROM transactions
+    WHERE parsed = 1 AND rowid > ? ORDER BY rowid ASC LIMIT ?
   `),
 };
 
+// Sortable trade columns; nullable text is coalesced so keyset comparisons never meet NULL
+const TRADE_SORT_EXPRESSIONS = {
+  timestamp: 'timestamp',
+  type: 'type',
+  token_symbol: "COALESCE(token_symbol, '')",
+  token_amount: 'token_amount',
+  sol_amount: 'sol_amount',
+  price_per_token: 'price_per_token',
+  dex: "COALESCE(dex, '')",
+} as const;
+
+export type TradeSortColumn = keyof typeof TRADE_SORT_EXPRESSIONS;
+
+// Trade search statements by SQL text. The text depends only on which filters are set,
+// the sort and whether there's a cursor, so the cache stays small.
+const tradeSearchStatements = new Map<string, Statement>();
+
+function prepareTradeSearch(sql: string): Statement {
+  let statement = tradeSearchStatements.get(sql);
+  if (!statement) {
+    statement = db.prepare(sql);
+    tradeSearchStatements.set(sql, statement);
+  }
+  return statement;
+}
+
+export interface TradeSearchParams {
+  walletAddress: string;
+  type?: string;
+  tokenMint?: string;
+  dex?: string;
+  minSol?: number;
+  maxSol?: number;
+  from?: number;
+  to?: number;
+  search?: string;          // Symbol substring (case-insensitive) or exact mint
+  sortColumn: TradeSortColumn;
+  descending: boolean;
+  after?: { value: string | number; id: string };
+  limit: number;
+}
+
 // Trade queries
 export const tradeQueries = {
   insertTrade: db.prepare(`
-    INSERT OR REPLACE INTO trades (id, wallet_address, signature, timestamp, type, token_mint, token_symbol, token_amount, sol_amount, price_per_token, dex)
-    VALUES (@id, @wallet_address, @signature, @timestamp, @type, @token_mint, @token_symbol, @token_amount, @sol_amount, @price_per_token, @dex)
+    INSERT OR REPLACE INTO trades (id, wallet_address, signature, timestamp, type, token_mint, token_symbol, token_amount, sol_amount, price_per_token, dex, network_fee, priority_fee, tip, parser_version)
+    VALUES (@id, @wallet_address, @signature, @timestamp, @type, @token_mint, @token_symbol, @token_amount, @sol_amount, @price_per_token, @dex, @network_fee, @priority_fee, @tip, @parser_version)
+  `),
+  // A wallet's stored trades from the given transactions (JSON array of signatures)
+  getTradesForSignatures: db.prepare(`
+    SELECT * FROM trades
+    WHERE wallet_address = ? AND signature IN (SELECT value FROM json_each(?))
+  `),
+  deleteTradesForSignatures: db.prepare(`
+    DELETE FROM trades
+    WHERE wallet_address = ? AND signature IN (SELECT value FROM json_each(?))
   `),
   getTradesByWallet: db.prepare(`
     SELECT * FROM trades WHERE wallet_address = ? ORDER BY timestamp DESC
@@ -366,13 +906,77 @@ export const tradeQueries = {
   getTradesByToken: db.prepare(`
     SELECT * FROM trades WHERE wallet_address = ? AND token_mint = ? ORDER BY timestamp ASC
   `),
+  // Every stored wallet's trades of a mint
+  getTradesByMint: db.prepare(`
+    SELECT * FROM trades WHERE token_mint = ? ORDER BY timestamp ASC
+  `),
+  // Oldest-first batch after a (timestamp, id) position, for exports that page through a wallet
+  getTradesAfter: db.prepare(`
+    SELECT * FROM trades
+    WHERE wallet_address = @wallet_address AND timestamp >= @from
+      AND (timestamp > @after_timestamp OR (timestamp = @after_timestamp AND id > @after_id))
+    ORDER BY timestamp, id
+    LIMIT @limit
+  `),
+  getTradeTimeRange: db.prepare(`
+    SELECT MIN(timestamp) AS first, MAX(timestamp) AS last FROM trades
+    WHERE wallet_address = ? AND timestamp >= ?
+  `),
+  /**
+   * One keyset page of a wallet's trades, plus the filtered total on the first page
+   * (null once there's a cursor). Only the filters that are set become SQL conditions,
+   * so the wallet indexes stay usable.
+   */
+  searchTrades: (params: TradeSearchParams): { rows: unknown[]; total: number | null } => {
+    const conditions = ['wallet_address = @walletAddress'];
+    if (params.type !== undefined) conditions.push('type = @type');
+    if (params.tokenMint !== undefined) conditions.push('token_mint = @tokenMint');
+    if (params.dex !== undefined) conditions.push('dex = @dex COLLATE NOCASE');
+    if (params.minSol !== undefined) conditions.push('sol_amount >= @minSol');
+    if (params.maxSol !== undefined) conditions.push('sol_amount <= @maxSol');
+    if (params.from !== undefined) conditions.push('timestamp >= @from');
+    if (params.to !== undefined) conditions.push('timestamp <= @to');
+    if (params.search !== undefined) {
+      conditions.push("(token_symbol LIKE @searchPattern ESCAPE '\\' OR token_mint = @search)");
+    }
+
+    // Unreferenced keys are ignored by better-sqlite3, so one binding object serves both statements
+    const { after, sortColumn, descending, ...filters } = params;
+    const bindings = {
+      ...filters,
+      searchPattern: params.search !== undefined ? `%${params.search.replace(/[\\%_]/g, '\\$&')}%` : undefined,
+      afterValue: after?.value,
+      afterId: after?.id,
+    };
+
+    const where = conditions.join(' AND ');
+    const total = after
+      ? null
+      : (prepareTradeSearch(`SELECT COUNT(*) AS total FROM trades WHERE ${where}`).get(bindings) as { total: number }).total;
+
+    const sort = TRADE_SORT_EXPRESSIONS[sortColumn];
+    const direction = descending ? 'DESC' : 'ASC';
+    const comparison = descending ? '<' : '>';
+    const keyset = after
+      ? ` AND (${sort} ${comparison} @afterValue OR (${sort} = @afterValue AND id ${comparison} @afterId))`
+      : '';
+
+    const rows = prepareTradeSearch(`
+      SELECT * FROM trades
+      WHERE ${where}${keyset}
+      ORDER BY ${sort} ${direction}, id ${direction}
+      LIMIT @limit
+    `).all(bindings);
+
+    return { rows, total };
+  },
 };
 
 // Position queries
 export const positionQueries = {
   upsertPosition: db.prepare(`
-    INSERT INTO positions (wallet_address, token_mint, token_symbol, total_bought, total_sold, total_cost_basis, total_proceeds, remaining_tokens, average_buy_price, realized_pnl, trade_count, win_count, first_trade_at, last_trade_at)
-    VALUES (@wallet_address, @token_mint, @token_symbol, @total_bought, @total_sold, @total_cost_basis, @total_proceeds, @remaining_tokens, @average_buy_price, @realized_pnl, @trade_count, @win_count, @first_trade_at, @last_trade_at)
+    INSERT INTO positions (wallet_address, token_mint, token_symbol, total_bought, total_sold, total_cost_basis, total_proceeds, remaining_tokens, average_buy_price, realized_pnl, total_fees, trade_count, win_count, first_trade_at, last_trade_at)
+    VALUES (@wallet_address, @token_mint, @token_symbol, @total_bought, @total_sold, @total_cost_basis, @total_proceeds, @remaining_tokens, @average_buy_price, @realized_pnl, @total_fees, @trade_count, @win_count, @first_trade_at, @last_trade_at)
     ON CONFLICT(wallet_address, token_mint) DO UPDATE SET
       token_symbol = @token_symbol,
       total_bought = @total_bought,
@@ -382,6 +986,7 @@ export const positionQueries = {
       remaining_tokens = @remaining_tokens,
       average_buy_price = @average_buy_price,
       realized_pnl = @realized_pnl,
+      total_fees = @total_fees,
       trade_count = @trade_count,
       win_count = @win_count,
       first_trade_at = @first_trade_at,
@@ -390,7 +995,14 @@ export const positionQueries = {
   getPositionsByWallet: db.prepare(`
     SELECT * FROM positions WHERE wallet_address = ? ORDER BY realized_pnl DESC
   `),
+  getPositionsByMint: db.prepare(`
+    SELECT * FROM positions WHERE token_mint = ? ORDER BY realized_pnl DESC
+  `),
   deletePositionsByWallet: db.prepare('DELETE FROM positions WHERE wallet_address = ?'),
+  // Mints the wallet still holds more than dust of
+  getOpenMintsByWallet: db.prepare(`
+    SELECT token_mint FROM positions WHERE wallet_address = ? AND remaining_tokens > total_bought * 0.000001
+  `),
 };
 
 // Cost basis lot queries
@@ -451,7 +1063,9 @@ export const tokenLaunchQueries = {
       first_slot = CASE 
         WHEN excluded.first_timestamp < token_launches.first_timestamp OR token_launches.first_timestamp IS NULL 
         THEN excluded.first_slot ELSE token_launches.first_slot END,
-      source = COALESCE(token_launches.source, excluded.source)
+      source = CASE 
+        WHEN excluded.first_timestamp < token_launches.first_timestamp OR token_launches.first_timestamp IS NULL 
+        THEN excluded.source ELSE COALESCE(token_launches.source, excluded.source) END
   `),
   getLaunch: db.prepare('SELECT * FROM token_launches WHERE mint = ?'),
   getLaunchesForMints: (mints: string[]) => {
@@ -460,27 +1074,31 @@ export const tokenLaunchQueries = {
     return db.prepare(`SELECT * FROM token_launches WHERE mint IN (${placeholders})`).all(...mints);
   },
   getAllLaunches: db.prepare('SELECT * FROM token_launches'),
+  countLaunches: db.prepare('SELECT COUNT(*) as count FROM token_launches'),
+  deleteAllLaunches: db.prepare('DELETE FROM token_launches'),
 };
 
 // Follow score queries
 export const followScoreQueries = {
   upsertScore: db.prepare(`
     INSERT INTO wallet_follow_scores (
-      wallet_address, delay_seconds, slippage_model,
+      wallet_address, delay_seconds, slippage_model, slippage_profile_id, pricing,
       actual_pnl, simulated_pnl, followability_ratio,
       avg_time_to_first_sell_sec, median_time_to_first_sell_sec, quick_dump_rate,
       total_tokens_traded, followable_tokens, unfollowable_tokens,
-      avg_entry_size_sol, scored_at
+      avg_entry_size_sol, tape_priced_legs, estimated_legs, scored_at
     ) VALUES (
-      @wallet_address, @delay_seconds, @slippage_model,
+      @wallet_address, @delay_seconds, @slippage_model, @slippage_profile_id, @pricing,
       @actual_pnl, @simulated_pnl, @followability_ratio,
       @avg_time_to_first_sell_sec, @median_time_to_first_sell_sec, @quick_dump_rate,
       @total_tokens_traded, @followable_tokens, @unfollowable_tokens,
-      @avg_entry_size_sol, @scored_at
+      @avg_entry_size_sol, @tape_priced_legs, @estimated_legs, @scored_at
     )
     ON CONFLICT(wallet_address) DO UPDATE SET
       delay_seconds = @delay_seconds,
       slippage_model = @slippage_model,
+      slippage_profile_id = @slippage_profile_id,
+      pricing = @pricing,
       actual_pnl = @actual_pnl,
       simulated_pnl = @simulated_pnl,
       followability_ratio = @followability_ratio,
@@ -491,6 +1109,8 @@ export const followScoreQueries = {
       followable_tokens = @followable_tokens,
       unfollowable_tokens = @unfollowable_tokens,
       avg_entry_size_sol = @avg_entry_size_sol,
+      tape_priced_legs = @tape_priced_legs,
+      estimated_legs = @estimated_legs,
       scored_at = @scored_at
   `),
   getScore: db.prepare('SELECT * FROM wallet_follow_scores WHERE wallet_address = ?'),
@@ -498,3 +1118,481 @@ export const followScoreQueries = {
   getTopScores: db.prepare('SELECT * FROM wallet_follow_scores WHERE followability_ratio > 0 ORDER BY followability_ratio DESC LIMIT ?'),
   deleteScore: db.prepare('DELETE FROM wallet_follow_scores WHERE wallet_address = ?'),
 };
+
+// Slippage profile queries
+export const slippageProfileQueries = {
+  insertProfile: db.prepare(`
+    INSERT INTO slippage_profiles (user_id, name, description, buckets, dex_overrides, drift_per_second, created_at, updated_at)
+    VALUES (@user_id, @name, @description, @buckets, @dex_overrides, @drift_per_second, @created_at, @updated_at)
+  `),
+  getProfiles: db.prepare('SELECT * FROM slippage_profiles WHERE user_id = ? ORDER BY created_at DESC, id DESC'),
+  getProfile: db.prepare('SELECT * FROM slippage_profiles WHERE id = ?'),
+  updateProfile: db.prepare(`
+    UPDATE slippage_profiles SET
+      name = @name,
+      description = @description,
+      buckets = @buckets,
+      dex_overrides = @dex_overrides,
+      drift_per_second = @drift_per_second,
+      updated_at = @updated_at
+    WHERE id = @id AND user_id = @user_id
+  `),
+  deleteProfile: db.prepare('DELETE FROM slippage_profiles WHERE id = ? AND user_id = ?'),
+};
+
+// Follow sweep queries
+export const followSweepQueries = {
+  upsertPoint: db.prepare(`
+    INSERT INTO wallet_follow_sweeps (
+      wallet_address, delay_seconds, slippage_model,
+      actual_pnl, simulated_pnl, followability_ratio,
+      total_tokens_traded, followable_tokens, scored_at
+    ) VALUES (
+      @wallet_address, @delay_seconds, @slippage_model,
+      @actual_pnl, @simulated_pnl, @followability_ratio,
+      @total_tokens_traded, @followable_tokens, @scored_at
+    )
+    ON CONFLICT(wallet_address, delay_seconds, slippage_model) DO UPDATE SET
+      actual_pnl = @actual_pnl,
+      simulated_pnl = @simulated_pnl,
+      followability_ratio = @followability_ratio,
+      total_tokens_traded = @total_tokens_traded,
+      followable_tokens = @followable_tokens,
+      scored_at = @scored_at
+  `),
+  getPointsByWallet: db.prepare(`
+    SELECT * FROM wallet_follow_sweeps
+    WHERE wallet_address = ?
+    ORDER BY slippage_model, delay_seconds
+  `),
+  getPointsByModel: db.prepare(`
+    SELECT * FROM wallet_follow_sweeps
+    WHERE slippage_model = ?
+    ORDER BY wallet_address, delay_seconds
+  `),
+};
+
+// Per-timeframe ranking stats
+export const timeframeStatsQueries = {
+  upsertStats: db.prepare(`
+    INSERT INTO wallet_timeframe_stats (
+      wallet_address, timeframe, realized_pnl, net_realized_pnl, total_fees,
+      win_rate, total_sol_volume, total_trades,
+      simulated_pnl, followability_ratio, avg_time_to_first_sell_sec, quick_dump_rate,
+      computed_at
+    ) VALUES (
+      @wallet_address, @timeframe, @realized_pnl, @net_realized_pnl, @total_fees,
+      @win_rate, @total_sol_volume, @total_trades,
+      @simulated_pnl, @followability_ratio, @avg_time_to_first_sell_sec, @quick_dump_rate,
+      @computed_at
+    )
+    ON CONFLICT(wallet_address, timeframe) DO UPDATE SET
+      realized_pnl = @realized_pnl,
+      net_realized_pnl = @net_realized_pnl,
+      total_fees = @total_fees,
+      win_rate = @win_rate,
+      total_sol_volume = @total_sol_volume,
+      total_trades = @total_trades,
+      simulated_pnl = @simulated_pnl,
+      followability_ratio = @followability_ratio,
+      avg_time_to_first_sell_sec = @avg_time_to_first_sell_sec,
+      quick_dump_rate = @quick_dump_rate,
+      computed_at = @computed_at
+  `),
+  getStatsByTimeframe: db.prepare('SELECT * FROM wallet_timeframe_stats WHERE timeframe = ?'),
+  // Composite ranking order: simulated follow PnL first, actual PnL for unscored wallets
+  getRankingOrder: db.prepare(`
+    SELECT wallet_address, rank, previous_rank, previous_rank_at
+    FROM wallet_timeframe_stats
+    WHERE timeframe = ?
+    ORDER BY simulated_pnl IS NULL, simulated_pnl DESC, realized_pnl DESC, wallet_address
+  `),
+  updateRank: db.prepare(`
+    UPDATE wallet_timeframe_stats
+    SET rank = @rank, previous_rank = @previous_rank, previous_rank_at = @previous_rank_at
+    WHERE wallet_address = @wallet_address AND timeframe = @timeframe
+  `),
+  getWalletsMissingStats: db.prepare(`
+    SELECT DISTINCT address FROM wallets
+    WHERE total_trades > 0
+      AND address NOT IN (SELECT wallet_address FROM wallet_timeframe_stats)
+  `),
+};
+
+// Alert rule queries
+export const alertRuleQueries = {
+  insertRule: db.prepare(`
+    INSERT INTO alert_rules (user_id, wallet_address, type, threshold, enabled, created_at)
+    VALUES (@user_id, @wallet_address, @type, @threshold, @enabled, @created_at)
+  `),
+  getRules: db.prepare('SELECT * FROM alert_rules WHERE user_id = ? ORDER BY created_at DESC'),
+  getActiveRulesForWallet: db.prepare(`
+    SELECT * FROM alert_rules
+    WHERE user_id = ? AND enabled = 1 AND (wallet_address IS NULL OR wallet_address = ?)
+  `),
+  getRule: db.prepare('SELECT * FROM alert_rules WHERE id = ? AND user_id = ?'),
+  // The threshold is only written when set_threshold is 1, so a set null clears it
+  updateRule: db.prepare(`
+    UPDATE alert_rules SET
+      threshold = CASE WHEN @set_threshold THEN @threshold ELSE threshold END,
+      enabled = COALESCE(@enabled, enabled)
+    WHERE id = @id AND user_id = @user_id
+  `),
+  deleteRule: db.prepare('DELETE FROM alert_rules WHERE id = ? AND user_id = ?'),
+};
+
+// Alert sink queries
+export const alertSinkQueries = {
+  insertSink: db.prepare(`
+    INSERT INTO alert_sinks (user_id, kind, name, url, chat_id, enabled, created_at)
+    VALUES (@user_id, @kind, @name, @url, @chat_id, @enabled, @created_at)
+  `),
+  getSinks: db.prepare('SELECT * FROM alert_sinks WHERE user_id = ? ORDER BY created_at DESC'),
+  getEnabledSinks: db.prepare('SELECT * FROM alert_sinks WHERE user_id = ? AND enabled = 1'),
+  deleteSink: db.prepare('DELETE FROM alert_sinks WHERE id = ? AND user_id = ?'),
+};
+
+// Alert history queries
+export const alertHistoryQueries = {
+  insertAlert: db.prepare(`
+    INSERT INTO alert_history (user_id, rule_id, rule_type, wallet_address, token_mint, signature, message, details, delivered_to, created_at)
+    VALUES (@user_id, @rule_id, @rule_type, @wallet_address, @token_mint, @signature, @message, @details, @delivered_to, @created_at)
+  `),
+  updateDeliveredTo: db.prepare('UPDATE alert_history SET delivered_to = ? WHERE id = ?'),
+  getRecentAlerts: db.prepare(`
+    SELECT h.*, w.name AS wallet_name, w.emoji AS wallet_emoji
+    FROM alert_history h
+    LEFT JOIN wallets w ON w.address = h.wallet_address AND w.user_id = h.user_id
+    WHERE h.user_id = ? AND h.created_at >= ?
+    ORDER BY h.created_at DESC, h.id DESC
+    LIMIT ?
+  `),
+  getRecentAlertsForWallet: db.prepare(`
+    SELECT h.*, w.name AS wallet_name, w.emoji AS wallet_emoji
+    FROM alert_history h
+    LEFT JOIN wallets w ON w.address = h.wallet_address AND w.user_id = h.user_id
+    WHERE h.user_id = ? AND h.wallet_address = ? AND h.created_at >= ?
+    ORDER BY h.created_at DESC, h.id DESC
+    LIMIT ?
+  `),
+};
+
+// Sync job queries
+export const syncJobQueries = {
+  insertJob: db.prepare(`
+    INSERT INTO sync_jobs (user_id, kind, status, addresses, force_refresh, timeframe, until_timestamp, dry_run, total, results, created_at)
+    VALUES (@user_id, @kind, 'queued', @addresses, @force_refresh, @timeframe, @until_timestamp, @dry_run, @total, '[]', @created_at)
+  `),
+  getJob: db.prepare('SELECT * FROM sync_jobs WHERE id = ?'),
+  getRecentJobs: db.prepare('SELECT * FROM sync_jobs WHERE user_id = ? ORDER BY id DESC LIMIT ?'),
+  getActiveJobs: db.prepare(`
+    SELECT * FROM sync_jobs WHERE user_id = ? AND status IN ('queued', 'running') ORDER BY id
+  `),
+  getNextQueuedJob: db.prepare("SELECT * FROM sync_jobs WHERE status = 'queued' ORDER BY id LIMIT 1"),
+  getJobStatus: db.prepare('SELECT status FROM sync_jobs WHERE id = ?'),
+  markRunning: db.prepare(`
+    UPDATE sync_jobs SET status = 'running', started_at = COALESCE(started_at, @started_at)
+    WHERE id = @id AND status = 'queued'
+  `),
+  updateProgress: db.prepare(`
+    UPDATE sync_jobs SET completed = @completed, failed = @failed, current_address = @current_address, results = @results
+    WHERE id = @id
+  `),
+  // Only a running job can finish; a cancel that landed mid-wallet wins
+  finishJob: db.prepare(`
+    UPDATE sync_jobs SET status = @status, result = @result, error = @error, current_address = NULL, finished_at = @finished_at
+    WHERE id = @id AND status = 'running'
+  `),
+  cancelJob: db.prepare(`
+    UPDATE sync_jobs SET status = 'cancelled', current_address = NULL, finished_at = ?
+    WHERE id = ? AND status IN ('queued', 'running')
+  `),
+  // Jobs interrupted by a restart go back to the queue and resume after their last processed wallet
+  requeueInterruptedJobs: db.prepare("UPDATE sync_jobs SET status = 'queued', current_address = NULL WHERE status = 'running'"),
+};
+
+// Price snapshot queries
+export const priceQueries = {
+  // Most recent trade for a mint across every stored wallet
+  getLatestTradePrice: db.prepare(`
+    SELECT price_per_token, timestamp, signature FROM trades
+    WHERE token_mint = ? AND price_per_token > 0
+    ORDER BY timestamp DESC LIMIT 1
+  `),
+  insertSnapshot: db.prepare(`
+    INSERT OR IGNORE INTO price_snapshots (mint, price_sol, source, observed_at, signature, recorded_at)
+    VALUES (@mint, @price_sol, @source, @observed_at, @signature, @recorded_at)
+  `),
+  getLatestSnapshot: db.prepare(`
+    SELECT * FROM price_snapshots WHERE mint = ? ORDER BY observed_at DESC, id DESC LIMIT 1
+  `),
+  getSnapshots: db.prepare(`
+    SELECT * FROM price_snapshots WHERE mint = ? AND observed_at >= ? ORDER BY observed_at DESC LIMIT ?
+  `),
+  // Every priced print of a mint across all stored wallets, oldest first
+  getTradeTape: db.prepare(`
+    SELECT timestamp, price_per_token FROM trades
+    WHERE token_mint = ? AND price_per_token > 0
+    ORDER BY timestamp
+  `),
+  upsertSolUsdRate: db.prepare(`
+    INSERT OR REPLACE INTO sol_usd_rates (day, usd, source, recorded_at)
+    VALUES (@day, @usd, @source, @recorded_at)
+  `),
+  getSolUsdRates: db.prepare('SELECT day, usd FROM sol_usd_rates WHERE day BETWEEN ? AND ? ORDER BY day'),
+};
+
+// Paper trading queries
+export const paperQueries = {
+  insertPortfolio: db.prepare(`
+    INSERT INTO paper_portfolios (
+      user_id, name, wallets, start_at, starting_balance_sol, entry_size_sol, max_positions,
+      stop_loss, take_profit, delay_seconds, slippage_model, slippage_profile_id, pricing,
+      cash_sol, realized_pnl, processed_through, created_at, updated_at
+    ) VALUES (
+      @user_id, @name, @wallets, @start_at, @starting_balance_sol, @entry_size_sol, @max_positions,
+      @stop_loss, @take_profit, @delay_seconds, @slippage_model, @slippage_profile_id, @pricing,
+      @starting_balance_sol, 0, @start_at, @created_at, @created_at
+    )
+  `),
+  getPortfolios: db.prepare('SELECT * FROM paper_portfolios WHERE user_id = ? ORDER BY created_at DESC, id DESC'),
+  getPortfolio: db.prepare('SELECT * FROM paper_portfolios WHERE id = ?'),
+  getPortfoliosFollowing: db.prepare(`
+    SELECT * FROM paper_portfolios
+    WHERE EXISTS (SELECT 1 FROM json_each(paper_portfolios.wallets) WHERE value = ?)
+  `),
+  updatePortfolioState: db.prepare(`
+    UPDATE paper_portfolios SET
+      cash_sol = @cash_sol,
+      realized_pnl = @realized_pnl,
+      processed_through = @processed_through,
+      updated_at = @updated_at
+    WHERE id = @id
+  `),
+  // Rewind to the starting balance so the portfolio replays from start_at
+  resetPortfolio: db.prepare(`
+    UPDATE paper_portfolios SET
+      cash_sol = starting_balance_sol, realized_pnl = 0, processed_through = start_at, updated_at = ?
+    WHERE id = ?
+  `),
+  deletePortfolio: db.prepare('DELETE FROM paper_portfolios WHERE id = ? AND user_id = ?'),
+
+  // Followed wallets' trades in (after, until], oldest first
+  getFollowedTrades: db.prepare(`
+    SELECT * FROM trades
+    WHERE wallet_address IN (SELECT value FROM json_each(@wallets))
+      AND timestamp > @after AND timestamp <= @until
+    ORDER BY timestamp, id
+  `),
+
+  getPositions: db.prepare('SELECT * FROM paper_positions WHERE portfolio_id = ? ORDER BY opened_at'),
+  upsertPosition: db.prepare(`
+    INSERT INTO paper_positions (
+      portfolio_id, token_mint, token_symbol, dex, source_wallet, token_amount, cost_sol,
+      entry_price, leader_token_amount, opened_at, mark_price, mark_at
+    ) VALUES (
+      @portfolio_id, @token_mint, @token_symbol, @dex, @source_wallet, @token_amount, @cost_sol,
+      @entry_price, @leader_token_amount, @opened_at, @mark_price, @mark_at
+    )
+    ON CONFLICT(portfolio_id, token_mint) DO UPDATE SET
+      token_amount = @token_amount,
+      cost_sol = @cost_sol,
+      leader_token_amount = @leader_token_amount,
+      mark_price = @mark_price,
+      mark_at = @mark_at
+  `),
+  deletePosition: db.prepare('DELETE FROM paper_positions WHERE portfolio_id = ? AND token_mint = ?'),
+  deletePositions: db.prepare('DELETE FROM paper_positions WHERE portfolio_id = ?'),
+
+  insertFill: db.prepare(`
+    INSERT INTO paper_fills (
+      portfolio_id, side, reason, token_mint, token_symbol, source_wallet, source_trade_id,
+      timestamp, token_amount, sol_amount, price, realized_pnl
+    ) VALUES (
+      @portfolio_id, @side, @reason, @token_mint, @token_symbol, @source_wallet, @source_trade_id,
+      @timestamp, @token_amount, @sol_amount, @price, @realized_pnl
+    )
+  `),
+  getFills: db.prepare('SELECT * FROM paper_fills WHERE portfolio_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?'),
+  deleteFills: db.prepare('DELETE FROM paper_fills WHERE portfolio_id = ?'),
+
+  insertBalance: db.prepare(`
+    INSERT INTO paper_balances (portfolio_id, timestamp, cash_sol, positions_value_sol, equity_sol)
+    VALUES (@portfolio_id, @timestamp, @cash_sol, @positions_value_sol, @equity_sol)
+  `),
+  getBalances: db.prepare('SELECT * FROM paper_balances WHERE portfolio_id = ? ORDER BY timestamp, id'),
+  deleteBalances: db.prepare('DELETE FROM paper_balances WHERE portfolio_id = ?'),
+};
+
+// Realization ledger queries
+export const realizationQueries = {
+  insertRealization: db.prepare(`
+    INSERT OR REPLACE INTO realizations (
+      sell_trade_id, wallet_address, token_mint, signature, timestamp,
+      amount, matched_amount, cost_basis, proceeds, realized_pnl
+    ) VALUES (
+      @sell_trade_id, @wallet_address, @token_mint, @signature, @timestamp,
+      @amount, @matched_amount, @cost_basis, @proceeds, @realized_pnl
+    )
+  `),
+  insertRealizationLot: db.prepare(`
+    INSERT INTO realization_lots (
+      sell_trade_id, wallet_address, buy_trade_id, buy_timestamp, buy_price,
+      amount, cost_basis, proceeds, realized_pnl
+    ) VALUES (
+      @sell_trade_id, @wallet_address, @buy_trade_id, @buy_timestamp, @buy_price,
+      @amount, @cost_basis, @proceeds, @realized_pnl
+    )
+  `),
+  // Optional mint and [from, to] filters; NULL means unfiltered
+  getRealizations: db.prepare(`
+    SELECT r.*, t.token_symbol FROM realizations r
+    LEFT JOIN trades t ON t.id = r.sell_trade_id
+    WHERE r.wallet_address = @wallet_address
+      AND (@token_mint IS NULL OR r.token_mint = @token_mint)
+      AND (@from IS NULL OR r.timestamp >= @from)
+      AND (@to IS NULL OR r.timestamp <= @to)
+    ORDER BY r.timestamp DESC
+    LIMIT @limit
+  `),
+  // Oldest-first batch after a (timestamp, sell_trade_id) position, for exports
+  getRealizationsAfter: db.prepare(`
+    SELECT r.*, t.token_symbol FROM realizations r
+    LEFT JOIN trades t ON t.id = r.sell_trade_id
+    WHERE r.wallet_address = @wallet_address AND r.timestamp >= @from
+      AND (r.timestamp > @after_timestamp OR (r.timestamp = @after_timestamp AND r.sell_trade_id > @after_id))
+    ORDER BY r.timestamp, r.sell_trade_id
+    LIMIT @limit
+  `),
+  getLotsForSells: db.prepare(`
+    SELECT l.*, t.signature AS buy_signature, r.timestamp - l.buy_timestamp AS holding_period
+    FROM realization_lots l
+    JOIN realizations r ON r.sell_trade_id = l.sell_trade_id
+    LEFT JOIN trades t ON t.id = l.buy_trade_id
+    WHERE l.sell_trade_id IN (SELECT value FROM json_each(?))
+    ORDER BY l.buy_timestamp ASC
+  `),
+  deleteRealizationsByWallet: db.prepare('DELETE FROM realizations WHERE wallet_address = ?'),
+  deleteRealizationLotsByWallet: db.prepare('DELETE FROM realization_lots WHERE wallet_address = ?'),
+};
+
+// Copytrade-farmer detection
+export const farmerReportQueries = {
+  upsertReport: db.prepare(`
+    INSERT INTO wallet_farmer_reports (wallet_address, score, verdict, signals, evidence, computed_at)
+    VALUES (@wallet_address, @score, @verdict, @signals, @evidence, @computed_at)
+    ON CONFLICT(wallet_address) DO UPDATE SET
+      score = @score,
+      verdict = @verdict,
+      signals = @signals,
+      evidence = @evidence,
+      computed_at = @computed_at
+  `),
+  getReport: db.prepare('SELECT * FROM wallet_farmer_reports WHERE wallet_address = ?'),
+  // Badge fields only, for the catalog and rankings
+  getVerdicts: db.prepare('SELECT wallet_address, score, verdict FROM wallet_farmer_reports'),
+  // Block slots come from the stored raw transaction when there is one
+  getWalletTrades: db.prepare(`
+    SELECT t.wallet_address, t.signature, t.timestamp, t.type, t.token_mint, t.token_symbol, t.sol_amount,
+           tx.block_slot
+    FROM trades t
+    LEFT JOIN transactions tx ON tx.signature = t.signature
+    WHERE t.wallet_address = ?
+    ORDER BY t.timestamp ASC
+  `),
+  // Other catalog wallets' buys of the mints this wallet has sold
+  getOtherBuysForSoldMints: db.prepare(`
+    SELECT t.wallet_address, t.signature, t.timestamp, t.type, t.token_mint, t.token_symbol, t.sol_amount,
+           tx.block_slot
+    FROM trades t
+    LEFT JOIN transactions tx ON tx.signature = t.signature
+    WHERE t.type = 'buy'
+      AND t.wallet_address != @wallet_address
+      AND t.token_mint IN (
+        SELECT DISTINCT token_mint FROM trades WHERE wallet_address = @wallet_address AND type = 'sell'
+      )
+    ORDER BY t.timestamp ASC
+  `),
+  // Launches with direct evidence (mint / pool creation) for the mints this wallet has bought
+  getLaunchesForBoughtMints: db.prepare(`
+    SELECT mint, first_signature, first_timestamp, first_slot, source FROM token_launches
+    WHERE source IN ('mint', 'pool_init')
+      AND mint IN (SELECT DISTINCT token_mint FROM trades WHERE wallet_address = ? AND type = 'buy')
+  `),
+  // Stored reports that count this wallet's buys as follower buys: wallets that sold a mint it bought
+  getReportsSellingBoughtMints: db.prepare(`
+    SELECT DISTINCT r.wallet_address FROM wallet_farmer_reports r
+    JOIN trades t ON t.wallet_address = r.wallet_address
+    WHERE t.type = 'sell'
+      AND r.wallet_address != @wallet_address
+      AND t.token_mint IN (
+        SELECT DISTINCT token_mint FROM trades WHERE wallet_address = @wallet_address AND type = 'buy'
+      )
+  `),
+  isCatalogWallet: db.prepare('SELECT 1 FROM wallets WHERE address = ? LIMIT 1'),
+  getWalletsMissingReports: db.prepare(`
+    SELECT DISTINCT address FROM wallets
+    WHERE total_trades > 0
+      AND address NOT IN (SELECT wallet_address FROM wallet_farmer_reports)
+  `),
+};
+
+// Cross-wallet co-trading (grouped by mint so the token indexes serve the scan)
+export const coTradingQueries = {
+  // First buy and first sell per wallet and mint
+  getMintEntries: db.prepare(`
+    SELECT token_mint, wallet_address,
+           MIN(CASE WHEN type = 'buy' THEN timestamp END) AS first_buy,
+           MIN(CASE WHEN type = 'sell' THEN timestamp END) AS first_sell
+    FROM trades
+    GROUP BY token_mint, wallet_address
+    ORDER BY token_mint
+  `),
+  // Same, limited to the mints one wallet has traded
+  getMintEntriesForWallet: db.prepare(`
+    SELECT token_mint, wallet_address,
+           MIN(CASE WHEN type = 'buy' THEN timestamp END) AS first_buy,
+           MIN(CASE WHEN type = 'sell' THEN timestamp END) AS first_sell
+    FROM trades
+    WHERE token_mint IN (SELECT DISTINCT token_mint FROM trades WHERE wallet_address = ?)
+    GROUP BY token_mint, wallet_address
+    ORDER BY token_mint
+  `),
+  getMintCounts: db.prepare(`
+    SELECT wallet_address, COUNT(DISTINCT token_mint) AS mints FROM trades GROUP BY wallet_address
+  `),
+};
+
+// Helius credit accounting
+export const usageQueries = {
+  recordUsage: db.prepare(`
+    INSERT INTO helius_usage (day, api_key, endpoint, wallet_address, requests, credits)
+    VALUES (@day, @api_key, @endpoint, @wallet_address, 1, @credits)
+    ON CONFLICT(day, api_key, endpoint, wallet_address) DO UPDATE SET
+      requests = requests + 1,
+      credits = credits + @credits
+  `),
+  getDayTotals: db.prepare(`
+    SELECT COALESCE(SUM(credits), 0) AS credits, COALESCE(SUM(requests), 0) AS requests
+    FROM helius_usage WHERE day = ?
+  `),
+  getUsageByKey: db.prepare(`
+    SELECT api_key, SUM(credits) AS credits, SUM(requests) AS requests
+    FROM helius_usage WHERE day = ? GROUP BY api_key
+  `),
+  getUsageByEndpoint: db.prepare(`
+    SELECT endpoint, SUM(credits) AS credits, SUM(requests) AS requests
+    FROM helius_usage WHERE day = ? GROUP BY endpoint ORDER BY credits DESC
+  `),
+  // Names come from any user's catalog entry
+  getUsageByWallet: db.prepare(`
+    SELECT u.wallet_address, SUM(u.credits) AS credits, SUM(u.requests) AS requests,
+           (SELECT name FROM wallets w WHERE w.address = u.wallet_address AND w.name IS NOT NULL LIMIT 1) AS name
+    FROM helius_usage u WHERE u.day = ?
+    GROUP BY u.wallet_address ORDER BY credits DESC LIMIT ?
+  `),
+  getDailyHistory: db.prepare(`
+    SELECT day, SUM(credits) AS credits, SUM(requests) AS requests
+    FROM helius_usage WHERE day BETWEEN ? AND ? GROUP BY day ORDER BY day
+  `),
+};
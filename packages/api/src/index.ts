@@ -2,8 +2,12 @@ import dotenv from 'dotenv';
 import express from 'express';
 import cors from 'cors';
 import { walletRouter } from './routes/wallet.js';
-import { initDatabase, backfillBehaviorStats } from './db/index.js';
+import { initDatabase, backfillBehaviorStats, backfillTimeframeStats, backfillFarmerReports } from './db/index.js';
 import { buildWalletProfile } from './services/profile.js';
+import { refreshTimeframeStats, rerankTimeframes } from './services/discovery.js';
+import { refreshFarmerReport } from './services/farmerDetector.js';
+import { syncScheduler } from './services/scheduler.js';
+import { syncJobWorker } from './services/jobs.js';
 
 dotenv.config();
 
@@ -20,6 +24,12 @@ initDatabase();
 // Backfill behavior stats for existing wallets (runs once if needed)
 backfillBehaviorStats(buildWalletProfile);
 
+// Materialize discovery ranking stats for wallets synced before they existed
+backfillTimeframeStats((address) => refreshTimeframeStats(address), rerankTimeframes);
+
+// Score copytrade-farmer signals for wallets synced before the detector existed
+backfillFarmerReports(refreshFarmerReport);
+
 // Routes
 app.use('/api/wallet', walletRouter);
 
@@ -36,4 +46,6 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 app.listen(PORT, () => {
   console.log(`⚰️ Funeral Vision API running on http://localhost:${PORT}`);
+  syncJobWorker.start();
+  syncScheduler.start();
 });
@@ -1,25 +1,94 @@
 import { Router, type Request, type Response } from 'express';
 import { PublicKey } from '@solana/web3.js';
-import type { Timeframe, Trade, CatalogWallet, WalletImportPayload, AggregatedStats, WalletPnLBreakdown } from '@funeral-vision/shared';
-import { getHeliusService } from '../services/helius.js';
-import { parseEnhancedTransactions } from '../services/parser.js';
+import {
+  type Timeframe,
+  type Trade,
+  type CatalogWallet,
+  type WalletImportPayload,
+  type CostBasisMethod,
+  type SlippageModel,
+  type FollowPricing,
+  type SlippageProfileInput,
+  type PaperPortfolioInput,
+  type CoTradingSettings,
+  type TradeQuery,
+  type ExportKind,
+  type ExportFormat,
+  type ExportCurrency,
+  COST_BASIS_METHODS,
+  DEFAULT_COST_BASIS_METHOD,
+  TIMEFRAME_SECONDS,
+  TIMEFRAMES,
+  EXPORT_KINDS,
+  EXPORT_FORMATS,
+  EXPORT_CURRENCIES,
+  SLIPPAGE_MODELS,
+  FOLLOW_PRICING_MODES,
+  DEFAULT_SWEEP_DELAYS_SECONDS,
+} from '@funeral-vision/shared';
+import { getHeliusService, getHeliusKeyStates } from '../services/helius.js';
+import { getHeliusUsage } from '../services/heliusUsage.js';
 import {
   generatePnLSummary,
   getTradesForWallet,
   getPositionsForWallet,
+  getRealizationsForWallet,
+  queryTradesForWallet,
+  validateTradeQuery,
 } from '../services/pnl.js';
-import { walletQueries, txQueries, tradeQueries, tokenQueries, db } from '../db/index.js';
+import { walletQueries, tokenQueries, alertRuleQueries, alertSinkQueries } from '../db/index.js';
 import { statusEmitter, type StatusEvent } from '../services/statusEmitter.js';
 import { buildWalletProfile } from '../services/profile.js';
-import { rankProfitableWallets } from '../services/discovery.js';
+import { writeExport, type ExportSink } from '../services/exports.js';
+import { reparseWallet, getReparseableWallets } from '../services/reparse.js';
+import { getSolUsdProvider } from '../services/solUsdRates.js';
+import {
+  rankProfitableWallets,
+  refreshTimeframeStats,
+  rerankTimeframes,
+  refreshAllTimeframeStats,
+} from '../services/discovery.js';
+import { backfillTokenLaunches } from '../services/launches.js';
+import { syncWalletOnce, isWalletSyncing } from '../services/sync.js';
+import { syncScheduler } from '../services/scheduler.js';
+import { getHistoryCoverage } from '../services/backfill.js';
+import { refreshProviderPrices } from '../services/pricing.js';
+import { enqueueSyncJob, getSyncJob, getSyncJobs, cancelSyncJob } from '../services/jobs.js';
+import {
+  getAlertHistory,
+  getAlertRules,
+  getAlertSinks,
+  createAlertRule,
+  updateAlertRule,
+  ALERT_RULE_TYPES,
+} from '../services/alerts.js';
+import { ALERT_SINK_KINDS } from '../services/alertSinks.js';
+import {
+  getSlippageProfiles,
+  getSlippageProfile,
+  createSlippageProfile,
+  updateSlippageProfile,
+  deleteSlippageProfile,
+} from '../services/slippageProfiles.js';
+import {
+  getPaperPortfolios,
+  getPaperPortfolioDetail,
+  createPaperPortfolio,
+  deletePaperPortfolio,
+  replayPaperPortfolio,
+} from '../services/paperTrading.js';
+import { getFarmerReport, getFarmerVerdicts } from '../services/farmerDetector.js';
+import { analyzeClusters, getLeadersFollowers, resolveCoTradingSettings } from '../services/coTrading.js';
+import { getTokenActivity, getTokenHolders } from '../services/tokenActivity.js';
 
 export const walletRouter = Router();
 
 // Default user ID (for now, single user mode)
 const DEFAULT_USER_ID = 'default';
 
-// Cache for in-progress syncs
-const syncInProgress = new Map<string, Promise<void>>();
+// Bounds on a follow sweep grid
+const MAX_SWEEP_DELAY_SECONDS = 600;
+const MAX_SWEEP_DELAYS = 30;
 
 /**
  * SSE endpoint for real-time status updates
@@ -68,178 +137,44 @@ function isValidSolanaAddress(address: string): boolean {
 }
 
 /**
- * Sync wallet transactions from Helius
+ * Read the ?costBasis= query parameter; null when it is not a known method
  */
-async function syncWalletTransactions(
-  walletAddress: string,
-  userId: string = DEFAULT_USER_ID,
-  forceRefresh = false,
-  walletInfo?: { name: string; emoji: string }
-): Promise<{ newTransactions: number; totalTrades: number; pnlSummary?: any }> {
-  const helius = getHeliusService();
-  
-  // Build wallet display info
-  const wallet = walletInfo || {
-    name: walletAddress.slice(0, 8),
-    emoji: '👛'
-  };
-  const walletDisplay = { address: walletAddress, name: wallet.name, emoji: wallet.emoji };
-
-  // Get last synced signature for incremental sync
-  let lastSignature: string | undefined;
-  if (!forceRefresh) {
-    const existingWallet = walletQueries.getWallet.get(walletAddress, userId) as any;
-    lastSignature = existingWallet?.last_signature;
-    // Use existing wallet info if not provided
-    if (!walletInfo && existingWallet) {
-      walletDisplay.name = existingWallet.name || walletDisplay.name;
-      walletDisplay.emoji = existingWallet.emoji || walletDisplay.emoji;
-    }
-  }
-
-  statusEmitter.info(
-    lastSignature ? `Starting incremental sync` : `Starting full sync`,
-    walletDisplay
-  );
-
-  console.log(
-    `Syncing wallet ${walletAddress}${lastSignature ? ` from ${lastSignature}` : ' (full sync)'}`
-  );
-
-  // Fetch new signatures
-  const signatures = await helius.getAllSignaturesForAddress(walletAddress, {
-    until: lastSignature,
-    maxSignatures: 5000,
-    onProgress: (count) => {
-      statusEmitter.progress(`Fetching signatures`, count, count + 100, walletDisplay);
-      console.log(`Fetched ${count} signatures...`);
-    },
-  });
-
-  if (signatures.length === 0) {
-    statusEmitter.success(`No new transactions found`, walletDisplay);
-    console.log('No new transactions found');
-    return { newTransactions: 0, totalTrades: 0 };
-  }
-
-  statusEmitter.info(`Found ${signatures.length} transactions to parse`, walletDisplay);
-  console.log(`Found ${signatures.length} new transactions, parsing...`);
-
-  // Parse transactions in batches
-  const signatureStrings = signatures.map((s) => s.signature);
-  const parsedTransactions = await helius.parseAllTransactions(signatureStrings, {
-    onProgress: (parsed, total) => {
-      statusEmitter.progress(`Parsing transactions`, parsed, total, walletDisplay);
-      console.log(`Parsed ${parsed}/${total} transactions...`);
-    },
-  });
-
-  // Extract trades
-  const allTrades = parseEnhancedTransactions(parsedTransactions, walletAddress);
-  statusEmitter.info(`Extracted ${allTrades.length} trades`, walletDisplay);
-  console.log(`Extracted ${allTrades.length} trades`);
-
-  // Save to database in a transaction
-  const insertTx = db.transaction(() => {
-    // First, ensure wallet record exists (required for foreign keys)
-    const existingWallet = walletQueries.getWallet.get(walletAddress, userId) as any;
-    // Get the earliest timestamp from new transactions for first_synced_at
-    const earliestNewTimestamp = signatures.reduce((min, s) => {
-      const ts = s.blockTime || 0;
-      return ts > 0 && (min === 0 || ts < min) ? ts : min;
-    }, 0);
-
-    walletQueries.upsertWallet.run({
-      address: walletAddress,
-      user_id: userId,
-      name: existingWallet?.name ?? null,
-      emoji: existingWallet?.emoji ?? null,
-      alerts_on: existingWallet?.alerts_on ?? 0,
-      last_synced_at: Math.floor(Date.now() / 1000),
-      first_synced_at: earliestNewTimestamp || null,
-      last_signature: signatures[0]?.signature ?? lastSignature ?? null,
-      total_transactions: (existingWallet?.total_transactions ?? 0) + signatures.length,
-      total_realized_pnl: null,
-      win_rate: null,
-      total_sol_volume: null,
-      total_trades: null,
-      quick_flip_rate: null,
-      exited_token_rate: null,
-      created_at: existingWallet?.created_at ?? Math.floor(Date.now() / 1000),
-    });
-
-    // Save raw transactions
-    for (let i = 0; i < signatures.length; i++) {
-      const sig = signatures[i];
-      const parsed = parsedTransactions.find((p) => p.signature === sig.signature);
-      txQueries.insertTransaction.run({
-        signature: sig.signature,
-        wallet_address: walletAddress,
-        timestamp: sig.blockTime || 0,
-        block_slot: sig.slot,
-        raw_data: JSON.stringify(parsed || {}),
-        parsed: parsed ? 1 : 0,
-      });
-    }
-
-    // Save trades
-    for (const trade of allTrades) {
-      tradeQueries.insertTrade.run({
-        id: trade.id,
-        wallet_address: trade.walletAddress,
-        signature: trade.signature,
-        timestamp: trade.timestamp,
-        type: trade.type,
-        token_mint: trade.tokenMint,
-        token_symbol: trade.tokenSymbol || null,
-        token_amount: trade.tokenAmount,
-        sol_amount: trade.solAmount,
-        price_per_token: trade.pricePerToken,
-        dex: trade.dex || null,
-      });
-    }
-  });
-
-  insertTx();
-  statusEmitter.info(`Saved ${allTrades.length} trades to database`, walletDisplay);
-
-  // Calculate and update PnL stats
-  const allTradesForWallet = getTradesForWallet(walletAddress, 'all');
-  const pnlSummary = generatePnLSummary(walletAddress, allTradesForWallet, 'all');
-
-  // Calculate behavior profile stats
-  const profile = buildWalletProfile(walletAddress);
-
-  // Get earliest trade timestamp for first_synced_at
-  const earliestTradeTimestamp = allTradesForWallet.length > 0
-    ? Math.min(...allTradesForWallet.map(t => t.timestamp))
-    : null;
-
-  walletQueries.updateWalletStats.run({
-    address: walletAddress,
-    user_id: userId,
-    last_synced_at: Math.floor(Date.now() / 1000),
-    first_synced_at: earliestTradeTimestamp,
-    last_signature: signatures[0]?.signature ?? lastSignature ?? null,
-    total_transactions: (walletQueries.getWallet.get(walletAddress, userId) as any)?.total_transactions ?? signatures.length,
-    total_realized_pnl: pnlSummary.totalRealizedPnL ?? null,
-    win_rate: pnlSummary.winRate ?? null,
-    total_sol_volume: pnlSummary.totalSolVolume ?? null,
-    total_trades: pnlSummary.totalTrades ?? null,
-    quick_flip_rate: profile.earlyExitRate ?? null,
-    exited_token_rate: profile.roundTripRate ?? null,
-  });
+function parseCostBasisMethod(value: unknown): CostBasisMethod | null {
+  if (value === undefined || value === '') return DEFAULT_COST_BASIS_METHOD;
+  return COST_BASIS_METHODS.includes(value as CostBasisMethod) ? (value as CostBasisMethod) : null;
+}
 
-  const pnlEmoji = pnlSummary.totalRealizedPnL >= 0 ? '📈' : '📉';
-  statusEmitter.success(
-    `Complete! ${pnlEmoji} ${pnlSummary.totalRealizedPnL.toFixed(2)} SOL realized PnL`,
-    walletDisplay,
-    { totalTrades: allTrades.length, pnl: pnlSummary.totalRealizedPnL }
-  );
+/**
+ * Read a time query parameter given as unix seconds or a date string.
+ * undefined when absent, null when it can't be parsed.
+ */
+function parseTimeParam(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const timestamp = /^\d+$/.test(value) ? parseInt(value, 10) : Math.floor(Date.parse(value) / 1000);
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
 
-  return { newTransactions: signatures.length, totalTrades: allTrades.length, pnlSummary };
+/**
+ * Read a follow sweep grid from a request body, defaulting either axis.
+ * null when a delay or slippage model is invalid.
+ */
+function parseSweepGrid(body: unknown): { delays: number[]; slippageModels: SlippageModel[] } | null {
+  const {
+    delays = DEFAULT_SWEEP_DELAYS_SECONDS,
+    slippageModels = SLIPPAGE_MODELS,
+  } = (body ?? {}) as { delays?: unknown; slippageModels?: unknown };
+
+  if (!Array.isArray(delays) || delays.length === 0 || delays.length > MAX_SWEEP_DELAYS) return null;
+  if (!delays.every((d) => Number.isInteger(d) && d >= 0 && d <= MAX_SWEEP_DELAY_SECONDS)) return null;
+  if (!Array.isArray(slippageModels) || slippageModels.length === 0) return null;
+  if (!slippageModels.every((m) => SLIPPAGE_MODELS.includes(m))) return null;
+
+  return { delays, slippageModels };
 }
 
+const SWEEP_GRID_ERROR = `delays must be 1-${MAX_SWEEP_DELAYS} whole seconds between 0 and ${MAX_SWEEP_DELAY_SECONDS}; slippageModels must be from: ${SLIPPAGE_MODELS.join(', ')}`;
+
 /**
  * GET /api/wallet/:address/analyze
  * Sync wallet and return PnL analysis
@@ -249,31 +184,30 @@ walletRouter.get('/:address/analyze', async (req: Request, res: Response) => {
     const { address } = req.params;
     const timeframe = (req.query.timeframe as Timeframe) || 'all';
     const forceRefresh = req.query.refresh === 'true';
+    const costBasisMethod = parseCostBasisMethod(req.query.costBasis);
 
     if (!isValidSolanaAddress(address)) {
       res.status(400).json({ success: false, error: 'Invalid Solana address' });
       return;
     }
 
-    // Check if sync is already in progress
-    let syncPromise = syncInProgress.get(address);
-    if (!syncPromise || forceRefresh) {
-      syncPromise = syncWalletTransactions(address, DEFAULT_USER_ID, forceRefresh)
-        .then((result) => {
-          console.log(`Sync complete: ${result.newTransactions} new txs, ${result.totalTrades} trades`);
-        })
-        .finally(() => {
-          syncInProgress.delete(address);
-        });
-      syncInProgress.set(address, syncPromise);
+    if (!costBasisMethod) {
+      res.status(400).json({ success: false, error: `costBasis must be one of: ${COST_BASIS_METHODS.join(', ')}` });
+      return;
     }
 
-    await syncPromise;
+    // Joins a sync that is already in progress unless a refresh was requested
+    const result = await syncWalletOnce(address, DEFAULT_USER_ID, forceRefresh);
+    rerankTimeframes();
+    console.log(`Sync complete: ${result.newTransactions} new txs, ${result.totalTrades} trades`);
+
+    // Optional external marks for open positions (falls back to last trade prices)
+    await refreshProviderPrices(address);
 
-    // Get ALL trades for accurate FIFO cost basis calculation
+    // Get ALL trades for accurate cost basis calculation
     // The timeframe filter is applied inside generatePnLSummary for reporting
     const allTrades = getTradesForWallet(address, 'all');
-    const summary = generatePnLSummary(address, allTrades, timeframe);
+    const summary = generatePnLSummary(address, allTrades, timeframe, costBasisMethod);
 
     res.json({ success: true, data: summary });
   } catch (error) {
@@ -285,38 +219,115 @@ walletRouter.get('/:address/analyze', async (req: Request, res: Response) => {
   }
 });
 
+function parseNumberParam(value: unknown): number | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : undefined;
+}
+
+/**
+ * Positive integer query param such as a limit: undefined when absent, null when invalid
+ */
+function parsePositiveIntParam(value: unknown): number | null | undefined {
+  const parsed = parseNumberParam(value);
+  if (parsed === undefined) return undefined;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function parseStringParam(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Trade filters from query params. A timeframe stands in for `from` when no explicit date is given.
+ */
+function parseTradeQuery(query: Request['query']): TradeQuery {
+  const timeframeSeconds = TIMEFRAME_SECONDS[(query.timeframe as Timeframe) || 'all'];
+  const from = parseNumberParam(query.from)
+    ?? (timeframeSeconds ? Math.floor(Date.now() / 1000) - timeframeSeconds : undefined);
+
+  return {
+    type: parseStringParam(query.type) as TradeQuery['type'],
+    tokenMint: parseStringParam(query.mint),
+    dex: parseStringParam(query.dex),
+    minSol: parseNumberParam(query.minSol),
+    maxSol: parseNumberParam(query.maxSol),
+    from,
+    to: parseNumberParam(query.to),
+    search: parseStringParam(query.search),
+    sort: parseStringParam(query.sort) as TradeQuery['sort'],
+    order: parseStringParam(query.order) as TradeQuery['order'],
+    cursor: parseStringParam(query.cursor),
+    limit: parseNumberParam(query.limit),
+  };
+}
+
 /**
  * GET /api/wallet/:address/trades
- * Get trades for a wallet
+ * Filtered, sorted trades for a wallet, one keyset page at a time
  */
 walletRouter.get('/:address/trades', async (req: Request, res: Response) => {
+  const { address } = req.params;
+
+  if (!isValidSolanaAddress(address)) {
+    res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    return;
+  }
+
+  const timeframe = ((req.query.timeframe as string) || 'all') as Timeframe;
+  if (!TIMEFRAMES.includes(timeframe)) {
+    res.status(400).json({ success: false, error: `timeframe must be one of: ${TIMEFRAMES.join(', ')}` });
+    return;
+  }
+
+  const query = parseTradeQuery(req.query);
+  try {
+    validateTradeQuery(query);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  try {
+    res.json({ success: true, data: queryTradesForWallet(address, query) });
+  } catch (error) {
+    console.error('Error fetching trades:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/:address/positions
+ * Get current positions for a wallet
+ */
+walletRouter.get('/:address/positions', async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
-    const timeframe = (req.query.timeframe as Timeframe) || 'all';
-    const page = parseInt(req.query.page as string) || 1;
-    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 50, 100);
+    const costBasisMethod = parseCostBasisMethod(req.query.costBasis);
 
     if (!isValidSolanaAddress(address)) {
       res.status(400).json({ success: false, error: 'Invalid Solana address' });
       return;
     }
 
-    const allTrades = getTradesForWallet(address, timeframe);
-    const total = allTrades.length;
-    const trades = allTrades.slice((page - 1) * pageSize, page * pageSize);
+    if (!costBasisMethod) {
+      res.status(400).json({ success: false, error: `costBasis must be one of: ${COST_BASIS_METHODS.join(', ')}` });
+      return;
+    }
+
+    await refreshProviderPrices(address);
+    const positions = getPositionsForWallet(address, costBasisMethod);
 
     res.json({
       success: true,
-      data: {
-        trades,
-        total,
-        page,
-        pageSize,
-        totalPages: Math.ceil(total / pageSize),
-      },
+      data: { positions, costBasisMethod },
     });
   } catch (error) {
-    console.error('Error fetching trades:', error);
+    console.error('Error fetching positions:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -325,26 +336,150 @@ walletRouter.get('/:address/trades', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/wallet/:address/positions
- * Get current positions for a wallet
+ * GET /api/wallet/:address/realizations
+ * Realized sells with the buy lots each one closed (cost, proceeds, gain, holding period).
+ * Query: mint, from/to (unix seconds or date) or timeframe, costBasis, limit
  */
-walletRouter.get('/:address/positions', async (req: Request, res: Response) => {
+walletRouter.get('/:address/realizations', async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
+    const mint = (req.query.mint as string) || undefined;
+    const timeframe = (req.query.timeframe as Timeframe) || undefined;
+    const costBasisMethod = parseCostBasisMethod(req.query.costBasis);
+    const limit = parsePositiveIntParam(req.query.limit);
+    let from = parseTimeParam(req.query.from);
+    const to = parseTimeParam(req.query.to);
 
     if (!isValidSolanaAddress(address)) {
       res.status(400).json({ success: false, error: 'Invalid Solana address' });
       return;
     }
 
-    const positions = getPositionsForWallet(address);
+    if (mint && !isValidSolanaAddress(mint)) {
+      res.status(400).json({ success: false, error: 'Invalid token mint' });
+      return;
+    }
+
+    if (!costBasisMethod) {
+      res.status(400).json({ success: false, error: `costBasis must be one of: ${COST_BASIS_METHODS.join(', ')}` });
+      return;
+    }
+
+    if (from === null || to === null) {
+      res.status(400).json({ success: false, error: 'from and to must be unix timestamps or date strings' });
+      return;
+    }
+
+    if (timeframe !== undefined && !TIMEFRAMES.includes(timeframe)) {
+      res.status(400).json({ success: false, error: `timeframe must be one of: ${TIMEFRAMES.join(', ')}` });
+      return;
+    }
+
+    if (limit === null) {
+      res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+      return;
+    }
+
+    // An explicit from wins over the timeframe shortcut
+    const timeframeSeconds = timeframe ? TIMEFRAME_SECONDS[timeframe] : null;
+    if (from === undefined && timeframeSeconds) {
+      from = Math.floor(Date.now() / 1000) - timeframeSeconds;
+    }
+
+    const realizations = getRealizationsForWallet(address, { tokenMint: mint, from, to, limit }, costBasisMethod);
 
     res.json({
       success: true,
-      data: { positions },
+      data: { realizations, costBasisMethod },
     });
   } catch (error) {
-    console.error('Error fetching positions:', error);
+    console.error('Error fetching realizations:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Write an export to the response, waiting for it to drain between chunks
+ */
+function responseSink(res: Response): ExportSink {
+  return {
+    write: (chunk) => new Promise((resolve, reject) => {
+      if (res.destroyed) {
+        reject(new Error('Client disconnected'));
+        return;
+      }
+      if (res.write(chunk)) {
+        resolve();
+        return;
+      }
+      const onDrain = () => {
+        res.off('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        res.off('drain', onDrain);
+        reject(new Error('Client disconnected'));
+      };
+      res.once('drain', onDrain);
+      res.once('close', onClose);
+    }),
+  };
+}
+
+/**
+ * GET /api/wallet/:address/export/:kind
+ * Download trades, positions or realizations as CSV or JSON.
+ * Query: format (csv|json), currency (sol|usd), timeframe, costBasis
+ */
+walletRouter.get('/:address/export/:kind', async (req: Request, res: Response) => {
+  const { address } = req.params;
+  const kind = req.params.kind as ExportKind;
+  const format = ((req.query.format as string) || 'csv') as ExportFormat;
+  const currency = ((req.query.currency as string) || 'sol') as ExportCurrency;
+  const timeframe = ((req.query.timeframe as string) || 'all') as Timeframe;
+  const costBasis = parseCostBasisMethod(req.query.costBasis);
+
+  if (!isValidSolanaAddress(address)) {
+    res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    return;
+  }
+
+  if (!costBasis) {
+    res.status(400).json({ success: false, error: `costBasis must be one of: ${COST_BASIS_METHODS.join(', ')}` });
+    return;
+  }
+
+  const invalid =
+    !EXPORT_KINDS.includes(kind) ? `Export must be one of: ${EXPORT_KINDS.join(', ')}` :
+    !EXPORT_FORMATS.includes(format) ? `format must be one of: ${EXPORT_FORMATS.join(', ')}` :
+    !EXPORT_CURRENCIES.includes(currency) ? `currency must be one of: ${EXPORT_CURRENCIES.join(', ')}` :
+    !TIMEFRAMES.includes(timeframe) ? `timeframe must be one of: ${TIMEFRAMES.join(', ')}` :
+    currency === 'usd' && !getSolUsdProvider() ? 'USD exports need a SOL/USD rate provider (set SOL_USD_PROVIDER)' :
+    null;
+  if (invalid) {
+    res.status(400).json({ success: false, error: invalid });
+    return;
+  }
+
+  const filename = `${address.slice(0, 8)}-${kind}-${timeframe}-${currency}.${format}`;
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  try {
+    await writeExport(kind, address, { format, currency, timeframe, costBasis }, responseSink(res));
+    res.end();
+  } catch (error) {
+    console.error(`Error exporting ${kind}:`, error);
+    if (res.headersSent) {
+      // Cut the download short rather than leave a truncated file looking complete
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Disposition');
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -380,13 +515,43 @@ walletRouter.get('/:address/profile', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/wallet/:address/farmer-report
+ * Copytrade-farmer signals with the trades behind them (refresh=1 recomputes)
+ */
+walletRouter.get('/:address/farmer-report', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const report = getFarmerReport(address, req.query.refresh === '1');
+
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building farmer report:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/wallet/discovery/profitable
- * Return ranked wallets using cached data only
+ * Return ranked wallets from the materialized per-timeframe stats
  */
 walletRouter.get('/discovery/profitable', async (req: Request, res: Response) => {
   try {
     const timeframe = (req.query.timeframe as Timeframe) || '30d';
+    if (!TIMEFRAMES.includes(timeframe)) {
+      res.status(400).json({ success: false, error: `timeframe must be one of: ${TIMEFRAMES.join(', ')}` });
+      return;
+    }
+
     const minTrades = req.query.minTrades ? parseInt(req.query.minTrades as string, 10) : undefined;
     const minVolume = req.query.minVolume ? parseFloat(req.query.minVolume as string) : undefined;
     const minWinRate = req.query.minWinRate ? parseFloat(req.query.minWinRate as string) : undefined;
@@ -404,7 +569,881 @@ walletRouter.get('/discovery/profitable', async (req: Request, res: Response) =>
 
     res.json({ success: true, data: rankings });
   } catch (error) {
-    console.error('Error ranking wallets:', error);
+    console.error('Error ranking wallets:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ FOLLOW SIMULATION ENDPOINTS ============
+
+/**
+ * POST /api/wallet/follow-score/calculate-all
+ * Calculate follow scores for all wallets
+ */
+walletRouter.post('/follow-score/calculate-all', async (req: Request, res: Response) => {
+  try {
+    const { delaySeconds = 5, slippageModel = 'moderate', slippageProfileId, pricing = 'heuristic', userId = DEFAULT_USER_ID } = req.body as {
+      delaySeconds?: number;
+      slippageModel?: SlippageModel;
+      slippageProfileId?: unknown;
+      pricing?: FollowPricing;
+      userId?: string;
+    };
+
+    if (!FOLLOW_PRICING_MODES.includes(pricing)) {
+      res.status(400).json({ success: false, error: `pricing must be one of: ${FOLLOW_PRICING_MODES.join(', ')}` });
+      return;
+    }
+
+    // A stored profile takes precedence over the built-in model
+    if (slippageProfileId !== undefined && !Number.isInteger(slippageProfileId)) {
+      res.status(400).json({ success: false, error: 'slippageProfileId must be an integer' });
+      return;
+    }
+    if (typeof slippageProfileId === 'number' && !getSlippageProfile(slippageProfileId, userId)) {
+      res.status(400).json({ success: false, error: `Slippage profile ${slippageProfileId} not found` });
+      return;
+    }
+    if (slippageProfileId === undefined && !SLIPPAGE_MODELS.includes(slippageModel)) {
+      res.status(400).json({ success: false, error: `slippageModel must be one of: ${SLIPPAGE_MODELS.join(', ')}` });
+      return;
+    }
+
+    const { scoreAllWallets } = await import('../services/followSimulator.js');
+    const result = scoreAllWallets(delaySeconds, typeof slippageProfileId === 'number' ? slippageProfileId : slippageModel, pricing);
+    // Rankings read follow results from the timeframe stats
+    refreshAllTimeframeStats();
+
+    res.json({
+      success: true,
+      data: {
+        scored: result.scored,
+        summary: result.results.map(r => ({
+          address: r.walletAddress,
+          followabilityRatio: r.followabilityRatio,
+          actualPnL: r.actualPnL,
+          simulatedPnL: r.simulatedPnL,
+          quickDumpRate: r.quickDumpRate,
+          tapePricedLegs: r.tapePricedLegs,
+          estimatedLegs: r.estimatedLegs,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error calculating follow scores:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:address/follow-score
+ * Calculate follow score for a single wallet
+ */
+walletRouter.post('/:address/follow-score', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const { delaySeconds = 5, slippageModel = 'moderate', slippageProfileId, pricing = 'heuristic', userId = DEFAULT_USER_ID } = req.body as {
+      delaySeconds?: number;
+      slippageModel?: SlippageModel;
+      slippageProfileId?: unknown;
+      pricing?: FollowPricing;
+      userId?: string;
+    };
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    if (!FOLLOW_PRICING_MODES.includes(pricing)) {
+      res.status(400).json({ success: false, error: `pricing must be one of: ${FOLLOW_PRICING_MODES.join(', ')}` });
+      return;
+    }
+
+    // A stored profile takes precedence over the built-in model
+    if (slippageProfileId !== undefined && !Number.isInteger(slippageProfileId)) {
+      res.status(400).json({ success: false, error: 'slippageProfileId must be an integer' });
+      return;
+    }
+    if (typeof slippageProfileId === 'number' && !getSlippageProfile(slippageProfileId, userId)) {
+      res.status(400).json({ success: false, error: `Slippage profile ${slippageProfileId} not found` });
+      return;
+    }
+    if (slippageProfileId === undefined && !SLIPPAGE_MODELS.includes(slippageModel)) {
+      res.status(400).json({ success: false, error: `slippageModel must be one of: ${SLIPPAGE_MODELS.join(', ')}` });
+      return;
+    }
+
+    const { scoreWallet } = await import('../services/followSimulator.js');
+    const result = scoreWallet(address, delaySeconds, typeof slippageProfileId === 'number' ? slippageProfileId : slippageModel, pricing);
+    refreshTimeframeStats(address);
+    rerankTimeframes();
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error calculating follow score:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/:address/follow-score
+ * Get cached follow score for a wallet
+ */
+walletRouter.get('/:address/follow-score', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const { getFollowScore } = await import('../services/followSimulator.js');
+    const score = getFollowScore(address);
+
+    if (!score) {
+      res.status(404).json({ success: false, error: 'No follow score found for this wallet' });
+      return;
+    }
+
+    res.json({ success: true, data: score });
+  } catch (error) {
+    console.error('Error getting follow score:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/follow-sweep/run-all
+ * Sweep every catalog wallet over a grid of delays and slippage models
+ */
+walletRouter.post('/follow-sweep/run-all', async (req: Request, res: Response) => {
+  try {
+    const grid = parseSweepGrid(req.body);
+    if (!grid) {
+      res.status(400).json({ success: false, error: SWEEP_GRID_ERROR });
+      return;
+    }
+
+    const { sweepAllWallets } = await import('../services/followSimulator.js');
+    const result = sweepAllWallets(grid.delays, grid.slippageModels);
+
+    res.json({ success: true, data: { ...result, ...grid } });
+  } catch (error) {
+    console.error('Error sweeping follow simulations:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/follow-sweep/rankings
+ * Rank swept wallets by simulated PnL at one delay and slippage model
+ */
+walletRouter.get('/follow-sweep/rankings', async (req: Request, res: Response) => {
+  try {
+    const delaySeconds = req.query.delay ? parseInt(req.query.delay as string, 10) : 5;
+    const slippageModel = (req.query.slippageModel as SlippageModel) || 'moderate';
+    const limit = parsePositiveIntParam(req.query.limit);
+
+    if (!Number.isInteger(delaySeconds) || delaySeconds < 0) {
+      res.status(400).json({ success: false, error: 'delay must be a whole number of seconds' });
+      return;
+    }
+    if (!SLIPPAGE_MODELS.includes(slippageModel)) {
+      res.status(400).json({ success: false, error: `slippageModel must be one of: ${SLIPPAGE_MODELS.join(', ')}` });
+      return;
+    }
+    if (limit === null) {
+      res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+      return;
+    }
+
+    const { rankWalletsAtDelay } = await import('../services/followSimulator.js');
+    const rankings = rankWalletsAtDelay(delaySeconds, slippageModel, limit);
+
+    res.json({ success: true, data: rankings });
+  } catch (error) {
+    console.error('Error ranking swept wallets:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:address/follow-sweep
+ * Sweep one wallet and return its followability curve
+ */
+walletRouter.post('/:address/follow-sweep', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const grid = parseSweepGrid(req.body);
+    if (!grid) {
+      res.status(400).json({ success: false, error: SWEEP_GRID_ERROR });
+      return;
+    }
+
+    const { sweepWallet } = await import('../services/followSimulator.js');
+    const curve = sweepWallet(address, grid.delays, grid.slippageModels);
+
+    res.json({ success: true, data: curve });
+  } catch (error) {
+    console.error('Error sweeping follow simulation:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/:address/follow-sweep
+ * Get the stored followability curve for a wallet
+ */
+walletRouter.get('/:address/follow-sweep', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const { getFollowabilityCurve } = await import('../services/followSimulator.js');
+    const curve = getFollowabilityCurve(address);
+
+    if (!curve) {
+      res.status(404).json({ success: false, error: 'No follow sweep found for this wallet' });
+      return;
+    }
+
+    res.json({ success: true, data: curve });
+  } catch (error) {
+    console.error('Error getting follow sweep:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ SLIPPAGE PROFILE ENDPOINTS ============
+
+/**
+ * GET /api/wallet/slippage-profiles
+ * List user-defined slippage profiles
+ */
+walletRouter.get('/slippage-profiles', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    res.json({ success: true, data: getSlippageProfiles(userId) });
+  } catch (error) {
+    console.error('Error fetching slippage profiles:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/slippage-profiles
+ * Create a slippage profile (size buckets, per-DEX overrides, drift per second of delay)
+ */
+walletRouter.post('/slippage-profiles', async (req: Request, res: Response) => {
+  try {
+    const { userId = DEFAULT_USER_ID, ...input } = req.body as SlippageProfileInput & { userId?: string };
+    const id = createSlippageProfile(userId, input);
+    res.json({ success: true, data: { id } });
+  } catch (error) {
+    console.error('Error creating slippage profile:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /api/wallet/slippage-profiles/:id
+ * Replace a slippage profile's definition
+ */
+walletRouter.put('/slippage-profiles/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const updated = updateSlippageProfile(parseInt(req.params.id, 10), userId, req.body as SlippageProfileInput);
+
+    if (!updated) {
+      res.status(404).json({ success: false, error: 'Slippage profile not found' });
+      return;
+    }
+
+    res.json({ success: true, data: { updated: req.params.id } });
+  } catch (error) {
+    console.error('Error updating slippage profile:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/wallet/slippage-profiles/:id
+ * Remove a slippage profile. Scores computed with it are kept but no longer ranked.
+ */
+walletRouter.delete('/slippage-profiles/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    deleteSlippageProfile(parseInt(req.params.id, 10), userId);
+    res.json({ success: true, data: { deleted: req.params.id } });
+  } catch (error) {
+    console.error('Error deleting slippage profile:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ PAPER TRADING ENDPOINTS ============
+
+/**
+ * GET /api/wallet/paper-portfolios
+ * List paper portfolios with balances
+ */
+walletRouter.get('/paper-portfolios', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    res.json({ success: true, data: getPaperPortfolios(userId) });
+  } catch (error) {
+    console.error('Error fetching paper portfolios:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/paper-portfolios
+ * Create a paper portfolio that copies catalog wallets from a start date.
+ * Trades already synced since then are applied immediately.
+ */
+walletRouter.post('/paper-portfolios', async (req: Request, res: Response) => {
+  try {
+    const { userId = DEFAULT_USER_ID, ...input } = req.body as PaperPortfolioInput & { userId?: string };
+    const id = createPaperPortfolio(userId, input);
+    res.json({ success: true, data: { id } });
+  } catch (error) {
+    console.error('Error creating paper portfolio:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/paper-portfolios/:id
+ * Portfolio with open positions, recent fills (?fills=, default 200) and equity curve
+ */
+walletRouter.get('/paper-portfolios/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const fillLimit = parsePositiveIntParam(req.query.fills);
+    if (fillLimit === null) {
+      res.status(400).json({ success: false, error: 'fills must be a positive integer' });
+      return;
+    }
+
+    const detail = getPaperPortfolioDetail(parseInt(req.params.id, 10), userId, fillLimit);
+
+    if (!detail) {
+      res.status(404).json({ success: false, error: 'Paper portfolio not found' });
+      return;
+    }
+
+    res.json({ success: true, data: detail });
+  } catch (error) {
+    console.error('Error fetching paper portfolio:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/paper-portfolios/:id/replay
+ * Rebuild a portfolio from its start date (e.g. after backfilling older trades)
+ */
+walletRouter.post('/paper-portfolios/:id/replay', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const fills = replayPaperPortfolio(parseInt(req.params.id, 10), userId);
+
+    if (fills === null) {
+      res.status(404).json({ success: false, error: 'Paper portfolio not found' });
+      return;
+    }
+
+    res.json({ success: true, data: { fills } });
+  } catch (error) {
+    console.error('Error replaying paper portfolio:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/wallet/paper-portfolios/:id
+ * Remove a paper portfolio with its fills and balances
+ */
+walletRouter.delete('/paper-portfolios/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    deletePaperPortfolio(parseInt(req.params.id, 10), userId);
+    res.json({ success: true, data: { deleted: req.params.id } });
+  } catch (error) {
+    console.error('Error deleting paper portfolio:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ CO-TRADING ENDPOINTS ============
+
+// ?window=&minCoEntries=&minStrength= overrides; unset ones use the defaults
+function parseCoTradingQuery(query: Request['query']): Partial<CoTradingSettings> {
+  return {
+    ...(query.window ? { windowSeconds: parseFloat(query.window as string) } : {}),
+    ...(query.minCoEntries ? { minCoEntries: parseInt(query.minCoEntries as string, 10) } : {}),
+    ...(query.minStrength ? { minStrength: parseFloat(query.minStrength as string) } : {}),
+  };
+}
+
+/**
+ * GET /api/wallet/analysis/clusters
+ * Group catalog wallets that repeatedly enter the same mints within the window
+ */
+walletRouter.get('/analysis/clusters', async (req: Request, res: Response) => {
+  let settings: CoTradingSettings;
+  try {
+    settings = resolveCoTradingSettings(parseCoTradingQuery(req.query));
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    res.json({ success: true, data: analyzeClusters(userId, settings) });
+  } catch (error) {
+    console.error('Error analyzing clusters:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/:address/leaders-followers
+ * Catalog wallets co-trading with this one, split by who usually enters first
+ */
+walletRouter.get('/:address/leaders-followers', async (req: Request, res: Response) => {
+  const { address } = req.params;
+
+  if (!isValidSolanaAddress(address)) {
+    res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    return;
+  }
+
+  let settings: CoTradingSettings;
+  try {
+    settings = resolveCoTradingSettings(parseCoTradingQuery(req.query));
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    res.json({ success: true, data: getLeadersFollowers(address, userId, settings) });
+  } catch (error) {
+    console.error('Error fetching leaders and followers:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/:address/debug
+ * Debug endpoint to fetch sample transactions and show raw data
+ */
+walletRouter.get('/:address/debug', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const helius = getHeliusService();
+
+    // Fetch a few recent signatures
+    const signatures = await helius.getSignaturesForAddress(address, { limit });
+    const signatureStrings = signatures.map((s) => s.signature);
+
+    // Parse them
+    const parsed = await helius.parseTransactions(signatureStrings);
+
+    // Show what we got
+    const debugData = parsed.map((tx) => ({
+      signature: tx.signature,
+      type: tx.type,
+      source: tx.source,
+      timestamp: tx.timestamp,
+      hasSwapEvent: !!tx.events?.swap,
+      hasError: !!tx.transactionError,
+      nativeTransfersCount: tx.nativeTransfers?.length || 0,
+      tokenTransfersCount: tx.tokenTransfers?.length || 0,
+      accountDataSample: tx.accountData?.slice(0, 3).map((a) => ({
+        account: a.account,
+        nativeBalanceChange: a.nativeBalanceChange,
+        tokenBalanceChangesCount: a.tokenBalanceChanges?.length || 0,
+      })),
+      // Full data for first tx
+      ...(signatureStrings.indexOf(tx.signature) === 0 ? { fullData: tx } : {}),
+    }));
+
+    res.json({ success: true, data: debugData });
+  } catch (error) {
+    console.error('Error in debug:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/:address/status
+ * Get sync status for a wallet
+ */
+walletRouter.get('/:address/status', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const wallet = walletQueries.getWallet.get(address, DEFAULT_USER_ID) as any;
+    const isSyncing = isWalletSyncing(address);
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        isSyncing,
+        lastSyncedAt: wallet?.last_synced_at,
+        totalTransactions: wallet?.total_transactions || 0,
+        history: getHistoryCoverage(address, DEFAULT_USER_ID),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching status:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/launches/backfill
+ * Rebuild the token launch index from stored raw transactions (no Helius calls).
+ * Registered ahead of POST /:address/backfill, which would otherwise take "launches" for an address.
+ */
+walletRouter.post('/launches/backfill', async (req: Request, res: Response) => {
+  try {
+    const result = await backfillTokenLaunches();
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error backfilling token launches:', error);
+    statusEmitter.error(`Launch backfill failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:address/backfill
+ * Queue a history backfill that walks back from the oldest fetched signature.
+ * Body: { until?: unix seconds or ISO date } - omit to backfill to the wallet's first transaction
+ */
+walletRouter.post('/:address/backfill', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const { until } = req.body as { until?: number | string | null };
+
+    if (!isValidSolanaAddress(address)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    let untilTimestamp: number | null = null;
+    if (until !== undefined && until !== null && until !== '') {
+      untilTimestamp = typeof until === 'number' ? until : Math.floor(Date.parse(until) / 1000);
+      if (!Number.isFinite(untilTimestamp)) {
+        res.status(400).json({ success: false, error: 'until must be a unix timestamp or date string' });
+        return;
+      }
+    }
+
+    const job = enqueueSyncJob(DEFAULT_USER_ID, { kind: 'backfill', addresses: [address], untilTimestamp });
+    res.status(202).json({ success: true, data: job });
+  } catch (error) {
+    console.error('Error queueing backfill:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ RE-PARSE ENDPOINTS ============
+
+/**
+ * POST /api/wallet/:address/reparse
+ * Replay the wallet's stored transactions through the current parser and rewrite its trades.
+ * Body: { dryRun?: boolean } - dry runs only report what would change
+ */
+walletRouter.post('/:address/reparse', async (req: Request, res: Response) => {
+  const { address } = req.params;
+  const { dryRun = false } = req.body as { dryRun?: boolean };
+
+  if (!isValidSolanaAddress(address)) {
+    res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    return;
+  }
+
+  if (isWalletSyncing(address)) {
+    res.status(409).json({ success: false, error: 'Wallet is syncing; re-parse it once the sync finishes' });
+    return;
+  }
+
+  try {
+    const report = reparseWallet(address, { dryRun: !!dryRun });
+    if (!dryRun) rerankTimeframes();
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error re-parsing wallet:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/reparse
+ * Queue a re-parse job. Body: { addresses?: string[], dryRun?: boolean, userId? } -
+ * omit addresses for every wallet with stored transactions
+ */
+walletRouter.post('/reparse', async (req: Request, res: Response) => {
+  try {
+    const { addresses, dryRun = false, userId = DEFAULT_USER_ID } = req.body as {
+      addresses?: string[];
+      dryRun?: boolean;
+      userId?: string;
+    };
+
+    if (addresses !== undefined && (!Array.isArray(addresses) || addresses.length === 0)) {
+      res.status(400).json({ success: false, error: 'addresses must be a non-empty array' });
+      return;
+    }
+
+    for (const addr of addresses ?? []) {
+      if (!isValidSolanaAddress(addr)) {
+        res.status(400).json({ success: false, error: `Invalid address: ${addr}` });
+        return;
+      }
+    }
+
+    const job = enqueueSyncJob(userId, {
+      kind: 'reparse',
+      addresses: addresses ?? getReparseableWallets(),
+      dryRun: !!dryRun,
+    });
+    res.status(202).json({ success: true, data: job });
+  } catch (error) {
+    console.error('Error queueing re-parse:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ ALERT ENDPOINTS ============
+
+/**
+ * GET /api/wallet/alerts
+ * Alert history (most recent first)
+ */
+walletRouter.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const walletAddress = req.query.wallet as string | undefined;
+    const since = req.query.since ? parseInt(req.query.since as string, 10) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    if (walletAddress && !isValidSolanaAddress(walletAddress)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const alerts = getAlertHistory(userId, { walletAddress, since, limit });
+    res.json({ success: true, data: alerts });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/alerts/rules
+ * List alert rules
+ */
+walletRouter.get('/alerts/rules', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    res.json({ success: true, data: getAlertRules(userId) });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/alerts/rules
+ * Create an alert rule
+ */
+walletRouter.post('/alerts/rules', async (req: Request, res: Response) => {
+  try {
+    const { walletAddress, type, threshold, enabled, userId = DEFAULT_USER_ID } = req.body as {
+      walletAddress?: string | null;
+      type: (typeof ALERT_RULE_TYPES)[number];
+      threshold?: number | null;
+      enabled?: boolean;
+      userId?: string;
+    };
+
+    if (!ALERT_RULE_TYPES.includes(type)) {
+      res.status(400).json({ success: false, error: `type must be one of: ${ALERT_RULE_TYPES.join(', ')}` });
+      return;
+    }
+
+    if (walletAddress && !isValidSolanaAddress(walletAddress)) {
+      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+      return;
+    }
+
+    const id = createAlertRule(userId, { walletAddress, type, threshold, enabled });
+    res.json({ success: true, data: { id } });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /api/wallet/alerts/rules/:id
+ * Update threshold or toggle a rule. Omitted fields are left alone; a null threshold clears it.
+ */
+walletRouter.patch('/alerts/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const { threshold, enabled } = req.body as { threshold?: number | null; enabled?: boolean };
+
+    if (!updateAlertRule(userId, parseInt(req.params.id, 10), { threshold, enabled })) {
+      res.status(404).json({ success: false, error: 'Alert rule not found' });
+      return;
+    }
+
+    res.json({ success: true, data: { updated: req.params.id } });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/wallet/alerts/rules/:id
+ * Remove an alert rule
+ */
+walletRouter.delete('/alerts/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    alertRuleQueries.deleteRule.run(parseInt(req.params.id, 10), userId);
+    res.json({ success: true, data: { deleted: req.params.id } });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -412,37 +1451,16 @@ walletRouter.get('/discovery/profitable', async (req: Request, res: Response) =>
   }
 });
 
-// ============ FOLLOW SIMULATION ENDPOINTS ============
-
 /**
- * POST /api/wallet/follow-score/calculate-all
- * Calculate follow scores for all wallets
+ * GET /api/wallet/alerts/sinks
+ * List alert delivery sinks
  */
-walletRouter.post('/follow-score/calculate-all', async (req: Request, res: Response) => {
+walletRouter.get('/alerts/sinks', async (req: Request, res: Response) => {
   try {
-    const { delaySeconds = 5, slippageModel = 'moderate' } = req.body as {
-      delaySeconds?: number;
-      slippageModel?: 'conservative' | 'moderate' | 'aggressive';
-    };
-
-    const { scoreAllWallets } = await import('../services/followSimulator.js');
-    const result = scoreAllWallets(delaySeconds, slippageModel);
-
-    res.json({
-      success: true,
-      data: {
-        scored: result.scored,
-        summary: result.results.map(r => ({
-          address: r.walletAddress,
-          followabilityRatio: r.followabilityRatio,
-          actualPnL: r.actualPnL,
-          simulatedPnL: r.simulatedPnL,
-          quickDumpRate: r.quickDumpRate,
-        })),
-      },
-    });
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    res.json({ success: true, data: getAlertSinks(userId) });
   } catch (error) {
-    console.error('Error calculating follow scores:', error);
+    console.error('Error fetching alert sinks:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -451,28 +1469,47 @@ walletRouter.post('/follow-score/calculate-all', async (req: Request, res: Respo
 });
 
 /**
- * POST /api/wallet/:address/follow-score
- * Calculate follow score for a single wallet
+ * POST /api/wallet/alerts/sinks
+ * Register a webhook / Telegram / Discord sink
  */
-walletRouter.post('/:address/follow-score', async (req: Request, res: Response) => {
+walletRouter.post('/alerts/sinks', async (req: Request, res: Response) => {
   try {
-    const { address } = req.params;
-    const { delaySeconds = 5, slippageModel = 'moderate' } = req.body as {
-      delaySeconds?: number;
-      slippageModel?: 'conservative' | 'moderate' | 'aggressive';
+    const { kind, name, url, chatId, userId = DEFAULT_USER_ID } = req.body as {
+      kind: (typeof ALERT_SINK_KINDS)[number];
+      name?: string;
+      url: string;
+      chatId?: string;
+      userId?: string;
     };
 
-    if (!isValidSolanaAddress(address)) {
-      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    if (!ALERT_SINK_KINDS.includes(kind)) {
+      res.status(400).json({ success: false, error: `kind must be one of: ${ALERT_SINK_KINDS.join(', ')}` });
       return;
     }
 
-    const { scoreWallet } = await import('../services/followSimulator.js');
-    const result = scoreWallet(address, delaySeconds, slippageModel);
+    if (!url || !/^https?:\/\//.test(url)) {
+      res.status(400).json({ success: false, error: 'A valid http(s) url is required' });
+      return;
+    }
 
-    res.json({ success: true, data: result });
+    if (kind === 'telegram' && !chatId) {
+      res.status(400).json({ success: false, error: 'chatId is required for telegram sinks' });
+      return;
+    }
+
+    const result = alertSinkQueries.insertSink.run({
+      user_id: userId,
+      kind,
+      name: name || kind,
+      url,
+      chat_id: chatId ?? null,
+      enabled: 1,
+      created_at: Math.floor(Date.now() / 1000),
+    });
+
+    res.json({ success: true, data: { id: Number(result.lastInsertRowid) } });
   } catch (error) {
-    console.error('Error calculating follow score:', error);
+    console.error('Error creating alert sink:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -481,29 +1518,16 @@ walletRouter.post('/:address/follow-score', async (req: Request, res: Response)
 });
 
 /**
- * GET /api/wallet/:address/follow-score
- * Get cached follow score for a wallet
+ * DELETE /api/wallet/alerts/sinks/:id
+ * Remove an alert sink
  */
-walletRouter.get('/:address/follow-score', async (req: Request, res: Response) => {
+walletRouter.delete('/alerts/sinks/:id', async (req: Request, res: Response) => {
   try {
-    const { address } = req.params;
-
-    if (!isValidSolanaAddress(address)) {
-      res.status(400).json({ success: false, error: 'Invalid Solana address' });
-      return;
-    }
-
-    const { getFollowScore } = await import('../services/followSimulator.js');
-    const score = getFollowScore(address);
-
-    if (!score) {
-      res.status(404).json({ success: false, error: 'No follow score found for this wallet' });
-      return;
-    }
-
-    res.json({ success: true, data: score });
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    alertSinkQueries.deleteSink.run(parseInt(req.params.id, 10), userId);
+    res.json({ success: true, data: { deleted: req.params.id } });
   } catch (error) {
-    console.error('Error getting follow score:', error);
+    console.error('Error deleting alert sink:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -511,51 +1535,42 @@ walletRouter.get('/:address/follow-score', async (req: Request, res: Response) =
   }
 });
 
+// ============ USAGE ENDPOINTS ============
+
 /**
- * GET /api/wallet/:address/debug
- * Debug endpoint to fetch sample transactions and show raw data
+ * GET /api/wallet/usage
+ * Helius credits spent on a UTC day by API key, endpoint and wallet, with the daily budget
+ * Query: day (YYYY-MM-DD, default today)
  */
-walletRouter.get('/:address/debug', async (req: Request, res: Response) => {
+walletRouter.get('/usage', async (req: Request, res: Response) => {
   try {
-    const { address } = req.params;
-    const limit = parseInt(req.query.limit as string) || 10;
-
-    if (!isValidSolanaAddress(address)) {
-      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    const day = parseStringParam(req.query.day);
+    if (day !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      res.status(400).json({ success: false, error: 'day must be YYYY-MM-DD' });
       return;
     }
 
-    const helius = getHeliusService();
-
-    // Fetch a few recent signatures
-    const signatures = await helius.getSignaturesForAddress(address, { limit });
-    const signatureStrings = signatures.map((s) => s.signature);
-
-    // Parse them
-    const parsed = await helius.parseTransactions(signatureStrings);
+    res.json({ success: true, data: getHeliusUsage(getHeliusKeyStates(), day) });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-    // Show what we got
-    const debugData = parsed.map((tx) => ({
-      signature: tx.signature,
-      type: tx.type,
-      source: tx.source,
-      timestamp: tx.timestamp,
-      hasSwapEvent: !!tx.events?.swap,
-      hasError: !!tx.transactionError,
-      nativeTransfersCount: tx.nativeTransfers?.length || 0,
-      tokenTransfersCount: tx.tokenTransfers?.length || 0,
-      accountDataSample: tx.accountData?.slice(0, 3).map((a) => ({
-        account: a.account,
-        nativeBalanceChange: a.nativeBalanceChange,
-        tokenBalanceChangesCount: a.tokenBalanceChanges?.length || 0,
-      })),
-      // Full data for first tx
-      ...(signatureStrings.indexOf(tx.signature) === 0 ? { fullData: tx } : {}),
-    }));
+// ============ SCHEDULER ENDPOINTS ============
 
-    res.json({ success: true, data: debugData });
+/**
+ * GET /api/wallet/scheduler
+ * Scheduler state: paused flag, intervals, current run, queue and recent runs
+ */
+walletRouter.get('/scheduler', async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: syncScheduler.getState() });
   } catch (error) {
-    console.error('Error in debug:', error);
+    console.error('Error fetching scheduler state:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -564,32 +1579,31 @@ walletRouter.get('/:address/debug', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/wallet/:address/status
- * Get sync status for a wallet
+ * PUT /api/wallet/scheduler
+ * Pause/resume the scheduler or change its default intervals
+ * Body: { paused?, defaultIntervalSec?, alertsIntervalSec? }
  */
-walletRouter.get('/:address/status', async (req: Request, res: Response) => {
+walletRouter.put('/scheduler', async (req: Request, res: Response) => {
   try {
-    const { address } = req.params;
+    const { paused, defaultIntervalSec, alertsIntervalSec } = req.body as {
+      paused?: boolean;
+      defaultIntervalSec?: number;
+      alertsIntervalSec?: number;
+    };
 
-    if (!isValidSolanaAddress(address)) {
-      res.status(400).json({ success: false, error: 'Invalid Solana address' });
+    try {
+      syncScheduler.configure({ defaultIntervalSec, alertsIntervalSec });
+    } catch (err) {
+      res.status(400).json({ success: false, error: err instanceof Error ? err.message : 'Invalid interval' });
       return;
     }
 
-    const wallet = walletQueries.getWallet.get(address) as any;
-    const isSyncing = syncInProgress.has(address);
+    if (paused === true) syncScheduler.pause();
+    if (paused === false) syncScheduler.resume();
 
-    res.json({
-      success: true,
-      data: {
-        address,
-        isSyncing,
-        lastSyncedAt: wallet?.last_synced_at,
-        totalTransactions: wallet?.total_transactions || 0,
-      },
-    });
+    res.json({ success: true, data: syncScheduler.getState() });
   } catch (error) {
-    console.error('Error fetching status:', error);
+    console.error('Error updating scheduler:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -668,6 +1682,74 @@ walletRouter.post('/tokens/metadata', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/wallet/tokens/:mint/activity
+ * Catalog-wide activity in a mint: launch info, first entries, net flow and recent trades (?limit=)
+ */
+walletRouter.get('/tokens/:mint/activity', async (req: Request, res: Response) => {
+  try {
+    const { mint } = req.params;
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const limit = parsePositiveIntParam(req.query.limit);
+
+    if (!isValidSolanaAddress(mint)) {
+      res.status(400).json({ success: false, error: 'Invalid token mint' });
+      return;
+    }
+
+    if (limit === null) {
+      res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+      return;
+    }
+
+    const activity = getTokenActivity(mint, userId, limit);
+
+    if (!activity) {
+      res.status(404).json({ success: false, error: 'No catalog wallet has traded this token' });
+      return;
+    }
+
+    res.json({ success: true, data: activity });
+  } catch (error) {
+    console.error('Error fetching token activity:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/tokens/:mint/holders
+ * Each catalog wallet's position and PnL in a mint, with its entry order
+ */
+walletRouter.get('/tokens/:mint/holders', async (req: Request, res: Response) => {
+  try {
+    const { mint } = req.params;
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+
+    if (!isValidSolanaAddress(mint)) {
+      res.status(400).json({ success: false, error: 'Invalid token mint' });
+      return;
+    }
+
+    const holders = getTokenHolders(mint, userId);
+
+    if (!holders) {
+      res.status(404).json({ success: false, error: 'No catalog wallet has traded this token' });
+      return;
+    }
+
+    res.json({ success: true, data: holders });
+  } catch (error) {
+    console.error('Error fetching token holders:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // ============ CATALOG ENDPOINTS ============
 
 /**
@@ -678,6 +1760,7 @@ walletRouter.get('/catalog/list', async (req: Request, res: Response) => {
   try {
     const userId = (req.query.userId as string) || DEFAULT_USER_ID;
     const wallets = walletQueries.getAllWallets.all(userId) as any[];
+    const farmerVerdicts = getFarmerVerdicts();
 
     const catalogWallets: CatalogWallet[] = wallets.map(w => ({
       address: w.address,
@@ -685,11 +1768,15 @@ walletRouter.get('/catalog/list', async (req: Request, res: Response) => {
       name: w.name || '',
       emoji: w.emoji || '👛',
       alertsOn: !!w.alerts_on,
+      syncIntervalSec: w.sync_interval_sec ?? undefined,
       lastSyncedAt: w.last_synced_at,
       firstSyncedAt: w.first_synced_at || undefined,
       totalTransactions: w.total_transactions || 0,
       totalRealizedPnL: w.total_realized_pnl,
+      totalFees: w.total_fees ?? undefined,
       winRate: w.win_rate,
+      farmerScore: farmerVerdicts.get(w.address)?.score,
+      farmerVerdict: farmerVerdicts.get(w.address)?.verdict,
       createdAt: w.created_at || 0,
     }));
 
@@ -803,24 +1890,46 @@ walletRouter.delete('/catalog/:address', async (req: Request, res: Response) =>
 
 /**
  * PATCH /api/wallets/:address
- * Update wallet metadata
+ * Update wallet metadata. Omitted fields are left alone; null clears name or emoji.
  */
 walletRouter.patch('/catalog/:address', async (req: Request, res: Response) => {
   try {
     const { address } = req.params;
     const userId = (req.query.userId as string) || DEFAULT_USER_ID;
-    const { name, emoji, alertsOn } = req.body;
+    const { name, emoji, alertsOn, syncIntervalSec } = req.body;
 
     if (!isValidSolanaAddress(address)) {
       res.status(400).json({ success: false, error: 'Invalid Solana address' });
       return;
     }
 
+    for (const [field, value] of Object.entries({ name, emoji })) {
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        res.status(400).json({ success: false, error: `${field} must be a string or null` });
+        return;
+      }
+    }
+
+    // null clears the override and falls back to the scheduler default
+    if (syncIntervalSec !== undefined) {
+      if (syncIntervalSec !== null && !(Number(syncIntervalSec) > 0)) {
+        res.status(400).json({ success: false, error: 'syncIntervalSec must be a positive number of seconds' });
+        return;
+      }
+      walletQueries.updateSyncInterval.run({
+        address,
+        user_id: userId,
+        sync_interval_sec: syncIntervalSec === null ? null : Math.floor(Number(syncIntervalSec)),
+      });
+    }
+
     walletQueries.updateWalletMetadata.run({
       address,
       user_id: userId,
-      name: name ?? null,
-      emoji: emoji ?? null,
+      set_name: name !== undefined ? 1 : 0,
+      name: name || null,
+      set_emoji: emoji !== undefined ? 1 : 0,
+      emoji: emoji || null,
       alerts_on: alertsOn !== undefined ? (alertsOn ? 1 : 0) : null,
     });
 
@@ -836,7 +1945,8 @@ walletRouter.patch('/catalog/:address', async (req: Request, res: Response) => {
 
 /**
  * POST /api/wallets/bulk-analyze
- * Analyze multiple wallets and return aggregated stats
+ * Queue a job that syncs never-synced wallets and aggregates PnL across them.
+ * Returns the job immediately; poll GET /api/wallet/jobs/:id for progress and the aggregated stats.
  */
 walletRouter.post('/catalog/bulk-analyze', async (req: Request, res: Response) => {
   try {
@@ -859,103 +1969,13 @@ walletRouter.post('/catalog/bulk-analyze', async (req: Request, res: Response) =
       }
     }
 
-    const walletBreakdown: WalletPnLBreakdown[] = [];
-    let totalRealizedPnL = 0;
-    let totalTrades = 0;
-    let totalBuys = 0;
-    let totalSells = 0;
-    let totalWins = 0;
-    let totalLosses = 0;
-    let totalSolVolume = 0;
-
-    statusEmitter.info(`Starting bulk analysis of ${addresses.length} wallets`);
-
-    // Process each wallet sequentially to respect rate limits
-    for (let i = 0; i < addresses.length; i++) {
-      const address = addresses[i];
-      try {
-        // Check if sync needed
-        const wallet = walletQueries.getWallet.get(address, userId) as any;
-        const walletDisplay = {
-          address,
-          name: wallet?.name || address.slice(0, 8),
-          emoji: wallet?.emoji || '👛'
-        };
-        
-        statusEmitter.progress(
-          `Analyzing wallet ${i + 1}/${addresses.length}`,
-          i + 1,
-          addresses.length,
-          walletDisplay
-        );
-        
-        // Sync if not synced yet
-        if (!wallet?.last_synced_at) {
-          console.log(`Syncing wallet ${address}...`);
-          await syncWalletTransactions(address, userId, false, walletDisplay);
-        }
-
-        // Get trades and summary
-        const trades = getTradesForWallet(address, 'all');
-        const summary = generatePnLSummary(address, trades, timeframe);
-
-        // Get wallet metadata
-        const walletData = walletQueries.getWallet.get(address, userId) as any;
-
-        walletBreakdown.push({
-          address,
-          name: walletData?.name || address.slice(0, 8),
-          emoji: walletData?.emoji || '👛',
-          realizedPnL: summary.totalRealizedPnL,
-          trades: summary.totalTrades,
-          winRate: summary.winRate,
-          contribution: 0, // Calculated after
-        });
-
-        totalRealizedPnL += summary.totalRealizedPnL;
-        totalTrades += summary.totalTrades;
-        totalBuys += summary.totalBuys;
-        totalSells += summary.totalSells;
-        totalWins += summary.winCount;
-        totalLosses += summary.lossCount;
-        totalSolVolume += summary.totalSolVolume;
-      } catch (err) {
-        const wallet = walletQueries.getWallet.get(address, userId) as any;
-        statusEmitter.error(
-          `Failed to analyze: ${err instanceof Error ? err.message : 'Unknown error'}`,
-          { address, name: wallet?.name || address.slice(0, 8), emoji: wallet?.emoji || '👛' }
-        );
-        console.error(`Error analyzing wallet ${address}:`, err);
-        // Continue with other wallets
-      }
-    }
-
-    statusEmitter.success(`Bulk analysis complete! ${walletBreakdown.length} wallets analyzed`);
-
-    // Calculate contribution percentages
-    for (const breakdown of walletBreakdown) {
-      breakdown.contribution = totalRealizedPnL !== 0 
-        ? (breakdown.realizedPnL / Math.abs(totalRealizedPnL)) * 100 
-        : 0;
+    if (!TIMEFRAMES.includes(timeframe)) {
+      res.status(400).json({ success: false, error: `timeframe must be one of: ${TIMEFRAMES.join(', ')}` });
+      return;
     }
 
-    // Sort by PnL descending
-    walletBreakdown.sort((a, b) => b.realizedPnL - a.realizedPnL);
-
-    const aggregatedStats: AggregatedStats = {
-      totalWallets: walletBreakdown.length,
-      totalRealizedPnL,
-      totalTrades,
-      totalBuys,
-      totalSells,
-      overallWinRate: totalWins + totalLosses > 0 
-        ? (totalWins / (totalWins + totalLosses)) * 100 
-        : 0,
-      totalSolVolume,
-      walletBreakdown,
-    };
-
-    res.json({ success: true, data: aggregatedStats });
+    const job = enqueueSyncJob(userId, { kind: 'bulk_analyze', addresses, timeframe });
+    res.status(202).json({ success: true, data: job });
   } catch (error) {
     console.error('Error in bulk analyze:', error);
     res.status(500).json({
@@ -967,7 +1987,8 @@ walletRouter.post('/catalog/bulk-analyze', async (req: Request, res: Response) =
 
 /**
  * POST /api/wallets/refresh-selected
- * Refresh data for selected wallets with progress
+ * Queue a refresh job for selected wallets.
+ * Returns the job immediately; poll GET /api/wallet/jobs/:id for progress.
  */
 walletRouter.post('/catalog/refresh-selected', async (req: Request, res: Response) => {
   try {
@@ -982,70 +2003,82 @@ walletRouter.post('/catalog/refresh-selected', async (req: Request, res: Respons
       return;
     }
 
-    statusEmitter.info(`Starting ${forceRefresh ? 'full' : 'incremental'} refresh of ${addresses.length} wallets`);
-    const results: { address: string; success: boolean; error?: string; trades?: number }[] = [];
-
-    // Process sequentially with progress
-    for (let i = 0; i < addresses.length; i++) {
-      const address = addresses[i];
-      
-      if (!isValidSolanaAddress(address)) {
-        results.push({ address, success: false, error: 'Invalid address' });
-        continue;
-      }
-
-      try {
-        // Get wallet info for display
-        const walletData = walletQueries.getWallet.get(address, userId) as any;
-        const walletDisplay = {
-          address,
-          name: walletData?.name || address.slice(0, 8),
-          emoji: walletData?.emoji || '👛'
-        };
-        
-        statusEmitter.progress(
-          `Refreshing wallet ${i + 1}/${addresses.length}`,
-          i + 1,
-          addresses.length,
-          walletDisplay
-        );
-        
-        console.log(`Refreshing ${i + 1}/${addresses.length}: ${address}${forceRefresh ? ' (full)' : ''})`);
-        const result = await syncWalletTransactions(address, userId, forceRefresh, walletDisplay);
-        results.push({ 
-          address, 
-          success: true, 
-          trades: result.totalTrades 
-        });
-      } catch (err) {
-        const walletData = walletQueries.getWallet.get(address, userId) as any;
-        statusEmitter.error(
-          `Refresh failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
-          { address, name: walletData?.name || address.slice(0, 8), emoji: walletData?.emoji || '👛' }
-        );
-        results.push({ 
-          address, 
-          success: false, 
-          error: err instanceof Error ? err.message : 'Unknown error' 
-        });
+    for (const addr of addresses) {
+      if (!isValidSolanaAddress(addr)) {
+        res.status(400).json({ success: false, error: `Invalid address: ${addr}` });
+        return;
       }
     }
 
-    const successCount = results.filter(r => r.success).length;
-    statusEmitter.success(`Refresh complete! ${successCount}/${addresses.length} wallets updated`);
-    
-    res.json({ 
-      success: true, 
-      data: { 
-        total: addresses.length,
-        successful: successCount,
-        failed: addresses.length - successCount,
-        results,
-      } 
+    const job = enqueueSyncJob(userId, { kind: 'refresh', addresses, forceRefresh });
+    res.status(202).json({ success: true, data: job });
+  } catch (error) {
+    console.error('Error queueing refresh:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============ JOB ENDPOINTS ============
+
+/**
+ * GET /api/wallet/jobs
+ * Recent sync jobs, newest first (?active=true for queued/running only)
+ */
+walletRouter.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const userId = (req.query.userId as string) || DEFAULT_USER_ID;
+    const jobs = getSyncJobs(userId, {
+      activeOnly: req.query.active === 'true',
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+    });
+    res.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/wallet/jobs/:id
+ * Job status, progress and per-wallet results
+ */
+walletRouter.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = getSyncJob(parseInt(req.params.id, 10));
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Job not found' });
+      return;
+    }
+    res.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
     });
+  }
+});
+
+/**
+ * DELETE /api/wallet/jobs/:id
+ * Cancel a queued or running job (a running job stops after its current wallet)
+ */
+walletRouter.delete('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = cancelSyncJob(parseInt(req.params.id, 10));
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Job not found' });
+      return;
+    }
+    res.json({ success: true, data: job });
   } catch (error) {
-    statusEmitter.error(`Refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    console.error('Error refreshing wallets:', error);
+    console.error('Error cancelling job:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
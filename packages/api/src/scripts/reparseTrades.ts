@@ -0,0 +1,56 @@
+/**
+ * Re-parse stored raw transactions with the current parser.
+ *
+ *   pnpm --filter @funeral-vision/api reparse [--dry-run] [address...]
+ *
+ * Without addresses every wallet with stored transactions is re-parsed. Runs against
+ * the local database only (no network); don't run it while the server is syncing
+ * the same wallets. With --dry-run the diff is printed and nothing is written.
+ */
+import type { Trade } from '@funeral-vision/shared';
+import { getReparseableWallets, reparseWallet } from '../services/reparse.js';
+import { rerankTimeframes } from '../services/discovery.js';
+
+// Changes printed per wallet
+const SHOWN_CHANGES = 5;
+
+function describe(trade: Trade | null): string {
+  if (!trade) return '-';
+  return `${trade.type} ${trade.tokenAmount} ${trade.tokenSymbol || trade.tokenMint.slice(0, 8)} for ${trade.solAmount} SOL`;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const unknown = args.find((arg) => arg.startsWith('--') && arg !== '--dry-run');
+  if (unknown) {
+    console.error(`Unknown option ${unknown}`);
+    console.error('Usage: reparse [--dry-run] [address...]');
+    process.exit(1);
+  }
+
+  const addresses = args.filter((arg) => !arg.startsWith('--'));
+  const wallets = addresses.length > 0 ? addresses : getReparseableWallets();
+  let failed = 0;
+
+  for (const address of wallets) {
+    try {
+      const report = reparseWallet(address, { dryRun });
+      for (const change of report.changes.slice(0, SHOWN_CHANGES)) {
+        console.log(`  ${change.signature}: ${describe(change.before)} → ${describe(change.after)}`);
+      }
+      if (report.changes.length > SHOWN_CHANGES) {
+        console.log(`  ... ${report.added + report.removed + report.changed - SHOWN_CHANGES} more`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${address}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (!dryRun) rerankTimeframes();
+  console.log(`🔁 Re-parsed ${wallets.length - failed}/${wallets.length} wallets${dryRun ? ' (dry run, nothing written)' : ''}`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
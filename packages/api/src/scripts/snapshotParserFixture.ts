@@ -0,0 +1,70 @@
+/**
+ * Snapshot a stored transaction into an anonymized parser fixture.
+ *
+ *   pnpm --filter @funeral-vision/api fixtures:snapshot <signature> <name> [description]
+ *
+ * The transaction is read from the local `transactions` table (no network), every
+ * account address is replaced with a placeholder, and the trades the current parser
+ * produces are written as `expected`. Review them before committing the fixture.
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { HeliusEnhancedTransaction } from '@funeral-vision/shared';
+import { txQueries } from '../db/index.js';
+import { parseEnhancedTransaction } from '../services/parser.js';
+import { anonymizeTransaction, FIXTURE_WALLET, type ParserFixture } from '../services/parserFixtures.js';
+
+const FIXTURE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../test/fixtures/parser');
+
+function main(): void {
+  const [signature, name, ...descriptionWords] = process.argv.slice(2);
+  if (!signature || !name) {
+    console.error('Usage: fixtures:snapshot <signature> <name> [description]');
+    process.exit(1);
+  }
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    console.error('Fixture name must be kebab-case (a-z, 0-9, -)');
+    process.exit(1);
+  }
+
+  const row = txQueries.getTransaction.get(signature) as { raw_data: string; format: string } | undefined;
+  if (!row) {
+    console.error(`Transaction ${signature} is not in the local database`);
+    process.exit(1);
+  }
+  if (row.format !== 'enhanced') {
+    console.error(`Transaction ${signature} was stored from plain RPC; fixtures are Helius enhanced transactions`);
+    process.exit(1);
+  }
+
+  // The fixture is parsed from the first participating wallet's point of view
+  const [participant] = txQueries.getTransactionWallets.all(signature) as { wallet_address: string }[];
+  if (!participant) {
+    console.error(`Transaction ${signature} is not linked to any wallet`);
+    process.exit(1);
+  }
+
+  const raw = JSON.parse(row.raw_data) as HeliusEnhancedTransaction;
+  if (!raw.signature) {
+    console.error(`Transaction ${signature} has no enhanced data stored (Helius could not parse it)`);
+    process.exit(1);
+  }
+
+  const transaction = anonymizeTransaction(raw, participant.wallet_address, `sig-${name}`);
+  const fixture: ParserFixture = {
+    name,
+    description: descriptionWords.join(' ') || name,
+    wallet: FIXTURE_WALLET,
+    transaction,
+    expected: parseEnhancedTransaction(transaction, FIXTURE_WALLET),
+  };
+
+  fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+  const file = path.join(FIXTURE_DIR, `${name}.json`);
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+
+  console.log(`📸 Wrote ${path.relative(process.cwd(), file)} (${fixture.expected.length} expected trades)`);
+}
+
+main();
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import type { AlertEvent, AlertSink, AlertSinkKind } from '@funeral-vision/shared';
+import { statusEmitter } from './statusEmitter.js';
+
+/**
+ * A destination alerts can be delivered to
+ */
+export interface AlertChannel {
+  name: string;
+  deliver(alert: AlertEvent): Promise<void>;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+function solscanTxLink(signature: string | null | undefined): string | null {
+  return signature ? `https://solscan.io/tx/${signature}` : null;
+}
+
+/**
+ * Generic webhook - posts the full alert record as JSON
+ */
+function createWebhookChannel(sink: AlertSink): AlertChannel {
+  return {
+    name: `webhook:${sink.name}`,
+    async deliver(alert) {
+      await axios.post(sink.url, { type: 'funeral-vision.alert', alert }, { timeout: DELIVERY_TIMEOUT_MS });
+    },
+  };
+}
+
+/**
+ * Telegram Bot API - sink url is https://api.telegram.org/bot<token>/sendMessage
+ */
+function createTelegramChannel(sink: AlertSink): AlertChannel {
+  return {
+    name: `telegram:${sink.name}`,
+    async deliver(alert) {
+      const link = solscanTxLink(alert.signature);
+      await axios.post(
+        sink.url,
+        {
+          chat_id: sink.chatId,
+          text: link ? `🔔 ${alert.message}\n${link}` : `🔔 ${alert.message}`,
+          disable_web_page_preview: true,
+        },
+        { timeout: DELIVERY_TIMEOUT_MS }
+      );
+    },
+  };
+}
+
+/**
+ * Discord webhook - sink url is the channel webhook URL
+ */
+function createDiscordChannel(sink: AlertSink): AlertChannel {
+  return {
+    name: `discord:${sink.name}`,
+    async deliver(alert) {
+      const link = solscanTxLink(alert.signature);
+      await axios.post(
+        sink.url,
+        {
+          username: 'Funeral Vision',
+          content: link ? `🔔 ${alert.message}\n<${link}>` : `🔔 ${alert.message}`,
+        },
+        { timeout: DELIVERY_TIMEOUT_MS }
+      );
+    },
+  };
+}
+
+const CHANNEL_FACTORIES: Record<AlertSinkKind, (sink: AlertSink) => AlertChannel> = {
+  webhook: createWebhookChannel,
+  telegram: createTelegramChannel,
+  discord: createDiscordChannel,
+};
+
+export const ALERT_SINK_KINDS = Object.keys(CHANNEL_FACTORIES) as AlertSinkKind[];
+
+/**
+ * Built-in channel that pushes alerts into the SSE status stream
+ */
+export const sseChannel: AlertChannel = {
+  name: 'sse',
+  async deliver(alert) {
+    statusEmitter.alert(
+      alert.message,
+      {
+        address: alert.walletAddress,
+        name: alert.walletName || alert.walletAddress.slice(0, 8),
+        emoji: alert.walletEmoji || '👛',
+      },
+      { alertId: alert.id, ruleType: alert.ruleType, tokenMint: alert.tokenMint, signature: alert.signature }
+    );
+  },
+};
+
+export function createAlertChannel(sink: AlertSink): AlertChannel {
+  return CHANNEL_FACTORIES[sink.kind](sink);
+}
@@ -0,0 +1,382 @@
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertRuleType,
+  AlertSink,
+  Position,
+  Trade,
+} from '@funeral-vision/shared';
+import { alertRuleQueries, alertSinkQueries, alertHistoryQueries, tokenQueries } from '../db/index.js';
+import { createAlertChannel, sseChannel, type AlertChannel } from './alertSinks.js';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['new_token', 'buy_size', 'position_exit', 'pnl_cross'];
+
+// Rule types that can't be evaluated without a threshold
+const THRESHOLD_RULES = new Set<AlertRuleType>(['buy_size', 'pnl_cross']);
+
+// Remaining balance below this fraction of the total bought counts as fully exited
+const EXIT_DUST_RATIO = 0.000001;
+
+interface AlertRuleRow {
+  id: number;
+  wallet_address: string | null;
+  type: AlertRuleType;
+  threshold: number | null;
+  enabled: number;
+  created_at: number;
+}
+
+interface AlertSinkRow {
+  id: number;
+  kind: AlertSink['kind'];
+  name: string;
+  url: string;
+  chat_id: string | null;
+  enabled: number;
+  created_at: number;
+}
+
+interface AlertHistoryRow {
+  id: number;
+  rule_id: number | null;
+  rule_type: AlertRuleType;
+  wallet_address: string;
+  wallet_name?: string | null;
+  wallet_emoji?: string | null;
+  token_mint: string | null;
+  signature: string | null;
+  message: string;
+  details: string | null;
+  delivered_to: string | null;
+  created_at: number;
+}
+
+export interface AlertSyncContext {
+  walletAddress: string;
+  userId: string;
+  wallet: { name: string; emoji: string };
+  newTrades: Trade[];
+  priorTrades: Trade[]; // Trades stored before this sync
+  positions: Position[]; // All-time positions after this sync
+  previousRealizedPnL: number | null;
+  currentRealizedPnL: number;
+}
+
+interface PendingAlert {
+  rule: AlertRule;
+  tokenMint?: string;
+  signature?: string;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+function mapRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    type: row.type,
+    threshold: row.threshold,
+    enabled: !!row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+function mapSink(row: AlertSinkRow): AlertSink {
+  return {
+    id: row.id,
+    kind: row.kind,
+    name: row.name,
+    url: row.url,
+    chatId: row.chat_id,
+    enabled: !!row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Sink URL for listing: the host and leading path, cut off at the first segment that
+ * could be a secret (Telegram bot tokens, Discord webhook tokens) and without the query.
+ * Delivery keeps using the full URL.
+ */
+export function maskSinkUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return '…';
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  const secretAt = segments.findIndex((segment) => segment.length > 12 || /\d/.test(segment));
+  const shown = secretAt >= 0 ? segments.slice(0, secretAt) : segments;
+  const masked = secretAt >= 0 || parsed.search !== '';
+  return `${parsed.origin}/${shown.join('/')}${masked ? `${shown.length > 0 ? '/' : ''}…` : ''}`;
+}
+
+function mapAlert(row: AlertHistoryRow): AlertEvent {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleType: row.rule_type,
+    walletAddress: row.wallet_address,
+    walletName: row.wallet_name ?? null,
+    walletEmoji: row.wallet_emoji ?? null,
+    tokenMint: row.token_mint,
+    signature: row.signature,
+    message: row.message,
+    details: row.details ? JSON.parse(row.details) : undefined,
+    deliveredTo: row.delivered_to ? JSON.parse(row.delivered_to) : [],
+    createdAt: row.created_at,
+  };
+}
+
+// ============ Rule / sink management ============
+
+export function getAlertRules(userId: string): AlertRule[] {
+  return (alertRuleQueries.getRules.all(userId) as AlertRuleRow[]).map(mapRule);
+}
+
+export function createAlertRule(
+  userId: string,
+  input: { walletAddress?: string | null; type: AlertRuleType; threshold?: number | null; enabled?: boolean }
+): number {
+  if (!ALERT_RULE_TYPES.includes(input.type)) {
+    throw new Error(`Unknown alert rule type: ${input.type}`);
+  }
+  if (THRESHOLD_RULES.has(input.type) && (input.threshold === undefined || input.threshold === null || !Number.isFinite(input.threshold))) {
+    throw new Error(`Rule type ${input.type} requires a numeric threshold`);
+  }
+
+  const result = alertRuleQueries.insertRule.run({
+    user_id: userId,
+    wallet_address: input.walletAddress || null,
+    type: input.type,
+    threshold: input.threshold ?? null,
+    enabled: input.enabled === false ? 0 : 1,
+    created_at: Math.floor(Date.now() / 1000),
+  });
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Apply a partial update to a rule. Omitted fields are left alone; a null threshold
+ * clears it, except on rule types that need one. False when the user has no such rule.
+ */
+export function updateAlertRule(
+  userId: string,
+  id: number,
+  input: { threshold?: number | null; enabled?: boolean }
+): boolean {
+  const row = alertRuleQueries.getRule.get(id, userId) as AlertRuleRow | undefined;
+  if (!row) return false;
+
+  if (input.threshold !== undefined && input.threshold !== null && !Number.isFinite(input.threshold)) {
+    throw new Error('threshold must be a number or null');
+  }
+  if (input.threshold === null && THRESHOLD_RULES.has(row.type)) {
+    throw new Error(`Rule type ${row.type} requires a numeric threshold`);
+  }
+
+  alertRuleQueries.updateRule.run({
+    id,
+    user_id: userId,
+    set_threshold: input.threshold !== undefined ? 1 : 0,
+    threshold: input.threshold ?? null,
+    enabled: input.enabled !== undefined ? (input.enabled ? 1 : 0) : null,
+  });
+  return true;
+}
+
+/**
+ * The user's sinks with masked URLs, for display
+ */
+export function getAlertSinks(userId: string): AlertSink[] {
+  return (alertSinkQueries.getSinks.all(userId) as AlertSinkRow[]).map((row) => ({
+    ...mapSink(row),
+    url: maskSinkUrl(row.url),
+  }));
+}
+
+export function getAlertHistory(
+  userId: string,
+  options: { walletAddress?: string; since?: number; limit?: number } = {}
+): AlertEvent[] {
+  const since = options.since ?? 0;
+  const limit = Math.min(options.limit ?? 100, 500);
+  const rows = options.walletAddress
+    ? alertHistoryQueries.getRecentAlertsForWallet.all(userId, options.walletAddress, since, limit)
+    : alertHistoryQueries.getRecentAlerts.all(userId, since, limit);
+  return (rows as AlertHistoryRow[]).map(mapAlert);
+}
+
+// ============ Evaluation ============
+
+function formatSol(value: number): string {
+  return `${value >= 0 ? '' : '-'}${Math.abs(value).toFixed(Math.abs(value) >= 10 ? 2 : 3)} SOL`;
+}
+
+function describeToken(mint: string, symbols: Map<string, string>): string {
+  return symbols.get(mint) || `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+}
+
+function evaluateRule(
+  rule: AlertRule,
+  ctx: AlertSyncContext,
+  symbols: Map<string, string>
+): PendingAlert[] {
+  const label = `${ctx.wallet.emoji} ${ctx.wallet.name}`;
+  const buys = ctx.newTrades.filter(t => t.type === 'buy');
+  const sells = ctx.newTrades.filter(t => t.type === 'sell');
+  const pending: PendingAlert[] = [];
+
+  switch (rule.type) {
+    case 'new_token': {
+      const priorMints = new Set(ctx.priorTrades.map(t => t.tokenMint));
+      const seen = new Set<string>();
+      for (const buy of [...buys].sort((a, b) => a.timestamp - b.timestamp)) {
+        if (priorMints.has(buy.tokenMint) || seen.has(buy.tokenMint)) continue;
+        seen.add(buy.tokenMint);
+        pending.push({
+          rule,
+          tokenMint: buy.tokenMint,
+          signature: buy.signature,
+          message: `${label} bought new token ${describeToken(buy.tokenMint, symbols)} for ${formatSol(buy.solAmount)}`,
+          details: { solAmount: buy.solAmount, tokenAmount: buy.tokenAmount, dex: buy.dex },
+        });
+      }
+      break;
+    }
+
+    case 'buy_size': {
+      const threshold = rule.threshold ?? Infinity;
+      for (const buy of buys) {
+        if (buy.solAmount <= threshold) continue;
+        pending.push({
+          rule,
+          tokenMint: buy.tokenMint,
+          signature: buy.signature,
+          message: `${label} bought ${formatSol(buy.solAmount)} of ${describeToken(buy.tokenMint, symbols)} (over ${formatSol(threshold)})`,
+          details: { solAmount: buy.solAmount, threshold, dex: buy.dex },
+        });
+      }
+      break;
+    }
+
+    case 'position_exit': {
+      const soldMints = new Set(sells.map(t => t.tokenMint));
+      for (const mint of soldMints) {
+        const position = ctx.positions.find(p => p.tokenMint === mint);
+        if (!position || position.totalBought <= 0) continue;
+        if (position.remainingTokens > position.totalBought * EXIT_DUST_RATIO) continue;
+
+        const lastSell = sells
+          .filter(t => t.tokenMint === mint)
+          .sort((a, b) => b.timestamp - a.timestamp)[0];
+        pending.push({
+          rule,
+          tokenMint: mint,
+          signature: lastSell?.signature,
+          message: `${label} fully exited ${describeToken(mint, symbols)} (realized ${formatSol(position.realizedPnL)})`,
+          details: { realizedPnL: position.realizedPnL, totalCostBasis: position.totalCostBasis, totalProceeds: position.totalProceeds },
+        });
+      }
+      break;
+    }
+
+    case 'pnl_cross': {
+      if (rule.threshold === null || ctx.previousRealizedPnL === null) break;
+      const before = ctx.previousRealizedPnL;
+      const after = ctx.currentRealizedPnL;
+      const crossedUp = before < rule.threshold && after >= rule.threshold;
+      const crossedDown = before >= rule.threshold && after < rule.threshold;
+      if (!crossedUp && !crossedDown) break;
+
+      pending.push({
+        rule,
+        message: `${label} realized PnL crossed ${crossedUp ? 'above' : 'below'} ${formatSol(rule.threshold)} (now ${formatSol(after)})`,
+        details: { previousRealizedPnL: before, currentRealizedPnL: after, threshold: rule.threshold },
+      });
+      break;
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * Deliver a stored alert to every enabled sink and record where it went
+ */
+async function deliverAlert(alert: AlertEvent, channels: AlertChannel[]): Promise<void> {
+  const delivered: string[] = [];
+
+  for (const channel of channels) {
+    try {
+      await channel.deliver(alert);
+      delivered.push(channel.name);
+    } catch (err) {
+      console.warn(`Alert delivery via ${channel.name} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  alertHistoryQueries.updateDeliveredTo.run(JSON.stringify(delivered), alert.id);
+}
+
+/**
+ * Evaluate alert rules against trades produced by a sync, persist what fired
+ * and hand the alerts to the configured sinks (delivery runs in the background).
+ */
+export function evaluateAlertsForSync(ctx: AlertSyncContext): AlertEvent[] {
+  if (ctx.newTrades.length === 0) return [];
+
+  const rules = (alertRuleQueries.getActiveRulesForWallet.all(ctx.userId, ctx.walletAddress) as AlertRuleRow[]).map(mapRule);
+  if (rules.length === 0) return [];
+
+  const mints = [...new Set(ctx.newTrades.map(t => t.tokenMint))];
+  const symbols = new Map<string, string>();
+  for (const token of tokenQueries.getAllTokensForMints(mints) as { mint: string; symbol: string | null }[]) {
+    if (token.symbol) symbols.set(token.mint, token.symbol);
+  }
+
+  const pending = rules.flatMap(rule => evaluateRule(rule, ctx, symbols));
+  if (pending.length === 0) return [];
+
+  const now = Math.floor(Date.now() / 1000);
+  const fired: AlertEvent[] = pending.map(p => {
+    const result = alertHistoryQueries.insertAlert.run({
+      user_id: ctx.userId,
+      rule_id: p.rule.id,
+      rule_type: p.rule.type,
+      wallet_address: ctx.walletAddress,
+      token_mint: p.tokenMint ?? null,
+      signature: p.signature ?? null,
+      message: p.message,
+      details: JSON.stringify(p.details),
+      delivered_to: JSON.stringify([]),
+      created_at: now,
+    });
+
+    return {
+      id: Number(result.lastInsertRowid),
+      ruleId: p.rule.id,
+      ruleType: p.rule.type,
+      walletAddress: ctx.walletAddress,
+      walletName: ctx.wallet.name,
+      walletEmoji: ctx.wallet.emoji,
+      tokenMint: p.tokenMint ?? null,
+      signature: p.signature ?? null,
+      message: p.message,
+      details: p.details,
+      deliveredTo: [],
+      createdAt: now,
+    };
+  });
+
+  const sinks = (alertSinkQueries.getEnabledSinks.all(ctx.userId) as AlertSinkRow[]).map(mapSink);
+  const channels = [sseChannel, ...sinks.map(createAlertChannel)];
+
+  for (const alert of fired) {
+    void deliverAlert(alert, channels);
+  }
+
+  return fired;
+}
@@ -0,0 +1,198 @@
+import type { HistoryCoverage } from '@funeral-vision/shared';
+import { db, txQueries, walletQueries } from '../db/index.js';
+import { statusEmitter } from './statusEmitter.js';
+import {
+  syncWalletOnce,
+  loadTransactions,
+  writeTransactionsAndTrades,
+  indexLaunchesForSignatures,
+  recordHistoryCursor,
+  recomputeWalletStats,
+} from './sync.js';
+import { getTransactionSource, parseSourceTransactions } from './transactionSources.js';
+
+// One getSignaturesForAddress page per chunk; the cursor is checkpointed after each
+const CHUNK_SIZE = 1000;
+
+interface WalletHistoryRow {
+  name: string | null;
+  emoji: string | null;
+  last_synced_at: number | null;
+  last_signature: string | null;
+  oldest_signature: string | null;
+  oldest_timestamp: number | null;
+  history_complete: number | null;
+  backfill_until: number | null;
+}
+
+export interface BackfillOptions {
+  untilTimestamp?: number | null; // Stop once history reaches this date; null/undefined = genesis
+  shouldStop?: () => boolean; // Checked between chunks (job cancellation)
+}
+
+export interface BackfillResult {
+  newTransactions: number;
+  trades: number;
+  chunks: number;
+  complete: boolean;
+  reachedTarget: boolean;
+  oldestTimestamp: number | null;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Walk a wallet's history backwards from its oldest fetched signature, one chunk at a time.
+ * The cursor is persisted after every chunk, so an interrupted backfill picks up where it stopped.
+ */
+export async function backfillWalletHistory(
+  walletAddress: string,
+  userId: string,
+  options: BackfillOptions = {}
+): Promise<BackfillResult> {
+  const source = getTransactionSource();
+
+  let wallet = walletQueries.getWallet.get(walletAddress, userId) as WalletHistoryRow | undefined;
+
+  // The cursor comes from a head sync, so never-synced wallets get one first
+  if (!wallet?.last_synced_at) {
+    await syncWalletOnce(walletAddress, userId, false);
+    wallet = walletQueries.getWallet.get(walletAddress, userId) as WalletHistoryRow | undefined;
+  }
+  if (!wallet) {
+    throw new Error('Wallet has no transactions to backfill from');
+  }
+
+  if (options.untilTimestamp !== undefined) {
+    walletQueries.updateBackfillTarget.run({
+      address: walletAddress,
+      user_id: userId,
+      backfill_until: options.untilTimestamp,
+    });
+  }
+  const target = options.untilTimestamp !== undefined ? options.untilTimestamp : wallet.backfill_until;
+
+  const walletDisplay = {
+    address: walletAddress,
+    name: wallet.name || walletAddress.slice(0, 8),
+    emoji: wallet.emoji || '👛',
+  };
+
+  const result: BackfillResult = {
+    newTransactions: 0,
+    trades: 0,
+    chunks: 0,
+    complete: !!wallet.history_complete,
+    reachedTarget: false,
+    oldestTimestamp: wallet.oldest_timestamp,
+  };
+
+  let cursor = wallet.oldest_signature ?? undefined;
+
+  statusEmitter.info(
+    `Backfilling history${target ? ` back to ${formatDate(target)}` : ' to genesis'}` +
+      (result.oldestTimestamp ? ` (currently from ${formatDate(result.oldestTimestamp)})` : ''),
+    walletDisplay
+  );
+
+  while (!result.complete) {
+    if (target && result.oldestTimestamp !== null && result.oldestTimestamp <= target) {
+      result.reachedTarget = true;
+      break;
+    }
+    if (options.shouldStop?.()) break;
+
+    const page = await source.getSignaturesForAddress(walletAddress, { before: cursor, limit: CHUNK_SIZE });
+    result.chunks++;
+
+    // Signatures older than the target are left for a later, deeper backfill
+    const inRange = target ? page.filter((s) => !s.blockTime || s.blockTime >= target) : page;
+    const reachedGenesis = page.length < CHUNK_SIZE && inRange.length === page.length;
+
+    if (inRange.length > 0) {
+      const { transactions: parsedTransactions } = await loadTransactions(inRange.map((s) => s.signature), { walletAddress });
+      const trades = parseSourceTransactions(parsedTransactions, walletAddress);
+
+      const insertChunk = db.transaction(() => {
+        writeTransactionsAndTrades(walletAddress, inRange, parsedTransactions, trades);
+        walletQueries.addTransactionCount.run({ address: walletAddress, user_id: userId, count: inRange.length });
+        recordHistoryCursor(walletAddress, userId, inRange, reachedGenesis);
+      });
+      insertChunk();
+      indexLaunchesForSignatures(inRange, parsedTransactions);
+
+      result.newTransactions += inRange.length;
+      result.trades += trades.length;
+      cursor = inRange[inRange.length - 1].signature;
+      result.oldestTimestamp = inRange.reduce<number | null>(
+        (min, s) => (s.blockTime && (min === null || s.blockTime < min) ? s.blockTime : min),
+        result.oldestTimestamp
+      );
+    } else if (reachedGenesis) {
+      recordHistoryCursor(walletAddress, userId, [], true);
+    }
+
+    statusEmitter.progress(
+      `Backfilled ${result.newTransactions} transactions` +
+        (result.oldestTimestamp ? ` (back to ${formatDate(result.oldestTimestamp)})` : ''),
+      result.chunks,
+      result.chunks + (reachedGenesis ? 0 : 1),
+      walletDisplay
+    );
+
+    if (reachedGenesis) {
+      result.complete = true;
+    } else if (inRange.length < page.length) {
+      result.reachedTarget = true;
+      break;
+    }
+  }
+
+  if (result.newTransactions > 0) {
+    recomputeWalletStats(walletAddress, userId, {
+      lastSyncedAt: wallet.last_synced_at,
+      lastSignature: wallet.last_signature,
+    });
+  }
+
+  statusEmitter.success(
+    result.complete
+      ? `History complete (+${result.newTransactions} transactions, ${result.trades} trades)`
+      : result.reachedTarget
+        ? `Backfilled to target date (+${result.newTransactions} transactions, ${result.trades} trades)`
+        : `Backfill paused after ${result.chunks} chunks (+${result.newTransactions} transactions)`,
+    walletDisplay
+  );
+
+  return result;
+}
+
+/**
+ * How much of a wallet's on-chain history is stored
+ */
+export function getHistoryCoverage(walletAddress: string, userId: string): HistoryCoverage {
+  const wallet = walletQueries.getWallet.get(walletAddress, userId) as WalletHistoryRow | undefined;
+  const bounds = txQueries.getHistoryBounds.get(walletAddress) as {
+    count: number;
+    earliest: number | null;
+    latest: number | null;
+  };
+
+  const complete = !!wallet?.history_complete;
+  const earliest = bounds.earliest ?? wallet?.oldest_timestamp ?? null;
+  const target = wallet?.backfill_until ?? null;
+
+  return {
+    storedTransactions: bounds.count,
+    earliestCoveredAt: earliest,
+    latestCoveredAt: bounds.latest,
+    oldestSignature: wallet?.oldest_signature ?? null,
+    isComplete: complete,
+    // The first transaction is only known once the backfill has reached genesis
+    firstActivityAt: complete ? earliest : null,
+    backfillTarget: target,
+    reachedTarget: complete || (target !== null && earliest !== null && earliest <= target),
+  };
+}
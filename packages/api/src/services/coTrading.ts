@@ -0,0 +1,276 @@
+import type {
+  ClusterAnalysis,
+  CoTradingPair,
+  CoTradingSettings,
+  CoTradingWallet,
+  LeadersFollowers,
+  WalletCluster,
+} from '@funeral-vision/shared';
+import { coTradingQueries, walletQueries } from '../db/index.js';
+
+const DEFAULT_SETTINGS: CoTradingSettings = {
+  windowSeconds: 120,
+  minCoEntries: 3,
+  minStrength: 0.1,
+};
+
+const MAX_WINDOW_SECONDS = 3600;
+
+interface MintEntryRow {
+  token_mint: string;
+  wallet_address: string;
+  first_buy: number | null;
+  first_sell: number | null;
+}
+
+interface WalletRow {
+  address: string;
+  name: string | null;
+  emoji: string | null;
+}
+
+// Signed lags are walletB's time minus walletA's: positive when A was first
+interface PairAccumulator {
+  walletA: string;
+  walletB: string;
+  sharedMints: number;
+  entryLags: number[];
+  exitLags: number[];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Fill in defaults and check ranges. Throws on invalid values.
+ */
+export function resolveCoTradingSettings(input: Partial<CoTradingSettings>): CoTradingSettings {
+  const settings = { ...DEFAULT_SETTINGS, ...input };
+
+  if (!Number.isFinite(settings.windowSeconds) || settings.windowSeconds < 0 || settings.windowSeconds > MAX_WINDOW_SECONDS) {
+    throw new Error(`windowSeconds must be between 0 and ${MAX_WINDOW_SECONDS}`);
+  }
+  if (!Number.isInteger(settings.minCoEntries) || settings.minCoEntries < 1) {
+    throw new Error('minCoEntries must be a positive integer');
+  }
+  if (!Number.isFinite(settings.minStrength) || settings.minStrength < 0 || settings.minStrength > 1) {
+    throw new Error('minStrength must be a fraction between 0 and 1');
+  }
+  return settings;
+}
+
+/**
+ * Walk the entry rows mint by mint and accumulate every pair of catalog wallets that
+ * traded the same mint. Rows must be ordered by mint.
+ */
+function accumulatePairs(
+  rows: MintEntryRow[],
+  catalog: Set<string>,
+  windowSeconds: number,
+  onlyWallet?: string
+): Map<string, PairAccumulator> {
+  const pairs = new Map<string, PairAccumulator>();
+
+  const addMint = (entries: MintEntryRow[]) => {
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        // Keep the reference wallet on side A so its lags read as "other minus this"
+        let [a, b] = entries[i].wallet_address < entries[j].wallet_address
+          ? [entries[i], entries[j]]
+          : [entries[j], entries[i]];
+        if (onlyWallet) {
+          if (b.wallet_address === onlyWallet) [a, b] = [b, a];
+          if (a.wallet_address !== onlyWallet) continue;
+        }
+
+        const key = `${a.wallet_address}:${b.wallet_address}`;
+        let pair = pairs.get(key);
+        if (!pair) {
+          pair = { walletA: a.wallet_address, walletB: b.wallet_address, sharedMints: 0, entryLags: [], exitLags: [] };
+          pairs.set(key, pair);
+        }
+        pair.sharedMints++;
+
+        if (a.first_buy !== null && b.first_buy !== null) {
+          const lag = b.first_buy - a.first_buy;
+          if (Math.abs(lag) <= windowSeconds) pair.entryLags.push(lag);
+        }
+        if (a.first_sell !== null && b.first_sell !== null) {
+          const lag = b.first_sell - a.first_sell;
+          if (Math.abs(lag) <= windowSeconds) pair.exitLags.push(lag);
+        }
+      }
+    }
+  };
+
+  let mint: string | null = null;
+  let entries: MintEntryRow[] = [];
+  for (const row of rows) {
+    if (!catalog.has(row.wallet_address)) continue;
+    if (row.token_mint !== mint) {
+      addMint(entries);
+      mint = row.token_mint;
+      entries = [];
+    }
+    entries.push(row);
+  }
+  addMint(entries);
+
+  return pairs;
+}
+
+function finalizePair(pair: PairAccumulator, mintCounts: Map<string, number>): CoTradingPair {
+  const mintsA = mintCounts.get(pair.walletA) ?? pair.sharedMints;
+  const mintsB = mintCounts.get(pair.walletB) ?? pair.sharedMints;
+  const aFirst = pair.entryLags.filter(lag => lag > 0).length;
+  const bFirst = pair.entryLags.filter(lag => lag < 0).length;
+  const coEntries = pair.entryLags.length;
+
+  return {
+    walletA: pair.walletA,
+    walletB: pair.walletB,
+    sharedMints: pair.sharedMints,
+    mintOverlap: pair.sharedMints / (mintsA + mintsB - pair.sharedMints),
+    coEntries,
+    coExits: pair.exitLags.length,
+    strength: coEntries / Math.min(mintsA, mintsB),
+    leader: aFirst > bFirst ? pair.walletA : bFirst > aFirst ? pair.walletB : null,
+    leaderEntries: Math.max(aFirst, bFirst),
+    medianEntryLagSec: median(pair.entryLags.map(Math.abs)),
+    medianExitLagSec: median(pair.exitLags.map(Math.abs)),
+  };
+}
+
+function isLinked(pair: CoTradingPair, settings: CoTradingSettings): boolean {
+  return pair.coEntries >= settings.minCoEntries && pair.strength >= settings.minStrength;
+}
+
+function loadCatalog(userId: string): Map<string, WalletRow> {
+  const rows = walletQueries.getAllWallets.all(userId) as WalletRow[];
+  return new Map(rows.map(row => [row.address, row]));
+}
+
+function loadMintCounts(): Map<string, number> {
+  const rows = coTradingQueries.getMintCounts.all() as { wallet_address: string; mints: number }[];
+  return new Map(rows.map(row => [row.wallet_address, row.mints]));
+}
+
+function toCoTradingWallet(address: string, catalog: Map<string, WalletRow>, mintCounts: Map<string, number>): CoTradingWallet {
+  const row = catalog.get(address);
+  return {
+    address,
+    name: row?.name ?? undefined,
+    emoji: row?.emoji ?? undefined,
+    mintsTraded: mintCounts.get(address) ?? 0,
+  };
+}
+
+/**
+ * Group linked pairs into connected components. The wallet leading the most
+ * linked pairs (minus those it follows) is the cluster's leader.
+ */
+function buildClusters(linked: CoTradingPair[]): WalletCluster[] {
+  const parent = new Map<string, string>();
+  const find = (wallet: string): string => {
+    let root = wallet;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(wallet, root);
+    return root;
+  };
+
+  for (const pair of linked) {
+    if (!parent.has(pair.walletA)) parent.set(pair.walletA, pair.walletA);
+    if (!parent.has(pair.walletB)) parent.set(pair.walletB, pair.walletB);
+    parent.set(find(pair.walletA), find(pair.walletB));
+  }
+
+  const pairsByRoot = new Map<string, CoTradingPair[]>();
+  for (const pair of linked) {
+    const root = find(pair.walletA);
+    pairsByRoot.set(root, [...(pairsByRoot.get(root) ?? []), pair]);
+  }
+
+  const clusters = [...pairsByRoot.values()].map(pairs => {
+    const netLeads = new Map<string, number>();
+    for (const pair of pairs) {
+      netLeads.set(pair.walletA, netLeads.get(pair.walletA) ?? 0);
+      netLeads.set(pair.walletB, netLeads.get(pair.walletB) ?? 0);
+      if (pair.leader) {
+        const follower = pair.leader === pair.walletA ? pair.walletB : pair.walletA;
+        netLeads.set(pair.leader, netLeads.get(pair.leader)! + 1);
+        netLeads.set(follower, netLeads.get(follower)! - 1);
+      }
+    }
+
+    const wallets = [...netLeads.keys()].sort((a, b) => netLeads.get(b)! - netLeads.get(a)!);
+    const top = netLeads.get(wallets[0])!;
+    return {
+      id: 0,
+      wallets,
+      leader: top > 0 && wallets.filter(w => netLeads.get(w) === top).length === 1 ? wallets[0] : null,
+      pairs: pairs.sort((a, b) => b.strength - a.strength),
+      avgStrength: pairs.reduce((sum, p) => sum + p.strength, 0) / pairs.length,
+    };
+  });
+
+  return clusters
+    .sort((a, b) => b.wallets.length - a.wallets.length || b.avgStrength - a.avgStrength)
+    .map((cluster, i) => ({ ...cluster, id: i + 1 }));
+}
+
+/**
+ * Co-trading clusters across the catalog
+ */
+export function analyzeClusters(userId: string, input: Partial<CoTradingSettings> = {}): ClusterAnalysis {
+  const settings = resolveCoTradingSettings(input);
+  const catalog = loadCatalog(userId);
+  const mintCounts = loadMintCounts();
+
+  const rows = coTradingQueries.getMintEntries.all() as MintEntryRow[];
+  const pairs = accumulatePairs(rows, new Set(catalog.keys()), settings.windowSeconds);
+  const linked = [...pairs.values()]
+    .map(pair => finalizePair(pair, mintCounts))
+    .filter(pair => isLinked(pair, settings));
+
+  const clusters = buildClusters(linked);
+
+  return {
+    ...settings,
+    wallets: clusters.flatMap(c => c.wallets).map(address => toCoTradingWallet(address, catalog, mintCounts)),
+    clusters,
+    computedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Catalog wallets linked to one wallet, split by who usually enters first
+ */
+export function getLeadersFollowers(
+  walletAddress: string,
+  userId: string,
+  input: Partial<CoTradingSettings> = {}
+): LeadersFollowers {
+  const settings = resolveCoTradingSettings(input);
+  const catalog = loadCatalog(userId);
+  const mintCounts = loadMintCounts();
+
+  const rows = coTradingQueries.getMintEntriesForWallet.all(walletAddress) as MintEntryRow[];
+  const pairs = accumulatePairs(rows, new Set([...catalog.keys(), walletAddress]), settings.windowSeconds, walletAddress);
+  const linked = [...pairs.values()]
+    .map(pair => finalizePair(pair, mintCounts))
+    .filter(pair => isLinked(pair, settings))
+    .sort((a, b) => b.coEntries - a.coEntries);
+
+  return {
+    ...settings,
+    walletAddress,
+    wallets: linked.map(pair => toCoTradingWallet(pair.walletB, catalog, mintCounts)),
+    leaders: linked.filter(pair => pair.leader === pair.walletB),
+    followers: linked.filter(pair => pair.leader === walletAddress),
+    peers: linked.filter(pair => pair.leader === null),
+  };
+}
@@ -0,0 +1,143 @@
+import type { CostBasisMethod, Trade } from '@funeral-vision/shared';
+
+// Lot remainders below this are float noise from proportional (average) matching
+const LOT_EPSILON = 1e-9;
+
+export interface Lot {
+  tradeId: string;
+  timestamp: number;
+  amount: number;
+  remaining: number;
+  price: number;
+}
+
+/**
+ * The portion of one buy lot consumed by a sell
+ */
+export interface LotMatch {
+  buyTradeId: string;
+  buyTimestamp: number;
+  buyPrice: number;
+  amount: number;
+  costBasis: number;
+}
+
+/**
+ * A sell and the lots it closed. Any amount that could not be matched
+ * (tokens received without a recorded buy) carries zero cost basis.
+ */
+export interface SellMatch {
+  sell: Trade;
+  matchedAmount: number;
+  unmatchedAmount: number;
+  costBasis: number;
+  proceeds: number;
+  realizedPnL: number;
+  lots: LotMatch[];
+}
+
+export interface LotMatchResult {
+  sells: SellMatch[];
+  openLots: Lot[];
+}
+
+/**
+ * Order in which lots are consumed. Average cost consumes every open lot
+ * proportionally instead, so it has no ordering.
+ */
+function orderLots(lots: Lot[], method: Exclude<CostBasisMethod, 'average'>): Lot[] {
+  const open = lots.filter((lot) => lot.remaining > LOT_EPSILON);
+  switch (method) {
+    case 'fifo':
+      return open;
+    case 'lifo':
+      return open.reverse();
+    case 'hifo':
+      return open.sort((a, b) => b.price - a.price || a.timestamp - b.timestamp);
+  }
+}
+
+function consumeOrdered(lots: Lot[], amount: number, method: Exclude<CostBasisMethod, 'average'>): LotMatch[] {
+  const matches: LotMatch[] = [];
+  let sellRemaining = amount;
+
+  for (const lot of orderLots(lots, method)) {
+    if (sellRemaining <= LOT_EPSILON) break;
+
+    const matchAmount = Math.min(lot.remaining, sellRemaining);
+    lot.remaining -= matchAmount;
+    sellRemaining -= matchAmount;
+    matches.push({
+      buyTradeId: lot.tradeId,
+      buyTimestamp: lot.timestamp,
+      buyPrice: lot.price,
+      amount: matchAmount,
+      costBasis: matchAmount * lot.price,
+    });
+  }
+
+  return matches;
+}
+
+function consumeAverage(lots: Lot[], amount: number): LotMatch[] {
+  const open = lots.filter((lot) => lot.remaining > LOT_EPSILON);
+  const held = open.reduce((sum, lot) => sum + lot.remaining, 0);
+  if (held <= LOT_EPSILON) return [];
+
+  // Every lot gives up the same fraction, so the sell is costed at the weighted average
+  const fraction = Math.min(amount / held, 1);
+  return open.map((lot) => {
+    const matchAmount = lot.remaining * fraction;
+    lot.remaining -= matchAmount;
+    return {
+      buyTradeId: lot.tradeId,
+      buyTimestamp: lot.timestamp,
+      buyPrice: lot.price,
+      amount: matchAmount,
+      costBasis: matchAmount * lot.price,
+    };
+  });
+}
+
+/**
+ * Replay one token's trades and match every sell against open buy lots
+ * using the given cost-basis method. Trades must be sorted by timestamp.
+ */
+export function matchLots(sortedTrades: Trade[], method: CostBasisMethod): LotMatchResult {
+  const lots: Lot[] = [];
+  const sells: SellMatch[] = [];
+
+  for (const trade of sortedTrades) {
+    if (trade.type === 'buy') {
+      lots.push({
+        tradeId: trade.id,
+        timestamp: trade.timestamp,
+        amount: trade.tokenAmount,
+        remaining: trade.tokenAmount,
+        price: trade.pricePerToken,
+      });
+      continue;
+    }
+
+    const matches = method === 'average'
+      ? consumeAverage(lots, trade.tokenAmount)
+      : consumeOrdered(lots, trade.tokenAmount, method);
+    const matchedAmount = matches.reduce((sum, m) => sum + m.amount, 0);
+    const costBasis = matches.reduce((sum, m) => sum + m.costBasis, 0);
+
+    sells.push({
+      sell: trade,
+      matchedAmount,
+      unmatchedAmount: Math.max(trade.tokenAmount - matchedAmount, 0),
+      costBasis,
+      proceeds: trade.solAmount,
+      realizedPnL: trade.solAmount - costBasis,
+      lots: matches,
+    });
+  }
+
+  return {
+    sells,
+    openLots: lots.filter((lot) => lot.remaining > LOT_EPSILON),
+  };
+}
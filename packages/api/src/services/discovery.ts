@@ -1,5 +1,23 @@
-import type { Timeframe, WalletRanking } from '@funeral-vision/shared';
-import { walletQueries, followScoreQueries } from '../db/index.js';
+import {
+  type Timeframe,
+  type Trade,
+  type WalletRanking,
+  type SlippageModel,
+  type FollowPricing,
+  TIMEFRAMES,
+  TIMEFRAME_SECONDS,
+  DEFAULT_COST_BASIS_METHOD,
+} from '@funeral-vision/shared';
+import { db, walletQueries, followScoreQueries, timeframeStatsQueries } from '../db/index.js';
+import { matchLots, type SellMatch } from './costBasis.js';
+import { getTradesForWallet, summarizePeriod } from './pnl.js';
+import { simulateFollowTrades } from './followSimulator.js';
+import { PriceTape } from './priceTape.js';
+import { slippageProfileExists } from './slippageProfiles.js';
+import { getFarmerVerdicts } from './farmerDetector.js';
+
+// Rank movement is measured against a baseline refreshed at most this often
+const RANK_BASELINE_SECONDS = 24 * 60 * 60;
 
 interface RankingOptions {
   timeframe?: Timeframe;
@@ -14,30 +32,190 @@ interface WalletRow {
   address: string;
   name: string | null;
   emoji: string | null;
-  total_realized_pnl: number | null;
-  win_rate: number | null;
-  total_sol_volume: number | null;
-  total_trades: number | null;
   quick_flip_rate: number | null;
   exited_token_rate: number | null;
 }
 
-interface FollowScoreRow {
+interface FollowConfigRow {
   wallet_address: string;
-  followability_ratio: number | null;
+  delay_seconds: number;
+  slippage_model: SlippageModel;
+  slippage_profile_id: number | null;
+  pricing: FollowPricing | null;
+}
+
+interface TimeframeStatsRow {
+  wallet_address: string;
+  realized_pnl: number;
+  net_realized_pnl: number;
+  total_fees: number;
+  win_rate: number;
+  total_sol_volume: number;
+  total_trades: number;
   simulated_pnl: number | null;
+  followability_ratio: number | null;
   avg_time_to_first_sell_sec: number | null;
   quick_dump_rate: number | null;
+  rank: number | null;
+  previous_rank: number | null;
+  computed_at: number;
+}
+
+interface RankRow {
+  wallet_address: string;
+  rank: number | null;
+  previous_rank: number | null;
+  previous_rank_at: number | null;
+}
+
+/**
+ * Match every sell against its lots over the wallet's full history, so a
+ * sell inside a window keeps the cost basis of a buy made before it
+ */
+function matchAllSells(allTrades: Trade[]): SellMatch[] {
+  const tradesByToken = new Map<string, Trade[]>();
+  for (const trade of allTrades) {
+    const existing = tradesByToken.get(trade.tokenMint) || [];
+    existing.push(trade);
+    tradesByToken.set(trade.tokenMint, existing);
+  }
+
+  const sells: SellMatch[] = [];
+  for (const tokenTrades of tradesByToken.values()) {
+    const sorted = [...tokenTrades].sort((a, b) => a.timestamp - b.timestamp);
+    sells.push(...matchLots(sorted, DEFAULT_COST_BASIS_METHOD).sells);
+  }
+  return sells;
+}
+
+function mapFollowConfig(row: FollowConfigRow | undefined): WalletRanking['followConfig'] {
+  if (!row) return undefined;
+  return {
+    delaySeconds: row.delay_seconds,
+    slippageModel: row.slippage_profile_id === null ? row.slippage_model : null,
+    slippageProfileId: row.slippage_profile_id,
+    pricing: row.pricing ?? 'heuristic',
+  };
+}
+
+/**
+ * Materialize a wallet's rolling stats for every timeframe from one load of its
+ * trades. Follow simulation fields reuse the wallet's last follow-score config
+ * (delay, slippage model or profile, pricing) and stay empty until it has been
+ * scored. Ranks are left to rerankTimeframes.
+ */
+export function refreshTimeframeStats(
+  walletAddress: string,
+  allTrades: Trade[] = getTradesForWallet(walletAddress, 'all')
+): void {
+  const now = Math.floor(Date.now() / 1000);
+  const sellMatches = matchAllSells(allTrades);
+  const scoredConfig = followScoreQueries.getScore.get(walletAddress) as FollowConfigRow | undefined;
+  // A deleted slippage profile leaves the follow fields empty until the wallet is re-scored
+  const followConfig = scoredConfig?.slippage_profile_id != null && !slippageProfileExists(scoredConfig.slippage_profile_id)
+    ? undefined
+    : scoredConfig;
+  const pricing = followConfig?.pricing ?? 'heuristic';
+  const tape = pricing === 'tape' ? new PriceTape() : undefined;
+
+  const write = db.transaction(() => {
+    for (const timeframe of TIMEFRAMES) {
+      const timeframeSeconds = TIMEFRAME_SECONDS[timeframe];
+      const periodStart = timeframeSeconds ? now - timeframeSeconds : 0;
+
+      const periodTrades = allTrades.filter((t) => t.timestamp >= periodStart);
+      const totals = summarizePeriod(
+        periodTrades,
+        sellMatches.filter((m) => m.sell.timestamp >= periodStart)
+      );
+      const follow = followConfig
+        ? simulateFollowTrades(
+          walletAddress,
+          periodTrades,
+          followConfig.delay_seconds,
+          followConfig.slippage_profile_id ?? followConfig.slippage_model,
+          pricing,
+          tape
+        )
+        : null;
+
+      timeframeStatsQueries.upsertStats.run({
+        wallet_address: walletAddress,
+        timeframe,
+        realized_pnl: totals.totalRealizedPnL,
+        net_realized_pnl: totals.totalRealizedPnL - totals.totalFees,
+        total_fees: totals.totalFees,
+        win_rate: totals.winRate,
+        total_sol_volume: totals.totalSolVolume,
+        total_trades: totals.totalTrades,
+        simulated_pnl: follow?.simulatedPnL ?? null,
+        followability_ratio: follow?.followabilityRatio ?? null,
+        avg_time_to_first_sell_sec: follow?.avgTimeToFirstSellSec ?? null,
+        quick_dump_rate: follow?.quickDumpRate ?? null,
+        computed_at: now,
+      });
+    }
+  });
+  write();
 }
 
 /**
- * Rank wallets using cached stats from the wallets table + follow simulation scores.
- * This is fast because it only reads pre-computed values - no recalculation.
+ * Re-rank every timeframe from the materialized stats. The previous rank is
+ * only rolled forward once the baseline is a day old, so movement shows the
+ * change over roughly the last day rather than since the last sync.
+ */
+export function rerankTimeframes(): void {
+  const now = Math.floor(Date.now() / 1000);
+
+  const rerank = db.transaction(() => {
+    for (const timeframe of TIMEFRAMES) {
+      const rows = timeframeStatsQueries.getRankingOrder.all(timeframe) as RankRow[];
+
+      rows.forEach((row, index) => {
+        const baselineExpired = row.previous_rank_at === null
+          || now - row.previous_rank_at >= RANK_BASELINE_SECONDS;
+
+        timeframeStatsQueries.updateRank.run({
+          wallet_address: row.wallet_address,
+          timeframe,
+          rank: index + 1,
+          previous_rank: baselineExpired ? row.rank : row.previous_rank,
+          previous_rank_at: baselineExpired ? now : row.previous_rank_at,
+        });
+      });
+    }
+  });
+  rerank();
+}
+
+/**
+ * Refresh timeframe stats for every catalog wallet and re-rank
+ */
+export function refreshAllTimeframeStats(): number {
+  const wallets = walletQueries.getAllWallets.all('default') as { address: string }[];
+
+  let refreshed = 0;
+  for (const wallet of wallets) {
+    try {
+      refreshTimeframeStats(wallet.address);
+      refreshed++;
+    } catch (err) {
+      console.error(`Failed to refresh timeframe stats for ${wallet.address}:`, err);
+    }
+  }
+  rerankTimeframes();
+
+  return refreshed;
+}
+
+/**
+ * Rank wallets using the materialized per-timeframe stats. This is fast because
+ * it only reads pre-computed values - no recalculation.
  *
- * Wallets are now ranked by a composite score that considers:
+ * PnL, win rate, volume and follow simulation all cover the requested window.
+ * Wallets are ordered by the stored rank, a composite that considers:
  * - Simulated follow returns (what a copier would actually make)
- * - Followability ratio (simulated PnL / actual PnL)
- * - Quick dump rate (lower is better)
+ * - Actual realized PnL for wallets that have not been scored yet
  */
 export function rankProfitableWallets({
   timeframe = '30d',
@@ -47,36 +225,33 @@ export function rankProfitableWallets({
   minFollowability = 0,  // Default to no filter
   limit = 20,
 }: RankingOptions = {}): WalletRanking[] {
-  // Pull known wallets with cached stats
+  // Pull known wallets for names and behavior stats
   const walletRows = walletQueries.getAllWallets.all('default') as WalletRow[];
 
-  // Pull all follow scores into a map for fast lookup
-  const followScoreRows = followScoreQueries.getAllScores.all() as FollowScoreRow[];
-  const followScoreMap = new Map<string, FollowScoreRow>();
-  for (const score of followScoreRows) {
-    followScoreMap.set(score.wallet_address, score);
+  // Pull the timeframe's stats into a map for fast lookup
+  const statsRows = timeframeStatsQueries.getStatsByTimeframe.all(timeframe) as TimeframeStatsRow[];
+  const statsMap = new Map<string, TimeframeStatsRow>();
+  for (const stats of statsRows) {
+    statsMap.set(stats.wallet_address, stats);
   }
+  const farmerVerdicts = getFarmerVerdicts();
+  const followConfigs = new Map(
+    (followScoreQueries.getAllScores.all() as FollowConfigRow[]).map((config) => [config.wallet_address, config])
+  );
 
   const results: WalletRanking[] = [];
 
   for (const row of walletRows) {
-    // Use cached stats - skip wallets that haven't been synced yet
-    const totalTrades = row.total_trades ?? 0;
-    const totalSolVolume = row.total_sol_volume ?? 0;
-    const winRate = row.win_rate ?? 0;
-    const realizedPnL = row.total_realized_pnl ?? 0;
+    // Skip wallets that haven't been synced yet
+    const stats = statsMap.get(row.address);
+    if (!stats) continue;
 
     // Apply basic filters using cached data
-    if (totalTrades < minTrades) continue;
-    if (totalSolVolume < minVolume) continue;
-    if (winRate < minWinRate) continue;
+    if (stats.total_trades < minTrades) continue;
+    if (stats.total_sol_volume < minVolume) continue;
+    if (stats.win_rate < minWinRate) continue;
 
-    // Get follow score data
-    const followScore = followScoreMap.get(row.address);
-    const followabilityRatio = followScore?.followability_ratio ?? undefined;
-    const simulatedPnL = followScore?.simulated_pnl ?? undefined;
-    const avgTimeToFirstSellSec = followScore?.avg_time_to_first_sell_sec ?? undefined;
-    const quickDumpRate = followScore?.quick_dump_rate ?? undefined;
+    const followabilityRatio = stats.followability_ratio ?? undefined;
 
     // Apply followability filter if set
     if (minFollowability > 0) {
@@ -89,35 +264,31 @@ export function rankProfitableWallets({
       address: row.address,
       name: row.name,
       emoji: row.emoji,
-      realizedPnL,
-      winRate,
-      totalTrades,
-      totalSolVolume,
+      realizedPnL: stats.realized_pnl,
+      netRealizedPnL: stats.net_realized_pnl,
+      totalFees: stats.total_fees,
+      winRate: stats.win_rate,
+      totalTrades: stats.total_trades,
+      totalSolVolume: stats.total_sol_volume,
       timeframe,
+      // Behavior profile rates are all-time
       quickFlipRate: row.quick_flip_rate ?? undefined,
       exitedTokenRate: row.exited_token_rate ?? undefined,
       followabilityRatio,
-      simulatedPnL,
-      avgTimeToFirstSellSec,
-      quickDumpRate,
+      simulatedPnL: stats.simulated_pnl ?? undefined,
+      avgTimeToFirstSellSec: stats.avg_time_to_first_sell_sec ?? undefined,
+      quickDumpRate: stats.quick_dump_rate ?? undefined,
+      followConfig: followabilityRatio !== undefined ? mapFollowConfig(followConfigs.get(row.address)) : undefined,
+      rank: stats.rank ?? undefined,
+      previousRank: stats.previous_rank ?? undefined,
+      statsComputedAt: stats.computed_at,
+      farmerScore: farmerVerdicts.get(row.address)?.score,
+      farmerVerdict: farmerVerdicts.get(row.address)?.verdict,
     });
   }
 
-  // Sort by composite score:
-  // Primary: simulated PnL (what follower would actually make)
-  // Secondary: followability ratio (how much of their profits you'd capture)
-  // Fallback: actual PnL (if no follow scores yet)
-  results.sort((a, b) => {
-    // If both have simulated PnL, sort by that
-    if (a.simulatedPnL !== undefined && b.simulatedPnL !== undefined) {
-      return b.simulatedPnL - a.simulatedPnL;
-    }
-    // If only one has simulated PnL, prefer the one that has it
-    if (a.simulatedPnL !== undefined) return -1;
-    if (b.simulatedPnL !== undefined) return 1;
-    // Fallback to actual PnL
-    return b.realizedPnL - a.realizedPnL;
-  });
+  // Unranked rows (materialized since the last re-rank) go last
+  results.sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
 
   return results.slice(0, limit);
 }
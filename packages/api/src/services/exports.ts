@@ -0,0 +1,337 @@
+import {
+  type ExportKind,
+  type ExportOptions,
+  type Position,
+  type Realization,
+  type Timeframe,
+  type Trade,
+  DEFAULT_COST_BASIS_METHOD,
+  TIMEFRAME_SECONDS,
+} from '@funeral-vision/shared';
+import { tradeQueries } from '../db/index.js';
+import {
+  calculateCostBasisPnL,
+  generatePnLSummary,
+  getPositionsForWallet,
+  getTradesForWallet,
+  mapTradeRow,
+  tradeFees,
+} from './pnl.js';
+import { getStoredRealizationsAfter, toRealization } from './realizations.js';
+import { loadSolUsdRates, utcDay } from './solUsdRates.js';
+
+// Rows read and written per round trip, so large wallets never sit in memory at once
+const BATCH_SIZE = 1000;
+
+interface TradeRow {
+  id: string;
+  wallet_address: string;
+  signature: string;
+  timestamp: number;
+  type: Trade['type'];
+  token_mint: string;
+  token_symbol: string | null;
+  token_amount: number;
+  sol_amount: number;
+  price_per_token: number;
+  dex: string | null;
+  network_fee: number | null;
+  priority_fee: number | null;
+  tip: number | null;
+  parser_version: number | null;
+}
+
+type ExportValue = string | number | null | undefined;
+type ExportRecord = Record<string, ExportValue>;
+
+/**
+ * Where export output goes. write resolves once the chunk may be followed by more
+ * (e.g. after the HTTP response drains).
+ */
+export interface ExportSink {
+  write(chunk: string): Promise<void>;
+}
+
+/**
+ * SOL values in the requested currency. USD uses the rate of the value's UTC day
+ * and is null when that day has no rate.
+ */
+interface Denominator {
+  currency: 'SOL' | 'USD';
+  rateAt(timestamp: number): number | null;
+  convert(sol: number | undefined, timestamp: number): number | null;
+}
+
+const TRADE_COLUMNS = [
+  'time', 'timestamp', 'signature', 'type', 'tokenMint', 'tokenSymbol', 'tokenAmount',
+  'value', 'pricePerToken', 'fees', 'dex', 'currency',
+];
+
+const POSITION_COLUMNS = [
+  'tokenMint', 'tokenSymbol', 'totalBought', 'totalSold', 'remainingTokens', 'costBasis', 'proceeds',
+  'realizedPnL', 'fees', 'netRealizedPnL', 'openCostBasis', 'markPrice', 'markValue', 'unrealizedPnL',
+  'tradeCount', 'winCount', 'firstTradeAt', 'lastTradeAt', 'currency',
+];
+
+const REALIZATION_COLUMNS = [
+  'time', 'timestamp', 'signature', 'tokenMint', 'tokenSymbol', 'amount', 'matchedAmount', 'unmatchedAmount',
+  'costBasis', 'proceeds', 'realizedPnL', 'lots', 'avgHoldingPeriod', 'currency',
+];
+
+function periodStart(timeframe: Timeframe): number {
+  const seconds = TIMEFRAME_SECONDS[timeframe];
+  return seconds ? Math.floor(Date.now() / 1000) - seconds : 0;
+}
+
+function isoTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Quote fields that need it, and defuse text a spreadsheet would run as a formula
+ * (token symbols are chosen by whoever launched the token)
+ */
+function csvField(value: ExportValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header line, or a JSON array of objects
+ */
+function createRecordWriter(format: ExportOptions['format'], columns: string[], sink: ExportSink) {
+  let written = 0;
+
+  return {
+    start: () => sink.write(format === 'csv' ? `${columns.join(',')}\n` : '['),
+    async write(records: ExportRecord[]) {
+      if (records.length === 0) return;
+
+      const chunk = records
+        .map((record, i) => {
+          if (format === 'csv') return `${columns.map(column => csvField(record[column])).join(',')}\n`;
+          const object = Object.fromEntries(columns.map(column => [column, record[column] ?? null]));
+          return `${written + i === 0 ? '\n' : ',\n'}${JSON.stringify(object)}`;
+        })
+        .join('');
+      written += records.length;
+      await sink.write(chunk);
+    },
+    end: () => sink.write(format === 'csv' ? '' : written > 0 ? '\n]\n' : ']\n'),
+  };
+}
+
+async function createDenominator(
+  options: ExportOptions,
+  walletAddress: string,
+  from: number
+): Promise<Denominator> {
+  if (options.currency === 'sol') {
+    return { currency: 'SOL', rateAt: () => 1, convert: sol => sol ?? null };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const range = tradeQueries.getTradeTimeRange.get(walletAddress, from) as { first: number | null };
+  const rates = await loadSolUsdRates(range.first ?? now, now);
+  const rateAt = (timestamp: number) => rates.get(utcDay(timestamp)) ?? null;
+
+  return {
+    currency: 'USD',
+    rateAt,
+    convert(sol, timestamp) {
+      const rate = rateAt(timestamp);
+      return sol === undefined || rate === null ? null : sol * rate;
+    },
+  };
+}
+
+function withRate(columns: string[], denominator: Denominator): string[] {
+  return denominator.currency === 'USD' ? [...columns, 'solUsdRate'] : columns;
+}
+
+function tradeRecord(trade: Trade, denominator: Denominator): ExportRecord {
+  const { timestamp } = trade;
+  return {
+    time: isoTime(timestamp),
+    timestamp,
+    signature: trade.signature,
+    type: trade.type,
+    tokenMint: trade.tokenMint,
+    tokenSymbol: trade.tokenSymbol,
+    tokenAmount: trade.tokenAmount,
+    value: denominator.convert(trade.solAmount, timestamp),
+    pricePerToken: denominator.convert(trade.pricePerToken, timestamp),
+    fees: denominator.convert(tradeFees(trade), timestamp),
+    dex: trade.dex,
+    currency: denominator.currency,
+    solUsdRate: denominator.rateAt(timestamp),
+  };
+}
+
+/**
+ * Positions are valued at the current rate in USD: they mix buys and sells from many days
+ */
+function positionRecord(position: Position, denominator: Denominator, now: number): ExportRecord {
+  const value = (sol: number | undefined) => denominator.convert(sol, now);
+  return {
+    tokenMint: position.tokenMint,
+    tokenSymbol: position.tokenSymbol,
+    totalBought: position.totalBought,
+    totalSold: position.totalSold,
+    remainingTokens: position.remainingTokens,
+    costBasis: value(position.totalCostBasis),
+    proceeds: value(position.totalProceeds),
+    realizedPnL: value(position.realizedPnL),
+    fees: value(position.totalFees),
+    netRealizedPnL: value(position.netRealizedPnL),
+    openCostBasis: value(position.openCostBasis),
+    markPrice: value(position.markPrice),
+    markValue: value(position.markValue),
+    unrealizedPnL: value(position.unrealizedPnL),
+    tradeCount: position.tradeCount,
+    winCount: position.winCount,
+    firstTradeAt: isoTime(position.firstTradeAt),
+    lastTradeAt: isoTime(position.lastTradeAt),
+    currency: denominator.currency,
+    solUsdRate: denominator.rateAt(now),
+  };
+}
+
+/**
+ * In USD each lot's cost uses its buy day's rate and the proceeds the sell day's,
+ * so the gain includes SOL's own move while the tokens were held
+ */
+function realizationRecord(realization: Realization, denominator: Denominator): ExportRecord {
+  const { timestamp } = realization;
+  const proceeds = denominator.convert(realization.proceeds, timestamp);
+  const lotCosts = realization.lots.map(lot => denominator.convert(lot.costBasis, lot.buyTimestamp));
+  const costBasis = lotCosts.includes(null)
+    ? null
+    : lotCosts.reduce<number>((sum, cost) => sum + (cost ?? 0), 0);
+  const heldAmount = realization.lots.reduce((sum, lot) => sum + lot.amount, 0);
+
+  return {
+    time: isoTime(timestamp),
+    timestamp,
+    signature: realization.signature,
+    tokenMint: realization.tokenMint,
+    tokenSymbol: realization.tokenSymbol,
+    amount: realization.amount,
+    matchedAmount: realization.matchedAmount,
+    unmatchedAmount: realization.unmatchedAmount,
+    costBasis,
+    proceeds,
+    realizedPnL: proceeds === null || costBasis === null ? null : proceeds - costBasis,
+    lots: realization.lots.length,
+    avgHoldingPeriod: heldAmount > 0
+      ? realization.lots.reduce((sum, lot) => sum + lot.holdingPeriod * lot.amount, 0) / heldAmount
+      : null,
+    currency: denominator.currency,
+    solUsdRate: denominator.rateAt(timestamp),
+  };
+}
+
+/**
+ * Trades in the timeframe, oldest first, read in keyset batches
+ */
+async function exportTrades(walletAddress: string, options: ExportOptions, sink: ExportSink): Promise<void> {
+  const from = periodStart(options.timeframe);
+  const denominator = await createDenominator(options, walletAddress, from);
+  const writer = createRecordWriter(options.format, withRate(TRADE_COLUMNS, denominator), sink);
+
+  await writer.start();
+  let after = { timestamp: -1, id: '' };
+  for (;;) {
+    const rows = tradeQueries.getTradesAfter.all({
+      wallet_address: walletAddress,
+      from,
+      after_timestamp: after.timestamp,
+      after_id: after.id,
+      limit: BATCH_SIZE,
+    }) as TradeRow[];
+    if (rows.length === 0) break;
+
+    await writer.write(rows.map(row => tradeRecord(mapTradeRow(row), denominator)));
+    const last = rows[rows.length - 1];
+    after = { timestamp: last.timestamp, id: last.id };
+    if (rows.length < BATCH_SIZE) break;
+  }
+  await writer.end();
+}
+
+/**
+ * The positions the analyze endpoint reports for the same timeframe and method
+ */
+async function exportPositions(walletAddress: string, options: ExportOptions, sink: ExportSink): Promise<void> {
+  const positions = options.timeframe === 'all'
+    ? getPositionsForWallet(walletAddress, options.costBasis)
+    : generatePnLSummary(walletAddress, getTradesForWallet(walletAddress, 'all'), options.timeframe, options.costBasis).positions;
+
+  const now = Math.floor(Date.now() / 1000);
+  const denominator = await createDenominator(options, walletAddress, now);
+  const writer = createRecordWriter(options.format, withRate(POSITION_COLUMNS, denominator), sink);
+
+  await writer.start();
+  await writer.write(positions.map(position => positionRecord(position, denominator, now)));
+  await writer.end();
+}
+
+/**
+ * Sells in the timeframe, oldest first. The stored ledger is read in batches;
+ * other cost-basis methods have to match every trade first.
+ */
+async function exportRealizations(walletAddress: string, options: ExportOptions, sink: ExportSink): Promise<void> {
+  const from = periodStart(options.timeframe);
+  // Lots can be older than the timeframe, so rates start at the first trade
+  const denominator = await createDenominator(options, walletAddress, 0);
+  const writer = createRecordWriter(options.format, withRate(REALIZATION_COLUMNS, denominator), sink);
+
+  await writer.start();
+  if (options.costBasis === DEFAULT_COST_BASIS_METHOD) {
+    let after: { timestamp: number; sellTradeId: string } | null = null;
+    for (;;) {
+      const batch = getStoredRealizationsAfter(walletAddress, from, after, BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      await writer.write(batch.map(realization => realizationRecord(realization, denominator)));
+      const last = batch[batch.length - 1];
+      after = { timestamp: last.timestamp, sellTradeId: last.sellTradeId };
+      if (batch.length < BATCH_SIZE) break;
+    }
+  } else {
+    const trades = getTradesForWallet(walletAddress, 'all');
+    const buySignatures = new Map(trades.map(t => [t.id, t.signature]));
+    const { sellMatches } = calculateCostBasisPnL(walletAddress, trades, options.costBasis);
+    const matches = sellMatches
+      .filter(m => m.sell.timestamp >= from)
+      .sort((a, b) => a.sell.timestamp - b.sell.timestamp);
+
+    for (let i = 0; i < matches.length; i += BATCH_SIZE) {
+      await writer.write(matches.slice(i, i + BATCH_SIZE).map(m =>
+        realizationRecord(toRealization(walletAddress, m, buySignatures), denominator)
+      ));
+    }
+  }
+  await writer.end();
+}
+
+const EXPORTERS: Record<ExportKind, (walletAddress: string, options: ExportOptions, sink: ExportSink) => Promise<void>> = {
+  trades: exportTrades,
+  positions: exportPositions,
+  realizations: exportRealizations,
+};
+
+/**
+ * Write a wallet's trades, positions or realized gains to the sink
+ */
+export function writeExport(
+  kind: ExportKind,
+  walletAddress: string,
+  options: ExportOptions,
+  sink: ExportSink
+): Promise<void> {
+  return EXPORTERS[kind](walletAddress, options, sink);
+}
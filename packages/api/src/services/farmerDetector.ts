@@ -0,0 +1,358 @@
+import {
+  type FarmerEvidence,
+  type FarmerEvidenceTrade,
+  type FarmerReport,
+  type FarmerSignal,
+  type FarmerSignalScore,
+  type FarmerVerdict,
+} from '@funeral-vision/shared';
+import { farmerReportQueries } from '../db/index.js';
+
+// A sell "lands on" a catalog buy within this many slots (~8s), or seconds when a slot is unknown
+const FOLLOWER_SLOT_WINDOW = 20;
+const FOLLOWER_WINDOW_SECONDS = 8;
+
+// Buy-to-sell time that counts as a quick round trip
+const QUICK_ROUND_TRIP_SECONDS = 60;
+
+// First buys this close to a token's mint / pool creation count as launch buys
+const LAUNCH_SLOT_WINDOW = 5;
+const LAUNCH_WINDOW_SECONDS = 3;
+
+// Signals need this many samples to be scored; the report needs at least one scored signal
+const MIN_SIGNAL_SAMPLE = 5;
+const MAX_EVIDENCE_PER_SIGNAL = 25;
+
+const SIGNAL_WEIGHTS: Record<FarmerSignal, number> = {
+  follower_sells: 0.35,
+  follower_inflow: 0.25,
+  quick_round_trips: 0.25,
+  launch_buys: 0.15,
+};
+
+const VERDICT_THRESHOLDS = { likely: 0.5, suspicious: 0.25 };
+
+interface TradeRow {
+  wallet_address: string;
+  signature: string;
+  timestamp: number;
+  type: 'buy' | 'sell';
+  token_mint: string;
+  token_symbol: string | null;
+  sol_amount: number;
+  block_slot: number | null;
+}
+
+interface LaunchRow {
+  mint: string;
+  first_signature: string | null;
+  first_timestamp: number | null;
+  first_slot: number | null;
+  source: 'mint' | 'pool_init';
+}
+
+// Where a trade or launch landed on chain
+type ChainPoint = Pick<TradeRow, 'timestamp' | 'block_slot'>;
+
+interface ReportRow {
+  wallet_address: string;
+  score: number;
+  verdict: FarmerVerdict;
+  signals: string;
+  evidence: string;
+  computed_at: number;
+}
+
+interface SignalResult {
+  hits: number;
+  sampleSize: number;
+  evidence: FarmerEvidence[];
+}
+
+function toEvidenceTrade(row: TradeRow): FarmerEvidenceTrade {
+  return {
+    walletAddress: row.wallet_address,
+    signature: row.signature,
+    type: row.type,
+    timestamp: row.timestamp,
+    slot: row.block_slot,
+    solAmount: row.sol_amount,
+  };
+}
+
+function mapReport(row: ReportRow): FarmerReport {
+  return {
+    walletAddress: row.wallet_address,
+    score: row.score,
+    verdict: row.verdict,
+    signals: JSON.parse(row.signals),
+    evidence: JSON.parse(row.evidence),
+    computedAt: row.computed_at,
+  };
+}
+
+function groupByMint(rows: TradeRow[]): Map<string, TradeRow[]> {
+  const byMint = new Map<string, TradeRow[]>();
+  for (const row of rows) {
+    const list = byMint.get(row.token_mint);
+    if (list) {
+      list.push(row);
+    } else {
+      byMint.set(row.token_mint, [row]);
+    }
+  }
+  return byMint;
+}
+
+/**
+ * Slot distance when both slots are known, otherwise time distance against the seconds window
+ */
+function withinWindow(a: ChainPoint, b: ChainPoint, slotWindow: number, secondsWindow: number): boolean {
+  if (a.block_slot !== null && b.block_slot !== null) {
+    return Math.abs(a.block_slot - b.block_slot) <= slotWindow;
+  }
+  return Math.abs(a.timestamp - b.timestamp) <= secondsWindow;
+}
+
+function describeGap(a: ChainPoint, b: ChainPoint): string {
+  if (a.block_slot !== null && b.block_slot !== null) {
+    return `${Math.abs(a.block_slot - b.block_slot)} slots`;
+  }
+  return `${Math.abs(a.timestamp - b.timestamp)}s`;
+}
+
+/**
+ * Sells that land on other catalog wallets' buys of the same mint. Only buys after the
+ * wallet's own first buy count, so wallets that bought earlier are not treated as followers.
+ * Also returns the share of sell volume the follower buys could have absorbed.
+ */
+function scoreFollowerSells(
+  tradesByMint: Map<string, TradeRow[]>,
+  otherBuysByMint: Map<string, TradeRow[]>
+): SignalResult & { matchedSol: number; soldSol: number } {
+  let hits = 0;
+  let sampleSize = 0;
+  let soldSol = 0;
+  let matchedSol = 0;
+  const evidence: FarmerEvidence[] = [];
+
+  for (const [mint, trades] of tradesByMint) {
+    const firstBuy = trades.find(t => t.type === 'buy');
+    const otherBuys = (otherBuysByMint.get(mint) ?? []).filter(
+      b => firstBuy !== undefined && b.timestamp >= firstBuy.timestamp
+    );
+
+    for (const sell of trades) {
+      if (sell.type !== 'sell') continue;
+      sampleSize++;
+      soldSol += sell.sol_amount;
+
+      const followers = otherBuys.filter(
+        b => withinWindow(sell, b, FOLLOWER_SLOT_WINDOW, FOLLOWER_WINDOW_SECONDS)
+      );
+      if (followers.length === 0) continue;
+
+      hits++;
+      const followerSol = followers.reduce((sum, b) => sum + b.sol_amount, 0);
+      matchedSol += Math.min(sell.sol_amount, followerSol);
+      const closest = followers.reduce((best, b) =>
+        Math.abs(b.timestamp - sell.timestamp) < Math.abs(best.timestamp - sell.timestamp) ? b : best
+      );
+      evidence.push({
+        signal: 'follower_sells',
+        tokenMint: mint,
+        tokenSymbol: sell.token_symbol ?? undefined,
+        trade: toEvidenceTrade(sell),
+        related: followers.map(toEvidenceTrade),
+        detail: `Sold ${sell.sol_amount.toFixed(3)} SOL within ${describeGap(sell, closest)} of ` +
+          `${followers.length} catalog buy${followers.length === 1 ? '' : 's'} (${followerSol.toFixed(3)} SOL)`,
+      });
+    }
+  }
+
+  return { hits, sampleSize, evidence, matchedSol, soldSol };
+}
+
+/**
+ * Positions opened and first sold within QUICK_ROUND_TRIP_SECONDS. A sell closes the
+ * round trip that the earliest buy since the previous sell opened.
+ */
+function scoreQuickRoundTrips(tradesByMint: Map<string, TradeRow[]>): SignalResult {
+  let hits = 0;
+  let sampleSize = 0;
+  const evidence: FarmerEvidence[] = [];
+
+  for (const [mint, trades] of tradesByMint) {
+    let openingBuy: TradeRow | null = null;
+    for (const trade of trades) {
+      if (trade.type === 'buy') {
+        openingBuy ??= trade;
+        continue;
+      }
+      if (!openingBuy) continue;
+
+      sampleSize++;
+      const holdSeconds = trade.timestamp - openingBuy.timestamp;
+      if (holdSeconds <= QUICK_ROUND_TRIP_SECONDS) {
+        hits++;
+        evidence.push({
+          signal: 'quick_round_trips',
+          tokenMint: mint,
+          tokenSymbol: trade.token_symbol ?? undefined,
+          trade: toEvidenceTrade(trade),
+          related: [toEvidenceTrade(openingBuy)],
+          detail: `Bought ${openingBuy.sol_amount.toFixed(3)} SOL and sold ${trade.sol_amount.toFixed(3)} SOL ${holdSeconds}s later`,
+        });
+      }
+      openingBuy = null;
+    }
+  }
+
+  return { hits, sampleSize, evidence };
+}
+
+/**
+ * First buys right at a token's mint or pool creation. Mints only seen in
+ * stored transactions ('first_seen') are not reliable launch times and are skipped.
+ */
+function scoreLaunchBuys(tradesByMint: Map<string, TradeRow[]>, launches: LaunchRow[]): SignalResult {
+  let hits = 0;
+  let sampleSize = 0;
+  const evidence: FarmerEvidence[] = [];
+
+  for (const launch of launches) {
+    const firstBuy = tradesByMint.get(launch.mint)?.find(t => t.type === 'buy');
+    if (!firstBuy || launch.first_timestamp === null) continue;
+
+    sampleSize++;
+    const launchPoint: ChainPoint = { timestamp: launch.first_timestamp, block_slot: launch.first_slot };
+    if (!withinWindow(firstBuy, launchPoint, LAUNCH_SLOT_WINDOW, LAUNCH_WINDOW_SECONDS)) continue;
+
+    hits++;
+    evidence.push({
+      signal: 'launch_buys',
+      tokenMint: launch.mint,
+      tokenSymbol: firstBuy.token_symbol ?? undefined,
+      trade: toEvidenceTrade(firstBuy),
+      related: [],
+      detail: `First buy of ${firstBuy.sol_amount.toFixed(3)} SOL within ${describeGap(firstBuy, launchPoint)} of the ` +
+        `${launch.source === 'mint' ? 'token mint' : 'pool creation'}`,
+    });
+  }
+
+  return { hits, sampleSize, evidence };
+}
+
+function toSignalScore(signal: FarmerSignal, hits: number, sampleSize: number, score: number): FarmerSignalScore {
+  return { signal, score, weight: SIGNAL_WEIGHTS[signal], hits, sampleSize };
+}
+
+function getVerdict(score: number): FarmerVerdict {
+  if (score >= VERDICT_THRESHOLDS.likely) return 'likely';
+  if (score >= VERDICT_THRESHOLDS.suspicious) return 'suspicious';
+  return 'clean';
+}
+
+/**
+ * Score a wallet on each farmer signal and collect the trades behind them.
+ * The overall score is the weighted mean of the signals with at least
+ * MIN_SIGNAL_SAMPLE samples, so a wallet is not marked clean for lack of data.
+ */
+export function buildFarmerReport(walletAddress: string): FarmerReport {
+  const trades = farmerReportQueries.getWalletTrades.all(walletAddress) as TradeRow[];
+  const otherBuys = farmerReportQueries.getOtherBuysForSoldMints.all({ wallet_address: walletAddress }) as TradeRow[];
+  const launches = farmerReportQueries.getLaunchesForBoughtMints.all(walletAddress) as LaunchRow[];
+
+  const tradesByMint = groupByMint(trades);
+  const followerSells = scoreFollowerSells(tradesByMint, groupByMint(otherBuys));
+  const quickRoundTrips = scoreQuickRoundTrips(tradesByMint);
+  const launchBuys = scoreLaunchBuys(tradesByMint, launches);
+
+  const rate = (result: SignalResult) => (result.sampleSize > 0 ? result.hits / result.sampleSize : 0);
+  const signals: FarmerSignalScore[] = [
+    toSignalScore('follower_sells', followerSells.hits, followerSells.sampleSize, rate(followerSells)),
+    toSignalScore(
+      'follower_inflow',
+      followerSells.hits,
+      followerSells.sampleSize,
+      followerSells.soldSol > 0 ? followerSells.matchedSol / followerSells.soldSol : 0
+    ),
+    toSignalScore('quick_round_trips', quickRoundTrips.hits, quickRoundTrips.sampleSize, rate(quickRoundTrips)),
+    toSignalScore('launch_buys', launchBuys.hits, launchBuys.sampleSize, rate(launchBuys)),
+  ];
+
+  const scored = signals.filter(s => s.sampleSize >= MIN_SIGNAL_SAMPLE);
+  const totalWeight = scored.reduce((sum, s) => sum + s.weight, 0);
+  const score = totalWeight > 0
+    ? scored.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight
+    : 0;
+
+  const evidence = [followerSells, quickRoundTrips, launchBuys]
+    .flatMap(result =>
+      result.evidence
+        .sort((a, b) => b.trade.timestamp - a.trade.timestamp)
+        .slice(0, MAX_EVIDENCE_PER_SIGNAL)
+    )
+    .sort((a, b) => b.trade.timestamp - a.trade.timestamp);
+
+  return {
+    walletAddress,
+    score,
+    verdict: scored.length > 0 ? getVerdict(score) : 'insufficient_data',
+    signals,
+    evidence,
+    computedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Rebuild and store a wallet's report
+ */
+export function refreshFarmerReport(walletAddress: string): FarmerReport {
+  const report = buildFarmerReport(walletAddress);
+  farmerReportQueries.upsertReport.run({
+    wallet_address: walletAddress,
+    score: report.score,
+    verdict: report.verdict,
+    signals: JSON.stringify(report.signals),
+    evidence: JSON.stringify(report.evidence),
+    computed_at: report.computedAt,
+  });
+  return report;
+}
+
+/**
+ * Refresh the stored reports that depend on this wallet's buys, after it synced
+ */
+export function refreshFollowedFarmerReports(walletAddress: string): number {
+  const rows = farmerReportQueries.getReportsSellingBoughtMints.all({ wallet_address: walletAddress }) as {
+    wallet_address: string;
+  }[];
+  for (const row of rows) {
+    refreshFarmerReport(row.wallet_address);
+  }
+  return rows.length;
+}
+
+/**
+ * Stored report for a catalog wallet, computed on first request or when `refresh`
+ * is set. Wallets outside the catalog are scored on the fly and nothing is stored.
+ */
+export function getFarmerReport(walletAddress: string, refresh = false): FarmerReport {
+  if (!farmerReportQueries.isCatalogWallet.get(walletAddress)) {
+    return buildFarmerReport(walletAddress);
+  }
+  if (!refresh) {
+    const row = farmerReportQueries.getReport.get(walletAddress) as ReportRow | undefined;
+    if (row) return mapReport(row);
+  }
+  return refreshFarmerReport(walletAddress);
+}
+
+/**
+ * Score and verdict per wallet for the catalog and ranking badges
+ */
+export function getFarmerVerdicts(): Map<string, { score: number; verdict: FarmerVerdict }> {
+  const rows = farmerReportQueries.getVerdicts.all() as Pick<ReportRow, 'wallet_address' | 'score' | 'verdict'>[];
+  return new Map(rows.map(row => [row.wallet_address, { score: row.score, verdict: row.verdict }]));
+}
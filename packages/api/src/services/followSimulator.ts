@@ -1,21 +1,16 @@
-import type { Trade } from '@funeral-vision/shared';
-import { tradeQueries, followScoreQueries, walletQueries } from '../db/index.js';
-
-// Slippage models - percentage applied to each trade
-export type SlippageModel = 'conservative' | 'moderate' | 'aggressive';
-
-const SLIPPAGE_CONFIG: Record<SlippageModel, { small: number; medium: number; large: number }> = {
-  conservative: { small: 0.01, medium: 0.02, large: 0.05 },  // 1%, 2%, 5%
-  moderate: { small: 0.02, medium: 0.05, large: 0.10 },      // 2%, 5%, 10%
-  aggressive: { small: 0.03, medium: 0.08, large: 0.15 },    // 3%, 8%, 15%
-};
-
-// Trade size thresholds in SOL
-const SIZE_THRESHOLDS = {
-  small: 0.5,   // < 0.5 SOL
-  medium: 2.0,  // 0.5 - 2 SOL
-  // large: > 2 SOL
-};
+import type {
+  Trade,
+  SlippageModel,
+  FollowPricing,
+  FollowSweepPoint,
+  FollowCutoff,
+  FollowabilityCurve,
+  FollowSweepRanking,
+  SlippageProfileInput,
+} from '@funeral-vision/shared';
+import { db, tradeQueries, followScoreQueries, followSweepQueries, walletQueries } from '../db/index.js';
+import { PriceTape } from './priceTape.js';
+import { getProfileSlippage, resolveSlippage, type ResolvedSlippage } from './slippageProfiles.js';
 
 // Time thresholds for followability
 const TIME_THRESHOLDS = {
@@ -40,7 +35,9 @@ interface TokenRoundTrip {
 export interface FollowSimulationResult {
   walletAddress: string;
   delaySeconds: number;
-  slippageModel: SlippageModel;
+  slippageModel: SlippageModel | null; // null when a custom profile was used
+  slippageProfileId: number | null;
+  pricing: FollowPricing;
 
   // Core metrics
   actualPnL: number;
@@ -60,18 +57,55 @@ export interface FollowSimulationResult {
   // Position sizing
   avgEntrySizeSol: number;
 
+  // Simulated legs priced from the trade tape vs. estimated with the drift heuristic
+  tapePricedLegs: number;
+  estimatedLegs: number;
+
   // Per-token breakdown (for detailed analysis)
   tokenBreakdown: TokenRoundTrip[];
 }
 
 /**
- * Get slippage percentage based on trade size and model
+ * Relative price move between the leader's fill and the follower's at t + delay.
+ * Buys assume the price ran up and sells that it fell, unless the tape shows
+ * what actually happened.
+ */
+function followerPriceMove(
+  trade: Trade,
+  delaySeconds: number,
+  driftPerSecond: number,
+  tape: PriceTape | null
+): { move: number; tapePriced: boolean } {
+  if (tape && trade.pricePerToken > 0) {
+    const price = tape.priceNear(trade.tokenMint, trade.timestamp + delaySeconds, trade.timestamp);
+    if (price !== null) {
+      return { move: price / trade.pricePerToken - 1, tapePriced: true };
+    }
+  }
+
+  const drift = delaySeconds * driftPerSecond;
+  return { move: trade.type === 'buy' ? drift : -drift, tapePriced: false };
+}
+
+/**
+ * SOL the follower pays (buy) or receives (sell) per SOL of the leader's fill,
+ * after the price move over the delay and the slippage for a `solAmount`-sized
+ * trade on the leader's DEX
  */
-function getSlippage(solAmount: number, model: SlippageModel): number {
-  const config = SLIPPAGE_CONFIG[model];
-  if (solAmount < SIZE_THRESHOLDS.small) return config.small;
-  if (solAmount < SIZE_THRESHOLDS.medium) return config.medium;
-  return config.large;
+export function followerFillRatio(
+  trade: Trade,
+  solAmount: number,
+  delaySeconds: number,
+  profile: SlippageProfileInput,
+  tape: PriceTape | null
+): { ratio: number; tapePriced: boolean } {
+  const legSlippage = getProfileSlippage(profile, solAmount, trade.dex);
+  const slip = trade.type === 'buy' ? legSlippage : -legSlippage;
+  const { move, tapePriced } = followerPriceMove(trade, delaySeconds, profile.driftPerSecond, tape);
+  return {
+    ratio: tapePriced ? (1 + move) * (1 + slip) : 1 + slip + move,
+    tapePriced,
+  };
 }
 
 /**
@@ -86,16 +120,12 @@ function getFollowabilityScore(timeToFirstSellSec: number): number {
 }
 
 /**
- * Simulate following a wallet's trades
+ * Load a wallet's trades from `since` (unix seconds) on
  */
-export function simulateFollowReturns(
-  walletAddress: string,
-  delaySeconds: number = 5,
-  slippageModel: SlippageModel = 'moderate'
-): FollowSimulationResult {
-  // Get all trades for wallet
-  const rows = tradeQueries.getTradesByWallet.all(walletAddress) as any[];
-  const trades: Trade[] = rows.map(row => ({
+function loadTrades(walletAddress: string, since: number): Trade[] {
+  const rows = (tradeQueries.getTradesByWallet.all(walletAddress) as any[])
+    .filter(row => row.timestamp >= since);
+  return rows.map(row => ({
     id: row.id,
     walletAddress: row.wallet_address,
     signature: row.signature,
@@ -107,7 +137,59 @@ export function simulateFollowReturns(
     solAmount: row.sol_amount,
     pricePerToken: row.price_per_token,
     dex: row.dex,
+    networkFee: row.network_fee ?? 0,
+    priorityFee: row.priority_fee ?? 0,
+    tip: row.tip ?? 0,
   }));
+}
+
+/**
+ * Simulate following a wallet's trades. `slippage` is a built-in model or the
+ * id of a stored slippage profile. With `since`, only trades from that unix
+ * time on are followed, so round trips opened earlier are left out.
+ * Tape pricing can share a `tape` across calls to avoid reloading mints.
+ */
+export function simulateFollowReturns(
+  walletAddress: string,
+  delaySeconds: number = 5,
+  slippage: SlippageModel | number = 'moderate',
+  since: number = 0,
+  pricing: FollowPricing = 'heuristic',
+  tape?: PriceTape
+): FollowSimulationResult {
+  const trades = loadTrades(walletAddress, since);
+  return simulateFollowTrades(walletAddress, trades, delaySeconds, slippage, pricing, tape);
+}
+
+/**
+ * simulateFollowReturns over trades the caller already loaded, e.g. one load of a
+ * wallet's history filtered per timeframe
+ */
+export function simulateFollowTrades(
+  walletAddress: string,
+  trades: Trade[],
+  delaySeconds: number,
+  slippage: SlippageModel | number,
+  pricing: FollowPricing = 'heuristic',
+  tape?: PriceTape
+): FollowSimulationResult {
+  return simulateTrades(
+    walletAddress,
+    trades,
+    delaySeconds,
+    resolveSlippage(slippage),
+    pricing === 'tape' ? tape ?? new PriceTape() : null
+  );
+}
+
+function simulateTrades(
+  walletAddress: string,
+  trades: Trade[],
+  delaySeconds: number,
+  slippage: ResolvedSlippage,
+  tape: PriceTape | null
+): FollowSimulationResult {
+  const { profile } = slippage;
 
   // Group trades by token
   const tradesByToken = new Map<string, Trade[]>();
@@ -125,6 +207,8 @@ export function simulateFollowReturns(
   let quickDumpCount = 0;
   let followableCount = 0;
   let unfollowableCount = 0;
+  let tapePricedLegs = 0;
+  let estimatedLegs = 0;
 
   for (const [tokenMint, tokenTrades] of tradesByToken) {
     // Sort by timestamp
@@ -153,19 +237,21 @@ export function simulateFollowReturns(
       // Simulate each buy with slippage (follower pays more)
       let simulatedCost = 0;
       for (const buy of buys) {
-        const slippage = getSlippage(buy.solAmount, slippageModel);
-        // Follower enters after delay, price likely moved up + slippage
-        const priceImpact = slippage + (delaySeconds * 0.001); // ~0.1% per second price drift
-        simulatedCost += buy.solAmount * (1 + priceImpact);
+        // Follower enters after delay at the moved price, plus slippage
+        const { ratio, tapePriced } = followerFillRatio(buy, buy.solAmount, delaySeconds, profile, tape);
+        simulatedCost += buy.solAmount * ratio;
+        if (tapePriced) tapePricedLegs++;
+        else estimatedLegs++;
       }
 
       // Simulate each sell with slippage (follower gets less)
       let simulatedProceeds = 0;
       for (const sell of sells) {
-        const slippage = getSlippage(sell.solAmount, slippageModel);
-        // Follower exits after delay, price likely moved down + slippage
-        const priceImpact = slippage + (delaySeconds * 0.001);
-        simulatedProceeds += sell.solAmount * (1 - priceImpact);
+        // Follower exits after delay at the moved price, minus slippage
+        const { ratio, tapePriced } = followerFillRatio(sell, sell.solAmount, delaySeconds, profile, tape);
+        simulatedProceeds += sell.solAmount * ratio;
+        if (tapePriced) tapePricedLegs++;
+        else estimatedLegs++;
       }
 
       simulatedPnL = (simulatedProceeds - simulatedCost) * followabilityScore;
@@ -234,7 +320,9 @@ export function simulateFollowReturns(
   return {
     walletAddress,
     delaySeconds,
-    slippageModel,
+    slippageModel: slippage.model,
+    slippageProfileId: slippage.profileId,
+    pricing: tape ? 'tape' : 'heuristic',
     actualPnL: totalActualPnL,
     simulatedPnL: totalSimulatedPnL,
     followabilityRatio,
@@ -245,25 +333,32 @@ export function simulateFollowReturns(
     followableTokens: followableCount,
     unfollowableTokens: unfollowableCount,
     avgEntrySizeSol,
+    tapePricedLegs,
+    estimatedLegs,
     tokenBreakdown,
   };
 }
 
 /**
- * Run simulation and save to database
+ * Run simulation and save to database. `slippage` is a built-in model or a
+ * slippage profile id.
  */
 export function scoreWallet(
   walletAddress: string,
   delaySeconds: number = 5,
-  slippageModel: SlippageModel = 'moderate'
+  slippage: SlippageModel | number = 'moderate',
+  pricing: FollowPricing = 'heuristic',
+  tape?: PriceTape
 ): FollowSimulationResult {
-  const result = simulateFollowReturns(walletAddress, delaySeconds, slippageModel);
+  const result = simulateFollowReturns(walletAddress, delaySeconds, slippage, 0, pricing, tape);
 
   // Save to database
   followScoreQueries.upsertScore.run({
     wallet_address: walletAddress,
     delay_seconds: delaySeconds,
-    slippage_model: slippageModel,
+    slippage_model: result.slippageModel ?? 'custom',
+    slippage_profile_id: result.slippageProfileId,
+    pricing,
     actual_pnl: result.actualPnL,
     simulated_pnl: result.simulatedPnL,
     followability_ratio: result.followabilityRatio,
@@ -274,6 +369,8 @@ export function scoreWallet(
     followable_tokens: result.followableTokens,
     unfollowable_tokens: result.unfollowableTokens,
     avg_entry_size_sol: result.avgEntrySizeSol,
+    tape_priced_legs: result.tapePricedLegs,
+    estimated_legs: result.estimatedLegs,
     scored_at: Math.floor(Date.now() / 1000),
   });
 
@@ -285,15 +382,21 @@ export function scoreWallet(
  */
 export function scoreAllWallets(
   delaySeconds: number = 5,
-  slippageModel: SlippageModel = 'moderate'
+  slippage: SlippageModel | number = 'moderate',
+  pricing: FollowPricing = 'heuristic'
 ): { scored: number; results: FollowSimulationResult[] } {
+  // Fail the whole run up front on an unknown profile rather than every wallet
+  resolveSlippage(slippage);
+
   // Get all wallet addresses from wallets table
   const wallets = walletQueries.getAllWallets.all('default') as { address: string }[];
+  // Wallets in a catalog often share mints, so they share one tape
+  const tape = pricing === 'tape' ? new PriceTape() : undefined;
 
   const results: FollowSimulationResult[] = [];
   for (const wallet of wallets) {
     try {
-      const result = scoreWallet(wallet.address, delaySeconds, slippageModel);
+      const result = scoreWallet(wallet.address, delaySeconds, slippage, pricing, tape);
       results.push(result);
     } catch (err) {
       console.error(`Failed to score wallet ${wallet.address}:`, err);
@@ -313,7 +416,9 @@ export function getFollowScore(walletAddress: string): FollowSimulationResult |
   return {
     walletAddress: row.wallet_address,
     delaySeconds: row.delay_seconds,
-    slippageModel: row.slippage_model,
+    slippageModel: row.slippage_profile_id === null ? row.slippage_model : null,
+    slippageProfileId: row.slippage_profile_id,
+    pricing: row.pricing ?? 'heuristic',
     actualPnL: row.actual_pnl,
     simulatedPnL: row.simulated_pnl,
     followabilityRatio: row.followability_ratio,
@@ -324,6 +429,187 @@ export function getFollowScore(walletAddress: string): FollowSimulationResult |
     followableTokens: row.followable_tokens,
     unfollowableTokens: row.unfollowable_tokens,
     avgEntrySizeSol: row.avg_entry_size_sol,
+    tapePricedLegs: row.tape_priced_legs ?? 0,
+    estimatedLegs: row.estimated_legs ?? 0,
     tokenBreakdown: [], // Not stored in DB, only available from fresh simulation
   };
 }
+
+// ============ Parameter Sweep ============
+
+interface SweepPointRow {
+  wallet_address: string;
+  delay_seconds: number;
+  slippage_model: SlippageModel;
+  actual_pnl: number;
+  simulated_pnl: number;
+  followability_ratio: number;
+  total_tokens_traded: number;
+  followable_tokens: number;
+  scored_at: number;
+}
+
+function toSweepPoint(row: SweepPointRow): FollowSweepPoint {
+  return {
+    delaySeconds: row.delay_seconds,
+    slippageModel: row.slippage_model,
+    actualPnL: row.actual_pnl,
+    simulatedPnL: row.simulated_pnl,
+    followabilityRatio: row.followability_ratio,
+    totalTokensTraded: row.total_tokens_traded,
+    followableTokens: row.followable_tokens,
+    scoredAt: row.scored_at,
+  };
+}
+
+/**
+ * First delay at which the simulated follow no longer makes money.
+ * Points must be for one slippage model, sorted by delay.
+ */
+function findUnprofitableDelay(points: FollowSweepPoint[]): number | null {
+  return points.find(p => p.simulatedPnL <= 0)?.delaySeconds ?? null;
+}
+
+function buildCurve(walletAddress: string, points: FollowSweepPoint[]): FollowabilityCurve {
+  const byModel = new Map<SlippageModel, FollowSweepPoint[]>();
+  for (const point of points) {
+    const existing = byModel.get(point.slippageModel) || [];
+    existing.push(point);
+    byModel.set(point.slippageModel, existing);
+  }
+
+  const cutoffs: FollowCutoff[] = [...byModel].map(([slippageModel, modelPoints]) => ({
+    slippageModel,
+    unprofitableAtDelaySeconds: findUnprofitableDelay(modelPoints),
+  }));
+
+  return { walletAddress, points, cutoffs };
+}
+
+/**
+ * Simulate a wallet over every (delay, slippage model) pair and store each
+ * result. Earlier results for configurations outside the grid are kept.
+ */
+export function sweepWallet(
+  walletAddress: string,
+  delays: number[],
+  slippageModels: SlippageModel[]
+): FollowabilityCurve {
+  const trades = loadTrades(walletAddress, 0);
+  const scoredAt = Math.floor(Date.now() / 1000);
+  const sortedDelays = [...new Set(delays)].sort((a, b) => a - b);
+
+  const points: FollowSweepPoint[] = [];
+  for (const slippageModel of slippageModels) {
+    for (const delaySeconds of sortedDelays) {
+      const result = simulateTrades(walletAddress, trades, delaySeconds, resolveSlippage(slippageModel), null);
+      points.push({
+        delaySeconds,
+        slippageModel,
+        actualPnL: result.actualPnL,
+        simulatedPnL: result.simulatedPnL,
+        followabilityRatio: result.followabilityRatio,
+        totalTokensTraded: result.totalTokensTraded,
+        followableTokens: result.followableTokens,
+        scoredAt,
+      });
+    }
+  }
+
+  const write = db.transaction(() => {
+    for (const point of points) {
+      followSweepQueries.upsertPoint.run({
+        wallet_address: walletAddress,
+        delay_seconds: point.delaySeconds,
+        slippage_model: point.slippageModel,
+        actual_pnl: point.actualPnL,
+        simulated_pnl: point.simulatedPnL,
+        followability_ratio: point.followabilityRatio,
+        total_tokens_traded: point.totalTokensTraded,
+        followable_tokens: point.followableTokens,
+        scored_at: scoredAt,
+      });
+    }
+  });
+  write();
+
+  return buildCurve(walletAddress, points);
+}
+
+/**
+ * Sweep all wallets in the catalog
+ */
+export function sweepAllWallets(
+  delays: number[],
+  slippageModels: SlippageModel[]
+): { swept: number; failed: number } {
+  const wallets = walletQueries.getAllWallets.all('default') as { address: string }[];
+
+  let swept = 0;
+  let failed = 0;
+  for (const wallet of wallets) {
+    try {
+      sweepWallet(wallet.address, delays, slippageModels);
+      swept++;
+    } catch (err) {
+      failed++;
+      console.error(`Failed to sweep wallet ${wallet.address}:`, err);
+    }
+  }
+
+  return { swept, failed };
+}
+
+/**
+ * Get the stored followability curve for a wallet
+ */
+export function getFollowabilityCurve(walletAddress: string): FollowabilityCurve | null {
+  const rows = followSweepQueries.getPointsByWallet.all(walletAddress) as SweepPointRow[];
+  if (rows.length === 0) return null;
+
+  return buildCurve(walletAddress, rows.map(toSweepPoint));
+}
+
+/**
+ * Rank swept catalog wallets by simulated PnL at one configuration
+ */
+export function rankWalletsAtDelay(
+  delaySeconds: number,
+  slippageModel: SlippageModel,
+  limit: number = 100
+): FollowSweepRanking[] {
+  const wallets = walletQueries.getAllWallets.all('default') as {
+    address: string;
+    name: string | null;
+    emoji: string | null;
+  }[];
+
+  const pointsByWallet = new Map<string, FollowSweepPoint[]>();
+  for (const row of followSweepQueries.getPointsByModel.all(slippageModel) as SweepPointRow[]) {
+    const existing = pointsByWallet.get(row.wallet_address) || [];
+    existing.push(toSweepPoint(row));
+    pointsByWallet.set(row.wallet_address, existing);
+  }
+
+  const rankings: FollowSweepRanking[] = [];
+  for (const wallet of wallets) {
+    const points = pointsByWallet.get(wallet.address);
+    const point = points?.find(p => p.delaySeconds === delaySeconds);
+    if (!points || !point) continue;
+
+    rankings.push({
+      address: wallet.address,
+      name: wallet.name,
+      emoji: wallet.emoji,
+      delaySeconds,
+      slippageModel,
+      actualPnL: point.actualPnL,
+      simulatedPnL: point.simulatedPnL,
+      followabilityRatio: point.followabilityRatio,
+      unprofitableAtDelaySeconds: findUnprofitableDelay(points),
+    });
+  }
+
+  rankings.sort((a, b) => b.simulatedPnL - a.simulatedPnL);
+  return rankings.slice(0, limit);
+}
@@ -1,22 +1,106 @@
 import axios, { AxiosInstance } from 'axios';
 import { Connection, PublicKey, type ConfirmedSignatureInfo } from '@solana/web3.js';
 import type { HeliusEnhancedTransaction } from '@funeral-vision/shared';
+import type { HeliusEndpoint } from './heliusUsage.js';
+import { RateLimiter, type RateLimits } from './rateLimiter.js';
 
 const HELIUS_API_BASE = 'https://api.helius.xyz';
 const HELIUS_RPC_BASE = 'https://mainnet.helius-rpc.com';
 
+// A key that got a 429 is skipped for this long while other keys take its requests
+const KEY_COOLDOWN_MS = 10000;
+
+/**
+ * Helius rate-limits plain RPC, the Enhanced Transactions API and DAS separately
+ */
+type EndpointClass = 'rpc' | 'enhanced' | 'das';
+
+const ENDPOINT_CLASSES: Record<HeliusEndpoint, EndpointClass> = {
+  getSignaturesForAddress: 'rpc',
+  getParsedTransaction: 'rpc',
+  parseTransactions: 'enhanced',
+  getAssetBatch: 'das',
+};
+
+// Per key, overridable with HELIUS_<CLASS>_RPS and HELIUS_<CLASS>_MAX_IN_FLIGHT.
+// Defaults stay under the free plan (10 RPC, 2 enhanced/DAS req/s).
+const DEFAULT_LIMITS: Record<EndpointClass, { requestsPerSecond: number; maxInFlight: number }> = {
+  rpc: { requestsPerSecond: 10, maxInFlight: 4 },
+  enhanced: { requestsPerSecond: 1.5, maxInFlight: 2 },
+  das: { requestsPerSecond: 1.5, maxInFlight: 2 },
+};
+
+interface HeliusKey {
+  apiKey: string;
+  label: string; // Masked, safe to log and store
+  connection: Connection;
+}
+
+// Credit accounting opens the database, so it's loaded with the first request rather than
+// on import - the transaction sources and their offline tests import this client
+const loadUsage = () => import('./heliusUsage.js');
+
+function maskKey(apiKey: string): string {
+  return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
+
+function isRateLimited(error: any): boolean {
+  return error?.response?.status === 429 || /\b429\b|too many requests/i.test(error?.message ?? '');
+}
+
+function endpointLimits(endpointClass: EndpointClass): RateLimits {
+  const name = endpointClass.toUpperCase();
+  const defaults = DEFAULT_LIMITS[endpointClass];
+  return {
+    requestsPerSecond: Number(process.env[`HELIUS_${name}_RPS`]) || defaults.requestsPerSecond,
+    maxInFlight: Math.max(1, Math.floor(Number(process.env[`HELIUS_${name}_MAX_IN_FLIGHT`]) || defaults.maxInFlight)),
+    cooldownMs: KEY_COOLDOWN_MS,
+  };
+}
+
+/**
+ * Run `fn` over items with at most `concurrency` running at once, in item order.
+ * The first error stops new items from starting and is rethrown.
+ */
+async function mapConcurrent<T, R>(items: T[], concurrency: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
 export class HeliusService {
-  private apiKey: string;
-  private connection: Connection;
+  private keys: HeliusKey[];
+  private limiters: Record<EndpointClass, RateLimiter>;
   private httpClient: AxiosInstance;
-  private lastRequestTime = 0;
-  private minRequestInterval = 100; // 100ms = 10 req/s for RPC
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    const rpcUrl = `${HELIUS_RPC_BASE}/?api-key=${apiKey}`;
-    console.log(`Connecting to Helius RPC: ${HELIUS_RPC_BASE}/?api-key=${apiKey.slice(0, 8)}...`);
-    this.connection = new Connection(rpcUrl);
+
+  constructor(apiKeys: string[]) {
+    this.keys = apiKeys.map((apiKey) => ({
+      apiKey,
+      label: maskKey(apiKey),
+      // 429s are handled here (failover to another key), not by web3.js retries
+      connection: new Connection(`${HELIUS_RPC_BASE}/?api-key=${apiKey}`, { disableRetryOnRateLimit: true }),
+    }));
+    this.limiters = {
+      rpc: new RateLimiter(this.keys.length, endpointLimits('rpc')),
+      enhanced: new RateLimiter(this.keys.length, endpointLimits('enhanced')),
+      das: new RateLimiter(this.keys.length, endpointLimits('das')),
+    };
+    console.log(`Connecting to Helius RPC: ${HELIUS_RPC_BASE} with ${this.keys.length} key(s) (${this.keys.map((k) => k.label).join(', ')})`);
     this.httpClient = axios.create({
       baseURL: HELIUS_API_BASE,
       timeout: 30000,
@@ -24,42 +108,57 @@ export class HeliusService {
   }
 
   /**
-   * Rate limiter - ensures we don't exceed Helius free tier limits
+   * Run a request on a pooled key once its endpoint class has a free slot, retrying
+   * failures with exponential backoff. A 429 cools that key down for the class and
+   * slows it, and the retry goes to another key or waits out the cooldown.
+   * Successful requests are charged to the daily credit budget.
    */
-  private async rateLimit(minInterval: number = this.minRequestInterval): Promise<void> {
-    const now = Date.now();
-    const elapsed = now - this.lastRequestTime;
-    if (elapsed < minInterval) {
-      await new Promise(resolve => setTimeout(resolve, minInterval - elapsed));
-    }
-    this.lastRequestTime = Date.now();
-  }
-
-  /**
-   * Retry wrapper with exponential backoff
-   */
-  private async withRetry<T>(
-    fn: () => Promise<T>,
+  private async request<T>(
+    endpoint: HeliusEndpoint,
+    walletAddress: string | null,
+    fn: (key: HeliusKey) => Promise<T>,
     maxRetries = 5,
     baseDelay = 2000
   ): Promise<T> {
-    for (let i = 0; i < maxRetries; i++) {
+    const usage = await loadUsage();
+    const limiter = this.limiters[ENDPOINT_CLASSES[endpoint]];
+
+    for (let i = 0; ; i++) {
+      usage.assertCreditBudget();
+      const lane = await limiter.acquire();
+      const key = this.keys[lane];
       try {
-        return await fn();
+        const result = await fn(key);
+        limiter.release(lane, 'success');
+        usage.recordCreditUsage(key.label, endpoint, walletAddress);
+        return result;
       } catch (error: any) {
+        const is429 = isRateLimited(error);
+        limiter.release(lane, is429 ? 'rateLimited' : 'failed');
         if (i === maxRetries - 1) throw error;
-        
-        // Check if it's a rate limit error (429)
-        const is429 = error?.response?.status === 429;
-        const delay = is429 
-          ? baseDelay * Math.pow(2, i + 1)  // Longer delay for rate limits
-          : baseDelay * Math.pow(2, i);
-        
-        console.warn(`Request failed (${is429 ? '429 rate limit' : 'error'}), retrying in ${delay}ms...`);
+
+        if (is429) {
+          console.warn(
+            limiter.hasOpenLane()
+              ? `Key ${key.label} rate limited on ${endpoint} (429), failing over to another key...`
+              : `Key ${key.label} rate limited on ${endpoint} (429), waiting for a key to cool down...`
+          );
+          continue;
+        }
+
+        const delay = baseDelay * Math.pow(2, i);
+        console.warn(`Request failed (error), retrying in ${delay}ms...`);
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
-    throw new Error('Max retries exceeded');
+  }
+
+  /**
+   * Masked keys in the pool and whether each is cooling down after a 429
+   */
+  getKeyStates(): { key: string; coolingDown: boolean }[] {
+    const limiters = Object.values(this.limiters);
+    return this.keys.map((k, lane) => ({ key: k.label, coolingDown: limiters.some((l) => l.isCooling(lane)) }));
   }
 
   /**
@@ -74,11 +173,9 @@ export class HeliusService {
       until?: string;
     } = {}
   ): Promise<ConfirmedSignatureInfo[]> {
-    await this.rateLimit();
-
     const publicKey = new PublicKey(address);
-    const signatures = await this.withRetry(() =>
-      this.connection.getSignaturesForAddress(publicKey, {
+    const signatures = await this.request('getSignaturesForAddress', address, (key) =>
+      key.connection.getSignaturesForAddress(publicKey, {
         limit: options.limit || 1000,
         before: options.before,
         until: options.until,
@@ -88,68 +185,16 @@ export class HeliusService {
     return signatures;
   }
 
-  /**
-   * Fetch ALL signatures for a wallet with automatic pagination
-   * Warning: This can use many credits for active wallets
-   */
-  async getAllSignaturesForAddress(
-    address: string,
-    options: {
-      until?: string; // Stop at this signature (for incremental sync)
-      maxSignatures?: number; // Safety limit
-      onProgress?: (count: number) => void;
-    } = {}
-  ): Promise<ConfirmedSignatureInfo[]> {
-    const allSignatures: ConfirmedSignatureInfo[] = [];
-    let lastSignature: string | undefined = undefined;
-    const maxSignatures = options.maxSignatures || 10000;
-
-    while (allSignatures.length < maxSignatures) {
-      const batch = await this.getSignaturesForAddress(address, {
-        limit: 1000,
-        before: lastSignature,
-        until: options.until,
-      });
-
-      if (batch.length === 0) break;
-
-      // Check if we hit the 'until' signature
-      const untilIndex = options.until
-        ? batch.findIndex(s => s.signature === options.until)
-        : -1;
-
-      if (untilIndex >= 0) {
-        allSignatures.push(...batch.slice(0, untilIndex));
-        break;
-      }
-
-      allSignatures.push(...batch);
-      lastSignature = batch[batch.length - 1].signature;
-
-      if (options.onProgress) {
-        options.onProgress(allSignatures.length);
-      }
-
-      // If we got less than 1000, we've reached the end
-      if (batch.length < 1000) break;
-    }
-
-    return allSignatures;
-  }
-
   /**
    * Parse transactions using Helius Enhanced Transactions API
-   * Batches up to 100 signatures at once
+   * Batches up to 100 signatures at once. Credits are charged to `walletAddress` when given.
    */
-  async parseTransactions(signatures: string[]): Promise<HeliusEnhancedTransaction[]> {
+  async parseTransactions(signatures: string[], walletAddress: string | null = null): Promise<HeliusEnhancedTransaction[]> {
     if (signatures.length === 0) return [];
 
-    // Helius Enhanced API has lower rate limit (2 req/s), use 600ms to be safe
-    await this.rateLimit(600);
-
-    const response = await this.withRetry(() =>
+    const response = await this.request('parseTransactions', walletAddress, (key) =>
       this.httpClient.post<HeliusEnhancedTransaction[]>(
-        `/v0/transactions?api-key=${this.apiKey}`,
+        `/v0/transactions?api-key=${key.apiKey}`,
         { transactions: signatures.slice(0, 100) }
       )
     );
@@ -158,28 +203,34 @@ export class HeliusService {
   }
 
   /**
-   * Parse all signatures in batches
+   * Parse all signatures in batches, as many in flight as the enhanced limits allow.
+   * Results keep the order of `signatures`' batches.
    */
   async parseAllTransactions(
     signatures: string[],
     options: {
       onProgress?: (parsed: number, total: number) => void;
+      walletAddress?: string; // Who the credits are charged to
     } = {}
   ): Promise<HeliusEnhancedTransaction[]> {
-    const allParsed: HeliusEnhancedTransaction[] = [];
     const batchSize = 100;
-
+    const batches: string[][] = [];
     for (let i = 0; i < signatures.length; i += batchSize) {
-      const batch = signatures.slice(i, i + batchSize);
-      const parsed = await this.parseTransactions(batch);
-      allParsed.push(...parsed);
+      batches.push(signatures.slice(i, i + batchSize));
+    }
+
+    let parsedCount = 0;
+    const parsedBatches = await mapConcurrent(batches, this.limiters.enhanced.capacity, async (batch) => {
+      const parsed = await this.parseTransactions(batch, options.walletAddress ?? null);
+      parsedCount += parsed.length;
 
       if (options.onProgress) {
-        options.onProgress(allParsed.length, signatures.length);
+        options.onProgress(parsedCount, signatures.length);
       }
-    }
+      return parsed;
+    });
 
-    return allParsed;
+    return parsedBatches.flat();
   }
 
   /**
@@ -187,10 +238,8 @@ export class HeliusService {
    * Fallback for when Enhanced API doesn't parse the transaction type
    */
   async getParsedTransaction(signature: string) {
-    await this.rateLimit();
-
-    return this.withRetry(() =>
-      this.connection.getParsedTransaction(signature, {
+    return this.request('getParsedTransaction', null, (key) =>
+      key.connection.getParsedTransaction(signature, {
         maxSupportedTransactionVersion: 0,
         commitment: 'confirmed',
       })
@@ -198,10 +247,10 @@ export class HeliusService {
   }
 
   /**
-   * Get connection for direct RPC calls
+   * Get connection for direct RPC calls (first key; bypasses the pool and credit accounting)
    */
   getConnection(): Connection {
-    return this.connection;
+    return this.keys[0].connection;
   }
 
   /**
@@ -212,17 +261,18 @@ export class HeliusService {
     if (mints.length === 0) return [];
 
     // DAS API supports batching up to 1000 assets
-    const results: TokenMetadata[] = [];
     const batchSize = 100;
-
+    const batches: string[][] = [];
     for (let i = 0; i < mints.length; i += batchSize) {
-      const batch = mints.slice(i, i + batchSize);
-      await this.rateLimit(300); // DAS has decent rate limits
+      batches.push(mints.slice(i, i + batchSize));
+    }
 
+    const batchResults = await mapConcurrent(batches, this.limiters.das.capacity, async (batch, b) => {
+      const results: TokenMetadata[] = [];
       try {
         // DAS API uses the RPC endpoint (mainnet.helius-rpc.com), not api.helius.xyz
-        const response = await this.withRetry(() =>
-          this.httpClient.post(`${HELIUS_RPC_BASE}/?api-key=${this.apiKey}`, {
+        const response = await this.request('getAssetBatch', null, (key) =>
+          this.httpClient.post(`${HELIUS_RPC_BASE}/?api-key=${key.apiKey}`, {
             jsonrpc: '2.0',
             id: 'token-metadata',
             method: 'getAssetBatch',
@@ -243,15 +293,16 @@ export class HeliusService {
           }
         }
       } catch (error) {
-        console.warn(`Failed to fetch metadata for batch starting at ${i}:`, error);
+        console.warn(`Failed to fetch metadata for batch starting at ${b * batchSize}:`, error);
         // Add nulls for failed batch
         for (const mint of batch) {
           results.push({ mint, symbol: null, name: null, image: null, decimals: null });
         }
       }
-    }
+      return results;
+    });
 
-    return results;
+    return batchResults.flat();
   }
 }
 
@@ -263,16 +314,34 @@ export interface TokenMetadata {
   decimals: number | null;
 }
 
+/**
+ * HELIUS_API_KEYS (comma-separated) plus HELIUS_API_KEY, without duplicates
+ */
+function configuredApiKeys(): string[] {
+  const keys = [...(process.env.HELIUS_API_KEYS || '').split(','), process.env.HELIUS_API_KEY || '']
+    .map((key) => key.trim())
+    .filter(Boolean);
+  return [...new Set(keys)];
+}
+
 // Singleton instance
 let heliusService: HeliusService | null = null;
 
 export function getHeliusService(): HeliusService {
   if (!heliusService) {
-    const apiKey = process.env.HELIUS_API_KEY;
-    if (!apiKey) {
-      throw new Error('HELIUS_API_KEY environment variable is required');
+    const apiKeys = configuredApiKeys();
+    if (apiKeys.length === 0) {
+      throw new Error('HELIUS_API_KEY (or HELIUS_API_KEYS) environment variable is required');
     }
-    heliusService = new HeliusService(apiKey);
+    heliusService = new HeliusService(apiKeys);
   }
   return heliusService;
 }
+
+/**
+ * The key pool's state, without starting the client just to report it
+ */
+export function getHeliusKeyStates(): { key: string; coolingDown: boolean }[] {
+  if (heliusService) return heliusService.getKeyStates();
+  return configuredApiKeys().map((apiKey) => ({ key: maskKey(apiKey), coolingDown: false }));
+}
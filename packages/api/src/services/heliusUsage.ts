@@ -0,0 +1,138 @@
+import type { HeliusUsage } from '@funeral-vision/shared';
+import { usageQueries } from '../db/index.js';
+import { utcDay } from './solUsdRates.js';
+
+// Days of totals returned with GET /usage
+const HISTORY_DAYS = 14;
+const MAX_USAGE_WALLETS = 50;
+
+/**
+ * Credits Helius charges per request, from its published pricing. Failed requests
+ * (429s included) aren't charged.
+ */
+export const HELIUS_CREDIT_COSTS = {
+  getSignaturesForAddress: 10,
+  getParsedTransaction: 10,
+  parseTransactions: 100, // Enhanced Transactions API, up to 100 signatures per call
+  getAssetBatch: 10,
+} as const;
+
+export type HeliusEndpoint = keyof typeof HELIUS_CREDIT_COSTS;
+
+interface UsageRow {
+  credits: number;
+  requests: number;
+}
+
+// Today's spend, kept in memory so the budget check doesn't hit SQLite per request
+let today: { day: string; credits: number } | null = null;
+
+function todaysCredits(): { day: string; credits: number } {
+  const day = utcDay(Math.floor(Date.now() / 1000));
+  if (today?.day !== day) {
+    const totals = usageQueries.getDayTotals.get(day) as UsageRow;
+    today = { day, credits: totals.credits };
+  }
+  return today;
+}
+
+/**
+ * HELIUS_DAILY_CREDIT_BUDGET, or null when spending is unlimited
+ */
+export function getDailyCreditBudget(): number | null {
+  const budget = parseInt(process.env.HELIUS_DAILY_CREDIT_BUDGET || '', 10);
+  return Number.isFinite(budget) && budget > 0 ? budget : null;
+}
+
+export function isCreditBudgetExhausted(): boolean {
+  const budget = getDailyCreditBudget();
+  return budget !== null && todaysCredits().credits >= budget;
+}
+
+/**
+ * Throw before a request once today's budget is spent. Requests already in flight
+ * when it's crossed still complete and are charged, so spend can overshoot by up to
+ * the rate limiters' capacity (keys x max in flight per endpoint class) times each
+ * request's cost.
+ */
+export function assertCreditBudget(): void {
+  if (!isCreditBudgetExhausted()) return;
+  throw new Error(
+    `Daily Helius credit budget exhausted (${todaysCredits().credits}/${getDailyCreditBudget()} credits); ` +
+      'syncs resume after 00:00 UTC'
+  );
+}
+
+/**
+ * Count one successful request against its key, endpoint and wallet
+ */
+export function recordCreditUsage(keyLabel: string, endpoint: HeliusEndpoint, walletAddress: string | null): void {
+  const credits = HELIUS_CREDIT_COSTS[endpoint];
+  const counter = todaysCredits();
+  usageQueries.recordUsage.run({
+    day: counter.day,
+    api_key: keyLabel,
+    endpoint,
+    wallet_address: walletAddress ?? '',
+    credits,
+  });
+  counter.credits += credits;
+}
+
+/**
+ * One day's usage (default today) with the totals of the days before it.
+ * `keys` are the configured API keys, listed even when unused.
+ */
+export function getHeliusUsage(
+  keys: { key: string; coolingDown: boolean }[],
+  day: string = utcDay(Math.floor(Date.now() / 1000))
+): HeliusUsage {
+  const totals = usageQueries.getDayTotals.get(day) as UsageRow;
+  const byKey = new Map(
+    (usageQueries.getUsageByKey.all(day) as (UsageRow & { api_key: string })[]).map((row) => [row.api_key, row])
+  );
+  // Keys no longer configured still show what they spent
+  const configured = new Set(keys.map((k) => k.key));
+  const keyRows = [
+    ...keys,
+    ...[...byKey.keys()].filter((key) => !configured.has(key)).map((key) => ({ key, coolingDown: false })),
+  ];
+
+  const endpoints = usageQueries.getUsageByEndpoint.all(day) as (UsageRow & { endpoint: string })[];
+  const wallets = usageQueries.getUsageByWallet.all(day, MAX_USAGE_WALLETS) as (UsageRow & {
+    wallet_address: string;
+    name: string | null;
+  })[];
+
+  const end = new Date(`${day}T00:00:00Z`);
+  const start = utcDay(Math.floor(end.getTime() / 1000) - (HISTORY_DAYS - 1) * 86400);
+  const history = usageQueries.getDailyHistory.all(start, day) as (UsageRow & { day: string })[];
+
+  const budget = getDailyCreditBudget();
+  return {
+    day,
+    credits: totals.credits,
+    requests: totals.requests,
+    dailyBudget: budget,
+    budgetExhausted: budget !== null && totals.credits >= budget,
+    keys: keyRows.map(({ key, coolingDown }) => ({
+      key,
+      coolingDown,
+      credits: byKey.get(key)?.credits ?? 0,
+      requests: byKey.get(key)?.requests ?? 0,
+    })),
+    endpoints: endpoints.map((row) => ({
+      endpoint: row.endpoint,
+      creditCost: HELIUS_CREDIT_COSTS[row.endpoint as HeliusEndpoint] ?? 0,
+      credits: row.credits,
+      requests: row.requests,
+    })),
+    wallets: wallets.map((row) => ({
+      walletAddress: row.wallet_address || null,
+      name: row.name,
+      credits: row.credits,
+      requests: row.requests,
+    })),
+    history,
+  };
+}
@@ -0,0 +1,409 @@
+import type {
+  AggregatedStats,
+  SyncJob,
+  SyncJobKind,
+  SyncJobStatus,
+  SyncJobWalletResult,
+  Timeframe,
+  WalletPnLBreakdown,
+} from '@funeral-vision/shared';
+import { syncJobQueries, walletQueries } from '../db/index.js';
+import { generatePnLSummary, getTradesForWallet } from './pnl.js';
+import { statusEmitter } from './statusEmitter.js';
+import { syncWalletOnce } from './sync.js';
+import { backfillWalletHistory } from './backfill.js';
+import { reparseWallet } from './reparse.js';
+import { rerankTimeframes } from './discovery.js';
+import { isCreditBudgetExhausted } from './heliusUsage.js';
+
+// How often a job held by the credit budget checks whether it may continue
+const BUDGET_POLL_MS = 60000;
+// Wallets a job syncs at once (SYNC_JOB_CONCURRENCY); the Helius client's rate limits pace them
+const DEFAULT_JOB_CONCURRENCY = 4;
+
+function jobConcurrency(kind: SyncJobKind): number {
+  // Re-parsing is CPU-bound and synchronous, so it gains nothing from interleaving
+  if (kind === 'reparse') return 1;
+  return Math.max(1, Math.floor(Number(process.env.SYNC_JOB_CONCURRENCY) || DEFAULT_JOB_CONCURRENCY));
+}
+
+interface SyncJobRow {
+  id: number;
+  user_id: string;
+  kind: SyncJobKind;
+  status: SyncJobStatus;
+  addresses: string;
+  force_refresh: number;
+  timeframe: Timeframe | null;
+  until_timestamp: number | null;
+  dry_run: number;
+  total: number;
+  completed: number;
+  failed: number;
+  current_address: string | null;
+  results: string | null;
+  result: string | null;
+  error: string | null;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+}
+
+const JOB_VERBS: Record<SyncJobKind, string> = {
+  refresh: 'Refreshing',
+  bulk_analyze: 'Analyzing',
+  backfill: 'Backfilling',
+  reparse: 'Re-parsing',
+};
+
+const JOB_LABELS: Record<SyncJobKind, string> = {
+  refresh: 'Refresh',
+  bulk_analyze: 'Bulk analysis',
+  backfill: 'History backfill',
+  reparse: 'Re-parse',
+};
+
+function mapJob(row: SyncJobRow): SyncJob {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    addresses: JSON.parse(row.addresses),
+    forceRefresh: !!row.force_refresh,
+    timeframe: row.timeframe,
+    untilTimestamp: row.until_timestamp,
+    dryRun: !!row.dry_run,
+    total: row.total,
+    completed: row.completed || 0,
+    failed: row.failed || 0,
+    currentAddress: row.current_address,
+    results: row.results ? JSON.parse(row.results) : [],
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function walletDisplay(address: string, userId: string) {
+  const wallet = walletQueries.getWallet.get(address, userId) as { name?: string; emoji?: string } | undefined;
+  return {
+    address,
+    name: wallet?.name || address.slice(0, 8),
+    emoji: wallet?.emoji || '👛',
+  };
+}
+
+// ============ Job management ============
+
+export function enqueueSyncJob(
+  userId: string,
+  input: {
+    kind: SyncJobKind;
+    addresses: string[];
+    forceRefresh?: boolean;
+    timeframe?: Timeframe;
+    untilTimestamp?: number | null;
+    dryRun?: boolean;
+  }
+): SyncJob {
+  const result = syncJobQueries.insertJob.run({
+    user_id: userId,
+    kind: input.kind,
+    addresses: JSON.stringify(input.addresses),
+    force_refresh: input.forceRefresh ? 1 : 0,
+    timeframe: input.kind === 'bulk_analyze' ? input.timeframe ?? 'all' : null,
+    until_timestamp: input.kind === 'backfill' ? input.untilTimestamp ?? null : null,
+    dry_run: input.kind === 'reparse' && input.dryRun ? 1 : 0,
+    total: input.addresses.length,
+    created_at: Math.floor(Date.now() / 1000),
+  });
+
+  syncJobWorker.kick();
+
+  return getSyncJob(Number(result.lastInsertRowid))!;
+}
+
+export function getSyncJob(id: number): SyncJob | null {
+  const row = syncJobQueries.getJob.get(id) as SyncJobRow | undefined;
+  return row ? mapJob(row) : null;
+}
+
+export function getSyncJobs(userId: string, options: { activeOnly?: boolean; limit?: number } = {}): SyncJob[] {
+  const rows = options.activeOnly
+    ? syncJobQueries.getActiveJobs.all(userId)
+    : syncJobQueries.getRecentJobs.all(userId, Math.min(options.limit ?? 20, 100));
+  return (rows as SyncJobRow[]).map(mapJob);
+}
+
+/**
+ * Cancel a queued or running job. A running job stops after the wallet it is
+ * currently syncing; wallets already processed keep their results.
+ */
+export function cancelSyncJob(id: number): SyncJob | null {
+  syncJobQueries.cancelJob.run(Math.floor(Date.now() / 1000), id);
+  return getSyncJob(id);
+}
+
+// ============ Execution ============
+
+/**
+ * Aggregate PnL across wallets from stored trades (no network calls)
+ */
+export function aggregateWalletStats(addresses: string[], userId: string, timeframe: Timeframe): AggregatedStats {
+  const walletBreakdown: WalletPnLBreakdown[] = [];
+  let totalRealizedPnL = 0;
+  let totalTrades = 0;
+  let totalBuys = 0;
+  let totalSells = 0;
+  let totalWins = 0;
+  let totalLosses = 0;
+  let totalSolVolume = 0;
+
+  for (const address of addresses) {
+    const trades = getTradesForWallet(address, 'all');
+    const summary = generatePnLSummary(address, trades, timeframe);
+    const display = walletDisplay(address, userId);
+
+    walletBreakdown.push({
+      address,
+      name: display.name,
+      emoji: display.emoji,
+      realizedPnL: summary.totalRealizedPnL,
+      trades: summary.totalTrades,
+      winRate: summary.winRate,
+      contribution: 0, // Calculated after
+    });
+
+    totalRealizedPnL += summary.totalRealizedPnL;
+    totalTrades += summary.totalTrades;
+    totalBuys += summary.totalBuys;
+    totalSells += summary.totalSells;
+    totalWins += summary.winCount;
+    totalLosses += summary.lossCount;
+    totalSolVolume += summary.totalSolVolume;
+  }
+
+  // Calculate contribution percentages
+  for (const breakdown of walletBreakdown) {
+    breakdown.contribution = totalRealizedPnL !== 0
+      ? (breakdown.realizedPnL / Math.abs(totalRealizedPnL)) * 100
+      : 0;
+  }
+
+  // Sort by PnL descending
+  walletBreakdown.sort((a, b) => b.realizedPnL - a.realizedPnL);
+
+  return {
+    totalWallets: walletBreakdown.length,
+    totalRealizedPnL,
+    totalTrades,
+    totalBuys,
+    totalSells,
+    overallWinRate: totalWins + totalLosses > 0
+      ? (totalWins / (totalWins + totalLosses)) * 100
+      : 0,
+    totalSolVolume,
+    walletBreakdown,
+  };
+}
+
+async function runWallet(
+  job: SyncJob,
+  userId: string,
+  address: string,
+  shouldStop: () => boolean
+): Promise<SyncJobWalletResult> {
+  const display = walletDisplay(address, userId);
+
+  try {
+    if (job.kind === 'backfill') {
+      // Cancellation is honoured between chunks; the cursor keeps what was fetched
+      const result = await backfillWalletHistory(address, userId, { untilTimestamp: job.untilTimestamp, shouldStop });
+      return { address, success: true, trades: result.trades, newTransactions: result.newTransactions };
+    }
+
+    if (job.kind === 'reparse') {
+      // Parsing is synchronous; yield between wallets so requests are served during a long job
+      await new Promise((resolve) => setImmediate(resolve));
+      const { changes, ...summary } = reparseWallet(address, { dryRun: job.dryRun });
+      return { address, success: true, trades: summary.tradesAfter, reparse: summary };
+    }
+
+    if (job.kind === 'refresh') {
+      console.log(`Refreshing ${address}${job.forceRefresh ? ' (full)' : ''} [job ${job.id}]`);
+      const result = await syncWalletOnce(address, userId, job.forceRefresh, display);
+      return { address, success: true, trades: result.totalTrades, newTransactions: result.newTransactions };
+    }
+
+    // bulk_analyze only syncs wallets that have never been synced
+    const wallet = walletQueries.getWallet.get(address, userId) as { last_synced_at?: number } | undefined;
+    if (!wallet?.last_synced_at) {
+      const result = await syncWalletOnce(address, userId, false, display);
+      return { address, success: true, trades: result.totalTrades, newTransactions: result.newTransactions };
+    }
+    return { address, success: true };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    statusEmitter.error(`${JOB_LABELS[job.kind]} failed: ${message}`, display);
+    console.error(`Job ${job.id}: error processing wallet ${address}:`, err);
+    return { address, success: false, error: message };
+  }
+}
+
+/**
+ * Single worker that drains sync_jobs in FIFO order, one job at a time. Within a job
+ * several wallets are synced at once, interleaving their requests; jobs themselves
+ * don't run in parallel since they would only contend for the same rate limits.
+ */
+class SyncJobWorker {
+  private processing = false;
+
+  /**
+   * Resume jobs left running by a previous process and start draining the queue
+   */
+  start(): void {
+    const { changes } = syncJobQueries.requeueInterruptedJobs.run();
+    if (changes > 0) {
+      console.log(`🔁 Resuming ${changes} interrupted sync job(s)`);
+    }
+    this.kick();
+  }
+
+  kick(): void {
+    if (this.processing) return;
+    this.processing = true;
+    setImmediate(() => {
+      void this.drain().finally(() => {
+        this.processing = false;
+      });
+    });
+  }
+
+  private async drain(): Promise<void> {
+    while (true) {
+      const row = syncJobQueries.getNextQueuedJob.get() as SyncJobRow | undefined;
+      if (!row) return;
+
+      const { changes } = syncJobQueries.markRunning.run({ id: row.id, started_at: Math.floor(Date.now() / 1000) });
+      if (changes === 0) continue; // Cancelled between select and update
+
+      try {
+        await this.runJob(mapJob(row), row.user_id);
+      } catch (err) {
+        console.error(`Sync job ${row.id} failed:`, err);
+        syncJobQueries.finishJob.run({
+          id: row.id,
+          status: 'failed',
+          result: null,
+          error: err instanceof Error ? err.message : 'Unknown error',
+          finished_at: Math.floor(Date.now() / 1000),
+        });
+      }
+    }
+  }
+
+  private isCancelled(jobId: number): boolean {
+    const row = syncJobQueries.getJobStatus.get(jobId) as { status: SyncJobStatus } | undefined;
+    return !row || row.status === 'cancelled';
+  }
+
+  /**
+   * Hold the job while today's Helius credit budget is spent (until it resets or the job is cancelled)
+   */
+  private async waitForCreditBudget(jobId: number): Promise<void> {
+    if (!isCreditBudgetExhausted()) return;
+
+    statusEmitter.warning(`Job ${jobId} paused: daily Helius credit budget exhausted, resuming after 00:00 UTC`);
+    while (isCreditBudgetExhausted() && !this.isCancelled(jobId)) {
+      await new Promise((resolve) => setTimeout(resolve, BUDGET_POLL_MS));
+    }
+  }
+
+  private async runJob(job: SyncJob, userId: string): Promise<void> {
+    const results = [...job.results];
+    const resumed = results.length > 0;
+    const verb = JOB_VERBS[job.kind];
+
+    const label = job.kind === 'refresh' ? `${job.forceRefresh ? 'full' : 'incremental'} refresh` : JOB_LABELS[job.kind].toLowerCase();
+    statusEmitter.info(`${resumed ? 'Resuming' : 'Starting'} ${label} of ${job.total} wallets (job ${job.id})`);
+
+    // Wallets with results were processed before a restart. Results are kept in
+    // completion order, which differs from address order when wallets interleave.
+    const done = new Set(results.map(r => r.address));
+    const pending = job.addresses.filter(address => !done.has(address));
+    let started = results.length;
+    let cancelled = false;
+    let budgetWait: Promise<void> | null = null;
+    const inFlight: string[] = [];
+
+    const saveProgress = () => {
+      syncJobQueries.updateProgress.run({
+        id: job.id,
+        completed: results.length,
+        failed: results.filter(r => !r.success).length,
+        current_address: inFlight[inFlight.length - 1] ?? null,
+        results: JSON.stringify(results),
+      });
+    };
+
+    const worker = async () => {
+      while (pending.length > 0 && !cancelled) {
+        if (job.kind !== 'reparse') {
+          // One wait per job however many wallets are in flight
+          budgetWait ??= this.waitForCreditBudget(job.id).finally(() => { budgetWait = null; });
+          await budgetWait;
+        }
+        if (cancelled) return;
+        if (this.isCancelled(job.id)) {
+          cancelled = true;
+          statusEmitter.warning(`Job ${job.id} cancelled after ${results.length}/${job.total} wallets`);
+          return;
+        }
+
+        const address = pending.shift();
+        if (!address) return;
+        started++;
+        inFlight.push(address);
+        saveProgress();
+        statusEmitter.progress(`${verb} wallet ${started}/${job.total}`, started, job.total, walletDisplay(address, userId));
+
+        const result = await runWallet(job, userId, address, () => this.isCancelled(job.id));
+        results.push(result);
+        inFlight.splice(inFlight.indexOf(address), 1);
+        saveProgress();
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(jobConcurrency(job.kind), pending.length) }, worker));
+
+    // Once per job rather than after every wallet, cancelled jobs included
+    if (!(job.kind === 'reparse' && job.dryRun)) rerankTimeframes();
+
+    if (this.isCancelled(job.id)) return;
+
+    const successful = results.filter(r => r.success);
+    const aggregated = job.kind === 'bulk_analyze'
+      ? aggregateWalletStats(successful.map(r => r.address), userId, job.timeframe ?? 'all')
+      : null;
+    const allFailed = results.length > 0 && successful.length === 0;
+
+    syncJobQueries.finishJob.run({
+      id: job.id,
+      status: allFailed ? 'failed' : 'succeeded',
+      result: aggregated ? JSON.stringify(aggregated) : null,
+      error: allFailed ? 'Every wallet in the job failed' : null,
+      finished_at: Math.floor(Date.now() / 1000),
+    });
+
+    statusEmitter.success(
+      job.kind === 'bulk_analyze'
+        ? `Bulk analysis complete! ${successful.length} wallets analyzed`
+        : `${JOB_LABELS[job.kind]} complete! ${successful.length}/${job.total} wallets updated`
+    );
+  }
+}
+
+// Singleton instance
+export const syncJobWorker = new SyncJobWorker();
@@ -0,0 +1,218 @@
+import {
+  type HeliusEnhancedTransaction,
+  INTERMEDIATE_TOKENS,
+  NATIVE_SOL_MINT,
+  WSOL_MINT,
+} from '@funeral-vision/shared';
+import { db, tokenLaunchQueries, txQueries } from '../db/index.js';
+import { invalidateTokenLaunchCache } from './profile.js';
+import { statusEmitter } from './statusEmitter.js';
+
+/**
+ * How a launch record was discovered, strongest evidence first:
+ * - mint: the transaction created/minted the token
+ * - pool_init: the transaction initialized a liquidity pool for the token
+ * - first_seen: earliest stored transaction that touched the token
+ */
+export type LaunchSource = 'mint' | 'pool_init' | 'first_seen';
+
+const SOURCE_RANK: Record<LaunchSource, number> = {
+  mint: 0,
+  pool_init: 1,
+  first_seen: 2,
+};
+
+// Helius enhanced transaction types that create a new token
+const MINT_CREATION_TYPES = new Set(['CREATE', 'TOKEN_MINT', 'CREATE_MINT', 'INITIALIZE_MINT']);
+
+// Helius enhanced transaction types that open a new market for a token
+const POOL_INIT_TYPES = new Set(['CREATE_POOL', 'INITIALIZE_POOL', 'CREATE_MARKET']);
+
+// Rows read per page during a backfill
+const BACKFILL_PAGE_SIZE = 500;
+
+interface LaunchCandidate {
+  mint: string;
+  signature: string;
+  timestamp: number;
+  slot: number | null;
+  source: LaunchSource;
+}
+
+export interface LaunchIndexInput {
+  tx: HeliusEnhancedTransaction;
+  slot?: number | null;
+}
+
+export interface LaunchBackfillResult {
+  scanned: number;
+  launches: number;
+}
+
+function isTrackableMint(mint: string | undefined): mint is string {
+  if (!mint) return false;
+  if (mint === NATIVE_SOL_MINT || mint === WSOL_MINT || mint === '11111111111111111111111111111111') return false;
+  return !INTERMEDIATE_TOKENS.has(mint);
+}
+
+/**
+ * Extract launch candidates from a single enhanced transaction
+ */
+export function detectLaunchEvents(tx: HeliusEnhancedTransaction, slot?: number | null): LaunchCandidate[] {
+  if (!tx?.signature || !tx.timestamp || tx.transactionError) return [];
+
+  // Every non-routing mint the transaction touched
+  const touched = new Set<string>();
+  // Mints that appeared out of nowhere (no sender) - i.e. freshly minted
+  const minted = new Set<string>();
+
+  for (const transfer of tx.tokenTransfers || []) {
+    if (!isTrackableMint(transfer.mint)) continue;
+    touched.add(transfer.mint);
+    if (!transfer.fromUserAccount && !transfer.fromTokenAccount) {
+      minted.add(transfer.mint);
+    }
+  }
+
+  for (const acc of tx.accountData || []) {
+    for (const tbc of acc.tokenBalanceChanges || []) {
+      if (isTrackableMint(tbc.mint)) touched.add(tbc.mint);
+    }
+  }
+
+  if (touched.size === 0) return [];
+
+  const type = (tx.type || '').toUpperCase();
+  const resolvedSlot = slot ?? tx.slot ?? null;
+  const candidates: LaunchCandidate[] = [];
+
+  for (const mint of touched) {
+    let source: LaunchSource = 'first_seen';
+    if (MINT_CREATION_TYPES.has(type) && (minted.size === 0 || minted.has(mint))) {
+      source = 'mint';
+    } else if (POOL_INIT_TYPES.has(type)) {
+      source = 'pool_init';
+    }
+
+    candidates.push({
+      mint,
+      signature: tx.signature,
+      timestamp: tx.timestamp,
+      slot: resolvedSlot,
+      source,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Keep the earliest candidate per mint; on ties prefer the stronger evidence
+ */
+function pickEarliest(candidates: LaunchCandidate[]): Map<string, LaunchCandidate> {
+  const best = new Map<string, LaunchCandidate>();
+
+  for (const candidate of candidates) {
+    const current = best.get(candidate.mint);
+    if (
+      !current ||
+      candidate.timestamp < current.timestamp ||
+      (candidate.timestamp === current.timestamp && SOURCE_RANK[candidate.source] < SOURCE_RANK[current.source])
+    ) {
+      best.set(candidate.mint, candidate);
+    }
+  }
+
+  return best;
+}
+
+function writeLaunches(launches: Map<string, LaunchCandidate>): void {
+  const write = db.transaction(() => {
+    for (const launch of launches.values()) {
+      tokenLaunchQueries.upsertTokenLaunch.run({
+        mint: launch.mint,
+        first_signature: launch.signature,
+        first_timestamp: launch.timestamp,
+        first_slot: launch.slot,
+        source: launch.source,
+      });
+    }
+  });
+  write();
+}
+
+/**
+ * Record launch/first-seen events for freshly synced transactions.
+ * The upsert only ever moves a launch earlier, so re-indexing is safe.
+ */
+export function indexTokenLaunches(inputs: LaunchIndexInput[]): number {
+  const candidates: LaunchCandidate[] = [];
+  for (const { tx, slot } of inputs) {
+    candidates.push(...detectLaunchEvents(tx, slot));
+  }
+
+  if (candidates.length === 0) return 0;
+
+  const launches = pickEarliest(candidates);
+  writeLaunches(launches);
+  invalidateTokenLaunchCache();
+
+  return launches.size;
+}
+
+/**
+ * Rebuild token_launches from stored raw transactions (no network/API calls).
+ * Launches are collected over the whole scan and swapped in with one db
+ * transaction, so the index stays complete while the scan runs or if it fails.
+ */
+export async function backfillTokenLaunches(): Promise<LaunchBackfillResult> {
+  statusEmitter.info('Rebuilding token launch index from stored transactions');
+
+  let lastRowId = 0;
+  let scanned = 0;
+  let launches = new Map<string, LaunchCandidate>();
+
+  while (true) {
+    const rows = txQueries.getParsedTransactionsPage.all(lastRowId, BACKFILL_PAGE_SIZE) as {
+      rowid: number;
+      signature: string;
+      block_slot: number | null;
+      raw_data: string;
+      format: string;
+    }[];
+
+    if (rows.length === 0) break;
+
+    const candidates: LaunchCandidate[] = [];
+    for (const row of rows) {
+      // Only Helius enhanced data carries the events launches are detected from
+      if (row.format !== 'enhanced') continue;
+      try {
+        const tx = JSON.parse(row.raw_data) as HeliusEnhancedTransaction;
+        candidates.push(...detectLaunchEvents(tx, row.block_slot));
+      } catch (err) {
+        console.warn(`Skipping unreadable raw transaction ${row.signature}:`, err);
+      }
+    }
+
+    launches = pickEarliest([...launches.values(), ...candidates]);
+
+    scanned += rows.length;
+    lastRowId = rows[rows.length - 1].rowid;
+    statusEmitter.progress('Indexing token launches', scanned, scanned + (rows.length === BACKFILL_PAGE_SIZE ? BACKFILL_PAGE_SIZE : 0));
+
+    // Yield between pages so large backfills don't starve the event loop
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  db.transaction(() => {
+    tokenLaunchQueries.deleteAllLaunches.run();
+    writeLaunches(launches);
+  })();
+  invalidateTokenLaunchCache();
+
+  const { count } = tokenLaunchQueries.countLaunches.get() as { count: number };
+  statusEmitter.success(`Indexed ${count} token launches from ${scanned} transactions`);
+
+  return { scanned, launches: count };
+}
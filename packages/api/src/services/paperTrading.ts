@@ -0,0 +1,650 @@
+import {
+  type PaperEquityPoint,
+  type PaperFill,
+  type PaperFillReason,
+  type PaperPortfolio,
+  type PaperPortfolioDetail,
+  type PaperPortfolioInput,
+  type PaperPosition,
+  type SlippageModel,
+  type Trade,
+  FOLLOW_PRICING_MODES,
+} from '@funeral-vision/shared';
+import { db, paperQueries, walletQueries } from '../db/index.js';
+import { followerFillRatio } from './followSimulator.js';
+import { PriceTape } from './priceTape.js';
+import { getProfileSlippage, getSlippageProfile, resolveSlippage } from './slippageProfiles.js';
+
+const MAX_DELAY_SECONDS = 600;
+const DEFAULT_FILL_LIMIT = 200;
+
+// A mirrored sell of at least this share of the leader's holding closes the whole position
+const FULL_EXIT_RATIO = 0.999;
+
+interface PortfolioRow {
+  id: number;
+  user_id: string;
+  name: string;
+  wallets: string;
+  start_at: number;
+  starting_balance_sol: number;
+  entry_size_sol: number;
+  max_positions: number;
+  stop_loss: number | null;
+  take_profit: number | null;
+  delay_seconds: number;
+  slippage_model: SlippageModel | null;
+  slippage_profile_id: number | null;
+  pricing: PaperPortfolio['pricing'];
+  cash_sol: number;
+  realized_pnl: number;
+  processed_through: number;
+  created_at: number;
+}
+
+interface PositionRow {
+  token_mint: string;
+  token_symbol: string | null;
+  dex: string | null;
+  source_wallet: string;
+  token_amount: number;
+  cost_sol: number;
+  entry_price: number;
+  leader_token_amount: number;
+  opened_at: number;
+  mark_price: number | null;
+  mark_at: number | null;
+}
+
+interface FillRow {
+  id: number;
+  side: 'buy' | 'sell';
+  reason: PaperFillReason;
+  token_mint: string;
+  token_symbol: string | null;
+  source_wallet: string;
+  source_trade_id: string | null;
+  timestamp: number;
+  token_amount: number;
+  sol_amount: number;
+  price: number;
+  realized_pnl: number | null;
+}
+
+interface BalanceRow {
+  timestamp: number;
+  cash_sol: number;
+  positions_value_sol: number;
+  equity_sol: number;
+}
+
+interface OpenPosition {
+  tokenMint: string;
+  tokenSymbol: string | null;
+  dex: string | null;
+  sourceWallet: string;
+  tokenAmount: number;
+  costSol: number;
+  entryPrice: number;
+  leaderTokenAmount: number;
+  openedAt: number;
+  markPrice: number | null;
+  markAt: number | null;
+}
+
+function positionValue(row: PositionRow): number {
+  return row.token_amount * (row.mark_price ?? row.entry_price);
+}
+
+function mapPortfolio(row: PortfolioRow, positions: PositionRow[]): PaperPortfolio {
+  const wallets: string[] = JSON.parse(row.wallets);
+  const positionsValueSol = positions.reduce((sum, p) => sum + positionValue(p), 0);
+  return {
+    id: row.id,
+    name: row.name,
+    wallets,
+    missingWallets: wallets.filter(address => !getWalletSyncedAt(address, row.user_id)),
+    startAt: row.start_at,
+    startingBalanceSol: row.starting_balance_sol,
+    entrySizeSol: row.entry_size_sol,
+    maxPositions: row.max_positions,
+    stopLoss: row.stop_loss,
+    takeProfit: row.take_profit,
+    delaySeconds: row.delay_seconds,
+    slippageModel: row.slippage_model,
+    slippageProfileId: row.slippage_profile_id,
+    pricing: row.pricing,
+    cashSol: row.cash_sol,
+    positionsValueSol,
+    equitySol: row.cash_sol + positionsValueSol,
+    realizedPnL: row.realized_pnl,
+    openPositions: positions.length,
+    processedThrough: row.processed_through,
+    createdAt: row.created_at,
+  };
+}
+
+function mapPosition(row: PositionRow): PaperPosition {
+  const valueSol = positionValue(row);
+  return {
+    tokenMint: row.token_mint,
+    tokenSymbol: row.token_symbol ?? undefined,
+    sourceWallet: row.source_wallet,
+    tokenAmount: row.token_amount,
+    costSol: row.cost_sol,
+    entryPrice: row.entry_price,
+    openedAt: row.opened_at,
+    markPrice: row.mark_price,
+    valueSol,
+    unrealizedPnL: valueSol - row.cost_sol,
+  };
+}
+
+function mapFill(row: FillRow): PaperFill {
+  return {
+    id: row.id,
+    side: row.side,
+    reason: row.reason,
+    tokenMint: row.token_mint,
+    tokenSymbol: row.token_symbol ?? undefined,
+    sourceWallet: row.source_wallet,
+    sourceTradeId: row.source_trade_id,
+    timestamp: row.timestamp,
+    tokenAmount: row.token_amount,
+    solAmount: row.sol_amount,
+    price: row.price,
+    realizedPnL: row.realized_pnl,
+  };
+}
+
+function mapBalance(row: BalanceRow): PaperEquityPoint {
+  return {
+    timestamp: row.timestamp,
+    cashSol: row.cash_sol,
+    positionsValueSol: row.positions_value_sol,
+    equitySol: row.equity_sol,
+  };
+}
+
+function getPortfolioRow(id: number): PortfolioRow | undefined {
+  return paperQueries.getPortfolio.get(id) as PortfolioRow | undefined;
+}
+
+function getUserPortfolioRow(id: number, userId: string): PortfolioRow | undefined {
+  const row = getPortfolioRow(id);
+  return row?.user_id === userId ? row : undefined;
+}
+
+/**
+ * Last sync of a followed wallet; undefined once it has been removed from the catalog
+ */
+function getWalletSyncedAt(address: string, userId: string): { lastSyncedAt: number } | undefined {
+  const wallet = walletQueries.getWallet.get(address, userId) as { last_synced_at: number | null } | undefined;
+  return wallet ? { lastSyncedAt: wallet.last_synced_at ?? 0 } : undefined;
+}
+
+function getPositionRows(portfolioId: number): PositionRow[] {
+  return paperQueries.getPositions.all(portfolioId) as PositionRow[];
+}
+
+/**
+ * Trades are only complete up to each followed wallet's last sync, so a
+ * portfolio never gets ahead of its least recently synced wallet. Wallets removed
+ * from the catalog are skipped (and reported as missingWallets) rather than
+ * holding the portfolio back forever.
+ */
+function followHorizon(row: PortfolioRow): number {
+  const wallets: string[] = JSON.parse(row.wallets);
+  const syncedAt = wallets.flatMap(address => getWalletSyncedAt(address, row.user_id)?.lastSyncedAt ?? []);
+  return syncedAt.length > 0 ? Math.min(...syncedAt) : row.processed_through;
+}
+
+function loadFollowedTrades(row: PortfolioRow, until: number): Trade[] {
+  const rows = paperQueries.getFollowedTrades.all({
+    wallets: row.wallets,
+    after: row.processed_through,
+    until,
+  }) as any[];
+
+  return rows.map((r) => ({
+    id: r.id,
+    walletAddress: r.wallet_address,
+    signature: r.signature,
+    timestamp: r.timestamp,
+    type: r.type,
+    tokenMint: r.token_mint,
+    tokenSymbol: r.token_symbol,
+    tokenAmount: r.token_amount,
+    solAmount: r.sol_amount,
+    pricePerToken: r.price_per_token,
+    dex: r.dex,
+    networkFee: r.network_fee ?? 0,
+    priorityFee: r.priority_fee ?? 0,
+    tip: r.tip ?? 0,
+  }));
+}
+
+/**
+ * Copy the followed wallets' trades in (processed_through, until] into the
+ * portfolio, checking stop-loss/take-profit against every stored print of
+ * the open mints in between. Returns the number of fills. Runs inside a db transaction.
+ */
+function applyFollowedTrades(row: PortfolioRow, until: number): number {
+  const slippage = resolveSlippage(row.slippage_profile_id ?? (row.slippage_model as SlippageModel));
+  // Marks and exit triggers always come from the tape; fills only with tape pricing
+  const tape = new PriceTape();
+  const fillTape = row.pricing === 'tape' ? tape : null;
+
+  const positions = new Map<string, OpenPosition>(
+    getPositionRows(row.id).map(p => [p.token_mint, {
+      tokenMint: p.token_mint,
+      tokenSymbol: p.token_symbol,
+      dex: p.dex,
+      sourceWallet: p.source_wallet,
+      tokenAmount: p.token_amount,
+      costSol: p.cost_sol,
+      entryPrice: p.entry_price,
+      leaderTokenAmount: p.leader_token_amount,
+      openedAt: p.opened_at,
+      markPrice: p.mark_price,
+      markAt: p.mark_at,
+    }])
+  );
+  let cash = row.cash_sol;
+  let realizedPnL = row.realized_pnl;
+  let checkedThrough = row.processed_through;
+  let fills = 0;
+
+  const snapshot = (timestamp: number) => {
+    let positionsValue = 0;
+    for (const position of positions.values()) {
+      const mark = tape.lastPriceAt(position.tokenMint, timestamp);
+      if (mark !== null && timestamp >= (position.markAt ?? 0)) {
+        position.markPrice = mark;
+        position.markAt = timestamp;
+      }
+      positionsValue += position.tokenAmount * (position.markPrice ?? position.entryPrice);
+    }
+    paperQueries.insertBalance.run({
+      portfolio_id: row.id,
+      timestamp,
+      cash_sol: cash,
+      positions_value_sol: positionsValue,
+      equity_sol: cash + positionsValue,
+    });
+  };
+
+  const sell = (
+    position: OpenPosition,
+    tokenAmount: number,
+    price: number,
+    timestamp: number,
+    reason: PaperFillReason,
+    sourceTradeId: string | null
+  ) => {
+    const share = tokenAmount / position.tokenAmount;
+    const closesPosition = share >= FULL_EXIT_RATIO;
+    const soldAmount = closesPosition ? position.tokenAmount : tokenAmount;
+    const cost = closesPosition ? position.costSol : position.costSol * share;
+    const proceeds = soldAmount * price;
+
+    cash += proceeds;
+    realizedPnL += proceeds - cost;
+    position.tokenAmount -= soldAmount;
+    position.costSol -= cost;
+    if (closesPosition) positions.delete(position.tokenMint);
+
+    paperQueries.insertFill.run({
+      portfolio_id: row.id,
+      side: 'sell',
+      reason,
+      token_mint: position.tokenMint,
+      token_symbol: position.tokenSymbol,
+      source_wallet: position.sourceWallet,
+      source_trade_id: sourceTradeId,
+      timestamp,
+      token_amount: soldAmount,
+      sol_amount: proceeds,
+      price,
+      realized_pnl: proceeds - cost,
+    });
+    fills++;
+  };
+
+  // Exit rules trigger on the first print past the threshold and fill at that print, less slippage
+  const runExits = (through: number) => {
+    if (row.stop_loss !== null || row.take_profit !== null) {
+      const triggers: { position: OpenPosition; timestamp: number; price: number; reason: PaperFillReason }[] = [];
+
+      for (const position of positions.values()) {
+        const stopPrice = row.stop_loss !== null ? position.entryPrice * (1 - row.stop_loss) : null;
+        const takePrice = row.take_profit !== null ? position.entryPrice * (1 + row.take_profit) : null;
+        const hit = tape.printsBetween(position.tokenMint, Math.max(checkedThrough, position.openedAt), through).find(
+          print => (stopPrice !== null && print.price <= stopPrice) || (takePrice !== null && print.price >= takePrice)
+        );
+        if (hit) {
+          const reason = stopPrice !== null && hit.price <= stopPrice ? 'stop_loss' : 'take_profit';
+          triggers.push({ position, timestamp: hit.timestamp, price: hit.price, reason });
+        }
+      }
+
+      for (const trigger of triggers.sort((a, b) => a.timestamp - b.timestamp)) {
+        const { position } = trigger;
+        const legSlippage = getProfileSlippage(slippage.profile, position.tokenAmount * trigger.price, position.dex);
+        sell(position, position.tokenAmount, trigger.price * (1 - legSlippage), trigger.timestamp, trigger.reason, null);
+        snapshot(trigger.timestamp);
+      }
+    }
+    checkedThrough = Math.max(checkedThrough, through);
+  };
+
+  for (const trade of loadFollowedTrades(row, until)) {
+    runExits(trade.timestamp);
+
+    const leaderPrice = trade.pricePerToken > 0
+      ? trade.pricePerToken
+      : trade.tokenAmount > 0 ? trade.solAmount / trade.tokenAmount : 0;
+    if (leaderPrice <= 0) continue;
+
+    const position = positions.get(trade.tokenMint);
+    const fillAt = trade.timestamp + row.delay_seconds;
+
+    if (trade.type === 'buy') {
+      if (position) {
+        // One position per mint; the source wallet adding to it only grows the
+        // holding its later sells are measured against
+        if (position.sourceWallet === trade.walletAddress) {
+          position.leaderTokenAmount += trade.tokenAmount;
+        }
+        continue;
+      }
+      if (positions.size >= row.max_positions || cash < row.entry_size_sol) continue;
+
+      const { ratio } = followerFillRatio(trade, row.entry_size_sol, row.delay_seconds, slippage.profile, fillTape);
+      const price = leaderPrice * ratio;
+      const opened: OpenPosition = {
+        tokenMint: trade.tokenMint,
+        tokenSymbol: trade.tokenSymbol ?? null,
+        dex: trade.dex ?? null,
+        sourceWallet: trade.walletAddress,
+        tokenAmount: row.entry_size_sol / price,
+        costSol: row.entry_size_sol,
+        entryPrice: price,
+        leaderTokenAmount: trade.tokenAmount,
+        openedAt: fillAt,
+        markPrice: null,
+        markAt: null,
+      };
+      positions.set(trade.tokenMint, opened);
+      cash -= row.entry_size_sol;
+
+      paperQueries.insertFill.run({
+        portfolio_id: row.id,
+        side: 'buy',
+        reason: 'copy',
+        token_mint: opened.tokenMint,
+        token_symbol: opened.tokenSymbol,
+        source_wallet: opened.sourceWallet,
+        source_trade_id: trade.id,
+        timestamp: fillAt,
+        token_amount: opened.tokenAmount,
+        sol_amount: row.entry_size_sol,
+        price,
+        realized_pnl: null,
+      });
+      fills++;
+      snapshot(fillAt);
+      continue;
+    }
+
+    // Sells are mirrored in proportion to the share of its holding the source wallet sold
+    if (!position || position.sourceWallet !== trade.walletAddress) continue;
+
+    const share = position.leaderTokenAmount > 0 ? Math.min(1, trade.tokenAmount / position.leaderTokenAmount) : 1;
+    position.leaderTokenAmount = Math.max(0, position.leaderTokenAmount - trade.tokenAmount);
+    const tokenAmount = position.tokenAmount * share;
+    const { ratio } = followerFillRatio(trade, tokenAmount * leaderPrice, row.delay_seconds, slippage.profile, fillTape);
+    sell(position, tokenAmount, leaderPrice * ratio, fillAt, 'copy', trade.id);
+    snapshot(fillAt);
+  }
+
+  runExits(until);
+  // Mark what is still open as of the horizon so the curve moves between fills
+  if (positions.size > 0) snapshot(until);
+
+  paperQueries.deletePositions.run(row.id);
+  for (const position of positions.values()) {
+    paperQueries.upsertPosition.run({
+      portfolio_id: row.id,
+      token_mint: position.tokenMint,
+      token_symbol: position.tokenSymbol,
+      dex: position.dex,
+      source_wallet: position.sourceWallet,
+      token_amount: position.tokenAmount,
+      cost_sol: position.costSol,
+      entry_price: position.entryPrice,
+      leader_token_amount: position.leaderTokenAmount,
+      opened_at: position.openedAt,
+      mark_price: position.markPrice,
+      mark_at: position.markAt,
+    });
+  }
+
+  paperQueries.updatePortfolioState.run({
+    id: row.id,
+    cash_sol: cash,
+    realized_pnl: realizedPnL,
+    processed_through: until,
+    updated_at: Math.floor(Date.now() / 1000),
+  });
+
+  return fills;
+}
+
+function validatePortfolioInput(userId: string, input: PaperPortfolioInput) {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new Error('name is required');
+  }
+
+  if (!Array.isArray(input.wallets) || input.wallets.length === 0) {
+    throw new Error('wallets must list at least one catalog wallet');
+  }
+  const wallets = [...new Set(input.wallets)];
+  const missing = wallets.filter(address => !walletQueries.getWallet.get(address, userId));
+  if (missing.length > 0) {
+    throw new Error(`Not in the catalog: ${missing.join(', ')}`);
+  }
+
+  if (typeof input.startingBalanceSol !== 'number' || input.startingBalanceSol <= 0) {
+    throw new Error('startingBalanceSol must be positive');
+  }
+  if (typeof input.entrySizeSol !== 'number' || input.entrySizeSol <= 0 || input.entrySizeSol > input.startingBalanceSol) {
+    throw new Error('entrySizeSol must be positive and at most startingBalanceSol');
+  }
+  if (!Number.isInteger(input.maxPositions) || input.maxPositions < 1) {
+    throw new Error('maxPositions must be a positive integer');
+  }
+
+  const stopLoss = input.stopLoss ?? null;
+  if (stopLoss !== null && (typeof stopLoss !== 'number' || stopLoss <= 0 || stopLoss >= 1)) {
+    throw new Error('stopLoss must be a fraction between 0 and 1');
+  }
+  const takeProfit = input.takeProfit ?? null;
+  if (takeProfit !== null && (typeof takeProfit !== 'number' || takeProfit <= 0)) {
+    throw new Error('takeProfit must be a positive fraction');
+  }
+
+  const delaySeconds = input.delaySeconds ?? 5;
+  if (!Number.isInteger(delaySeconds) || delaySeconds < 0 || delaySeconds > MAX_DELAY_SECONDS) {
+    throw new Error(`delaySeconds must be an integer between 0 and ${MAX_DELAY_SECONDS}`);
+  }
+
+  const pricing = input.pricing ?? 'heuristic';
+  if (!FOLLOW_PRICING_MODES.includes(pricing)) {
+    throw new Error(`pricing must be one of: ${FOLLOW_PRICING_MODES.join(', ')}`);
+  }
+
+  const startAt = input.startAt ?? Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(startAt) || startAt < 0) {
+    throw new Error('startAt must be a unix timestamp in seconds');
+  }
+
+  if (input.slippageProfileId !== undefined && input.slippageProfileId !== null) {
+    if (!Number.isInteger(input.slippageProfileId)) {
+      throw new Error('slippageProfileId must be an integer');
+    }
+    if (!getSlippageProfile(input.slippageProfileId, userId)) {
+      throw new Error(`Slippage profile ${input.slippageProfileId} not found`);
+    }
+  }
+  const slippage = resolveSlippage(input.slippageProfileId ?? input.slippageModel ?? 'moderate');
+
+  return {
+    name,
+    wallets,
+    startAt,
+    startingBalanceSol: input.startingBalanceSol,
+    entrySizeSol: input.entrySizeSol,
+    maxPositions: input.maxPositions,
+    stopLoss,
+    takeProfit,
+    delaySeconds,
+    slippageModel: slippage.model,
+    slippageProfileId: slippage.profileId,
+    pricing,
+  };
+}
+
+export function getPaperPortfolios(userId: string): PaperPortfolio[] {
+  return (paperQueries.getPortfolios.all(userId) as PortfolioRow[]).map(row =>
+    mapPortfolio(row, getPositionRows(row.id))
+  );
+}
+
+export function getPaperPortfolioDetail(
+  id: number,
+  userId: string,
+  fillLimit = DEFAULT_FILL_LIMIT
+): PaperPortfolioDetail | null {
+  const row = getUserPortfolioRow(id, userId);
+  if (!row) return null;
+
+  const positions = getPositionRows(id);
+  return {
+    portfolio: mapPortfolio(row, positions),
+    positions: positions.map(mapPosition),
+    fills: (paperQueries.getFills.all(id, fillLimit) as FillRow[]).map(mapFill),
+    equityCurve: (paperQueries.getBalances.all(id) as BalanceRow[]).map(mapBalance),
+  };
+}
+
+/**
+ * Validate and store a portfolio, then catch it up on trades already synced
+ * since its start. Throws on invalid input.
+ */
+export function createPaperPortfolio(userId: string, input: PaperPortfolioInput): number {
+  const portfolio = validatePortfolioInput(userId, input);
+  const now = Math.floor(Date.now() / 1000);
+
+  const id = db.transaction(() => {
+    const result = paperQueries.insertPortfolio.run({
+      user_id: userId,
+      name: portfolio.name,
+      wallets: JSON.stringify(portfolio.wallets),
+      start_at: portfolio.startAt,
+      starting_balance_sol: portfolio.startingBalanceSol,
+      entry_size_sol: portfolio.entrySizeSol,
+      max_positions: portfolio.maxPositions,
+      stop_loss: portfolio.stopLoss,
+      take_profit: portfolio.takeProfit,
+      delay_seconds: portfolio.delaySeconds,
+      slippage_model: portfolio.slippageModel,
+      slippage_profile_id: portfolio.slippageProfileId,
+      pricing: portfolio.pricing,
+      created_at: now,
+    });
+    const portfolioId = Number(result.lastInsertRowid);
+    paperQueries.insertBalance.run({
+      portfolio_id: portfolioId,
+      timestamp: portfolio.startAt,
+      cash_sol: portfolio.startingBalanceSol,
+      positions_value_sol: 0,
+      equity_sol: portfolio.startingBalanceSol,
+    });
+    return portfolioId;
+  })();
+
+  advancePaperPortfolio(id);
+  return id;
+}
+
+export function deletePaperPortfolio(id: number, userId: string): boolean {
+  return db.transaction(() => {
+    if (paperQueries.deletePortfolio.run(id, userId).changes === 0) return false;
+    paperQueries.deletePositions.run(id);
+    paperQueries.deleteFills.run(id);
+    paperQueries.deleteBalances.run(id);
+    return true;
+  })();
+}
+
+/**
+ * Apply followed trades synced since the last update. Returns the number of new fills.
+ */
+export function advancePaperPortfolio(id: number): number {
+  const row = getPortfolioRow(id);
+  if (!row) {
+    throw new Error(`Paper portfolio ${id} not found`);
+  }
+
+  const horizon = followHorizon(row);
+  if (horizon <= row.processed_through) return 0;
+
+  return db.transaction(() => applyFollowedTrades(row, horizon))();
+}
+
+/**
+ * Throw away fills and balances and rebuild the portfolio from its start date,
+ * e.g. after a backfill filled in older trades. Returns the number of fills,
+ * null if the portfolio does not exist.
+ */
+export function replayPaperPortfolio(id: number, userId: string): number | null {
+  const row = getUserPortfolioRow(id, userId);
+  if (!row) return null;
+
+  db.transaction(() => {
+    paperQueries.deletePositions.run(id);
+    paperQueries.deleteFills.run(id);
+    paperQueries.deleteBalances.run(id);
+    paperQueries.resetPortfolio.run(Math.floor(Date.now() / 1000), id);
+    paperQueries.insertBalance.run({
+      portfolio_id: id,
+      timestamp: row.start_at,
+      cash_sol: row.starting_balance_sol,
+      positions_value_sol: 0,
+      equity_sol: row.starting_balance_sol,
+    });
+  })();
+
+  return advancePaperPortfolio(id);
+}
+
+/**
+ * Advance every portfolio following a wallet after it synced. A portfolio that
+ * fails (e.g. its slippage profile was deleted) is logged and skipped.
+ */
+export function advancePortfoliosFollowing(walletAddress: string): { id: number; name: string; fills: number }[] {
+  const advanced: { id: number; name: string; fills: number }[] = [];
+
+  for (const row of paperQueries.getPortfoliosFollowing.all(walletAddress) as PortfolioRow[]) {
+    try {
+      const fills = advancePaperPortfolio(row.id);
+      if (fills > 0) advanced.push({ id: row.id, name: row.name, fills });
+    } catch (error) {
+      console.error(`Failed to advance paper portfolio ${row.id}:`, error);
+    }
+  }
+
+  return advanced;
+}
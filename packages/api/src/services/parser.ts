@@ -7,8 +7,73 @@ import {
   WSOL_MINT,
   DEX_PROGRAM_IDS,
   INTERMEDIATE_TOKENS,
+  JITO_TIP_ACCOUNTS,
+  BASE_FEE_LAMPORTS_PER_SIGNATURE,
 } from '@funeral-vision/shared';
 
+/**
+ * Stored with every trade. Bump it when a change alters the trades parsed from a
+ * transaction, then re-parse stored transactions to bring old trades up to date.
+ */
+export const PARSER_VERSION = 3;
+
+/**
+ * Costs the wallet paid in one transaction, in SOL
+ */
+interface TxFees {
+  networkFee: number;
+  priorityFee: number;
+  tip: number;
+}
+
+/**
+ * Split a fee payment across the lamports charged for signatures and the priority part
+ */
+function splitFee(feeLamports: number, signatureCount: number, tipLamports: number): TxFees {
+  const baseLamports = Math.min(feeLamports, BASE_FEE_LAMPORTS_PER_SIGNATURE * signatureCount);
+  return {
+    networkFee: baseLamports / LAMPORTS_PER_SOL,
+    priorityFee: (feeLamports - baseLamports) / LAMPORTS_PER_SOL,
+    tip: tipLamports / LAMPORTS_PER_SOL,
+  };
+}
+
+/**
+ * Fees and tips paid by the wallet. The fee only counts when the wallet is the
+ * fee payer; Helius reports the total fee only, so a single signer is assumed.
+ */
+function extractFees(tx: HeliusEnhancedTransaction, walletAddress: string): TxFees {
+  const feeLamports = tx.feePayer === walletAddress ? tx.fee || 0 : 0;
+
+  let tipLamports = 0;
+  for (const transfer of tx.nativeTransfers || []) {
+    if (transfer.fromUserAccount === walletAddress && JITO_TIP_ACCOUNTS.has(transfer.toUserAccount)) {
+      tipLamports += transfer.amount;
+    }
+  }
+
+  return splitFee(feeLamports, 1, tipLamports);
+}
+
+/**
+ * Attach a transaction's fees to its trades in proportion to their SOL amounts,
+ * so the leg that moved the most SOL carries most of the cost. Split evenly when
+ * no trade moved SOL (token-to-token swaps).
+ */
+function allocateFees(trades: Trade[], fees: TxFees): Trade[] {
+  if (trades.length === 0) return trades;
+  const totalSol = trades.reduce((sum, trade) => sum + trade.solAmount, 0);
+  return trades.map((trade) => {
+    const share = totalSol > 0 ? trade.solAmount / totalSol : 1 / trades.length;
+    return {
+      ...trade,
+      networkFee: fees.networkFee * share,
+      priorityFee: fees.priorityFee * share,
+      tip: fees.tip * share,
+    };
+  });
+}
+
 /**
  * Parse trades from Helius Enhanced Transactions
  * 
@@ -19,6 +84,9 @@ import {
  * 
  * For multi-hop swaps (e.g., SOL → USD1 → TOKEN), we look at the NET token
  * flows for the wallet, ignoring intermediate tokens like stablecoins.
+ *
+ * solAmount never includes the network fee, priority fee or tips; those are
+ * reported separately on each trade whichever method produced it.
  */
 export function parseEnhancedTransaction(
   tx: HeliusEnhancedTransaction,
@@ -29,23 +97,25 @@ export function parseEnhancedTransaction(
     return [];
   }
 
+  const fees = extractFees(tx, walletAddress);
+
   // Method 1: Parse from token transfers - best for multi-hop swaps
   const transferTrades = parseFromTransfers(tx, walletAddress);
   if (transferTrades.length > 0) {
-    return transferTrades;
+    return allocateFees(transferTrades, fees);
   }
 
   // Method 2: Parse from accountData balance changes
-  const balanceChangeTrades = parseFromBalanceChanges(tx, walletAddress);
+  const balanceChangeTrades = parseFromBalanceChanges(tx, walletAddress, fees);
   if (balanceChangeTrades.length > 0) {
-    return balanceChangeTrades;
+    return allocateFees(balanceChangeTrades, fees);
   }
 
   // Method 3: Parse from swap event (often incomplete for multi-hop)
   if (tx.events?.swap) {
     const swapTrades = parseFromSwapEvent(tx, walletAddress);
     if (swapTrades.length > 0) {
-      return swapTrades;
+      return allocateFees(swapTrades, fees);
     }
   }
 
@@ -107,7 +177,8 @@ function parseFromSwapEvent(
  */
 function parseFromBalanceChanges(
   tx: HeliusEnhancedTransaction,
-  walletAddress: string
+  walletAddress: string,
+  fees: TxFees
 ): Trade[] {
   const trades: Trade[] = [];
   
@@ -118,6 +189,9 @@ function parseFromBalanceChanges(
       solChange += (acc.nativeBalanceChange || 0) / LAMPORTS_PER_SOL;
     }
   }
+
+  // The balance change includes fees and tips; add them back so only swap flow remains
+  solChange += fees.networkFee + fees.priorityFee + fees.tip;
   
   // Find token balance changes where userAccount matches our wallet
   // Note: tokenBalanceChanges are nested in accountData but indexed by userAccount
@@ -175,9 +249,10 @@ function parseFromTransfers(
 ): Trade[] {
   const trades: Trade[] = [];
 
-  // Calculate net SOL flow for wallet (native transfers)
+  // Calculate net SOL flow for wallet (native transfers, excluding tips)
   let solDelta = 0;
   for (const transfer of tx.nativeTransfers || []) {
+    if (JITO_TIP_ACCOUNTS.has(transfer.toUserAccount)) continue;
     if (transfer.fromUserAccount === walletAddress) {
       solDelta -= transfer.amount / LAMPORTS_PER_SOL;
     }
@@ -278,12 +353,18 @@ function parseFromTransfers(
       }
     }
   }
-  // Fallback: target tokens with zero SOL flow (airdrops, free mints)
+  // Fallback: target tokens with zero SOL flow (airdrops, free mints, token-to-token swaps)
   else if (targetDeltas.size > 0) {
+    // Sending one token while receiving another is a swap: the sent side is a sell.
+    // A token only sent out is a transfer, not a trade.
+    const received = Array.from(targetDeltas.values()).some(delta => delta > 0);
+
     for (const [mint, tokenDelta] of targetDeltas) {
       if (tokenDelta > 0) {
-        // Received token with no SOL cost = airdrop/free mint
+        // Received token with no SOL cost = airdrop/free mint, or the bought side of a swap
         trades.push(createTrade(tx, walletAddress, 'buy', mint, tokenDelta, 0));
+      } else if (received) {
+        trades.push(createTrade(tx, walletAddress, 'sell', mint, Math.abs(tokenDelta), 0));
       }
     }
   }
@@ -313,6 +394,9 @@ function createTrade(
     solAmount,
     pricePerToken: solAmount / tokenAmount,
     dex: detectDex(tx),
+    networkFee: 0,
+    priorityFee: 0,
+    tip: 0,
   };
 }
 
@@ -359,7 +443,7 @@ function parseTokenAmount(rawAmount: { tokenAmount: string; decimals: number } |
 }
 
 /**
- * Parse trades from raw parsed transaction (fallback for when Helius doesn't parse)
+ * Parse trades from a plain RPC getParsedTransaction result, by the wallet's balance changes
  */
 export function parseRawTransaction(
   tx: ParsedTransactionWithMeta,
@@ -380,8 +464,27 @@ export function parseRawTransaction(
 
   if (walletIndex === -1) return trades;
 
-  // Calculate SOL change for wallet
-  const solChange = (postBalances[walletIndex] - preBalances[walletIndex]) / LAMPORTS_PER_SOL;
+  // Tips are system transfers from the wallet to tip accounts
+  let tipLamports = 0;
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta.innerInstructions || []).flatMap((inner) => inner.instructions),
+  ];
+  for (const ix of instructions) {
+    if (!('parsed' in ix) || ix.program !== 'system' || ix.parsed?.type !== 'transfer') continue;
+    const info = ix.parsed.info as { source: string; destination: string; lamports: number };
+    if (info.source === walletAddress && JITO_TIP_ACCOUNTS.has(info.destination)) {
+      tipLamports += info.lamports;
+    }
+  }
+  // The fee is charged to the fee payer, always the first account key; a wallet
+  // that only signed (or only appears) in someone else's transaction pays none
+  const isFeePayer = walletIndex === 0 && accountKeys[0].signer;
+  const feeLamports = isFeePayer ? tx.meta.fee : 0;
+  const fees = splitFee(feeLamports, tx.transaction.signatures.length, tipLamports);
+
+  // Calculate SOL change for wallet, without fees and tips
+  const solChange = (postBalances[walletIndex] - preBalances[walletIndex] + feeLamports + tipLamports) / LAMPORTS_PER_SOL;
 
   // Calculate token changes for wallet
   const tokenChanges: Map<string, { amount: number; decimals: number }> = new Map();
@@ -472,6 +575,9 @@ export function parseRawTransaction(
         solAmount: absSolChange,
         pricePerToken: absSolChange / tokenAmount,
         dex,
+        networkFee: 0,
+        priorityFee: 0,
+        tip: 0,
       });
     } else if (change.amount < 0 && solChange > 0) {
       // Sell
@@ -486,34 +592,12 @@ export function parseRawTransaction(
         solAmount: absSolChange,
         pricePerToken: absSolChange / tokenAmount,
         dex,
+        networkFee: 0,
+        priorityFee: 0,
+        tip: 0,
       });
     }
   }
 
-  return trades;
-}
-
-/**
- * Batch parse enhanced transactions
- */
-export function parseEnhancedTransactions(
-  transactions: HeliusEnhancedTransaction[],
-  walletAddress: string
-): Trade[] {
-  const allTrades: Trade[] = [];
-  let parsedCount = 0;
-  let skippedCount = 0;
-
-  for (const tx of transactions) {
-    const trades = parseEnhancedTransaction(tx, walletAddress);
-    if (trades.length > 0) {
-      allTrades.push(...trades);
-      parsedCount++;
-    } else {
-      skippedCount++;
-    }
-  }
-
-  console.log(`Parsed ${parsedCount} transactions with trades, skipped ${skippedCount} non-trade transactions`);
-  return allTrades;
+  return allocateFees(trades, fees);
 }
@@ -0,0 +1,72 @@
+import {
+  type HeliusEnhancedTransaction,
+  type Trade,
+  JITO_TIP_ACCOUNTS,
+} from '@funeral-vision/shared';
+
+// The tracked wallet in every fixture
+export const FIXTURE_WALLET = 'wallet';
+
+/**
+ * A recorded transaction and the trades the parser is expected to produce for it
+ */
+export interface ParserFixture {
+  name: string;
+  description: string;
+  wallet: string;
+  transaction: HeliusEnhancedTransaction;
+  expected: Trade[];
+}
+
+// Fields holding user, token-account or pool addresses; mints are kept so
+// intermediate-token and tip detection still see the real accounts
+const ADDRESS_KEYS = new Set([
+  'feePayer',
+  'fromUserAccount',
+  'toUserAccount',
+  'fromTokenAccount',
+  'toTokenAccount',
+  'account',
+  'userAccount',
+  'tokenAccount',
+]);
+
+// Free text and instruction account lists can leak addresses; the parser reads neither
+const DROPPED_KEYS = new Set(['description', 'instructions']);
+
+/**
+ * Replace every account address with a stable placeholder. The tracked wallet
+ * becomes FIXTURE_WALLET, other accounts `account-N` in order of appearance.
+ * Tip accounts are left alone because tip detection depends on them.
+ */
+export function anonymizeTransaction(
+  tx: HeliusEnhancedTransaction,
+  walletAddress: string,
+  signature: string
+): HeliusEnhancedTransaction {
+  const aliases = new Map<string, string>([[walletAddress, FIXTURE_WALLET]]);
+
+  const alias = (address: string): string => {
+    if (!address || JITO_TIP_ACCOUNTS.has(address)) return address;
+    let name = aliases.get(address);
+    if (!name) {
+      name = `account-${aliases.size}`;
+      aliases.set(address, name);
+    }
+    return name;
+  };
+
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (!value || typeof value !== 'object') return value;
+
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (DROPPED_KEYS.has(key)) continue;
+      out[key] = ADDRESS_KEYS.has(key) && typeof child === 'string' ? alias(child) : walk(child);
+    }
+    return out;
+  };
+
+  return { ...(walk(tx) as HeliusEnhancedTransaction), signature };
+}
@@ -3,9 +3,38 @@ import {
   type Position,
   type PnLSummary,
   type Timeframe,
+  type CostBasisMethod,
+  type Realization,
+  type TradeQuery,
+  type TradePage,
+  type TradeSortField,
   TIMEFRAME_SECONDS,
+  DEFAULT_COST_BASIS_METHOD,
+  TRADE_SORT_FIELDS,
 } from '@funeral-vision/shared';
-import { tradeQueries, positionQueries, lotQueries, db } from '../db/index.js';
+import { tradeQueries, positionQueries, lotQueries, type TradeSortColumn } from '../db/index.js';
+import { markPositions, isOpenPosition } from './pricing.js';
+import { matchLots, type SellMatch } from './costBasis.js';
+import {
+  recordRealizations,
+  getStoredRealizations,
+  toRealization,
+  clampRealizationLimit,
+  type RealizationFilters,
+} from './realizations.js';
+
+const DEFAULT_TRADE_PAGE_SIZE = 50;
+const MAX_TRADE_PAGE_SIZE = 200;
+
+const TRADE_SORT_COLUMNS: Record<TradeSortField, TradeSortColumn> = {
+  timestamp: 'timestamp',
+  type: 'type',
+  tokenSymbol: 'token_symbol',
+  tokenAmount: 'token_amount',
+  solAmount: 'sol_amount',
+  pricePerToken: 'price_per_token',
+  dex: 'dex',
+};
 
 interface CostBasisLot {
   id: number;
@@ -19,12 +48,32 @@ interface CostBasisLot {
 }
 
 /**
- * Calculate realized PnL using FIFO cost basis
+ * Everything a trade paid on top of its swap amount
  */
-export function calculateFIFOPnL(
+export function tradeFees(trade: Trade): number {
+  return trade.networkFee + trade.priorityFee + trade.tip;
+}
+
+export interface CostBasisResult {
+  positions: Position[];
+  totalRealizedPnL: number;
+  sellMatches: SellMatch[];
+}
+
+/**
+ * Calculate realized PnL by matching sells against buy lots with the given method.
+ *
+ * The positions, cost_basis_lots and realization ledger tables hold the default (FIFO)
+ * view, so they are only rewritten when that method is used; other methods are
+ * computed on demand.
+ */
+export function calculateCostBasisPnL(
   walletAddress: string,
-  trades: Trade[]
-): { positions: Position[]; totalRealizedPnL: number } {
+  trades: Trade[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): CostBasisResult {
+  const persist = method === DEFAULT_COST_BASIS_METHOD;
+
   // Group trades by token
   const tradesByToken: Map<string, Trade[]> = new Map();
 
@@ -35,69 +84,35 @@ export function calculateFIFOPnL(
   }
 
   const positions: Position[] = [];
+  const sellMatches: SellMatch[] = [];
   let totalRealizedPnL = 0;
 
-  // Clear existing cost basis lots for this wallet
-  lotQueries.deleteLotsByWallet.run(walletAddress);
-  positionQueries.deletePositionsByWallet.run(walletAddress);
+  if (persist) {
+    // Clear existing cost basis lots for this wallet
+    lotQueries.deleteLotsByWallet.run(walletAddress);
+    positionQueries.deletePositionsByWallet.run(walletAddress);
+  }
 
   for (const [tokenMint, tokenTrades] of tradesByToken) {
-    // Sort by timestamp ascending for FIFO
+    // Lots are replayed in the order they were acquired
     const sortedTrades = [...tokenTrades].sort((a, b) => a.timestamp - b.timestamp);
-
-    let totalBought = 0;
-    let totalSold = 0;
-    let totalCostBasis = 0;
-    let totalProceeds = 0;
-    let realizedPnL = 0;
-    let winCount = 0;
-    let tradeCount = sortedTrades.length;
-    let tokenSymbol = sortedTrades[0]?.tokenSymbol;
-
-    // Track buy lots for FIFO
-    const buyLots: { tradeId: string; amount: number; remaining: number; price: number; timestamp: number }[] = [];
-
-    for (const trade of sortedTrades) {
-      if (trade.type === 'buy') {
-        // Add to buy lots
-        buyLots.push({
-          tradeId: trade.id,
-          amount: trade.tokenAmount,
-          remaining: trade.tokenAmount,
-          price: trade.pricePerToken,
-          timestamp: trade.timestamp,
-        });
-        totalBought += trade.tokenAmount;
-        totalCostBasis += trade.solAmount;
-      } else {
-        // Sell - match against oldest buy lots (FIFO)
-        let sellRemaining = trade.tokenAmount;
-        let sellCostBasis = 0;
-
-        for (const lot of buyLots) {
-          if (sellRemaining <= 0) break;
-          if (lot.remaining <= 0) continue;
-
-          const matchAmount = Math.min(lot.remaining, sellRemaining);
-          sellCostBasis += matchAmount * lot.price;
-          lot.remaining -= matchAmount;
-          sellRemaining -= matchAmount;
-        }
-
-        const sellProfit = trade.solAmount - sellCostBasis;
-        realizedPnL += sellProfit;
-        totalSold += trade.tokenAmount;
-        totalProceeds += trade.solAmount;
-
-        if (sellProfit > 0) {
-          winCount++;
-        }
-      }
-    }
+    const { sells, openLots } = matchLots(sortedTrades, method);
+    sellMatches.push(...sells);
+
+    const buys = sortedTrades.filter(t => t.type === 'buy');
+    const totalBought = buys.reduce((sum, t) => sum + t.tokenAmount, 0);
+    const totalCostBasis = buys.reduce((sum, t) => sum + t.solAmount, 0);
+    const totalSold = sells.reduce((sum, m) => sum + m.sell.tokenAmount, 0);
+    const totalProceeds = sells.reduce((sum, m) => sum + m.proceeds, 0);
+    const realizedPnL = sells.reduce((sum, m) => sum + m.realizedPnL, 0);
+    const winCount = sells.filter(m => m.realizedPnL > 0).length;
+    const totalFees = sortedTrades.reduce((sum, t) => sum + tradeFees(t), 0);
+    const tradeCount = sortedTrades.length;
+    const tokenSymbol = sortedTrades[0]?.tokenSymbol;
 
     // Save remaining buy lots to database
-    for (const lot of buyLots) {
-      if (lot.remaining > 0) {
+    if (persist) {
+      for (const lot of openLots) {
         lotQueries.insertLot.run({
           wallet_address: walletAddress,
           token_mint: tokenMint,
@@ -112,6 +127,7 @@ export function calculateFIFOPnL(
 
     const remainingTokens = totalBought - totalSold;
     const averageBuyPrice = totalBought > 0 ? totalCostBasis / totalBought : 0;
+    const openCostBasis = openLots.reduce((sum, lot) => sum + lot.remaining * lot.price, 0);
 
     const position: Position = {
       walletAddress,
@@ -124,6 +140,9 @@ export function calculateFIFOPnL(
       remainingTokens,
       averageBuyPrice,
       realizedPnL,
+      totalFees,
+      netRealizedPnL: realizedPnL - totalFees,
+      openCostBasis,
       tradeCount,
       winCount,
       firstTradeAt: sortedTrades[0]?.timestamp || 0,
@@ -133,6 +152,8 @@ export function calculateFIFOPnL(
     positions.push(position);
     totalRealizedPnL += realizedPnL;
 
+    if (!persist) continue;
+
     // Save position to database
     positionQueries.upsertPosition.run({
       wallet_address: walletAddress,
@@ -145,6 +166,7 @@ export function calculateFIFOPnL(
       remaining_tokens: remainingTokens,
       average_buy_price: averageBuyPrice,
       realized_pnl: realizedPnL,
+      total_fees: totalFees,
       trade_count: tradeCount,
       win_count: winCount,
       first_trade_at: position.firstTradeAt,
@@ -152,42 +174,104 @@ export function calculateFIFOPnL(
     });
   }
 
-  return { positions, totalRealizedPnL };
+  if (persist) {
+    recordRealizations(walletAddress, sellMatches);
+  }
+
+  return { positions, totalRealizedPnL, sellMatches };
+}
+
+export interface PeriodTotals {
+  totalRealizedPnL: number;
+  winCount: number;
+  lossCount: number;
+  totalBuys: number;
+  totalSells: number;
+  totalTrades: number;
+  winRate: number;
+  totalSolVolume: number;
+  totalNetworkFees: number;
+  totalPriorityFees: number;
+  totalTips: number;
+  totalFees: number;
+}
+
+/**
+ * Headline totals for a period from its trades and the sells (with all-time
+ * lot matches) that fall inside it
+ */
+export function summarizePeriod(tradesInPeriod: Trade[], periodSellMatches: SellMatch[]): PeriodTotals {
+  // Every sell in the period is a win or a loss on its own lot matches
+  const totalRealizedPnL = periodSellMatches.reduce((sum, m) => sum + m.realizedPnL, 0);
+  const winCount = periodSellMatches.filter((m) => m.realizedPnL > 0).length;
+  const lossCount = periodSellMatches.filter((m) => m.realizedPnL < 0).length;
+
+  const totalBuys = tradesInPeriod.filter((t) => t.type === 'buy').length;
+  const totalSells = tradesInPeriod.filter((t) => t.type === 'sell').length;
+
+  // Fees and tips are charged when paid, so net PnL counts every trade in the period
+  const totalNetworkFees = tradesInPeriod.reduce((sum, t) => sum + t.networkFee, 0);
+  const totalPriorityFees = tradesInPeriod.reduce((sum, t) => sum + t.priorityFee, 0);
+  const totalTips = tradesInPeriod.reduce((sum, t) => sum + t.tip, 0);
+
+  return {
+    totalRealizedPnL,
+    winCount,
+    lossCount,
+    totalBuys,
+    totalSells,
+    totalTrades: tradesInPeriod.length,
+    winRate: totalSells > 0 ? (winCount / totalSells) * 100 : 0,
+    totalSolVolume: tradesInPeriod.reduce((sum, t) => sum + t.solAmount, 0),
+    totalNetworkFees,
+    totalPriorityFees,
+    totalTips,
+    totalFees: totalNetworkFees + totalPriorityFees + totalTips,
+  };
 }
 
 /**
  * Generate PnL summary for a wallet with timeframe filtering
  * 
- * IMPORTANT: We always calculate FIFO with ALL trades to ensure accurate cost basis.
+ * IMPORTANT: Lots are always matched over ALL trades to ensure accurate cost basis.
  * For example, if you bought a token 4 days ago and sell it today, the 24h view 
  * should still show the correct PnL based on the original cost basis.
  * 
- * The timeframe filter only affects which trades are REPORTED, not the cost basis calculation.
+ * The timeframe filter only selects which sells are REPORTED; each sell's PnL is
+ * the one it got from the all-time lot matching.
  */
 export function generatePnLSummary(
   walletAddress: string,
-  allTrades: Trade[],  // All trades for accurate FIFO
-  timeframe: Timeframe = 'all'
+  allTrades: Trade[],  // All trades for accurate lot matching
+  timeframe: Timeframe = 'all',
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
 ): PnLSummary {
   const now = Math.floor(Date.now() / 1000);
   const timeframeSeconds = TIMEFRAME_SECONDS[timeframe];
   const periodStart = timeframeSeconds ? now - timeframeSeconds : 0;
   const periodEnd = now;
 
-  // First, calculate FIFO PnL with ALL trades to get accurate cost basis
-  // This builds the cost basis lots correctly
-  const { positions: allPositions } = calculateFIFOPnL(walletAddress, allTrades);
+  // Match lots with ALL trades to get accurate cost basis
+  const { positions: allPositions, sellMatches } = calculateCostBasisPnL(walletAddress, allTrades, method);
+
+  // Mark open positions to the last known price. Unrealized PnL is a point-in-time
+  // figure for what is still held, so it is not filtered by timeframe.
+  const marks = markPositions(allPositions);
 
   // Now filter trades by timeframe for reporting
   const tradesInPeriod = timeframeSeconds
     ? allTrades.filter((t) => t.timestamp >= periodStart)
     : allTrades;
-
-  // Calculate realized PnL only for sells within the timeframe
-  // We need to re-calculate PnL for just this period using pre-existing cost basis
-  let totalRealizedPnL = 0;
-  let winCount = 0;
-  let lossCount = 0;
+  const periodSellMatches = timeframeSeconds
+    ? sellMatches.filter((m) => m.sell.timestamp >= periodStart)
+    : sellMatches;
+
+  const sellMatchesByToken: Map<string, SellMatch[]> = new Map();
+  for (const match of periodSellMatches) {
+    const existing = sellMatchesByToken.get(match.sell.tokenMint) || [];
+    existing.push(match);
+    sellMatchesByToken.set(match.sell.tokenMint, existing);
+  }
 
   // Group trades by token for period-specific calculations
   const periodTradesByToken: Map<string, Trade[]> = new Map();
@@ -203,34 +287,17 @@ export function generatePnLSummary(
   for (const [tokenMint, periodTrades] of periodTradesByToken) {
     // Get the full position (with all-time cost basis)
     const fullPosition = allPositions.find(p => p.tokenMint === tokenMint);
-    
+    const tokenSellMatches = sellMatchesByToken.get(tokenMint) || [];
+
     // Calculate period-specific metrics
     const periodBuys = periodTrades.filter(t => t.type === 'buy');
-    const periodSells = periodTrades.filter(t => t.type === 'sell');
-    
+
     const periodBought = periodBuys.reduce((sum, t) => sum + t.tokenAmount, 0);
-    const periodSold = periodSells.reduce((sum, t) => sum + t.tokenAmount, 0);
     const periodCostBasis = periodBuys.reduce((sum, t) => sum + t.solAmount, 0);
-    const periodProceeds = periodSells.reduce((sum, t) => sum + t.solAmount, 0);
-    
-    // For sells in this period, calculate PnL using the full position's average buy price
-    // This ensures we use the correct cost basis even for tokens bought before the period
-    let periodRealizedPnL = 0;
-    let periodWinCount = 0;
-    
-    if (fullPosition && periodSells.length > 0) {
-      for (const sell of periodSells) {
-        // Use the average buy price from all-time position
-        const costBasisForSell = sell.tokenAmount * fullPosition.averageBuyPrice;
-        const profit = sell.solAmount - costBasisForSell;
-        periodRealizedPnL += profit;
-        if (profit > 0) periodWinCount++;
-      }
-    }
-
-    totalRealizedPnL += periodRealizedPnL;
-    if (periodRealizedPnL > 0) winCount += periodWinCount;
-    else if (periodRealizedPnL < 0) lossCount += periodSells.length - periodWinCount;
+    const periodSold = tokenSellMatches.reduce((sum, m) => sum + m.sell.tokenAmount, 0);
+    const periodProceeds = tokenSellMatches.reduce((sum, m) => sum + m.proceeds, 0);
+    const periodRealizedPnL = tokenSellMatches.reduce((sum, m) => sum + m.realizedPnL, 0);
+    const periodFees = periodTrades.reduce((sum, t) => sum + tradeFees(t), 0);
 
     // Create period-specific position
     periodPositions.push({
@@ -244,22 +311,35 @@ export function generatePnLSummary(
       remainingTokens: fullPosition?.remainingTokens || 0,
       averageBuyPrice: fullPosition?.averageBuyPrice || 0,  // Use all-time avg price
       realizedPnL: periodRealizedPnL,
+      totalFees: periodFees,
+      netRealizedPnL: periodRealizedPnL - periodFees,
+      unrealizedPnL: fullPosition?.unrealizedPnL,
+      openCostBasis: fullPosition?.openCostBasis,
+      markPrice: fullPosition?.markPrice,
+      markValue: fullPosition?.markValue,
+      priceSource: fullPosition?.priceSource,
+      priceObservedAt: fullPosition?.priceObservedAt,
       tradeCount: periodTrades.length,
-      winCount: periodWinCount,
+      winCount: tokenSellMatches.filter(m => m.realizedPnL > 0).length,
       firstTradeAt: Math.min(...periodTrades.map(t => t.timestamp)),
       lastTradeAt: Math.max(...periodTrades.map(t => t.timestamp)),
     });
   }
 
-  // Aggregate metrics for the period
-  const totalBuys = tradesInPeriod.filter((t) => t.type === 'buy').length;
-  const totalSells = tradesInPeriod.filter((t) => t.type === 'sell').length;
-  const totalTrades = tradesInPeriod.length;
-
-  const winRate = totalSells > 0 ? (winCount / totalSells) * 100 : 0;
-
-  // Volume metrics
-  const totalSolVolume = tradesInPeriod.reduce((sum, t) => sum + t.solAmount, 0);
+  const {
+    totalRealizedPnL,
+    winCount,
+    lossCount,
+    totalBuys,
+    totalSells,
+    totalTrades,
+    winRate,
+    totalSolVolume,
+    totalNetworkFees,
+    totalPriorityFees,
+    totalTips,
+    totalFees,
+  } = summarizePeriod(tradesInPeriod, periodSellMatches);
   const avgTradeSize = totalTrades > 0 ? totalSolVolume / totalTrades : 0;
 
   // Calculate average hold duration
@@ -276,26 +356,22 @@ export function generatePnLSummary(
   // Unique tokens
   const uniqueTokensTraded = new Set(tradesInPeriod.map((t) => t.tokenMint)).size;
 
-  // Find best and worst trades (by realized PnL per trade)
-  const sellTrades = tradesInPeriod.filter((t) => t.type === 'sell');
+  // Find best and worst trades by realized PnL. Sells with no matched lots
+  // (no recorded buy) have no meaningful cost basis, so they are skipped.
   let bestTrade: Trade | undefined;
   let worstTrade: Trade | undefined;
   let bestPnL = -Infinity;
   let worstPnL = Infinity;
 
-  // Calculate trade PnL using all-time average buy price
-  for (const sell of sellTrades) {
-    const pos = allPositions.find((p) => p.tokenMint === sell.tokenMint);
-    if (pos && pos.averageBuyPrice > 0) {
-      const tradePnL = sell.solAmount - (sell.tokenAmount * pos.averageBuyPrice);
-      if (tradePnL > bestPnL) {
-        bestPnL = tradePnL;
-        bestTrade = sell;
-      }
-      if (tradePnL < worstPnL) {
-        worstPnL = tradePnL;
-        worstTrade = sell;
-      }
+  for (const match of periodSellMatches) {
+    if (match.matchedAmount <= 0) continue;
+    if (match.realizedPnL > bestPnL) {
+      bestPnL = match.realizedPnL;
+      bestTrade = match.sell;
+    }
+    if (match.realizedPnL < worstPnL) {
+      worstPnL = match.realizedPnL;
+      worstTrade = match.sell;
     }
   }
 
@@ -304,7 +380,13 @@ export function generatePnLSummary(
     timeframe,
     periodStart,
     periodEnd,
+    costBasisMethod: method,
     totalRealizedPnL,
+    netRealizedPnL: totalRealizedPnL - totalFees,
+    totalUnrealizedPnL: marks.totalUnrealizedPnL,
+    totalPnL: totalRealizedPnL + marks.totalUnrealizedPnL,
+    totalEquity: marks.totalEquity,
+    unpricedPositions: marks.unpricedPositions,
     totalTrades,
     totalBuys,
     totalSells,
@@ -313,6 +395,10 @@ export function generatePnLSummary(
     winRate,
     totalSolVolume,
     avgTradeSize,
+    totalNetworkFees,
+    totalPriorityFees,
+    totalTips,
+    totalFees,
     avgHoldDuration,
     uniqueTokensTraded,
     bestTrade,
@@ -321,6 +407,42 @@ export function generatePnLSummary(
   };
 }
 
+export function mapTradeRow(row: any): Trade {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    signature: row.signature,
+    timestamp: row.timestamp,
+    type: row.type,
+    tokenMint: row.token_mint,
+    tokenSymbol: row.token_symbol,
+    tokenAmount: row.token_amount,
+    solAmount: row.sol_amount,
+    pricePerToken: row.price_per_token,
+    dex: row.dex,
+    networkFee: row.network_fee ?? 0,
+    priorityFee: row.priority_fee ?? 0,
+    tip: row.tip ?? 0,
+    parserVersion: row.parser_version ?? undefined,
+  };
+}
+
+function encodeTradeCursor(value: string | number, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeTradeCursor(cursor: string): { value: string | number; id: string } {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if ((typeof value === 'string' || typeof value === 'number') && typeof id === 'string') {
+      return { value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
 /**
  * Get trades from database with timeframe filter
  */
@@ -339,28 +461,113 @@ export function getTradesForWallet(
     rows = tradeQueries.getTradesByWallet.all(walletAddress);
   }
 
-  return rows.map((row) => ({
-    id: row.id,
-    walletAddress: row.wallet_address,
-    signature: row.signature,
-    timestamp: row.timestamp,
-    type: row.type,
-    tokenMint: row.token_mint,
-    tokenSymbol: row.token_symbol,
-    tokenAmount: row.token_amount,
-    solAmount: row.sol_amount,
-    pricePerToken: row.price_per_token,
-    dex: row.dex,
-  }));
+  return rows.map(mapTradeRow);
+}
+
+/**
+ * Throw on a trade query the search can't run
+ */
+export function validateTradeQuery(query: TradeQuery): void {
+  if (query.type !== undefined && query.type !== 'buy' && query.type !== 'sell') {
+    throw new Error('type must be buy or sell');
+  }
+  const sort = query.sort ?? 'timestamp';
+  if (!TRADE_SORT_FIELDS.includes(sort)) {
+    throw new Error(`sort must be one of: ${TRADE_SORT_FIELDS.join(', ')}`);
+  }
+  const order = query.order ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('order must be asc or desc');
+  }
+  for (const key of ['minSol', 'maxSol', 'from', 'to'] as const) {
+    const value = query[key];
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+  }
+  const limit = query.limit ?? DEFAULT_TRADE_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRADE_PAGE_SIZE) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_TRADE_PAGE_SIZE}`);
+  }
+  if (query.cursor !== undefined) decodeTradeCursor(query.cursor);
+}
+
+/**
+ * Filter, sort and page a wallet's trades in SQL.
+ * The cursor is opaque to clients: the last row's sort value and id.
+ */
+export function queryTradesForWallet(walletAddress: string, query: TradeQuery = {}): TradePage {
+  validateTradeQuery(query);
+  const sort = query.sort ?? 'timestamp';
+  const order = query.order ?? 'desc';
+  const limit = query.limit ?? DEFAULT_TRADE_PAGE_SIZE;
+
+  const sortColumn = TRADE_SORT_COLUMNS[sort];
+  const search = query.search?.trim();
+  const { rows, total } = tradeQueries.searchTrades({
+    walletAddress,
+    type: query.type,
+    tokenMint: query.tokenMint,
+    dex: query.dex,
+    minSol: query.minSol,
+    maxSol: query.maxSol,
+    from: query.from,
+    to: query.to,
+    search: search ? search : undefined,
+    sortColumn,
+    descending: order === 'desc',
+    after: query.cursor !== undefined ? decodeTradeCursor(query.cursor) : undefined,
+    // One extra row tells whether another page exists
+    limit: limit + 1,
+  }) as { rows: any[]; total: number | null };
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    trades: pageRows.map(mapTradeRow),
+    total,
+    limit,
+    nextCursor: hasMore ? encodeTradeCursor(last[sortColumn] ?? '', last.id) : null,
+  };
 }
 
 /**
- * Get positions from database
+ * Get positions for a wallet. The default method reads the stored positions;
+ * other methods are recomputed from the wallet's trades.
  */
-export function getPositionsForWallet(walletAddress: string): Position[] {
+export function getPositionsForWallet(
+  walletAddress: string,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): Position[] {
+  if (method !== DEFAULT_COST_BASIS_METHOD) {
+    const { positions } = calculateCostBasisPnL(walletAddress, getTradesForWallet(walletAddress, 'all'), method);
+    positions.sort((a, b) => b.realizedPnL - a.realizedPnL);
+    markPositions(positions);
+    return positions;
+  }
+
   const rows = positionQueries.getPositionsByWallet.all(walletAddress) as any[];
+  const positions = rows.map(mapPositionRow);
+  fillOpenCostBasis(positions);
+  markPositions(positions);
+  return positions;
+}
 
-  return rows.map((row) => ({
+/**
+ * Stored (default method) positions in one mint across wallets
+ */
+export function getPositionsForMint(tokenMint: string): Position[] {
+  const rows = positionQueries.getPositionsByMint.all(tokenMint) as any[];
+  const positions = rows.map(mapPositionRow);
+  fillOpenCostBasis(positions);
+  markPositions(positions);
+  return positions;
+}
+
+function mapPositionRow(row: any): Position {
+  return {
     walletAddress: row.wallet_address,
     tokenMint: row.token_mint,
     tokenSymbol: row.token_symbol,
@@ -371,9 +578,48 @@ export function getPositionsForWallet(walletAddress: string): Position[] {
     remainingTokens: row.remaining_tokens,
     averageBuyPrice: row.average_buy_price,
     realizedPnL: row.realized_pnl,
+    totalFees: row.total_fees ?? 0,
+    netRealizedPnL: row.realized_pnl - (row.total_fees ?? 0),
     tradeCount: row.trade_count,
     winCount: row.win_count,
     firstTradeAt: row.first_trade_at,
     lastTradeAt: row.last_trade_at,
-  }));
+  };
+}
+
+// Remaining lots are persisted by the default-method pass, so open cost basis matches the summary
+function fillOpenCostBasis(positions: Position[]): void {
+  for (const position of positions) {
+    if (!isOpenPosition(position)) continue;
+    const lots = lotQueries.getLotsForToken.all(position.walletAddress, position.tokenMint) as CostBasisLot[];
+    position.openCostBasis = lots.reduce((sum, lot) => sum + lot.remaining_amount * lot.price_per_token, 0);
+  }
+}
+
+/**
+ * Get a wallet's realized sells with the lots each one closed, newest first.
+ * The default method reads the stored ledger; other methods are recomputed.
+ */
+export function getRealizationsForWallet(
+  walletAddress: string,
+  filters: RealizationFilters = {},
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): Realization[] {
+  if (method === DEFAULT_COST_BASIS_METHOD) {
+    return getStoredRealizations(walletAddress, filters);
+  }
+
+  const trades = getTradesForWallet(walletAddress, 'all');
+  const buySignatures = new Map(trades.map((t) => [t.id, t.signature]));
+  const { sellMatches } = calculateCostBasisPnL(walletAddress, trades, method);
+
+  return sellMatches
+    .filter((m) =>
+      (!filters.tokenMint || m.sell.tokenMint === filters.tokenMint) &&
+      (filters.from === undefined || m.sell.timestamp >= filters.from) &&
+      (filters.to === undefined || m.sell.timestamp <= filters.to)
+    )
+    .sort((a, b) => b.sell.timestamp - a.sell.timestamp)
+    .slice(0, clampRealizationLimit(filters.limit))
+    .map((m) => toRealization(walletAddress, m, buySignatures));
 }
@@ -0,0 +1,59 @@
+import fs from 'fs';
+
+/**
+ * External source of current token prices in SOL
+ */
+export interface PriceProvider {
+  name: string;
+  getPrices(mints: string[]): Promise<Map<string, { priceSol: number; observedAt: number }>>;
+}
+
+/**
+ * Local stub - serves fixed prices from a JSON file ({ "<mint>": <price in SOL> }).
+ * Useful for development and for pinning marks without network access.
+ */
+function createStubProvider(): PriceProvider {
+  const file = process.env.PRICE_STUB_FILE;
+
+  return {
+    name: 'stub',
+    async getPrices(mints) {
+      const prices = new Map<string, { priceSol: number; observedAt: number }>();
+      if (!file || !fs.existsSync(file)) return prices;
+
+      const table = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, number>;
+      const observedAt = Math.floor(fs.statSync(file).mtimeMs / 1000);
+      for (const mint of mints) {
+        const price = table[mint];
+        if (typeof price === 'number' && price > 0) {
+          prices.set(mint, { priceSol: price, observedAt });
+        }
+      }
+      return prices;
+    },
+  };
+}
+
+const PROVIDER_FACTORIES: Record<string, () => PriceProvider> = {
+  stub: createStubProvider,
+};
+
+let provider: PriceProvider | null | undefined;
+
+/**
+ * Provider selected by PRICE_PROVIDER, or null when prices come from stored trades only
+ */
+export function getPriceProvider(): PriceProvider | null {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.PRICE_PROVIDER;
+  if (!name) {
+    provider = null;
+  } else if (PROVIDER_FACTORIES[name]) {
+    provider = PROVIDER_FACTORIES[name]();
+  } else {
+    console.warn(`Unknown PRICE_PROVIDER "${name}", falling back to trade prices`);
+    provider = null;
+  }
+  return provider;
+}
@@ -0,0 +1,82 @@
+import { priceQueries } from '../db/index.js';
+
+// A print further than this from the requested time is too far off to price a fill
+export const TAPE_WINDOW_SECONDS = 30;
+
+export interface TapePrint {
+  timestamp: number;
+  price: number;
+}
+
+/**
+ * Per-mint SOL price history built from every stored trade (all wallets).
+ * Mints are loaded on first use and cached for the life of the tape, so one
+ * tape can be shared across a batch of simulations.
+ */
+export class PriceTape {
+  private prints = new Map<string, TapePrint[]>();
+
+  constructor(private windowSeconds: number = TAPE_WINDOW_SECONDS) {}
+
+  private getPrints(mint: string): TapePrint[] {
+    let prints = this.prints.get(mint);
+    if (!prints) {
+      const rows = priceQueries.getTradeTape.all(mint) as { timestamp: number; price_per_token: number }[];
+      prints = rows.map(row => ({ timestamp: row.timestamp, price: row.price_per_token }));
+      this.prints.set(mint, prints);
+    }
+    return prints;
+  }
+
+  // Index of the first print at or after `timestamp`
+  private lowerBound(prints: TapePrint[], timestamp: number): number {
+    let lo = 0;
+    let hi = prints.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (prints[mid].timestamp < timestamp) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /**
+   * Price of the print closest to `target` that came after `after`, or null
+   * when none falls within the window. Ties go to the later print.
+   */
+  priceNear(mint: string, target: number, after: number): number | null {
+    const prints = this.getPrints(mint);
+
+    // First print at or after the target
+    const lo = this.lowerBound(prints, target);
+
+    const next = prints[lo];
+    const prev = lo > 0 ? prints[lo - 1] : undefined;
+    const candidates = [next, prev].filter(
+      (p): p is TapePrint => !!p && p.timestamp > after && Math.abs(p.timestamp - target) <= this.windowSeconds
+    );
+    if (candidates.length === 0) return null;
+
+    const best = candidates.reduce((a, b) =>
+      Math.abs(b.timestamp - target) < Math.abs(a.timestamp - target) ? b : a
+    );
+    return best.price;
+  }
+
+  /**
+   * Prints in (from, to], oldest first
+   */
+  printsBetween(mint: string, from: number, to: number): TapePrint[] {
+    const prints = this.getPrints(mint);
+    return prints.slice(this.lowerBound(prints, from + 1), this.lowerBound(prints, to + 1));
+  }
+
+  /**
+   * Price of the last print at or before `at`, or null if there is none
+   */
+  lastPriceAt(mint: string, at: number): number | null {
+    const prints = this.getPrints(mint);
+    const index = this.lowerBound(prints, at + 1) - 1;
+    return index >= 0 ? prints[index].price : null;
+  }
+}
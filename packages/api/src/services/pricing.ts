@@ -0,0 +1,155 @@
+import type { Position, TokenPrice, Trade } from '@funeral-vision/shared';
+import { positionQueries, priceQueries } from '../db/index.js';
+import { getPriceProvider } from './priceProviders.js';
+
+// Remaining balance below this fraction of the total bought counts as closed
+const OPEN_POSITION_DUST_RATIO = 0.000001;
+
+interface SnapshotRow {
+  mint: string;
+  price_sol: number;
+  source: string;
+  observed_at: number;
+  signature: string | null;
+}
+
+export interface MarkTotals {
+  totalUnrealizedPnL: number;
+  totalEquity: number;
+  unpricedPositions: number;
+}
+
+export function isOpenPosition(position: Position): boolean {
+  return position.remainingTokens > position.totalBought * OPEN_POSITION_DUST_RATIO;
+}
+
+/**
+ * Record the latest trade price per mint as a 'trade' snapshot. Called when trades
+ * are written, so reads never have to.
+ */
+export function recordTradePrices(trades: Trade[]): void {
+  const latest = new Map<string, Trade>();
+  for (const trade of trades) {
+    if (trade.pricePerToken <= 0) continue;
+    const current = latest.get(trade.tokenMint);
+    if (!current || trade.timestamp > current.timestamp) latest.set(trade.tokenMint, trade);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  for (const trade of latest.values()) {
+    priceQueries.insertSnapshot.run({
+      mint: trade.tokenMint,
+      price_sol: trade.pricePerToken,
+      source: 'trade',
+      observed_at: trade.timestamp,
+      signature: trade.signature,
+      recorded_at: now,
+    });
+  }
+}
+
+/**
+ * Last known SOL price for a mint: the newer of the latest stored trade (any wallet)
+ * and the latest snapshot. Read-only.
+ */
+export function getLastKnownPrice(mint: string): TokenPrice | null {
+  const trade = priceQueries.getLatestTradePrice.get(mint) as
+    | { price_per_token: number; timestamp: number; signature: string }
+    | undefined;
+  const snapshot = priceQueries.getLatestSnapshot.get(mint) as SnapshotRow | undefined;
+
+  // Trades written before snapshots were recorded on write can be newer than any snapshot
+  if (trade && (!snapshot || trade.timestamp > snapshot.observed_at)) {
+    return {
+      mint,
+      priceSol: trade.price_per_token,
+      source: 'trade',
+      observedAt: trade.timestamp,
+      signature: trade.signature,
+    };
+  }
+  if (!snapshot) return null;
+
+  return {
+    mint,
+    priceSol: snapshot.price_sol,
+    source: snapshot.source,
+    observedAt: snapshot.observed_at,
+    signature: snapshot.signature ?? undefined,
+  };
+}
+
+export function getLastKnownPrices(mints: string[]): Map<string, TokenPrice> {
+  const prices = new Map<string, TokenPrice>();
+  for (const mint of new Set(mints)) {
+    const price = getLastKnownPrice(mint);
+    if (price) prices.set(mint, price);
+  }
+  return prices;
+}
+
+/**
+ * Fill mark price, value and unrealized PnL on open positions (in place)
+ * and return wallet-level totals
+ */
+export function markPositions(positions: Position[]): MarkTotals {
+  const open = positions.filter(isOpenPosition);
+  const prices = getLastKnownPrices(open.map(p => p.tokenMint));
+  const totals: MarkTotals = { totalUnrealizedPnL: 0, totalEquity: 0, unpricedPositions: 0 };
+
+  for (const position of open) {
+    const price = prices.get(position.tokenMint);
+    if (!price) {
+      totals.unpricedPositions++;
+      continue;
+    }
+
+    const openCostBasis = position.openCostBasis ?? position.remainingTokens * position.averageBuyPrice;
+    const markValue = position.remainingTokens * price.priceSol;
+
+    position.openCostBasis = openCostBasis;
+    position.markPrice = price.priceSol;
+    position.markValue = markValue;
+    position.unrealizedPnL = markValue - openCostBasis;
+    position.priceSource = price.source;
+    position.priceObservedAt = price.observedAt;
+
+    totals.totalUnrealizedPnL += position.unrealizedPnL;
+    totals.totalEquity += markValue;
+  }
+
+  return totals;
+}
+
+/**
+ * Pull fresh prices for a wallet's open positions from the configured provider
+ * and store them as snapshots. A no-op when no provider is configured.
+ */
+export async function refreshProviderPrices(walletAddress: string): Promise<number> {
+  const provider = getPriceProvider();
+  if (!provider) return 0;
+
+  const mints = (positionQueries.getOpenMintsByWallet.all(walletAddress) as { token_mint: string }[])
+    .map(r => r.token_mint);
+  if (mints.length === 0) return 0;
+
+  try {
+    const prices = await provider.getPrices(mints);
+    const now = Math.floor(Date.now() / 1000);
+    for (const [mint, price] of prices) {
+      priceQueries.insertSnapshot.run({
+        mint,
+        price_sol: price.priceSol,
+        source: provider.name,
+        observed_at: price.observedAt,
+        signature: null,
+        recorded_at: now,
+      });
+    }
+    return prices.size;
+  } catch (err) {
+    // Marks fall back to trade prices; a provider outage shouldn't fail the analysis
+    console.warn(`Price provider ${provider.name} failed:`, err instanceof Error ? err.message : err);
+    return 0;
+  }
+}
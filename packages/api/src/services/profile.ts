@@ -30,6 +30,13 @@ function refreshTokenLaunchCache(): Map<string, TokenLaunchRecord> {
   return cached;
 }
 
+/**
+ * Drop the cached launch map so the next profile build re-reads token_launches
+ */
+export function invalidateTokenLaunchCache(): void {
+  launchCache = null;
+}
+
 function percentile(sorted: number[], p: number): number | undefined {
   if (sorted.length === 0) return undefined;
   const idx = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
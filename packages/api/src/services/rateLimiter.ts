@@ -0,0 +1,150 @@
+/**
+ * Token-bucket limits for one class of requests, shared by every caller of it
+ */
+export interface RateLimits {
+  requestsPerSecond: number; // Per lane
+  maxInFlight: number; // Per lane
+  cooldownMs: number; // How long a lane is skipped after a 429
+}
+
+export type RequestOutcome = 'success' | 'rateLimited' | 'failed';
+
+// After a 429 a lane's rate is halved, down to this share of the configured rate,
+// and each success wins back this share of it
+const MIN_RATE_SHARE = 1 / 8;
+const RECOVERY_SHARE = 1 / 20;
+
+interface Lane {
+  rate: number; // Current requests per second, adapted to 429s
+  tokens: number;
+  refilledAt: number;
+  inFlight: number;
+  coolingUntil: number;
+}
+
+/**
+ * Hands out request slots over a set of lanes (one per API key), each with its own
+ * token bucket and in-flight cap. Waiting callers are served first come, first served
+ * on whichever lane is free next, in round-robin order.
+ */
+export class RateLimiter {
+  private lanes: Lane[];
+  private nextLane = 0;
+  private waiters: ((lane: number) => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(laneCount: number, private limits: RateLimits) {
+    this.lanes = Array.from({ length: laneCount }, () => ({
+      rate: limits.requestsPerSecond,
+      tokens: 1,
+      refilledAt: Date.now(),
+      inFlight: 0,
+      coolingUntil: 0,
+    }));
+  }
+
+  /**
+   * Requests that can be in flight at once across all lanes
+   */
+  get capacity(): number {
+    return this.lanes.length * this.limits.maxInFlight;
+  }
+
+  /**
+   * Wait for a slot and return its lane. Every acquire must be paired with a release.
+   */
+  acquire(): Promise<number> {
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+      this.pump();
+    });
+  }
+
+  /**
+   * Free a lane's slot. A 429 cools the lane down and halves its rate; successes
+   * recover the rate gradually.
+   */
+  release(lane: number, outcome: RequestOutcome): void {
+    const state = this.lanes[lane];
+    state.inFlight--;
+
+    const configured = this.limits.requestsPerSecond;
+    if (outcome === 'rateLimited') {
+      this.refill(state, Date.now());
+      state.rate = Math.max(configured * MIN_RATE_SHARE, state.rate / 2);
+      state.tokens = 0;
+      state.coolingUntil = Date.now() + this.limits.cooldownMs;
+    } else if (outcome === 'success') {
+      this.refill(state, Date.now());
+      state.rate = Math.min(configured, state.rate + configured * RECOVERY_SHARE);
+    }
+
+    this.pump();
+  }
+
+  isCooling(lane: number): boolean {
+    return this.lanes[lane].coolingUntil > Date.now();
+  }
+
+  /**
+   * Whether any lane isn't cooling down, i.e. a rate-limited request can fail over
+   */
+  hasOpenLane(): boolean {
+    return this.lanes.some((_, lane) => !this.isCooling(lane));
+  }
+
+  private refill(lane: Lane, now: number): void {
+    const burst = Math.max(1, Math.floor(lane.rate));
+    lane.tokens = Math.min(burst, lane.tokens + ((now - lane.refilledAt) / 1000) * lane.rate);
+    lane.refilledAt = now;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    while (this.waiters.length > 0) {
+      const lane = this.takeSlot(now);
+      if (lane === null) break;
+      this.waiters.shift()!(lane);
+    }
+
+    // Lanes at their in-flight cap are woken by release instead
+    if (this.waiters.length > 0) {
+      const wait = this.nextSlotIn(now);
+      if (Number.isFinite(wait)) {
+        this.timer = setTimeout(() => this.pump(), Math.max(1, Math.ceil(wait)));
+      }
+    }
+  }
+
+  private takeSlot(now: number): number | null {
+    for (let i = 0; i < this.lanes.length; i++) {
+      const index = (this.nextLane + i) % this.lanes.length;
+      const lane = this.lanes[index];
+      if (lane.coolingUntil > now || lane.inFlight >= this.limits.maxInFlight) continue;
+
+      this.refill(lane, now);
+      if (lane.tokens < 1) continue;
+
+      lane.tokens--;
+      lane.inFlight++;
+      this.nextLane = (index + 1) % this.lanes.length;
+      return index;
+    }
+    return null;
+  }
+
+  private nextSlotIn(now: number): number {
+    let wait = Infinity;
+    for (const lane of this.lanes) {
+      if (lane.inFlight >= this.limits.maxInFlight) continue;
+      const untilToken = lane.tokens >= 1 ? 0 : ((1 - lane.tokens) / lane.rate) * 1000;
+      wait = Math.min(wait, Math.max(lane.coolingUntil - now, untilToken));
+    }
+    return wait;
+  }
+}
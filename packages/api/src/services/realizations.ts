@@ -0,0 +1,209 @@
+import type { Realization, RealizedLot } from '@funeral-vision/shared';
+import { db, realizationQueries } from '../db/index.js';
+import type { SellMatch } from './costBasis.js';
+
+export interface RealizationFilters {
+  tokenMint?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+interface RealizationRow {
+  sell_trade_id: string;
+  wallet_address: string;
+  token_mint: string;
+  token_symbol: string | null;
+  signature: string;
+  timestamp: number;
+  amount: number;
+  matched_amount: number;
+  cost_basis: number;
+  proceeds: number;
+  realized_pnl: number;
+}
+
+interface RealizationLotRow {
+  sell_trade_id: string;
+  buy_trade_id: string;
+  buy_signature: string | null;
+  buy_timestamp: number;
+  buy_price: number;
+  amount: number;
+  cost_basis: number;
+  proceeds: number;
+  realized_pnl: number;
+  holding_period: number;
+}
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+export function clampRealizationLimit(limit?: number): number {
+  return Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+}
+
+/**
+ * Build the ledger entry for a matched sell. Proceeds are split across lots
+ * in proportion to the tokens each lot contributed.
+ */
+export function toRealization(
+  walletAddress: string,
+  match: SellMatch,
+  buySignatures?: Map<string, string>
+): Realization {
+  const { sell } = match;
+  const proceedsPerToken = sell.tokenAmount > 0 ? match.proceeds / sell.tokenAmount : 0;
+
+  const lots: RealizedLot[] = match.lots.map((lot) => {
+    const proceeds = lot.amount * proceedsPerToken;
+    return {
+      buyTradeId: lot.buyTradeId,
+      buySignature: buySignatures?.get(lot.buyTradeId),
+      buyTimestamp: lot.buyTimestamp,
+      buyPrice: lot.buyPrice,
+      amount: lot.amount,
+      costBasis: lot.costBasis,
+      proceeds,
+      realizedPnL: proceeds - lot.costBasis,
+      holdingPeriod: sell.timestamp - lot.buyTimestamp,
+    };
+  });
+
+  return {
+    sellTradeId: sell.id,
+    walletAddress,
+    tokenMint: sell.tokenMint,
+    tokenSymbol: sell.tokenSymbol,
+    signature: sell.signature,
+    timestamp: sell.timestamp,
+    amount: sell.tokenAmount,
+    matchedAmount: match.matchedAmount,
+    unmatchedAmount: match.unmatchedAmount,
+    costBasis: match.costBasis,
+    proceeds: match.proceeds,
+    realizedPnL: match.realizedPnL,
+    lots,
+  };
+}
+
+/**
+ * Replace a wallet's stored ledger. Callers run this inside the same pass that
+ * rewrites positions and cost_basis_lots so the three stay consistent.
+ */
+export function recordRealizations(walletAddress: string, matches: SellMatch[]): void {
+  // One transaction: a busy wallet writes thousands of ledger rows
+  const write = db.transaction(() => {
+    realizationQueries.deleteRealizationLotsByWallet.run(walletAddress);
+    realizationQueries.deleteRealizationsByWallet.run(walletAddress);
+
+    for (const match of matches) {
+      const realization = toRealization(walletAddress, match);
+
+      realizationQueries.insertRealization.run({
+        sell_trade_id: realization.sellTradeId,
+        wallet_address: walletAddress,
+        token_mint: realization.tokenMint,
+        signature: realization.signature,
+        timestamp: realization.timestamp,
+        amount: realization.amount,
+        matched_amount: realization.matchedAmount,
+        cost_basis: realization.costBasis,
+        proceeds: realization.proceeds,
+        realized_pnl: realization.realizedPnL,
+      });
+
+      for (const lot of realization.lots) {
+        realizationQueries.insertRealizationLot.run({
+          sell_trade_id: realization.sellTradeId,
+          wallet_address: walletAddress,
+          buy_trade_id: lot.buyTradeId,
+          buy_timestamp: lot.buyTimestamp,
+          buy_price: lot.buyPrice,
+          amount: lot.amount,
+          cost_basis: lot.costBasis,
+          proceeds: lot.proceeds,
+          realized_pnl: lot.realizedPnL,
+        });
+      }
+    }
+  });
+  write();
+}
+
+/**
+ * Attach each row's closed lots and map to realizations, keeping row order
+ */
+function withLots(rows: RealizationRow[]): Realization[] {
+  if (rows.length === 0) return [];
+
+  const lotRows = realizationQueries.getLotsForSells.all(
+    JSON.stringify(rows.map((r) => r.sell_trade_id))
+  ) as RealizationLotRow[];
+
+  const lotsBySell = new Map<string, RealizedLot[]>();
+  for (const row of lotRows) {
+    const lots = lotsBySell.get(row.sell_trade_id) || [];
+    lots.push({
+      buyTradeId: row.buy_trade_id,
+      buySignature: row.buy_signature ?? undefined,
+      buyTimestamp: row.buy_timestamp,
+      buyPrice: row.buy_price,
+      amount: row.amount,
+      costBasis: row.cost_basis,
+      proceeds: row.proceeds,
+      realizedPnL: row.realized_pnl,
+      holdingPeriod: row.holding_period,
+    });
+    lotsBySell.set(row.sell_trade_id, lots);
+  }
+
+  return rows.map((row) => ({
+    sellTradeId: row.sell_trade_id,
+    walletAddress: row.wallet_address,
+    tokenMint: row.token_mint,
+    tokenSymbol: row.token_symbol ?? undefined,
+    signature: row.signature,
+    timestamp: row.timestamp,
+    amount: row.amount,
+    matchedAmount: row.matched_amount,
+    unmatchedAmount: Math.max(row.amount - row.matched_amount, 0),
+    costBasis: row.cost_basis,
+    proceeds: row.proceeds,
+    realizedPnL: row.realized_pnl,
+    lots: lotsBySell.get(row.sell_trade_id) || [],
+  }));
+}
+
+/**
+ * Read the stored (default-method) ledger, newest sells first
+ */
+export function getStoredRealizations(walletAddress: string, filters: RealizationFilters = {}): Realization[] {
+  const rows = realizationQueries.getRealizations.all({
+    wallet_address: walletAddress,
+    token_mint: filters.tokenMint ?? null,
+    from: filters.from ?? null,
+    to: filters.to ?? null,
+    limit: clampRealizationLimit(filters.limit),
+  }) as RealizationRow[];
+  return withLots(rows);
+}
+
+/**
+ * One oldest-first batch of the stored ledger from `from`, after the given sell
+ */
+export function getStoredRealizationsAfter(
+  walletAddress: string,
+  from: number,
+  after: { timestamp: number; sellTradeId: string } | null,
+  limit: number
+): Realization[] {
+  const rows = realizationQueries.getRealizationsAfter.all({
+    wallet_address: walletAddress,
+    from,
+    after_timestamp: after?.timestamp ?? -1,
+    after_id: after?.sellTradeId ?? '',
+    limit,
+  }) as RealizationRow[];
+  return withLots(rows);
+}
@@ -0,0 +1,165 @@
+import {
+  type ReparseReport,
+  type Trade,
+  type TradeChange,
+  REPARSE_MAX_CHANGES,
+} from '@funeral-vision/shared';
+import { db, tradeQueries, txQueries, walletQueries } from '../db/index.js';
+import { PARSER_VERSION } from './parser.js';
+import { generatePnLSummary, getTradesForWallet, mapTradeRow } from './pnl.js';
+import { isWalletSyncing, recomputeWalletStats, writeTrades } from './sync.js';
+import { parseSourceTransaction, readStoredTransaction } from './transactionSources.js';
+
+// Stored transactions read and replayed at a time
+const BATCH_SIZE = 500;
+
+// What makes a re-parsed trade different from the stored one; the version tag doesn't count
+const COMPARED_FIELDS = [
+  'type', 'tokenMint', 'tokenSymbol', 'tokenAmount', 'solAmount', 'pricePerToken',
+  'dex', 'networkFee', 'priorityFee', 'tip',
+] as const;
+
+interface TransactionRow {
+  rowid: number;
+  signature: string;
+  raw_data: string;
+  format: string;
+}
+
+interface WalletRow {
+  user_id: string;
+  last_synced_at: number | null;
+  last_signature: string | null;
+}
+
+function sameTrade(stored: Trade, parsed: Trade): boolean {
+  return COMPARED_FIELDS.every((field) => {
+    const [a, b] = [stored[field], parsed[field]];
+    // Stored floats went through SQLite; compare to 12 significant digits like the parser tests
+    if (typeof a === 'number' && typeof b === 'number') {
+      return Number(a.toPrecision(12)) === Number(b.toPrecision(12));
+    }
+    return (a || null) === (b || null);
+  });
+}
+
+function diffTrades(stored: Trade[], parsed: Trade[], report: ReparseReport): void {
+  const parsedById = new Map(parsed.map((t) => [t.id, t]));
+  const storedIds = new Set(stored.map((t) => t.id));
+  const record = (change: TradeChange) => {
+    if (report.changes.length < REPARSE_MAX_CHANGES) report.changes.push(change);
+  };
+
+  for (const before of stored) {
+    const after = parsedById.get(before.id);
+    if (!after) {
+      report.removed++;
+      record({ id: before.id, signature: before.signature, before, after: null });
+    } else if (!sameTrade(before, after)) {
+      report.changed++;
+      record({ id: before.id, signature: before.signature, before, after });
+    }
+  }
+  for (const after of parsed) {
+    if (!storedIds.has(after.id)) {
+      report.added++;
+      record({ id: after.id, signature: after.signature, before: null, after });
+    }
+  }
+
+  report.tradesBefore += stored.length;
+  report.tradesAfter += parsed.length;
+}
+
+/**
+ * Positions, the realization ledger and every user's cached stats for the wallet.
+ * A wallet no longer in any catalog still gets its positions rebuilt.
+ */
+function recomputeWallet(walletAddress: string): void {
+  const rows = walletQueries.getWalletRows.all(walletAddress) as WalletRow[];
+  if (rows.length === 0) {
+    generatePnLSummary(walletAddress, getTradesForWallet(walletAddress, 'all'), 'all');
+    return;
+  }
+
+  for (const row of rows) {
+    recomputeWalletStats(walletAddress, row.user_id, {
+      lastSyncedAt: row.last_synced_at,
+      lastSignature: row.last_signature,
+    });
+  }
+}
+
+/**
+ * Replay a wallet's stored raw transactions through the current parser and compare
+ * the result with its stored trades. Unless it's a dry run, the trades are replaced
+ * with the new ones (tagged with PARSER_VERSION) in a single db transaction, so a
+ * failure part way leaves the wallet as it was, and positions and stats are
+ * recomputed if anything changed. Trades from transactions the source had no data
+ * for are left alone.
+ */
+export function reparseWallet(walletAddress: string, options: { dryRun?: boolean } = {}): ReparseReport {
+  if (isWalletSyncing(walletAddress)) {
+    throw new Error('Wallet is syncing; re-parse it once the sync finishes');
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const report: ReparseReport = {
+    walletAddress,
+    parserVersion: PARSER_VERSION,
+    transactions: 0,
+    tradesBefore: 0,
+    tradesAfter: 0,
+    added: 0,
+    removed: 0,
+    changed: 0,
+    applied: !dryRun,
+    changes: [],
+  };
+
+  const replay = () => {
+    let lastRowId = 0;
+    for (;;) {
+      const rows = txQueries.getWalletTransactionsPage.all(walletAddress, lastRowId, BATCH_SIZE) as TransactionRow[];
+      if (rows.length === 0) break;
+      lastRowId = rows[rows.length - 1].rowid;
+
+      const signatures = JSON.stringify(rows.map((row) => row.signature));
+      const stored = (tradeQueries.getTradesForSignatures.all(walletAddress, signatures) as any[]).map(mapTradeRow);
+      const parsed = rows.flatMap((row) => parseSourceTransaction(readStoredTransaction(row), walletAddress));
+
+      diffTrades(stored, parsed, report);
+      report.transactions += rows.length;
+
+      if (!dryRun) {
+        tradeQueries.deleteTradesForSignatures.run(walletAddress, signatures);
+        writeTrades(parsed);
+      }
+
+      if (rows.length < BATCH_SIZE) break;
+    }
+  };
+
+  if (dryRun) {
+    replay();
+  } else {
+    db.transaction(replay)();
+  }
+
+  if (!dryRun && report.added + report.removed + report.changed > 0) {
+    recomputeWallet(walletAddress);
+  }
+
+  console.log(
+    `Re-parsed ${walletAddress}${dryRun ? ' (dry run)' : ''}: ${report.transactions} txs, ` +
+    `+${report.added} -${report.removed} ~${report.changed} trades`
+  );
+  return report;
+}
+
+/**
+ * Every wallet with stored raw transactions, catalog or not
+ */
+export function getReparseableWallets(): string[] {
+  return (txQueries.getStoredWalletAddresses.all() as { wallet_address: string }[]).map((row) => row.wallet_address);
+}
@@ -0,0 +1,228 @@
+import type { ScheduledWallet, SchedulerRun, SchedulerState } from '@funeral-vision/shared';
+import { walletQueries } from '../db/index.js';
+import { statusEmitter } from './statusEmitter.js';
+import { syncWalletOnce, isWalletSyncing } from './sync.js';
+import { rerankTimeframes } from './discovery.js';
+import { isCreditBudgetExhausted } from './heliusUsage.js';
+
+// Default user ID (for now, single user mode)
+const DEFAULT_USER_ID = 'default';
+
+// Keep this many finished runs for GET /scheduler
+const MAX_RECENT_RUNS = 25;
+
+// Pause between wallets so scheduled work leaves Helius headroom for interactive requests
+const WALLET_GAP_MS = 1000;
+
+interface ScheduledWalletRow {
+  address: string;
+  name: string | null;
+  emoji: string | null;
+  alerts_on: number | null;
+  last_synced_at: number;
+  sync_interval_sec: number | null;
+}
+
+function readIntervalEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Periodically walks the catalog and runs incremental syncs for wallets that are due.
+ *
+ * Wallets are processed one at a time (the Helius client rate-limits globally),
+ * alerts-on wallets first, then by how overdue they are.
+ */
+class SyncScheduler {
+  private paused = process.env.SCHEDULER_ENABLED !== 'true';
+  private defaultIntervalSec = readIntervalEnv('SCHEDULER_DEFAULT_INTERVAL_SEC', 30 * 60);
+  private alertsIntervalSec = readIntervalEnv('SCHEDULER_ALERTS_INTERVAL_SEC', 5 * 60);
+  private tickIntervalSec = readIntervalEnv('SCHEDULER_TICK_SEC', 30);
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private running: SchedulerState['running'] = null;
+  private lastTickAt: number | null = null;
+  private recentRuns: SchedulerRun[] = [];
+  // Last attempt per wallet, so a failing wallet waits a full interval before retrying
+  private lastAttemptAt = new Map<string, number>();
+  // Whether the last tick found the credit budget spent, to announce it once
+  private budgetPaused = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), this.tickIntervalSec * 1000);
+    console.log(`⏱️ Sync scheduler started (${this.paused ? 'paused' : 'active'}, tick ${this.tickIntervalSec}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  pause(): void {
+    this.paused = true;
+    statusEmitter.info('Scheduler paused');
+  }
+
+  resume(): void {
+    this.paused = false;
+    statusEmitter.info('Scheduler resumed');
+    void this.tick();
+  }
+
+  configure(options: { defaultIntervalSec?: number; alertsIntervalSec?: number }): void {
+    if (options.defaultIntervalSec !== undefined) {
+      if (!(options.defaultIntervalSec > 0)) throw new Error('defaultIntervalSec must be positive');
+      this.defaultIntervalSec = Math.floor(options.defaultIntervalSec);
+    }
+    if (options.alertsIntervalSec !== undefined) {
+      if (!(options.alertsIntervalSec > 0)) throw new Error('alertsIntervalSec must be positive');
+      this.alertsIntervalSec = Math.floor(options.alertsIntervalSec);
+    }
+  }
+
+  /**
+   * All schedulable wallets in priority order
+   */
+  getQueue(userId: string = DEFAULT_USER_ID): ScheduledWallet[] {
+    const now = Math.floor(Date.now() / 1000);
+    const rows = walletQueries.getScheduledWallets.all(userId) as ScheduledWalletRow[];
+
+    const queue = rows.map((row): ScheduledWallet => {
+      const alertsOn = !!row.alerts_on;
+      const intervalSec = row.sync_interval_sec ?? (alertsOn ? this.alertsIntervalSec : this.defaultIntervalSec);
+      const lastRun = Math.max(row.last_synced_at, this.lastAttemptAt.get(row.address) ?? 0);
+      const dueAt = lastRun + intervalSec;
+
+      return {
+        address: row.address,
+        name: row.name || row.address.slice(0, 8),
+        emoji: row.emoji || '👛',
+        alertsOn,
+        lastSyncedAt: row.last_synced_at,
+        intervalSec,
+        dueAt,
+        overdueSec: now - dueAt,
+      };
+    });
+
+    return queue.sort((a, b) => {
+      const aDue = a.overdueSec >= 0;
+      const bDue = b.overdueSec >= 0;
+      if (aDue !== bDue) return aDue ? -1 : 1;
+      if (aDue && a.alertsOn !== b.alertsOn) return a.alertsOn ? -1 : 1;
+      return b.overdueSec - a.overdueSec;
+    });
+  }
+
+  getState(): SchedulerState {
+    return {
+      paused: this.paused,
+      running: this.running,
+      defaultIntervalSec: this.defaultIntervalSec,
+      alertsIntervalSec: this.alertsIntervalSec,
+      tickIntervalSec: this.tickIntervalSec,
+      lastTickAt: this.lastTickAt,
+      budgetExhausted: isCreditBudgetExhausted(),
+      queue: this.getQueue(),
+      recentRuns: [...this.recentRuns],
+    };
+  }
+
+  /**
+   * Sync every due wallet, re-reading the queue after each one so
+   * pauses, new alerts-on wallets and interval changes take effect immediately.
+   * Nothing runs while today's Helius credit budget is spent.
+   */
+  private async tick(): Promise<void> {
+    if (this.paused || this.ticking) return;
+    if (this.checkCreditBudget()) return;
+    this.ticking = true;
+    this.lastTickAt = Math.floor(Date.now() / 1000);
+
+    try {
+      const initiallyDue = this.getQueue().filter(w => w.overdueSec >= 0).length;
+      let processed = 0;
+
+      while (!this.paused && !this.checkCreditBudget()) {
+        const next = this.getQueue().find(w => w.overdueSec >= 0 && !isWalletSyncing(w.address));
+        if (!next) break;
+
+        processed++;
+        const walletDisplay = { address: next.address, name: next.name, emoji: next.emoji };
+        statusEmitter.progress(
+          `Scheduled sync ${processed}/${Math.max(initiallyDue, processed)}`,
+          processed,
+          Math.max(initiallyDue, processed),
+          walletDisplay
+        );
+
+        await this.runWallet(next);
+        await new Promise(resolve => setTimeout(resolve, WALLET_GAP_MS));
+      }
+
+      if (processed > 0) {
+        // Once per pass rather than after every wallet
+        rerankTimeframes();
+        statusEmitter.success(`Scheduled sync pass complete (${processed} wallets)`);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * True while the budget is spent, announcing the pause and the resume once each
+   */
+  private checkCreditBudget(): boolean {
+    const exhausted = isCreditBudgetExhausted();
+    if (exhausted !== this.budgetPaused) {
+      this.budgetPaused = exhausted;
+      if (exhausted) {
+        statusEmitter.warning('Daily Helius credit budget exhausted - scheduled syncs paused until 00:00 UTC');
+      } else {
+        statusEmitter.info('Helius credit budget available again - scheduled syncs resumed');
+      }
+    }
+    return exhausted;
+  }
+
+  private async runWallet(wallet: ScheduledWallet): Promise<void> {
+    const startedAt = Math.floor(Date.now() / 1000);
+    this.running = { address: wallet.address, name: wallet.name, startedAt };
+    this.lastAttemptAt.set(wallet.address, startedAt);
+
+    const run: SchedulerRun = {
+      address: wallet.address,
+      name: wallet.name,
+      startedAt,
+      finishedAt: startedAt,
+      success: false,
+    };
+
+    try {
+      const result = await syncWalletOnce(wallet.address, DEFAULT_USER_ID, false, {
+        name: wallet.name,
+        emoji: wallet.emoji,
+      });
+      run.success = true;
+      run.newTransactions = result.newTransactions;
+      run.trades = result.totalTrades;
+    } catch (err) {
+      run.error = err instanceof Error ? err.message : 'Unknown error';
+      statusEmitter.error(`Scheduled sync failed: ${run.error}`, {
+        address: wallet.address,
+        name: wallet.name,
+        emoji: wallet.emoji,
+      });
+    } finally {
+      run.finishedAt = Math.floor(Date.now() / 1000);
+      this.running = null;
+      this.recentRuns = [run, ...this.recentRuns].slice(0, MAX_RECENT_RUNS);
+    }
+  }
+}
+
+// Singleton instance
+export const syncScheduler = new SyncScheduler();
@@ -0,0 +1,194 @@
+import {
+  type SlippageBucket,
+  type SlippageModel,
+  type SlippageProfile,
+  type SlippageProfileInput,
+  BUILT_IN_SLIPPAGE_PROFILES,
+  SLIPPAGE_MODELS,
+} from '@funeral-vision/shared';
+import { slippageProfileQueries } from '../db/index.js';
+
+interface SlippageProfileRow {
+  id: number;
+  user_id: string;
+  name: string;
+  description: string | null;
+  buckets: string;
+  dex_overrides: string;
+  drift_per_second: number;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * The slippage a simulation runs with: a built-in model or a stored profile
+ */
+export interface ResolvedSlippage {
+  model: SlippageModel | null;
+  profileId: number | null;
+  profile: SlippageProfileInput;
+}
+
+const MAX_BUCKETS = 10;
+
+function mapProfile(row: SlippageProfileRow): SlippageProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    buckets: JSON.parse(row.buckets),
+    dexOverrides: JSON.parse(row.dex_overrides),
+    driftPerSecond: row.drift_per_second,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function validateBuckets(buckets: unknown, label: string): SlippageBucket[] {
+  if (!Array.isArray(buckets) || buckets.length === 0 || buckets.length > MAX_BUCKETS) {
+    throw new Error(`${label} must have 1-${MAX_BUCKETS} buckets`);
+  }
+
+  let previousMax = 0;
+  buckets.forEach((bucket: Partial<SlippageBucket>, i) => {
+    const isLast = i === buckets.length - 1;
+    if (typeof bucket.slippage !== 'number' || bucket.slippage < 0 || bucket.slippage >= 1) {
+      throw new Error(`${label} bucket ${i + 1}: slippage must be a fraction between 0 and 1`);
+    }
+    if (isLast) {
+      if (bucket.maxSol !== null && bucket.maxSol !== undefined) {
+        throw new Error(`${label}: the last bucket must have no maxSol`);
+      }
+      return;
+    }
+    if (typeof bucket.maxSol !== 'number' || bucket.maxSol <= previousMax) {
+      throw new Error(`${label} bucket ${i + 1}: maxSol must be a number above the previous bucket's`);
+    }
+    previousMax = bucket.maxSol;
+  });
+
+  return buckets.map((bucket: SlippageBucket) => ({
+    maxSol: bucket.maxSol ?? null,
+    slippage: bucket.slippage,
+  }));
+}
+
+function validateProfileInput(input: SlippageProfileInput): Required<SlippageProfileInput> {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new Error('name is required');
+  }
+  if (typeof input.driftPerSecond !== 'number' || input.driftPerSecond < 0 || input.driftPerSecond >= 1) {
+    throw new Error('driftPerSecond must be a fraction between 0 and 1');
+  }
+
+  const dexOverrides: Record<string, SlippageBucket[]> = {};
+  for (const [dex, buckets] of Object.entries(input.dexOverrides ?? {})) {
+    dexOverrides[dex] = validateBuckets(buckets, `dexOverrides.${dex}`);
+  }
+
+  return {
+    name,
+    description: input.description?.trim() ?? '',
+    buckets: validateBuckets(input.buckets, 'buckets'),
+    dexOverrides,
+    driftPerSecond: input.driftPerSecond,
+  };
+}
+
+export function getSlippageProfiles(userId: string): SlippageProfile[] {
+  return (slippageProfileQueries.getProfiles.all(userId) as SlippageProfileRow[]).map(mapProfile);
+}
+
+/**
+ * One of the user's profiles; null if it doesn't exist or belongs to someone else
+ */
+export function getSlippageProfile(id: number, userId: string): SlippageProfile | null {
+  const row = slippageProfileQueries.getProfile.get(id) as SlippageProfileRow | undefined;
+  return row && row.user_id === userId ? mapProfile(row) : null;
+}
+
+/**
+ * Whether a profile still exists, whoever owns it (for scores computed with it earlier)
+ */
+export function slippageProfileExists(id: number): boolean {
+  return slippageProfileQueries.getProfile.get(id) !== undefined;
+}
+
+/**
+ * Validate and store a profile. Throws on invalid input.
+ */
+export function createSlippageProfile(userId: string, input: SlippageProfileInput): number {
+  const profile = validateProfileInput(input);
+  const now = Math.floor(Date.now() / 1000);
+
+  const result = slippageProfileQueries.insertProfile.run({
+    user_id: userId,
+    name: profile.name,
+    description: profile.description || null,
+    buckets: JSON.stringify(profile.buckets),
+    dex_overrides: JSON.stringify(profile.dexOverrides),
+    drift_per_second: profile.driftPerSecond,
+    created_at: now,
+    updated_at: now,
+  });
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Replace a profile's definition. Throws on invalid input; false if it does not exist.
+ */
+export function updateSlippageProfile(id: number, userId: string, input: SlippageProfileInput): boolean {
+  const profile = validateProfileInput(input);
+
+  const result = slippageProfileQueries.updateProfile.run({
+    id,
+    user_id: userId,
+    name: profile.name,
+    description: profile.description || null,
+    buckets: JSON.stringify(profile.buckets),
+    dex_overrides: JSON.stringify(profile.dexOverrides),
+    drift_per_second: profile.driftPerSecond,
+    updated_at: Math.floor(Date.now() / 1000),
+  });
+  return result.changes > 0;
+}
+
+export function deleteSlippageProfile(id: number, userId: string): boolean {
+  return slippageProfileQueries.deleteProfile.run(id, userId).changes > 0;
+}
+
+/**
+ * Resolve a built-in model name or a stored profile id. Throws for unknown ones.
+ * Profile ids aren't checked against a user here; request handlers check ownership
+ * with getSlippageProfile before a profile is used or stored.
+ */
+export function resolveSlippage(slippage: SlippageModel | number): ResolvedSlippage {
+  if (typeof slippage === 'number') {
+    const row = slippageProfileQueries.getProfile.get(slippage) as SlippageProfileRow | undefined;
+    const profile = row ? mapProfile(row) : null;
+    if (!profile) {
+      throw new Error(`Slippage profile ${slippage} not found`);
+    }
+    return { model: null, profileId: profile.id, profile };
+  }
+
+  if (!SLIPPAGE_MODELS.includes(slippage)) {
+    throw new Error(`Unknown slippage model: ${slippage}`);
+  }
+  return { model: slippage, profileId: null, profile: BUILT_IN_SLIPPAGE_PROFILES[slippage] };
+}
+
+/**
+ * Slippage for a trade of `solAmount` on `dex`: the DEX's override buckets
+ * when the profile has them (matched case-insensitively), otherwise its default buckets
+ */
+export function getProfileSlippage(profile: SlippageProfileInput, solAmount: number, dex?: string | null): number {
+  const dexKey = dex
+    ? Object.keys(profile.dexOverrides ?? {}).find(key => key.toLowerCase() === dex.toLowerCase())
+    : undefined;
+  const buckets = dexKey ? profile.dexOverrides![dexKey] : profile.buckets;
+
+  const bucket = buckets.find(b => b.maxSol === null || solAmount < b.maxSol) ?? buckets[buckets.length - 1];
+  return bucket.slippage;
+}
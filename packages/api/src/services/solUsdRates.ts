@@ -0,0 +1,153 @@
+import fs from 'fs';
+import axios from 'axios';
+import { priceQueries } from '../db/index.js';
+
+const DAY_SECONDS = 86400;
+const COINGECKO_RANGE_URL = 'https://api.coingecko.com/api/v3/coins/solana/market_chart/range';
+const REQUEST_TIMEOUT_MS = 15000;
+// The free API rejects ranges starting more than a year back; a day's margin for clock and timezone edges
+const COINGECKO_HISTORY_DAYS = 364;
+
+/**
+ * External source of daily SOL/USD rates, keyed by UTC day (YYYY-MM-DD)
+ */
+export interface SolUsdProvider {
+  name: string;
+  historyDays?: number; // How many days back the provider serves, when limited
+  getDailyRates(from: number, to: number): Promise<Map<string, number>>;
+}
+
+export function utcDay(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Local stub - serves rates from a JSON file ({ "2024-01-31": 101.5, ... })
+ */
+function createStubProvider(): SolUsdProvider {
+  const file = process.env.SOL_USD_STUB_FILE;
+
+  return {
+    name: 'stub',
+    async getDailyRates(from, to) {
+      const rates = new Map<string, number>();
+      if (!file || !fs.existsSync(file)) return rates;
+
+      const table = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, number>;
+      const [fromDay, toDay] = [utcDay(from), utcDay(to)];
+      for (const [day, usd] of Object.entries(table)) {
+        if (day >= fromDay && day <= toDay && typeof usd === 'number' && usd > 0) {
+          rates.set(day, usd);
+        }
+      }
+      return rates;
+    },
+  };
+}
+
+/**
+ * CoinGecko's public market chart. Points within a day are averaged; the free API
+ * only serves about the last year.
+ */
+function createCoinGeckoProvider(): SolUsdProvider {
+  return {
+    name: 'coingecko',
+    historyDays: COINGECKO_HISTORY_DAYS,
+    async getDailyRates(from, to) {
+      const response = await axios.get<{ prices: [number, number][] }>(COINGECKO_RANGE_URL, {
+        params: { vs_currency: 'usd', from, to },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+
+      const { prices } = response.data;
+      const sums = new Map<string, { total: number; count: number }>();
+      for (const [ms, usd] of prices) {
+        const day = utcDay(Math.floor(ms / 1000));
+        const sum = sums.get(day) || { total: 0, count: 0 };
+        sum.total += usd;
+        sum.count++;
+        sums.set(day, sum);
+      }
+      return new Map([...sums].map(([day, { total, count }]) => [day, total / count]));
+    },
+  };
+}
+
+const PROVIDER_FACTORIES: Record<string, () => SolUsdProvider> = {
+  stub: createStubProvider,
+  coingecko: createCoinGeckoProvider,
+};
+
+let provider: SolUsdProvider | null | undefined;
+
+/**
+ * Provider selected by SOL_USD_PROVIDER, or null when USD values are unavailable
+ */
+export function getSolUsdProvider(): SolUsdProvider | null {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.SOL_USD_PROVIDER;
+  if (!name) {
+    provider = null;
+  } else if (PROVIDER_FACTORIES[name]) {
+    provider = PROVIDER_FACTORIES[name]();
+  } else {
+    console.warn(`Unknown SOL_USD_PROVIDER "${name}", USD values are unavailable`);
+    provider = null;
+  }
+  return provider;
+}
+
+/**
+ * Daily SOL/USD rates covering [from, to]. Past days are cached; today's rate is
+ * fetched each time because it is still moving. Days the provider has no rate
+ * for, including days older than it serves, are left out.
+ */
+export async function loadSolUsdRates(from: number, to: number): Promise<Map<string, number>> {
+  const provider = getSolUsdProvider();
+  if (!provider) {
+    throw new Error('USD values need a SOL/USD rate provider (set SOL_USD_PROVIDER)');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const today = utcDay(now);
+  const end = Math.min(to, now);
+  const [fromDay, toDay] = [utcDay(from), utcDay(end)];
+
+  const rows = priceQueries.getSolUsdRates.all(fromDay, toDay) as { day: string; usd: number }[];
+  const rates = new Map(rows.map(row => [row.day, row.usd]));
+
+  // One request spanning the first to the last uncached day
+  let missingFrom: number | undefined;
+  let missingTo: number | undefined;
+  for (let t = Math.floor(from / DAY_SECONDS) * DAY_SECONDS; t <= end; t += DAY_SECONDS) {
+    const day = utcDay(t);
+    if (day === today || !rates.has(day)) {
+      missingFrom ??= t;
+      missingTo = t;
+    }
+  }
+  if (missingFrom === undefined || missingTo === undefined) return rates;
+
+  // Asking for more history than the provider serves fails the whole request
+  if (provider.historyDays !== undefined) {
+    const oldest = Math.floor(now / DAY_SECONDS - provider.historyDays) * DAY_SECONDS;
+    missingFrom = Math.max(missingFrom, oldest);
+    if (missingFrom > missingTo) return rates;
+  }
+
+  try {
+    const fetched = await provider.getDailyRates(missingFrom, Math.min(missingTo + DAY_SECONDS - 1, now));
+    for (const [day, usd] of fetched) {
+      if (day < fromDay || day > toDay) continue;
+      rates.set(day, usd);
+      if (day !== today) {
+        priceQueries.upsertSolUsdRate.run({ day, usd, source: provider.name, recorded_at: now });
+      }
+    }
+  } catch (error) {
+    console.warn(`SOL/USD rates from ${provider.name} failed:`, error instanceof Error ? error.message : error);
+  }
+
+  return rates;
+}
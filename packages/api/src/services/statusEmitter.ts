@@ -2,7 +2,7 @@ import { EventEmitter } from 'events';
 
 export interface StatusEvent {
   id: string;
-  type: 'info' | 'progress' | 'success' | 'error' | 'warning';
+  type: 'info' | 'progress' | 'success' | 'error' | 'warning' | 'alert';
   message: string;
   timestamp: number;
   wallet?: {
@@ -60,6 +60,10 @@ class StatusEmitter extends EventEmitter {
   warning(message: string, wallet?: StatusEvent['wallet'], details?: Record<string, unknown>) {
     this.emit('status', { type: 'warning', message, wallet, details });
   }
+
+  alert(message: string, wallet?: StatusEvent['wallet'], details?: Record<string, unknown>) {
+    this.emit('status', { type: 'alert', message, wallet, details });
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,411 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import type { PnLSummary, Trade } from '@funeral-vision/shared';
+import { PARSER_VERSION } from './parser.js';
+import {
+  type SourceTransaction,
+  getAllSignaturesForAddress,
+  getTransactionSource,
+  parseSourceTransactions,
+  readStoredTransaction,
+} from './transactionSources.js';
+import { generatePnLSummary, getTradesForWallet } from './pnl.js';
+import { walletQueries, txQueries, tradeQueries, db } from '../db/index.js';
+import { statusEmitter, type StatusEvent } from './statusEmitter.js';
+import { buildWalletProfile } from './profile.js';
+import { indexTokenLaunches } from './launches.js';
+import { evaluateAlertsForSync } from './alerts.js';
+import { refreshTimeframeStats } from './discovery.js';
+import { advancePortfoliosFollowing } from './paperTrading.js';
+import { recordTradePrices } from './pricing.js';
+import { refreshFarmerReport, refreshFollowedFarmerReports } from './farmerDetector.js';
+
+// Default user ID (for now, single user mode)
+const DEFAULT_USER_ID = 'default';
+
+// First/forced syncs fetch this many of the newest signatures; older history is left to backfill
+export const INITIAL_SYNC_SIGNATURES = 5000;
+
+export interface SyncResult {
+  newTransactions: number;
+  totalTrades: number;
+  pnlSummary?: PnLSummary;
+}
+
+// Cache for in-progress syncs
+const syncInProgress = new Map<string, Promise<SyncResult>>();
+
+export function isWalletSyncing(walletAddress: string): boolean {
+  return syncInProgress.has(walletAddress);
+}
+
+/**
+ * Run a sync for a wallet, joining one that is already in flight unless forced.
+ * Every caller (routes, scheduler) goes through here so a wallet never syncs twice at once.
+ */
+export function syncWalletOnce(
+  walletAddress: string,
+  userId: string = DEFAULT_USER_ID,
+  forceRefresh = false,
+  walletInfo?: { name: string; emoji: string }
+): Promise<SyncResult> {
+  const existing = syncInProgress.get(walletAddress);
+  if (existing && !forceRefresh) return existing;
+
+  const syncPromise = syncWalletTransactions(walletAddress, userId, forceRefresh, walletInfo)
+    .finally(() => {
+      if (syncInProgress.get(walletAddress) === syncPromise) {
+        syncInProgress.delete(walletAddress);
+      }
+    });
+  syncInProgress.set(walletAddress, syncPromise);
+  return syncPromise;
+}
+
+/**
+ * Sync wallet transactions from the configured transaction source
+ */
+export async function syncWalletTransactions(
+  walletAddress: string,
+  userId: string = DEFAULT_USER_ID,
+  forceRefresh = false,
+  walletInfo?: { name: string; emoji: string }
+): Promise<SyncResult> {
+  const source = getTransactionSource();
+
+  // Build wallet display info
+  const wallet = walletInfo || {
+    name: walletAddress.slice(0, 8),
+    emoji: '👛'
+  };
+  const walletDisplay = { address: walletAddress, name: wallet.name, emoji: wallet.emoji };
+
+  // Get last synced signature for incremental sync
+  let lastSignature: string | undefined;
+  if (!forceRefresh) {
+    const existingWallet = walletQueries.getWallet.get(walletAddress, userId) as any;
+    lastSignature = existingWallet?.last_signature;
+    // Use existing wallet info if not provided
+    if (!walletInfo && existingWallet) {
+      walletDisplay.name = existingWallet.name || walletDisplay.name;
+      walletDisplay.emoji = existingWallet.emoji || walletDisplay.emoji;
+    }
+  }
+
+  statusEmitter.info(
+    lastSignature ? `Starting incremental sync` : `Starting full sync`,
+    walletDisplay
+  );
+
+  console.log(
+    `Syncing wallet ${walletAddress}${lastSignature ? ` from ${lastSignature}` : ' (full sync)'}`
+  );
+
+  // Incremental syncs walk all the way back to the last stored signature so no gap is left;
+  // first/forced syncs stop at INITIAL_SYNC_SIGNATURES and record a cursor for backfill
+  const signatures = await getAllSignaturesForAddress(source, walletAddress, {
+    until: lastSignature,
+    maxSignatures: lastSignature ? Number.POSITIVE_INFINITY : INITIAL_SYNC_SIGNATURES,
+    onProgress: (count) => {
+      statusEmitter.progress(`Fetching signatures`, count, count + 100, walletDisplay);
+      console.log(`Fetched ${count} signatures...`);
+    },
+  });
+
+  if (signatures.length === 0) {
+    if (lastSignature) {
+      walletQueries.markSynced.run(Math.floor(Date.now() / 1000), walletAddress, userId);
+      advancePaperPortfolios(walletAddress, walletDisplay);
+    }
+    statusEmitter.success(`No new transactions found`, walletDisplay);
+    console.log('No new transactions found');
+    return { newTransactions: 0, totalTrades: 0 };
+  }
+
+  statusEmitter.info(`Found ${signatures.length} transactions to parse`, walletDisplay);
+  console.log(`Found ${signatures.length} new transactions, parsing...`);
+
+  // Parse transactions in batches, reusing any another wallet's sync already stored
+  const { transactions: parsedTransactions, reused } = await loadTransactions(
+    signatures.map((s) => s.signature),
+    {
+      walletAddress,
+      onProgress: (parsed, total) => {
+        statusEmitter.progress(`Parsing transactions`, parsed, total, walletDisplay);
+        console.log(`Parsed ${parsed}/${total} transactions...`);
+      },
+    }
+  );
+  if (reused > 0) {
+    console.log(`Reused ${reused} transactions already stored for other wallets`);
+  }
+
+  // Extract trades
+  const allTrades = parseSourceTransactions(parsedTransactions, walletAddress);
+  statusEmitter.info(`Extracted ${allTrades.length} trades`, walletDisplay);
+  console.log(`Extracted ${allTrades.length} trades`);
+
+  // Save to database in a transaction
+  const insertTx = db.transaction(() => {
+    // First, ensure wallet record exists (required for foreign keys)
+    const existingWallet = walletQueries.getWallet.get(walletAddress, userId) as any;
+    // Get the earliest timestamp from new transactions for first_synced_at
+    const earliestNewTimestamp = signatures.reduce((min, s) => {
+      const ts = s.blockTime || 0;
+      return ts > 0 && (min === 0 || ts < min) ? ts : min;
+    }, 0);
+
+    walletQueries.upsertWallet.run({
+      address: walletAddress,
+      user_id: userId,
+      name: existingWallet?.name ?? null,
+      emoji: existingWallet?.emoji ?? null,
+      alerts_on: existingWallet?.alerts_on ?? 0,
+      last_synced_at: Math.floor(Date.now() / 1000),
+      first_synced_at: earliestNewTimestamp || null,
+      last_signature: signatures[0]?.signature ?? lastSignature ?? null,
+      total_transactions: (existingWallet?.total_transactions ?? 0) + signatures.length,
+      total_realized_pnl: null,
+      win_rate: null,
+      total_sol_volume: null,
+      total_trades: null,
+      quick_flip_rate: null,
+      exited_token_rate: null,
+      created_at: existingWallet?.created_at ?? Math.floor(Date.now() / 1000),
+    });
+
+    writeTransactionsAndTrades(walletAddress, signatures, parsedTransactions, allTrades);
+  });
+
+  insertTx();
+  statusEmitter.info(`Saved ${allTrades.length} trades to database`, walletDisplay);
+
+  indexLaunchesForSignatures(signatures, parsedTransactions);
+
+  // A first/forced sync that stopped short of the cap reached the wallet's first transaction
+  const hitCap = !lastSignature && signatures.length >= INITIAL_SYNC_SIGNATURES;
+  recordHistoryCursor(walletAddress, userId, signatures, !lastSignature && !hitCap);
+  if (hitCap) {
+    statusEmitter.warning(
+      `History capped at ${INITIAL_SYNC_SIGNATURES} signatures - run a backfill for older transactions`,
+      walletDisplay
+    );
+  }
+
+  // Snapshot pre-sync stats so alert rules can detect threshold crossings
+  const walletBeforeStats = walletQueries.getWallet.get(walletAddress, userId) as any;
+
+  const { pnlSummary, allTradesForWallet } = recomputeWalletStats(walletAddress, userId, {
+    lastSyncedAt: Math.floor(Date.now() / 1000),
+    lastSignature: signatures[0]?.signature ?? lastSignature ?? null,
+  });
+
+  // Alerts only fire for incremental syncs - a first or forced sync would replay the whole history
+  if (walletBeforeStats?.alerts_on && lastSignature && !forceRefresh) {
+    const newTradeIds = new Set(allTrades.map((t) => t.id));
+    evaluateAlertsForSync({
+      walletAddress,
+      userId,
+      wallet: { name: walletDisplay.name, emoji: walletDisplay.emoji },
+      newTrades: allTrades,
+      priorTrades: allTradesForWallet.filter((t) => !newTradeIds.has(t.id)),
+      positions: pnlSummary.positions,
+      previousRealizedPnL: walletBeforeStats.total_realized_pnl ?? null,
+      currentRealizedPnL: pnlSummary.totalRealizedPnL,
+    });
+  }
+
+  advancePaperPortfolios(walletAddress, walletDisplay);
+
+  const pnlEmoji = pnlSummary.totalRealizedPnL >= 0 ? '📈' : '📉';
+  statusEmitter.success(
+    `Complete! ${pnlEmoji} ${pnlSummary.totalRealizedPnL.toFixed(2)} SOL realized PnL`,
+    walletDisplay,
+    { totalTrades: allTrades.length, pnl: pnlSummary.totalRealizedPnL }
+  );
+
+  return { newTransactions: signatures.length, totalTrades: allTrades.length, pnlSummary };
+}
+
+/**
+ * Paper portfolios following this wallet copy whatever it traded since their last update
+ */
+function advancePaperPortfolios(walletAddress: string, walletDisplay: StatusEvent['wallet']): void {
+  for (const portfolio of advancePortfoliosFollowing(walletAddress)) {
+    statusEmitter.info(`Paper portfolio "${portfolio.name}": ${portfolio.fills} new fills`, walletDisplay);
+  }
+}
+
+/**
+ * Transactions for the signatures. Ones already stored (by any wallet) come from the
+ * database, including those the source had no data for; only the rest are fetched.
+ */
+export async function loadTransactions(
+  signatures: string[],
+  options: { onProgress?: (parsed: number, total: number) => void; walletAddress?: string } = {}
+): Promise<{ transactions: SourceTransaction[]; reused: number }> {
+  const stored = txQueries.getStoredTransactions.all(JSON.stringify(signatures)) as {
+    signature: string;
+    raw_data: string;
+    parsed: number;
+    format: string;
+  }[];
+  const storedSignatures = new Set(stored.map((row) => row.signature));
+  const missing = signatures.filter((signature) => !storedSignatures.has(signature));
+
+  const fetched = missing.length > 0
+    ? await getTransactionSource().getTransactions(missing, options)
+    : [];
+  const transactions = [
+    ...stored.filter((row) => row.parsed).map(readStoredTransaction),
+    ...fetched,
+  ];
+
+  return { transactions, reused: stored.length };
+}
+
+/**
+ * Write raw transactions, the wallet's participation in them and extracted trades.
+ * Transactions another wallet already stored are kept as they are.
+ * Callers wrap this in a db transaction.
+ */
+export function writeTransactionsAndTrades(
+  walletAddress: string,
+  signatures: ConfirmedSignatureInfo[],
+  parsedTransactions: SourceTransaction[],
+  trades: Trade[]
+): void {
+  const parsedBySignature = new Map(parsedTransactions.map((p) => [p.signature, p]));
+
+  // Save raw transactions
+  for (const sig of signatures) {
+    const parsed = parsedBySignature.get(sig.signature);
+    txQueries.insertTransaction.run({
+      signature: sig.signature,
+      timestamp: sig.blockTime || 0,
+      block_slot: sig.slot,
+      raw_data: JSON.stringify(parsed?.tx || {}),
+      parsed: parsed ? 1 : 0,
+      // Rows without data are never read back, so their format is moot
+      format: parsed?.format ?? 'enhanced',
+    });
+    txQueries.insertWalletTransaction.run({
+      wallet_address: walletAddress,
+      signature: sig.signature,
+      timestamp: sig.blockTime || 0,
+    });
+  }
+
+  writeTrades(trades);
+}
+
+/**
+ * Insert or replace trades, tagged with the current parser version, and record
+ * their latest prices. Callers wrap this in a db transaction.
+ */
+export function writeTrades(trades: Trade[]): void {
+  for (const trade of trades) {
+    tradeQueries.insertTrade.run({
+      id: trade.id,
+      wallet_address: trade.walletAddress,
+      signature: trade.signature,
+      timestamp: trade.timestamp,
+      type: trade.type,
+      token_mint: trade.tokenMint,
+      token_symbol: trade.tokenSymbol || null,
+      token_amount: trade.tokenAmount,
+      sol_amount: trade.solAmount,
+      price_per_token: trade.pricePerToken,
+      dex: trade.dex || null,
+      network_fee: trade.networkFee,
+      priority_fee: trade.priorityFee,
+      tip: trade.tip,
+      parser_version: PARSER_VERSION,
+    });
+  }
+  recordTradePrices(trades);
+}
+
+/**
+ * Record mint/pool/first-seen events so entry latency has a reference point.
+ * Launch detection reads Helius enhanced data, so RPC transactions are skipped.
+ */
+export function indexLaunchesForSignatures(
+  signatures: ConfirmedSignatureInfo[],
+  parsedTransactions: SourceTransaction[]
+): void {
+  const slotBySignature = new Map(signatures.map((s) => [s.signature, s.slot]));
+  indexTokenLaunches(
+    parsedTransactions.flatMap((transaction) =>
+      transaction.format === 'enhanced'
+        ? [{ tx: transaction.tx, slot: slotBySignature.get(transaction.signature) ?? null }]
+        : []
+    )
+  );
+}
+
+/**
+ * Move the wallet's backfill cursor to the oldest of the given signatures (newest-first order)
+ */
+export function recordHistoryCursor(
+  walletAddress: string,
+  userId: string,
+  signatures: ConfirmedSignatureInfo[],
+  reachedGenesis: boolean
+): void {
+  const oldest = [...signatures].reverse().find((s) => s.blockTime);
+  if (!oldest && !reachedGenesis) return;
+
+  walletQueries.updateHistoryCursor.run({
+    address: walletAddress,
+    user_id: userId,
+    oldest_signature: oldest?.signature ?? null,
+    oldest_timestamp: oldest?.blockTime ?? null,
+    history_complete: reachedGenesis ? 1 : 0,
+  });
+}
+
+/**
+ * Recalculate cached PnL and behavior stats on the wallet row from stored trades,
+ * then refresh the wallet's timeframe ranking stats and farmer reports. Ranks
+ * aren't touched: callers run rerankTimeframes once their wallets are done.
+ */
+export function recomputeWalletStats(
+  walletAddress: string,
+  userId: string,
+  sync: { lastSyncedAt: number | null; lastSignature: string | null }
+): { pnlSummary: PnLSummary; allTradesForWallet: Trade[] } {
+  // Calculate and update PnL stats
+  const allTradesForWallet = getTradesForWallet(walletAddress, 'all');
+  const pnlSummary = generatePnLSummary(walletAddress, allTradesForWallet, 'all');
+
+  // Calculate behavior profile stats
+  const profile = buildWalletProfile(walletAddress);
+
+  // Get earliest trade timestamp for first_synced_at
+  const earliestTradeTimestamp = allTradesForWallet.length > 0
+    ? Math.min(...allTradesForWallet.map(t => t.timestamp))
+    : null;
+
+  walletQueries.updateWalletStats.run({
+    address: walletAddress,
+    user_id: userId,
+    last_synced_at: sync.lastSyncedAt,
+    first_synced_at: earliestTradeTimestamp,
+    last_signature: sync.lastSignature,
+    total_transactions: (walletQueries.getWallet.get(walletAddress, userId) as any)?.total_transactions ?? 0,
+    total_realized_pnl: pnlSummary.totalRealizedPnL ?? null,
+    net_realized_pnl: pnlSummary.netRealizedPnL ?? null,
+    total_fees: pnlSummary.totalFees ?? null,
+    win_rate: pnlSummary.winRate ?? null,
+    total_sol_volume: pnlSummary.totalSolVolume ?? null,
+    total_trades: pnlSummary.totalTrades ?? null,
+    quick_flip_rate: profile.earlyExitRate ?? null,
+    exited_token_rate: profile.roundTripRate ?? null,
+  });
+
+  refreshTimeframeStats(walletAddress, allTradesForWallet);
+  refreshFarmerReport(walletAddress);
+  refreshFollowedFarmerReports(walletAddress);
+
+  return { pnlSummary, allTradesForWallet };
+}
@@ -0,0 +1,209 @@
+import type {
+  TokenActivity,
+  TokenEntry,
+  TokenFlowBucket,
+  TokenHolder,
+  TokenHolders,
+  TokenInfo,
+  TokenLaunchInfo,
+  TokenTrade,
+  Trade,
+} from '@funeral-vision/shared';
+import { tokenLaunchQueries, tokenQueries, tradeQueries, walletQueries } from '../db/index.js';
+import { getPositionsForMint, mapTradeRow } from './pnl.js';
+import { isOpenPosition } from './pricing.js';
+
+const DEFAULT_TRADE_LIMIT = 100;
+const MAX_TRADE_LIMIT = 500;
+
+// Smallest bucket that keeps the flow series within MAX_FLOW_BUCKETS
+const FLOW_BUCKET_SECONDS = [60, 300, 900, 3600, 4 * 3600, 86400, 7 * 86400];
+const MAX_FLOW_BUCKETS = 120;
+
+interface WalletRow {
+  address: string;
+  name: string | null;
+  emoji: string | null;
+}
+
+interface TokenMetadataRow {
+  symbol: string | null;
+  name: string | null;
+  image: string | null;
+}
+
+interface LaunchRow {
+  first_signature: string | null;
+  first_timestamp: number | null;
+  first_slot: number | null;
+  source: TokenLaunchInfo['source'];
+}
+
+function loadCatalog(userId: string): Map<string, WalletRow> {
+  const rows = walletQueries.getAllWallets.all(userId) as WalletRow[];
+  return new Map(rows.map(row => [row.address, row]));
+}
+
+function getTokenInfo(mint: string, tradeSymbol?: string): TokenInfo {
+  const metadata = tokenQueries.getToken.get(mint) as TokenMetadataRow | undefined;
+  const launch = tokenLaunchQueries.getLaunch.get(mint) as LaunchRow | undefined;
+
+  return {
+    mint,
+    symbol: metadata?.symbol ?? tradeSymbol,
+    name: metadata?.name ?? undefined,
+    image: metadata?.image ?? undefined,
+    launch: launch
+      ? {
+          firstSignature: launch.first_signature,
+          firstTimestamp: launch.first_timestamp,
+          firstSlot: launch.first_slot,
+          source: launch.source,
+        }
+      : null,
+  };
+}
+
+/**
+ * Catalog wallets' stored trades of a mint, oldest first
+ */
+function getCatalogTrades(mint: string, catalog: Map<string, WalletRow>): Trade[] {
+  const rows = tradeQueries.getTradesByMint.all(mint) as any[];
+
+  return rows
+    .filter(row => catalog.has(row.wallet_address))
+    .map(mapTradeRow);
+}
+
+/**
+ * First buy per wallet, earliest first
+ */
+function getEntries(trades: Trade[], catalog: Map<string, WalletRow>, launch: TokenLaunchInfo | null): TokenEntry[] {
+  const firstBuys = new Map<string, Trade>();
+  for (const trade of trades) {
+    if (trade.type === 'buy' && !firstBuys.has(trade.walletAddress)) {
+      firstBuys.set(trade.walletAddress, trade);
+    }
+  }
+
+  return [...firstBuys.values()].map(trade => {
+    const wallet = catalog.get(trade.walletAddress);
+    return {
+      walletAddress: trade.walletAddress,
+      name: wallet?.name ?? undefined,
+      emoji: wallet?.emoji ?? undefined,
+      signature: trade.signature,
+      timestamp: trade.timestamp,
+      solAmount: trade.solAmount,
+      secondsAfterLaunch: launch?.firstTimestamp != null ? trade.timestamp - launch.firstTimestamp : null,
+    };
+  });
+}
+
+/**
+ * Buy and sell SOL per time bucket, contiguous from the first trade to the last
+ */
+function getFlow(trades: Trade[]): { bucketSeconds: number; flow: TokenFlowBucket[] } {
+  if (trades.length === 0) return { bucketSeconds: FLOW_BUCKET_SECONDS[0], flow: [] };
+
+  const first = trades[0].timestamp;
+  const span = trades[trades.length - 1].timestamp - first;
+  const bucketSeconds = FLOW_BUCKET_SECONDS.find(size => span / size < MAX_FLOW_BUCKETS)
+    ?? FLOW_BUCKET_SECONDS[FLOW_BUCKET_SECONDS.length - 1];
+  const start = Math.floor(first / bucketSeconds) * bucketSeconds;
+
+  const buckets = new Map<number, TokenFlowBucket & { buyerSet: Set<string>; sellerSet: Set<string> }>();
+  for (let t = start; t <= trades[trades.length - 1].timestamp; t += bucketSeconds) {
+    buckets.set(t, { timestamp: t, buySol: 0, sellSol: 0, netSol: 0, buyers: 0, sellers: 0, buyerSet: new Set(), sellerSet: new Set() });
+  }
+
+  for (const trade of trades) {
+    const bucket = buckets.get(start + Math.floor((trade.timestamp - start) / bucketSeconds) * bucketSeconds)!;
+    if (trade.type === 'buy') {
+      bucket.buySol += trade.solAmount;
+      bucket.buyerSet.add(trade.walletAddress);
+    } else {
+      bucket.sellSol += trade.solAmount;
+      bucket.sellerSet.add(trade.walletAddress);
+    }
+  }
+
+  const flow = [...buckets.values()].map(({ buyerSet, sellerSet, ...bucket }) => ({
+    ...bucket,
+    netSol: bucket.buySol - bucket.sellSol,
+    buyers: buyerSet.size,
+    sellers: sellerSet.size,
+  }));
+  return { bucketSeconds, flow };
+}
+
+/**
+ * Everything catalog wallets did in a mint. Null when none of them traded it.
+ */
+export function getTokenActivity(mint: string, userId: string, tradeLimit = DEFAULT_TRADE_LIMIT): TokenActivity | null {
+  const catalog = loadCatalog(userId);
+  const trades = getCatalogTrades(mint, catalog);
+  if (trades.length === 0) return null;
+
+  const token = getTokenInfo(mint, trades.find(t => t.tokenSymbol)?.tokenSymbol);
+  const { bucketSeconds, flow } = getFlow(trades);
+  const limit = Number.isFinite(tradeLimit)
+    ? Math.min(Math.max(Math.floor(tradeLimit), 1), MAX_TRADE_LIMIT)
+    : DEFAULT_TRADE_LIMIT;
+
+  const recentTrades: TokenTrade[] = trades.slice(-limit).reverse().map(trade => {
+    const wallet = catalog.get(trade.walletAddress);
+    return { ...trade, walletName: wallet?.name ?? undefined, walletEmoji: wallet?.emoji ?? undefined };
+  });
+
+  return {
+    token,
+    wallets: new Set(trades.map(t => t.walletAddress)).size,
+    totalTrades: trades.length,
+    buySol: trades.filter(t => t.type === 'buy').reduce((sum, t) => sum + t.solAmount, 0),
+    sellSol: trades.filter(t => t.type === 'sell').reduce((sum, t) => sum + t.solAmount, 0),
+    entries: getEntries(trades, catalog, token.launch),
+    bucketSeconds,
+    flow,
+    recentTrades,
+  };
+}
+
+/**
+ * Each catalog wallet's position in a mint. Null when none of them traded it.
+ */
+export function getTokenHolders(mint: string, userId: string): TokenHolders | null {
+  const catalog = loadCatalog(userId);
+  const positions = getPositionsForMint(mint).filter(p => catalog.has(p.walletAddress));
+  if (positions.length === 0) return null;
+
+  const entries = getEntries(getCatalogTrades(mint, catalog), catalog, null);
+  const entryRanks = new Map(entries.map((entry, i) => [entry.walletAddress, i + 1]));
+
+  const holders: TokenHolder[] = positions.map(position => {
+    const wallet = catalog.get(position.walletAddress);
+    return {
+      walletAddress: position.walletAddress,
+      name: wallet?.name ?? undefined,
+      emoji: wallet?.emoji ?? undefined,
+      entryRank: entryRanks.get(position.walletAddress) ?? null,
+      isOpen: isOpenPosition(position),
+      position,
+    };
+  });
+  holders.sort((a, b) =>
+    Number(b.isOpen) - Number(a.isOpen) ||
+    (b.position.markValue ?? 0) - (a.position.markValue ?? 0) ||
+    b.position.realizedPnL - a.position.realizedPnL
+  );
+
+  const open = holders.filter(h => h.isOpen);
+  return {
+    token: getTokenInfo(mint, positions.find(p => p.tokenSymbol)?.tokenSymbol),
+    holders,
+    openHolders: open.length,
+    totalRealizedPnL: positions.reduce((sum, p) => sum + p.realizedPnL, 0),
+    totalUnrealizedPnL: open.reduce((sum, h) => sum + (h.position.unrealizedPnL ?? 0), 0),
+    remainingTokens: open.reduce((sum, h) => sum + h.position.remainingTokens, 0),
+  };
+}
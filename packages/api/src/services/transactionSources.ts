@@ -0,0 +1,330 @@
+import fs from 'fs';
+import {
+  Connection,
+  PublicKey,
+  type ConfirmedSignatureInfo,
+  type ParsedTransactionWithMeta,
+} from '@solana/web3.js';
+import type { HeliusEnhancedTransaction, Trade } from '@funeral-vision/shared';
+import { getHeliusService } from './helius.js';
+import { parseEnhancedTransaction, parseRawTransaction } from './parser.js';
+
+// getSignaturesForAddress returns at most this many per page
+const SIGNATURE_PAGE_SIZE = 1000;
+// Transactions per getParsedTransactions batch request
+const RPC_TRANSACTION_BATCH_SIZE = 20;
+const DEFAULT_RPC_REQUEST_INTERVAL_MS = 250;
+
+/**
+ * How a stored transaction's raw data is shaped: a Helius enhanced transaction,
+ * or a plain `getParsedTransaction` result
+ */
+export type TransactionFormat = 'enhanced' | 'rpc';
+
+export type SourceTransaction =
+  | { format: 'enhanced'; signature: string; tx: HeliusEnhancedTransaction }
+  | { format: 'rpc'; signature: string; tx: ParsedTransactionWithMeta };
+
+export interface SignaturePageOptions {
+  limit?: number;
+  before?: string; // Start after this signature (older history)
+  until?: string; // Stop before this signature
+}
+
+/**
+ * Where wallet history is fetched from: signature lists (newest first) and the
+ * transactions behind them
+ */
+export interface TransactionSource {
+  name: string;
+  getSignaturesForAddress(address: string, options?: SignaturePageOptions): Promise<ConfirmedSignatureInfo[]>;
+  /** Transactions the source has data for; the rest are left out. Usage is charged to walletAddress if metered */
+  getTransactions(
+    signatures: string[],
+    options?: { onProgress?: (fetched: number, total: number) => void; walletAddress?: string }
+  ): Promise<SourceTransaction[]>;
+}
+
+/**
+ * Helius RPC for signatures and the Enhanced Transactions API for transactions
+ */
+function createHeliusSource(): TransactionSource {
+  const helius = getHeliusService();
+
+  return {
+    name: 'helius',
+    getSignaturesForAddress: (address, options) => helius.getSignaturesForAddress(address, options),
+    async getTransactions(signatures, options = {}) {
+      const transactions = await helius.parseAllTransactions(signatures, options);
+      return transactions.map((tx) => ({ format: 'enhanced', signature: tx.signature, tx }));
+    },
+  };
+}
+
+/**
+ * Any Solana JSON-RPC endpoint (SOLANA_RPC_URL): signatures plus getParsedTransaction,
+ * parsed by balance changes. No Helius key needed, but there are no swap events to
+ * read, and launch indexing skips these transactions.
+ */
+function createRpcSource(): TransactionSource {
+  const rpcUrl = process.env.SOLANA_RPC_URL;
+  if (!rpcUrl) {
+    throw new Error('SOLANA_RPC_URL environment variable is required for TRANSACTION_SOURCE=rpc');
+  }
+
+  const connection = new Connection(rpcUrl, 'confirmed');
+  const minInterval = Number(process.env.RPC_REQUEST_INTERVAL_MS) || DEFAULT_RPC_REQUEST_INTERVAL_MS;
+  let lastRequestTime = 0;
+
+  // Each caller reserves the next slot before sleeping, so concurrent callers
+  // (interleaved job wallets) stay spaced by the interval instead of firing together
+  const request = async <T>(fn: () => Promise<T>): Promise<T> => {
+    const slot = Math.max(Date.now(), lastRequestTime + minInterval);
+    lastRequestTime = slot;
+    const wait = slot - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    return withRetry(fn);
+  };
+
+  return {
+    name: 'rpc',
+    getSignaturesForAddress: (address, options = {}) =>
+      request(() =>
+        connection.getSignaturesForAddress(new PublicKey(address), {
+          limit: options.limit || SIGNATURE_PAGE_SIZE,
+          before: options.before,
+          until: options.until,
+        })
+      ),
+    async getTransactions(signatures, options = {}) {
+      const transactions: SourceTransaction[] = [];
+
+      for (let i = 0; i < signatures.length; i += RPC_TRANSACTION_BATCH_SIZE) {
+        const batch = signatures.slice(i, i + RPC_TRANSACTION_BATCH_SIZE);
+        const results = await request(() =>
+          connection.getParsedTransactions(batch, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' })
+        );
+        results.forEach((tx, j) => {
+          if (tx) transactions.push({ format: 'rpc', signature: batch[j], tx });
+        });
+        options.onProgress?.(Math.min(i + batch.length, signatures.length), signatures.length);
+      }
+
+      return transactions;
+    },
+  };
+}
+
+interface FileSourceEntry {
+  format: TransactionFormat;
+  tx: HeliusEnhancedTransaction | ParsedTransactionWithMeta;
+  wallets?: string[]; // Defaults to every account in the transaction
+}
+
+/**
+ * Local fake - serves a JSON array of transactions from a file
+ * ([{ "format": "enhanced" | "rpc", "tx": {...}, "wallets"?: [...] }]).
+ * For development and tests without any network access.
+ */
+export function createFileSource(file = process.env.TRANSACTION_SOURCE_FILE): TransactionSource {
+  const load = () => {
+    if (!file || !fs.existsSync(file)) return [];
+    const entries = JSON.parse(fs.readFileSync(file, 'utf-8')) as FileSourceEntry[];
+    return entries.map((entry) => {
+      const transaction = toSourceTransaction(entry.format, entry.tx);
+      return {
+        transaction,
+        wallets: new Set(entry.wallets ?? transactionAccounts(transaction)),
+        info: signatureInfo(transaction),
+      };
+    });
+  };
+
+  return {
+    name: 'file',
+    async getSignaturesForAddress(address, options = {}) {
+      const history = load()
+        .filter((entry) => entry.wallets.has(address))
+        .map((entry) => entry.info)
+        .sort((a, b) => (b.blockTime ?? 0) - (a.blockTime ?? 0) || b.slot - a.slot);
+
+      const start = options.before ? history.findIndex((s) => s.signature === options.before) + 1 : 0;
+      // An unknown `before` signature means there is nothing older to return
+      if (options.before && start === 0) return [];
+      const untilIndex = options.until ? history.findIndex((s) => s.signature === options.until) : -1;
+      const end = untilIndex >= 0 ? untilIndex : history.length;
+
+      return history.slice(start, Math.min(end, start + (options.limit || SIGNATURE_PAGE_SIZE)));
+    },
+    async getTransactions(signatures, options = {}) {
+      const bySignature = new Map(load().map((entry) => [entry.transaction.signature, entry.transaction]));
+      const transactions = signatures.flatMap((signature) => bySignature.get(signature) ?? []);
+      options.onProgress?.(signatures.length, signatures.length);
+      return transactions;
+    },
+  };
+}
+
+async function withRetry<T>(fn: () => Promise<T>, maxRetries = 5, baseDelay = 2000): Promise<T> {
+  for (let i = 0; ; i++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (i === maxRetries - 1) throw error;
+      const delay = baseDelay * Math.pow(2, i);
+      console.warn(`RPC request failed, retrying in ${delay}ms...`, error instanceof Error ? error.message : error);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function toSourceTransaction(
+  format: TransactionFormat,
+  tx: HeliusEnhancedTransaction | ParsedTransactionWithMeta
+): SourceTransaction {
+  if (format === 'rpc') {
+    const rpcTx = tx as ParsedTransactionWithMeta;
+    return { format, signature: rpcTx.transaction.signatures[0], tx: rpcTx };
+  }
+  const enhancedTx = tx as HeliusEnhancedTransaction;
+  return { format: 'enhanced', signature: enhancedTx.signature, tx: enhancedTx };
+}
+
+function transactionAccounts(transaction: SourceTransaction): string[] {
+  if (transaction.format === 'rpc') {
+    return transaction.tx.transaction.message.accountKeys.map((key) => key.pubkey.toString());
+  }
+  return [transaction.tx.feePayer, ...(transaction.tx.accountData || []).map((a) => a.account)];
+}
+
+function signatureInfo(transaction: SourceTransaction): ConfirmedSignatureInfo {
+  if (transaction.format === 'rpc') {
+    const { tx } = transaction;
+    return {
+      signature: transaction.signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
+      err: tx.meta?.err ?? null,
+      memo: null,
+    };
+  }
+  const { tx } = transaction;
+  return {
+    signature: transaction.signature,
+    slot: tx.slot ?? 0,
+    blockTime: tx.timestamp,
+    err: tx.transactionError ?? null,
+    memo: null,
+  };
+}
+
+/**
+ * Page through a wallet's signatures, newest first, down to `until` (exclusive)
+ * or `maxSignatures`
+ */
+export async function getAllSignaturesForAddress(
+  source: TransactionSource,
+  address: string,
+  options: {
+    until?: string; // Stop at this signature (for incremental sync)
+    maxSignatures?: number; // Safety limit
+    onProgress?: (count: number) => void;
+  } = {}
+): Promise<ConfirmedSignatureInfo[]> {
+  const allSignatures: ConfirmedSignatureInfo[] = [];
+  let lastSignature: string | undefined = undefined;
+  const maxSignatures = options.maxSignatures || 10000;
+
+  while (allSignatures.length < maxSignatures) {
+    const batch = await source.getSignaturesForAddress(address, {
+      limit: SIGNATURE_PAGE_SIZE,
+      before: lastSignature,
+      until: options.until,
+    });
+
+    if (batch.length === 0) break;
+
+    // Check if we hit the 'until' signature
+    const untilIndex = options.until
+      ? batch.findIndex(s => s.signature === options.until)
+      : -1;
+
+    if (untilIndex >= 0) {
+      allSignatures.push(...batch.slice(0, untilIndex));
+      break;
+    }
+
+    allSignatures.push(...batch);
+    lastSignature = batch[batch.length - 1].signature;
+
+    if (options.onProgress) {
+      options.onProgress(allSignatures.length);
+    }
+
+    // A short page is the end of the history
+    if (batch.length < SIGNATURE_PAGE_SIZE) break;
+  }
+
+  return allSignatures;
+}
+
+/**
+ * Rebuild a source transaction from a stored row
+ */
+export function readStoredTransaction(row: { signature: string; format: string; raw_data: string }): SourceTransaction {
+  const tx = JSON.parse(row.raw_data);
+  return row.format === 'rpc'
+    ? { format: 'rpc', signature: row.signature, tx }
+    : { format: 'enhanced', signature: row.signature, tx };
+}
+
+/**
+ * The wallet's trades in one transaction, with the parser for its format
+ */
+export function parseSourceTransaction(transaction: SourceTransaction, walletAddress: string): Trade[] {
+  return transaction.format === 'rpc'
+    ? parseRawTransaction(transaction.tx, transaction.signature, walletAddress)
+    : parseEnhancedTransaction(transaction.tx, walletAddress);
+}
+
+/**
+ * Batch parse source transactions
+ */
+export function parseSourceTransactions(transactions: SourceTransaction[], walletAddress: string): Trade[] {
+  const allTrades: Trade[] = [];
+  let parsedCount = 0;
+
+  for (const transaction of transactions) {
+    const trades = parseSourceTransaction(transaction, walletAddress);
+    if (trades.length > 0) parsedCount++;
+    allTrades.push(...trades);
+  }
+
+  console.log(
+    `Parsed ${parsedCount} transactions with trades, skipped ${transactions.length - parsedCount} non-trade transactions`
+  );
+  return allTrades;
+}
+
+const SOURCE_FACTORIES: Record<string, () => TransactionSource> = {
+  helius: createHeliusSource,
+  rpc: createRpcSource,
+  file: () => createFileSource(),
+};
+
+let source: TransactionSource | undefined;
+
+/**
+ * Source selected by TRANSACTION_SOURCE (default helius)
+ */
+export function getTransactionSource(): TransactionSource {
+  if (source) return source;
+
+  const name = process.env.TRANSACTION_SOURCE || 'helius';
+  const factory = SOURCE_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown TRANSACTION_SOURCE "${name}" (expected helius, rpc or file)`);
+  }
+  source = factory();
+  return source;
+}
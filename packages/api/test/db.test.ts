@@ -0,0 +1,49 @@
+/**
+ * Schema and migrations against a brand-new database file
+ */
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pnl-db-'));
+process.env.DATABASE_PATH = path.join(dir, 'pnl.db');
+
+// Imported after DATABASE_PATH is set; the module opens the database on load
+const { db, walletQueries } = await import('../src/db/index.js');
+
+after(() => {
+  db.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function columns(table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+test('initializes a fresh database with the current schema', () => {
+  const walletColumns = columns('wallets');
+  for (const column of ['first_synced_at', 'oldest_signature', 'oldest_timestamp', 'history_complete']) {
+    assert.ok(walletColumns.includes(column), `wallets.${column} missing`);
+  }
+
+  assert.ok(!columns('transactions').includes('wallet_address'));
+  assert.ok(columns('transactions').includes('format'));
+  assert.deepEqual(columns('wallet_transactions'), ['wallet_address', 'signature', 'timestamp']);
+
+  const { sql } = db.prepare("SELECT sql FROM sqlite_master WHERE name = 'sync_jobs'").get() as { sql: string };
+  assert.match(sql, /kind IN \('refresh', 'bulk_analyze', 'backfill', 'reparse'\)/);
+});
+
+test('clears wallet name and emoji only when they are set', () => {
+  db.prepare(`INSERT INTO wallets (address, user_id, name, emoji, created_at) VALUES ('w1', 'default', 'Alpha', '🐋', 0)`).run();
+  const read = () => db.prepare(`SELECT name, emoji, alerts_on FROM wallets WHERE address = 'w1'`).get();
+  const update = { address: 'w1', user_id: 'default', set_name: 0, name: null, set_emoji: 0, emoji: null, alerts_on: null };
+
+  walletQueries.updateWalletMetadata.run({ ...update, alerts_on: 1 });
+  assert.deepEqual(read(), { name: 'Alpha', emoji: '🐋', alerts_on: 1 });
+
+  walletQueries.updateWalletMetadata.run({ ...update, set_name: 1 });
+  assert.deepEqual(read(), { name: null, emoji: '🐋', alerts_on: 1 });
+});
@@ -0,0 +1,62 @@
+/**
+ * Parser regression suite. Each fixture in fixtures/parser is an anonymized Helius
+ * enhanced transaction (see `pnpm fixtures:snapshot`) with the trades it must parse to.
+ * Runs fully offline.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseEnhancedTransaction } from '../src/services/parser.js';
+import type { ParserFixture } from '../src/services/parserFixtures.js';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/parser');
+
+// Cases that must always have a fixture
+const REQUIRED_FIXTURES = [
+  'pump-fun-buy',
+  'jupiter-multihop-usdc',
+  'bonk-launchpad-usd1',
+  'airdrop',
+  'failed-tx',
+  'token-to-token',
+];
+
+function loadFixtures(): ParserFixture[] {
+  return fs
+    .readdirSync(FIXTURE_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')) as ParserFixture);
+}
+
+// Float math differs in the last bits between parse paths; compare to 12 significant digits
+function normalize(value: unknown): unknown {
+  if (typeof value === 'number') return Number(value.toPrecision(12));
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, normalize(v)])
+    );
+  }
+  return value;
+}
+
+const fixtures = loadFixtures();
+
+test('every required parser case has a fixture', () => {
+  const names = new Set(fixtures.map((f) => f.name));
+  for (const name of REQUIRED_FIXTURES) {
+    assert.ok(names.has(name), `missing fixture: ${name}`);
+  }
+});
+
+for (const fixture of fixtures) {
+  test(`parses ${fixture.name}`, () => {
+    const trades = parseEnhancedTransaction(fixture.transaction, fixture.wallet);
+    assert.deepEqual(normalize(trades), normalize(fixture.expected), fixture.description);
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Token-bucket rate limiter behind the Helius client, on real (short) timers
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter } from '../src/services/rateLimiter.js';
+
+const FAST = { requestsPerSecond: 1000, maxInFlight: 2, cooldownMs: 10000 };
+
+test('spreads slots round-robin over lanes', async () => {
+  const limiter = new RateLimiter(2, FAST);
+  assert.deepEqual(await Promise.all([limiter.acquire(), limiter.acquire()]), [0, 1]);
+  assert.equal(limiter.capacity, 4);
+});
+
+test('holds callers while every lane is at its in-flight cap', async () => {
+  const limiter = new RateLimiter(1, FAST);
+  await limiter.acquire();
+  await limiter.acquire();
+
+  let third: number | null = null;
+  const waiting = limiter.acquire().then((lane) => (third = lane));
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(third, null);
+
+  limiter.release(0, 'success');
+  assert.equal(await waiting, 0);
+});
+
+test('paces each lane to its request rate', async () => {
+  const limiter = new RateLimiter(1, { requestsPerSecond: 20, maxInFlight: 10, cooldownMs: 0 });
+  const start = Date.now();
+  for (let i = 0; i < 3; i++) {
+    limiter.release(await limiter.acquire(), 'success');
+  }
+  // One token up front, then 50ms per request
+  assert.ok(Date.now() - start >= 90, `took ${Date.now() - start}ms`);
+});
+
+test('cools a rate-limited lane down and fails over to the others', async () => {
+  const limiter = new RateLimiter(2, FAST);
+  const lane = await limiter.acquire();
+  limiter.release(lane, 'rateLimited');
+
+  assert.equal(limiter.isCooling(lane), true);
+  assert.equal(limiter.hasOpenLane(), true);
+  assert.equal(await limiter.acquire(), 1 - lane);
+
+  limiter.release(1 - lane, 'rateLimited');
+  assert.equal(limiter.hasOpenLane(), false);
+});
+
+test('halves a lane\'s rate after a 429', async () => {
+  const limiter = new RateLimiter(1, { requestsPerSecond: 10, maxInFlight: 1, cooldownMs: 0 });
+  limiter.release(await limiter.acquire(), 'rateLimited');
+
+  // 5 req/s now: the next token takes 200ms instead of 100ms
+  const start = Date.now();
+  limiter.release(await limiter.acquire(), 'success');
+  assert.ok(Date.now() - start >= 180, `took ${Date.now() - start}ms`);
+});
@@ -0,0 +1,88 @@
+/**
+ * Wallet router behaviour, against a temp database and a local server
+ */
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pnl-routes-'));
+process.env.DATABASE_PATH = path.join(dir, 'pnl.db');
+
+// Imported after DATABASE_PATH is set; the db module opens the database on load
+const { db } = await import('../src/db/index.js');
+const { walletRouter } = await import('../src/routes/wallet.js');
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/wallet', walletRouter);
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/wallet`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  db.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('routes POST /launches/backfill to the launch index, not the wallet backfill', async () => {
+  const response = await fetch(`${baseUrl}/launches/backfill`, { method: 'POST' });
+  const body = await response.json();
+
+  assert.equal(response.status, 200, JSON.stringify(body));
+  assert.deepEqual(body.data, { scanned: 0, launches: 0 });
+});
+
+test('still rejects an invalid address on the wallet backfill', async () => {
+  const response = await fetch(`${baseUrl}/not-an-address/backfill`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}',
+  });
+
+  assert.equal(response.status, 400);
+});
+
+test('returns 404 when patching an alert rule that does not exist', async () => {
+  const response = await fetch(`${baseUrl}/alerts/rules/9999`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ enabled: false }),
+  });
+
+  assert.equal(response.status, 404);
+});
+
+test('clears an optional alert threshold with an explicit null', async () => {
+  const json = { 'Content-Type': 'application/json' };
+  const created = await fetch(`${baseUrl}/alerts/rules`, {
+    method: 'POST',
+    headers: json,
+    body: JSON.stringify({ type: 'new_token', threshold: 2 }),
+  });
+  const { data } = await created.json();
+
+  const patch = (body: object) =>
+    fetch(`${baseUrl}/alerts/rules/${data.id}`, { method: 'PATCH', headers: json, body: JSON.stringify(body) });
+  const threshold = async () => {
+    const rules = await (await fetch(`${baseUrl}/alerts/rules`)).json();
+    return rules.data.find((rule: { id: number }) => rule.id === data.id).threshold;
+  };
+
+  assert.equal((await patch({ enabled: false })).status, 200);
+  assert.equal(await threshold(), 2);
+
+  assert.equal((await patch({ threshold: null })).status, 200);
+  assert.equal(await threshold(), null);
+});
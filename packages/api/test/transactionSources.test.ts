@@ -0,0 +1,124 @@
+/**
+ * File-backed transaction source, built from the parser fixtures plus one plain RPC
+ * transaction. Runs fully offline.
+ */
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseRawTransaction } from '../src/services/parser.js';
+import { createFileSource, parseSourceTransactions } from '../src/services/transactionSources.js';
+import type { ParserFixture } from '../src/services/parserFixtures.js';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/parser');
+const WALLET = 'wallet';
+const JUPITER_V6 = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+// Buys 1,000 of mint-rpc for 1 SOL plus a 5,000 lamport fee, newest of all entries
+const RPC_BUY = {
+  slot: 296000000,
+  blockTime: 1729020000,
+  transaction: {
+    signatures: ['sig-rpc-buy'],
+    message: {
+      accountKeys: [
+        { pubkey: WALLET, signer: true, writable: true },
+        { pubkey: 'account-9', signer: false, writable: true },
+        { pubkey: JUPITER_V6, signer: false, writable: false },
+      ],
+      instructions: [{ programId: JUPITER_V6, accounts: [], data: '' }],
+    },
+  },
+  meta: {
+    err: null,
+    fee: 5000,
+    preBalances: [2_000_000_000, 0, 1],
+    postBalances: [999_995_000, 0, 1],
+    preTokenBalances: [],
+    postTokenBalances: [
+      { accountIndex: 1, mint: 'mint-rpc', owner: WALLET, uiTokenAmount: { uiAmount: 1000, decimals: 6 } },
+    ],
+    innerInstructions: [],
+  },
+};
+
+const fixtures = fs
+  .readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith('.json'))
+  .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')) as ParserFixture);
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tx-source-'));
+const file = path.join(dir, 'transactions.json');
+fs.writeFileSync(
+  file,
+  JSON.stringify([
+    ...fixtures.map((fixture) => ({ format: 'enhanced', tx: fixture.transaction, wallets: [fixture.wallet] })),
+    { format: 'rpc', tx: RPC_BUY },
+  ])
+);
+const source = createFileSource(file);
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('lists a wallet\'s signatures newest first', async () => {
+  const signatures = await source.getSignaturesForAddress(WALLET);
+  const expected = [...fixtures]
+    .sort((a, b) => b.transaction.timestamp - a.transaction.timestamp)
+    .map((fixture) => fixture.transaction.signature);
+
+  assert.deepEqual(signatures.map((s) => s.signature), ['sig-rpc-buy', ...expected]);
+  assert.equal(signatures[0].blockTime, RPC_BUY.blockTime);
+});
+
+test('pages signatures with before, until and limit', async () => {
+  const all = (await source.getSignaturesForAddress(WALLET)).map((s) => s.signature);
+
+  const firstPage = await source.getSignaturesForAddress(WALLET, { limit: 2 });
+  assert.deepEqual(firstPage.map((s) => s.signature), all.slice(0, 2));
+
+  const nextPage = await source.getSignaturesForAddress(WALLET, { before: all[1], limit: 2 });
+  assert.deepEqual(nextPage.map((s) => s.signature), all.slice(2, 4));
+
+  const newer = await source.getSignaturesForAddress(WALLET, { until: all[3] });
+  assert.deepEqual(newer.map((s) => s.signature), all.slice(0, 3));
+});
+
+test('derives participants from the rpc transaction\'s account keys', async () => {
+  const signatures = await source.getSignaturesForAddress('account-9');
+  assert.deepEqual(signatures.map((s) => s.signature), ['sig-rpc-buy']);
+});
+
+test('serves known transactions and parses each with its format\'s parser', async () => {
+  const transactions = await source.getTransactions(['sig-pump-fun-buy', 'sig-unknown', 'sig-rpc-buy']);
+  assert.deepEqual(transactions.map((t) => [t.format, t.signature]), [
+    ['enhanced', 'sig-pump-fun-buy'],
+    ['rpc', 'sig-rpc-buy'],
+  ]);
+
+  const trades = parseSourceTransactions(transactions, WALLET);
+  const pumpFixture = fixtures.find((fixture) => fixture.name === 'pump-fun-buy');
+  assert.equal(trades.length, (pumpFixture?.expected.length ?? 0) + 1);
+
+  const rpcTrade = trades.find((trade) => trade.signature === 'sig-rpc-buy');
+  assert.equal(rpcTrade?.type, 'buy');
+  assert.equal(rpcTrade?.tokenMint, 'mint-rpc');
+  assert.equal(rpcTrade?.tokenAmount, 1000);
+  assert.equal(rpcTrade?.solAmount, 1);
+  assert.equal(rpcTrade?.dex, 'Jupiter v6');
+  assert.equal(rpcTrade?.networkFee, 0.000005);
+});
+
+test('charges the rpc fee only when the wallet is the fee payer', () => {
+  // The same buy, with the fee paid by another signer listed first
+  const sponsored = structuredClone(RPC_BUY);
+  sponsored.transaction.message.accountKeys.unshift({ pubkey: 'sponsor', signer: true, writable: true });
+  sponsored.meta.preBalances = [10_000_000, 2_000_000_000, 0, 1];
+  sponsored.meta.postBalances = [9_995_000, 1_000_000_000, 0, 1];
+  sponsored.meta.postTokenBalances[0].accountIndex = 2;
+
+  const [trade] = parseRawTransaction(sponsored as any, 'sig-sponsored', WALLET);
+  assert.equal(trade?.solAmount, 1);
+  assert.equal(trade?.networkFee, 0);
+});
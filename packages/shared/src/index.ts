@@ -16,6 +16,38 @@ export interface Trade {
   solAmount: number; // SOL spent (buy) or received (sell)
   pricePerToken: number; // Price in SOL per token
   dex: string; // Jupiter, Raydium, Orca, etc.
+  // This trade's share of the transaction's costs in SOL (not included in solAmount)
+  networkFee: number; // Base signature fee
+  priorityFee: number; // Compute-unit price on top of the base fee
+  tip: number; // Native transfers to known tip accounts (Jito)
+  parserVersion?: number; // Parser that produced the stored trade; absent for trades stored before versioning
+}
+
+export type TradeSortField = 'timestamp' | 'type' | 'tokenSymbol' | 'tokenAmount' | 'solAmount' | 'pricePerToken' | 'dex';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Filters for a wallet's trades; unset fields don't filter
+export interface TradeQuery {
+  type?: TradeType;
+  tokenMint?: string;
+  dex?: string;
+  minSol?: number;
+  maxSol?: number;
+  from?: number;      // Unix seconds, inclusive
+  to?: number;        // Unix seconds, inclusive
+  search?: string;    // Token symbol substring (case-insensitive) or exact mint
+  sort?: TradeSortField;
+  order?: SortOrder;
+  cursor?: string;    // nextCursor from the previous page
+  limit?: number;
+}
+
+export interface TradePage {
+  trades: Trade[];
+  total: number | null;       // Trades matching the filters across all pages; first page only, null with a cursor
+  limit: number;
+  nextCursor: string | null;  // Null on the last page
 }
 
 // ============ Position Types ============
@@ -30,8 +62,15 @@ export interface Position {
   totalProceeds: number; // Total SOL received from sells
   remainingTokens: number;
   averageBuyPrice: number;
-  realizedPnL: number; // In SOL
+  realizedPnL: number; // In SOL, before fees
+  totalFees: number; // Network + priority fees and tips paid on this token's trades
+  netRealizedPnL: number; // realizedPnL - totalFees
   unrealizedPnL?: number; // If current price available
+  openCostBasis?: number; // SOL cost of the tokens still held (remaining lots)
+  markPrice?: number; // Last known SOL price per token
+  markValue?: number; // remainingTokens * markPrice
+  priceSource?: string; // 'trade' or the external provider name
+  priceObservedAt?: number; // When markPrice was observed (unix seconds)
   tradeCount: number;
   winCount: number; // Number of profitable sells
   firstTradeAt: number;
@@ -42,14 +81,23 @@ export interface Position {
 
 export type Timeframe = '24h' | '7d' | '30d' | '90d' | 'all';
 
+// How sells are matched against buy lots
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average' | 'hifo';
+
 export interface PnLSummary {
   walletAddress: string;
   timeframe: Timeframe;
   periodStart: number;
   periodEnd: number;
+  costBasisMethod: CostBasisMethod;
   
   // Overall metrics
-  totalRealizedPnL: number; // In SOL
+  totalRealizedPnL: number; // In SOL, gross (before fees)
+  netRealizedPnL: number; // totalRealizedPnL - totalFees
+  totalUnrealizedPnL: number; // Open positions marked to last known price (point in time, not period-bound)
+  totalPnL: number; // Realized + unrealized
+  totalEquity: number; // SOL value of open positions at mark
+  unpricedPositions: number; // Open positions with no known price (excluded from unrealized)
   totalTrades: number;
   totalBuys: number;
   totalSells: number;
@@ -62,6 +110,12 @@ export interface PnLSummary {
   // Volume metrics
   totalSolVolume: number; // Total SOL traded (buys + sells)
   avgTradeSize: number; // Average SOL per trade
+
+  // Costs paid on trades in the period
+  totalNetworkFees: number;
+  totalPriorityFees: number;
+  totalTips: number;
+  totalFees: number; // Sum of the three above
   
   // Timing metrics
   avgHoldDuration: number; // Average seconds between buy and sell
@@ -77,6 +131,62 @@ export interface PnLSummary {
   positions: Position[];
 }
 
+// ============ Realization Types ============
+
+// The part of one buy lot closed by a sell
+export interface RealizedLot {
+  buyTradeId: string;
+  buySignature?: string;
+  buyTimestamp: number;
+  buyPrice: number;
+  amount: number;
+  costBasis: number;
+  proceeds: number;
+  realizedPnL: number;
+  holdingPeriod: number; // Seconds between the buy and the sell
+}
+
+// A sell and the lots it closed; unmatchedAmount had no recorded buy (zero cost)
+export interface Realization {
+  sellTradeId: string;
+  walletAddress: string;
+  tokenMint: string;
+  tokenSymbol?: string;
+  signature: string;
+  timestamp: number;
+  amount: number;
+  matchedAmount: number;
+  unmatchedAmount: number;
+  costBasis: number;
+  proceeds: number;
+  realizedPnL: number;
+  lots: RealizedLot[];
+}
+
+// ============ Export Types ============
+
+export type ExportKind = 'trades' | 'positions' | 'realizations';
+export type ExportFormat = 'csv' | 'json';
+// USD values convert SOL at the day's SOL/USD rate
+export type ExportCurrency = 'sol' | 'usd';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  currency: ExportCurrency;
+  timeframe: Timeframe;
+  costBasis: CostBasisMethod;
+}
+
+// ============ Pricing Types ============
+
+export interface TokenPrice {
+  mint: string;
+  priceSol: number;
+  source: string; // 'trade' (last stored trade across all wallets) or a provider name
+  observedAt: number; // Unix seconds
+  signature?: string; // Trade the price came from
+}
+
 // ============ Wallet Types ============
 
 export interface WalletInfo {
@@ -98,7 +208,11 @@ export interface CatalogWallet {
   firstSyncedAt?: number;
   totalTransactions: number;
   totalRealizedPnL?: number;
+  totalFees?: number;
   winRate?: number;
+  syncIntervalSec?: number; // Scheduler override, defaults apply when unset
+  farmerScore?: number;     // Copytrade-farmer score 0-1, unset until a report exists
+  farmerVerdict?: FarmerVerdict;
   createdAt: number;
 }
 
@@ -159,6 +273,8 @@ export interface WalletRanking {
   name?: string | null;
   emoji?: string | null;
   realizedPnL: number;
+  netRealizedPnL?: number; // After fees and tips
+  totalFees?: number;
   winRate: number;
   totalTrades: number;
   totalSolVolume: number;
@@ -170,6 +286,532 @@ export interface WalletRanking {
   simulatedPnL?: number;
   avgTimeToFirstSellSec?: number;
   quickDumpRate?: number;
+  // Settings the follow fields were simulated with (the wallet's last follow-score run)
+  followConfig?: FollowScoreConfig;
+  // Position in the timeframe's ranking and where it stood a day earlier
+  // (undefined when the wallet was not ranked then)
+  rank?: number;
+  previousRank?: number;
+  statsComputedAt?: number;
+  farmerScore?: number;
+  farmerVerdict?: FarmerVerdict;
+}
+
+// ============ Copytrade Farmer Detection ============
+
+// follower_sells:    sells landing right after other catalog wallets bought the same mint
+// follower_inflow:   share of sell volume matched by those followers' buys
+// quick_round_trips: mints bought and first sold within a minute
+// launch_buys:       first buys right at a token's mint / pool creation
+export type FarmerSignal = 'follower_sells' | 'follower_inflow' | 'quick_round_trips' | 'launch_buys';
+
+export type FarmerVerdict = 'likely' | 'suspicious' | 'clean' | 'insufficient_data';
+
+export interface FarmerSignalScore {
+  signal: FarmerSignal;
+  score: number;      // 0-1
+  weight: number;     // Share of the overall score
+  hits: number;
+  sampleSize: number;
+}
+
+export interface FarmerEvidenceTrade {
+  walletAddress: string;
+  signature: string;
+  type: 'buy' | 'sell';
+  timestamp: number;
+  slot: number | null;
+  solAmount: number;
+}
+
+export interface FarmerEvidence {
+  signal: FarmerSignal;
+  tokenMint: string;
+  tokenSymbol?: string;
+  trade: FarmerEvidenceTrade;       // The reported wallet's trade
+  related: FarmerEvidenceTrade[];   // Follower buys, or the buy a quick sell closed
+  detail: string;
+}
+
+export interface FarmerReport {
+  walletAddress: string;
+  score: number;                    // Weighted signal scores, 0-1
+  verdict: FarmerVerdict;
+  signals: FarmerSignalScore[];
+  evidence: FarmerEvidence[];       // Most recent first, capped per signal
+  computedAt: number;
+}
+
+// ============ Co-Trading Analysis ============
+
+// Two wallets' trades on the mints both traded. Entries (first buys) and exits
+// (first sells) count as co-trades when they land within the analysis window.
+export interface CoTradingPair {
+  walletA: string;
+  walletB: string;
+  sharedMints: number;
+  mintOverlap: number;              // Shared mints / mints either traded (0-1)
+  coEntries: number;
+  coExits: number;
+  strength: number;                 // Co-entries / mints traded by the less active wallet (0-1)
+  leader: string | null;            // Entered first on most co-entries; null on a tie
+  leaderEntries: number;            // Co-entries the leader entered first
+  medianEntryLagSec: number | null; // Over co-entries
+  medianExitLagSec: number | null;  // Over co-exits
+}
+
+export interface CoTradingWallet {
+  address: string;
+  name?: string;
+  emoji?: string;
+  mintsTraded: number;
+}
+
+export interface WalletCluster {
+  id: number;
+  wallets: string[];                // By linked pairs led minus pairs followed
+  leader: string | null;            // Leads the most linked pairs; null on a tie
+  pairs: CoTradingPair[];
+  avgStrength: number;
+}
+
+export interface CoTradingSettings {
+  windowSeconds: number;
+  minCoEntries: number;
+  minStrength: number;
+}
+
+export interface ClusterAnalysis extends CoTradingSettings {
+  wallets: CoTradingWallet[];       // Wallets in a cluster
+  clusters: WalletCluster[];        // Largest first
+  computedAt: number;
+}
+
+export interface LeadersFollowers extends CoTradingSettings {
+  walletAddress: string;
+  wallets: CoTradingWallet[];       // Every wallet listed below
+  leaders: CoTradingPair[];         // Wallets that usually enter before this one (walletA is this wallet)
+  followers: CoTradingPair[];       // Wallets that usually enter after it
+  peers: CoTradingPair[];           // Linked wallets with no clear leader
+}
+
+// ============ Token Activity Types ============
+
+export interface TokenLaunchInfo {
+  firstSignature: string | null;
+  firstTimestamp: number | null;
+  firstSlot: number | null;
+  source: 'mint' | 'pool_init' | 'first_seen';
+}
+
+// Cached metadata when the token has been looked up, otherwise the symbol seen on trades
+export interface TokenInfo {
+  mint: string;
+  symbol?: string;
+  name?: string;
+  image?: string;
+  launch: TokenLaunchInfo | null;
+}
+
+export interface TokenEntry {
+  walletAddress: string;
+  name?: string;
+  emoji?: string;
+  signature: string;
+  timestamp: number;
+  solAmount: number;
+  secondsAfterLaunch: number | null;
+}
+
+export interface TokenFlowBucket {
+  timestamp: number;   // Bucket start
+  buySol: number;
+  sellSol: number;
+  netSol: number;      // buySol - sellSol: SOL flowing into the token from catalog wallets
+  buyers: number;
+  sellers: number;
+}
+
+export interface TokenTrade extends Trade {
+  walletName?: string;
+  walletEmoji?: string;
+}
+
+export interface TokenActivity {
+  token: TokenInfo;
+  wallets: number;
+  totalTrades: number;
+  buySol: number;
+  sellSol: number;
+  entries: TokenEntry[];          // First buy per wallet, earliest first
+  bucketSeconds: number;
+  flow: TokenFlowBucket[];
+  recentTrades: TokenTrade[];     // Newest first
+}
+
+export interface TokenHolder {
+  walletAddress: string;
+  name?: string;
+  emoji?: string;
+  entryRank: number | null;       // 1 = first catalog wallet to buy; null without a recorded buy
+  isOpen: boolean;
+  position: Position;             // Default cost basis, marked at the last known price
+}
+
+export interface TokenHolders {
+  token: TokenInfo;
+  holders: TokenHolder[];         // Open positions by value, then closed ones by realized PnL
+  openHolders: number;
+  totalRealizedPnL: number;
+  totalUnrealizedPnL: number;
+  remainingTokens: number;
+}
+
+// ============ Follow Simulation Types ============
+
+export type SlippageModel = 'conservative' | 'moderate' | 'aggressive';
+
+// How a follower's fills are priced: flat drift per second of delay, or the
+// stored trade tape at t + delay (falling back to drift without nearby prints)
+export type FollowPricing = 'heuristic' | 'tape';
+
+/**
+ * Settings a follow score was simulated with: a built-in slippage model or a stored profile
+ */
+export interface FollowScoreConfig {
+  delaySeconds: number;
+  slippageModel: SlippageModel | null;
+  slippageProfileId: number | null;
+  pricing: FollowPricing;
+}
+
+/**
+ * Slippage for trades below a size. Buckets are ordered by size; the last one
+ * has no upper bound.
+ */
+export interface SlippageBucket {
+  maxSol: number | null; // Exclusive upper bound in SOL, null = no limit
+  slippage: number;      // Fraction, 0.02 = 2%
+}
+
+export interface SlippageProfileInput {
+  name: string;
+  description?: string;
+  buckets: SlippageBucket[];
+  // Replaces the buckets for trades on a DEX, keyed by Trade.dex (e.g. "Pump.fun", "Raydium")
+  dexOverrides?: Record<string, SlippageBucket[]>;
+  // Assumed adverse price move per second of delay when there is no tape print
+  driftPerSecond: number;
+}
+
+/**
+ * A user-defined slippage profile
+ */
+export interface SlippageProfile extends SlippageProfileInput {
+  id: number;
+  dexOverrides: Record<string, SlippageBucket[]>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One simulated follow at a given delay and slippage model
+ */
+export interface FollowSweepPoint {
+  delaySeconds: number;
+  slippageModel: SlippageModel;
+  actualPnL: number;
+  simulatedPnL: number;
+  followabilityRatio: number;
+  totalTokensTraded: number;
+  followableTokens: number;
+  scoredAt: number;
+}
+
+/**
+ * Smallest swept delay at which following stops paying for a slippage model
+ * (null when the simulated PnL stays positive across the whole grid)
+ */
+export interface FollowCutoff {
+  slippageModel: SlippageModel;
+  unprofitableAtDelaySeconds: number | null;
+}
+
+export interface FollowabilityCurve {
+  walletAddress: string;
+  points: FollowSweepPoint[]; // Sorted by slippage model, then delay
+  cutoffs: FollowCutoff[];
+}
+
+export interface FollowSweepRanking {
+  address: string;
+  name?: string | null;
+  emoji?: string | null;
+  delaySeconds: number;
+  slippageModel: SlippageModel;
+  actualPnL: number;
+  simulatedPnL: number;
+  followabilityRatio: number;
+  unprofitableAtDelaySeconds: number | null;
+}
+
+// ============ Paper Trading Types ============
+
+// Why a paper fill happened: mirroring the followed wallet, or an exit rule
+export type PaperFillReason = 'copy' | 'stop_loss' | 'take_profit';
+
+export interface PaperPortfolioInput {
+  name: string;
+  wallets: string[];             // Followed catalog wallets
+  startAt?: number;              // Unix seconds; defaults to now
+  startingBalanceSol: number;
+  entrySizeSol: number;          // Fixed SOL size per entry
+  maxPositions: number;          // Max concurrent open positions
+  stopLoss?: number | null;      // Fraction below entry, 0.3 = -30%
+  takeProfit?: number | null;    // Fraction above entry, 1 = +100%
+  delaySeconds?: number;
+  slippageModel?: SlippageModel;
+  slippageProfileId?: number | null; // Takes precedence over slippageModel
+  pricing?: FollowPricing;
+}
+
+export interface PaperPortfolio {
+  id: number;
+  name: string;
+  wallets: string[];
+  missingWallets: string[];      // Followed wallets no longer in the catalog; skipped when advancing
+  startAt: number;
+  startingBalanceSol: number;
+  entrySizeSol: number;
+  maxPositions: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  delaySeconds: number;
+  slippageModel: SlippageModel | null; // null when a slippage profile is used
+  slippageProfileId: number | null;
+  pricing: FollowPricing;
+
+  cashSol: number;
+  positionsValueSol: number;     // Open positions at their last known price
+  equitySol: number;
+  realizedPnL: number;
+  openPositions: number;
+  // Trades up to here have been followed; waits for every followed wallet to sync
+  processedThrough: number;
+  createdAt: number;
+}
+
+export interface PaperPosition {
+  tokenMint: string;
+  tokenSymbol?: string;
+  sourceWallet: string;          // Wallet whose buy opened the position
+  tokenAmount: number;
+  costSol: number;
+  entryPrice: number;
+  openedAt: number;
+  markPrice: number | null;      // Last stored print, null if none since entry
+  valueSol: number;
+  unrealizedPnL: number;
+}
+
+export interface PaperFill {
+  id: number;
+  side: 'buy' | 'sell';
+  reason: PaperFillReason;
+  tokenMint: string;
+  tokenSymbol?: string;
+  sourceWallet: string;
+  sourceTradeId: string | null;  // Null for stop-loss/take-profit exits
+  timestamp: number;
+  tokenAmount: number;
+  solAmount: number;
+  price: number;
+  realizedPnL: number | null;    // Sells only
+}
+
+export interface PaperEquityPoint {
+  timestamp: number;
+  cashSol: number;
+  positionsValueSol: number;
+  equitySol: number;
+}
+
+export interface PaperPortfolioDetail {
+  portfolio: PaperPortfolio;
+  positions: PaperPosition[];
+  fills: PaperFill[];            // Most recent first
+  equityCurve: PaperEquityPoint[];
+}
+
+// ============ Scheduler Types ============
+
+export interface ScheduledWallet {
+  address: string;
+  name: string;
+  emoji: string;
+  alertsOn: boolean;
+  lastSyncedAt: number;
+  intervalSec: number;
+  dueAt: number;
+  overdueSec: number; // Negative while not yet due
+}
+
+export interface SchedulerRun {
+  address: string;
+  name: string;
+  startedAt: number;
+  finishedAt: number;
+  success: boolean;
+  newTransactions?: number;
+  trades?: number;
+  error?: string;
+}
+
+export interface SchedulerState {
+  paused: boolean;
+  running: { address: string; name: string; startedAt: number } | null;
+  defaultIntervalSec: number;
+  alertsIntervalSec: number;
+  tickIntervalSec: number;
+  lastTickAt: number | null;
+  budgetExhausted: boolean; // Today's Helius credit budget is spent; scheduled syncs wait for tomorrow
+  queue: ScheduledWallet[];
+  recentRuns: SchedulerRun[];
+}
+
+// ============ Usage Types ============
+
+export interface UsageCounts {
+  credits: number;
+  requests: number;
+}
+
+/**
+ * Helius credits spent on one UTC day, broken down by API key, endpoint and wallet
+ */
+export interface HeliusUsage extends UsageCounts {
+  day: string; // YYYY-MM-DD
+  dailyBudget: number | null;
+  budgetExhausted: boolean;
+  keys: (UsageCounts & { key: string; coolingDown: boolean })[];
+  endpoints: (UsageCounts & { endpoint: string; creditCost: number })[];
+  wallets: (UsageCounts & { walletAddress: string | null; name: string | null })[]; // null = not for a wallet
+  history: (UsageCounts & { day: string })[]; // Oldest first, ending with this day
+}
+
+// ============ History Coverage ============
+
+export interface HistoryCoverage {
+  storedTransactions: number;
+  earliestCoveredAt: number | null; // Oldest stored transaction
+  latestCoveredAt: number | null;
+  oldestSignature: string | null; // Backfill cursor
+  isComplete: boolean; // Backfill reached the wallet's first transaction
+  firstActivityAt: number | null; // Known wallet age; only set once history is complete
+  backfillTarget: number | null; // User-chosen backfill date, if any
+  reachedTarget: boolean;
+}
+
+// ============ Re-parse Types ============
+
+// A stored trade next to what the current parser makes of the same transaction
+export interface TradeChange {
+  id: string;
+  signature: string;
+  before: Trade | null; // null = the current parser adds this trade
+  after: Trade | null; // null = the current parser no longer produces it
+}
+
+export interface ReparseSummary {
+  walletAddress: string;
+  parserVersion: number;
+  transactions: number; // Stored transactions replayed
+  tradesBefore: number;
+  tradesAfter: number;
+  added: number;
+  removed: number;
+  changed: number;
+  applied: boolean; // false for dry runs
+}
+
+export interface ReparseReport extends ReparseSummary {
+  changes: TradeChange[]; // Up to REPARSE_MAX_CHANGES examples
+}
+
+// ============ Sync Job Types ============
+
+export type SyncJobKind = 'refresh' | 'bulk_analyze' | 'backfill' | 'reparse';
+
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface SyncJobWalletResult {
+  address: string;
+  success: boolean;
+  error?: string;
+  trades?: number;
+  newTransactions?: number;
+  reparse?: ReparseSummary; // reparse jobs only
+}
+
+export interface SyncJob {
+  id: number;
+  kind: SyncJobKind;
+  status: SyncJobStatus;
+  addresses: string[];
+  forceRefresh: boolean;
+  timeframe: Timeframe | null; // bulk_analyze only
+  untilTimestamp: number | null; // backfill only; null = back to genesis
+  dryRun: boolean; // reparse only: report changes without writing them
+  total: number;
+  completed: number; // Wallets processed so far (succeeded or failed)
+  failed: number;
+  currentAddress: string | null; // Most recently started wallet still in progress
+  results: SyncJobWalletResult[];
+  result: AggregatedStats | null; // bulk_analyze only, set when the job succeeds
+  error: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+// ============ Alert Types ============
+
+export type AlertRuleType = 'new_token' | 'buy_size' | 'position_exit' | 'pnl_cross';
+
+export interface AlertRule {
+  id: number;
+  walletAddress: string | null; // null = applies to every alerts-on wallet
+  type: AlertRuleType;
+  threshold: number | null; // SOL size for buy_size, SOL PnL level for pnl_cross
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type AlertSinkKind = 'webhook' | 'telegram' | 'discord';
+
+export interface AlertSink {
+  id: number;
+  kind: AlertSinkKind;
+  name: string;
+  url: string; // Masked when listed: secrets in the path and the query are cut off
+  chatId?: string | null; // Telegram only
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface AlertEvent {
+  id: number;
+  ruleId: number | null;
+  ruleType: AlertRuleType;
+  walletAddress: string;
+  walletName?: string | null;
+  walletEmoji?: string | null;
+  tokenMint?: string | null;
+  signature?: string | null;
+  message: string;
+  details?: Record<string, unknown>;
+  deliveredTo: string[];
+  createdAt: number;
 }
 
 // ============ Transaction Types (from Helius) ============
@@ -177,6 +819,7 @@ export interface WalletRanking {
 export interface HeliusEnhancedTransaction {
   signature: string;
   timestamp: number;
+  slot?: number;
   type: string;
   source: string;
   fee: number;
@@ -348,6 +991,74 @@ export const INTERMEDIATE_TOKENS = new Set([
 // Alias for backwards compatibility
 export const STABLECOIN_MINTS = INTERMEDIATE_TOKENS;
 
+// Jito tip accounts - native transfers to these are tips, not trade flow
+export const JITO_TIP_ACCOUNTS = new Set([
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+]);
+
+// Base fee per signature; anything above it in tx.fee is priority fee
+export const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000;
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average', 'hifo'];
+
+export const TRADE_SORT_FIELDS: TradeSortField[] = [
+  'timestamp', 'type', 'tokenSymbol', 'tokenAmount', 'solAmount', 'pricePerToken', 'dex',
+];
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+// Example changes kept in a re-parse report
+export const REPARSE_MAX_CHANGES = 50;
+
+export const EXPORT_KINDS: ExportKind[] = ['trades', 'positions', 'realizations'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+export const EXPORT_CURRENCIES: ExportCurrency[] = ['sol', 'usd'];
+
+export const SLIPPAGE_MODELS: SlippageModel[] = ['conservative', 'moderate', 'aggressive'];
+
+// The built-in slippage models expressed as profiles
+export const BUILT_IN_SLIPPAGE_PROFILES: Record<SlippageModel, SlippageProfileInput> = {
+  conservative: {
+    name: 'Conservative',
+    buckets: [
+      { maxSol: 0.5, slippage: 0.01 },
+      { maxSol: 2, slippage: 0.02 },
+      { maxSol: null, slippage: 0.05 },
+    ],
+    driftPerSecond: 0.001,
+  },
+  moderate: {
+    name: 'Moderate',
+    buckets: [
+      { maxSol: 0.5, slippage: 0.02 },
+      { maxSol: 2, slippage: 0.05 },
+      { maxSol: null, slippage: 0.10 },
+    ],
+    driftPerSecond: 0.001,
+  },
+  aggressive: {
+    name: 'Aggressive',
+    buckets: [
+      { maxSol: 0.5, slippage: 0.03 },
+      { maxSol: 2, slippage: 0.08 },
+      { maxSol: null, slippage: 0.15 },
+    ],
+    driftPerSecond: 0.001,
+  },
+};
+
+export const FOLLOW_PRICING_MODES: FollowPricing[] = ['heuristic', 'tape'];
+
+// Default follow sweep grid, from near-instant copying to a two-minute lag
+export const DEFAULT_SWEEP_DELAYS_SECONDS = [1, 2, 5, 10, 15, 30, 60, 90, 120];
+
 // Timeframe in seconds
 export const TIMEFRAME_SECONDS: Record<Timeframe, number | null> = {
   '24h': 24 * 60 * 60,
@@ -357,11 +1068,13 @@ export const TIMEFRAME_SECONDS: Record<Timeframe, number | null> = {
   'all': null,
 };
 
+export const TIMEFRAMES = Object.keys(TIMEFRAME_SECONDS) as Timeframe[];
+
 // ============ Status Event Types ============
 
 export interface StatusEvent {
   id: string;
-  type: 'info' | 'progress' | 'success' | 'error' | 'warning' | 'connected';
+  type: 'info' | 'progress' | 'success' | 'error' | 'warning' | 'alert' | 'connected';
   message: string;
   timestamp: number;
   wallet?: {
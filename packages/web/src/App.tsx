@@ -1,25 +1,36 @@
 import { useState } from 'react';
-import type { Timeframe } from '@funeral-vision/shared';
+import type { CostBasisMethod, Timeframe } from '@funeral-vision/shared';
 import { WalletInput } from './components/WalletInput';
 import { PnLSummaryCards } from './components/PnLSummaryCards';
 import { TradesTable } from './components/TradesTable';
 import { PositionsTable } from './components/PositionsTable';
 import { TimeframeSelector } from './components/TimeframeSelector';
+import { CostBasisSelector } from './components/CostBasisSelector';
 import { WalletCatalog } from './components/WalletCatalog';
 import { StatusLog } from './components/StatusLog';
 import { useWalletPnL } from './hooks/useWalletPnL';
 import { WalletProfileCard } from './components/WalletProfile';
+import { FarmerReportCard } from './components/FarmerReport';
+import { LeadersFollowersCard } from './components/LeadersFollowers';
+import { CoTradingClusters } from './components/CoTradingClusters';
+import { TokenPage } from './components/TokenPage';
 import { useWalletProfile } from './hooks/useWalletProfile';
+import { HistoryCoverageBar } from './components/HistoryCoverageBar';
+import { FollowabilityChart } from './components/FollowabilityChart';
+import { PaperTrading } from './components/PaperTrading';
+import { UsageBadge } from './components/UsageBadge';
 
-type ViewMode = 'catalog' | 'single';
+type ViewMode = 'catalog' | 'single' | 'paper' | 'clusters' | 'token';
 
 function App() {
   const [viewMode, setViewMode] = useState<ViewMode>('catalog');
   const [walletAddress, setWalletAddress] = useState<string>('');
+  const [tokenMint, setTokenMint] = useState<string>('');
   const [timeframe, setTimeframe] = useState<Timeframe>('all');
-  const [activeTab, setActiveTab] = useState<'trades' | 'positions' | 'profile'>('positions');
+  const [costBasis, setCostBasis] = useState<CostBasisMethod>('fifo');
+  const [activeTab, setActiveTab] = useState<'trades' | 'positions' | 'profile' | 'follow'>('positions');
 
-  const { data, isLoading, error, refetch } = useWalletPnL(walletAddress, timeframe);
+  const { data, isLoading, error, refetch } = useWalletPnL(walletAddress, timeframe, costBasis);
   const { data: profile, isLoading: isProfileLoading } = useWalletProfile(walletAddress);
 
   const handleSelectWallet = (address: string) => {
@@ -27,6 +38,11 @@ function App() {
     setViewMode('single');
   };
 
+  const handleSelectToken = (mint: string) => {
+    setTokenMint(mint);
+    setViewMode('token');
+  };
+
   const handleBackToCatalog = () => {
     setWalletAddress('');
     setViewMode('catalog');
@@ -66,7 +82,28 @@ function App() {
                 >
                   Single Wallet
                 </button>
+                <button
+                  onClick={() => setViewMode('paper')}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    viewMode === 'paper'
+                      ? 'bg-solana-purple text-white'
+                      : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  Paper Trading
+                </button>
+                <button
+                  onClick={() => setViewMode('clusters')}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    viewMode === 'clusters'
+                      ? 'bg-solana-purple text-white'
+                      : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  Clusters
+                </button>
               </div>
+              <UsageBadge />
               <div className="text-sm text-gray-400">
                 v1.0.0
               </div>
@@ -80,6 +117,20 @@ function App() {
         {viewMode === 'catalog' ? (
           /* Catalog View */
           <WalletCatalog onSelectWallet={handleSelectWallet} />
+        ) : viewMode === 'paper' ? (
+          <PaperTrading onSelectWallet={handleSelectWallet} />
+        ) : viewMode === 'clusters' ? (
+          <CoTradingClusters onSelectWallet={handleSelectWallet} />
+        ) : viewMode === 'token' ? (
+          <>
+            <button
+              onClick={() => setViewMode(walletAddress ? 'single' : 'catalog')}
+              className="mb-4 text-sm text-gray-400 hover:text-white flex items-center gap-1"
+            >
+              ← Back to {walletAddress ? 'Wallet' : 'Catalog'}
+            </button>
+            <TokenPage mint={tokenMint} onSelectWallet={handleSelectWallet} />
+          </>
         ) : (
           /* Single Wallet View */
           <>
@@ -113,10 +164,16 @@ function App() {
               <>
                 {/* Timeframe Selector */}
                 <div className="mb-6 flex items-center justify-between">
-                  <TimeframeSelector
-                    value={timeframe}
-                    onChange={setTimeframe}
-                  />
+                  <div className="flex items-center gap-3">
+                    <TimeframeSelector
+                      value={timeframe}
+                      onChange={setTimeframe}
+                    />
+                    <CostBasisSelector
+                      value={costBasis}
+                      onChange={setCostBasis}
+                    />
+                  </div>
                   <button
                     onClick={() => refetch()}
                     disabled={isLoading}
@@ -126,6 +183,11 @@ function App() {
                   </button>
                 </div>
 
+                {/* History coverage / deep backfill */}
+                <div className="mb-6">
+                  <HistoryCoverageBar walletAddress={walletAddress} onBackfillComplete={() => refetch()} />
+                </div>
+
                 {/* PnL Summary Cards */}
                 <div className="mb-8">
                   <PnLSummaryCards data={data} isLoading={isLoading} />
@@ -164,21 +226,47 @@ function App() {
                     >
                       Profile
                     </button>
+                    <button
+                      onClick={() => setActiveTab('follow')}
+                      className={`pb-3 px-2 font-medium transition-colors ${
+                        activeTab === 'follow'
+                          ? 'text-white border-b-2 border-solana-green'
+                          : 'text-gray-400 hover:text-gray-300'
+                      }`}
+                    >
+                      Follow Curve
+                    </button>
                   </div>
                 </div>
 
                 {/* Tab Content */}
                 {activeTab === 'positions' && (
-                  <PositionsTable positions={data?.positions || []} isLoading={isLoading} />
+                  <PositionsTable
+                    positions={data?.positions || []}
+                    isLoading={isLoading}
+                    onSelectToken={handleSelectToken}
+                    walletAddress={walletAddress}
+                    timeframe={timeframe}
+                    costBasis={costBasis}
+                  />
                 )}
                 {activeTab === 'trades' && (
                   <TradesTable
                     walletAddress={walletAddress}
                     timeframe={timeframe}
+                    costBasis={costBasis}
+                    onSelectToken={handleSelectToken}
                   />
                 )}
                 {activeTab === 'profile' && (
-                  <WalletProfileCard profile={profile} isLoading={isProfileLoading} />
+                  <div className="space-y-4">
+                    <WalletProfileCard profile={profile} isLoading={isProfileLoading} />
+                    <FarmerReportCard walletAddress={walletAddress} />
+                    <LeadersFollowersCard walletAddress={walletAddress} onSelectWallet={handleSelectWallet} />
+                  </div>
+                )}
+                {activeTab === 'follow' && (
+                  <FollowabilityChart walletAddress={walletAddress} />
                 )}
               </>
             )}
@@ -1,4 +1,20 @@
-import type { PnLSummary, Timeframe, Trade, Position, WalletProfile, WalletRanking } from '@funeral-vision/shared';
+import type {
+  PnLSummary,
+  Timeframe,
+  CostBasisMethod,
+  Realization,
+  TradeQuery,
+  TradePage,
+  Position,
+  WalletProfile,
+  WalletRanking,
+  FarmerReport,
+  HistoryCoverage,
+  SlippageModel,
+  FollowabilityCurve,
+  FollowSweepRanking,
+  SlippageProfile,
+} from '@funeral-vision/shared';
 
 const API_BASE = '/api';
 
@@ -8,16 +24,9 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
-export interface TradesResponse {
-  trades: Trade[];
-  total: number;
-  page: number;
-  pageSize: number;
-  totalPages: number;
-}
-
 export interface PositionsResponse {
   positions: Position[];
+  costBasisMethod: CostBasisMethod;
 }
 
 export interface WalletStatus {
@@ -25,10 +34,21 @@ export interface WalletStatus {
   isSyncing: boolean;
   lastSyncedAt?: number;
   totalTransactions: number;
+  history: HistoryCoverage;
 }
 
 export type { WalletProfile } from '@funeral-vision/shared';
+export type { FarmerEvidence, FarmerReport, FarmerSignal, FarmerVerdict } from '@funeral-vision/shared';
 export type { WalletRanking } from '@funeral-vision/shared';
+export type { TradeQuery, TradePage, TradeSortField, SortOrder } from '@funeral-vision/shared';
+export type { Realization, RealizedLot } from '@funeral-vision/shared';
+export type {
+  SlippageModel,
+  SlippageProfile,
+  FollowabilityCurve,
+  FollowSweepPoint,
+  FollowSweepRanking,
+} from '@funeral-vision/shared';
 
 /**
  * Analyze a wallet and get PnL summary
@@ -36,9 +56,10 @@ export type { WalletRanking } from '@funeral-vision/shared';
 export async function analyzeWallet(
   address: string,
   timeframe: Timeframe = 'all',
-  refresh = false
+  refresh = false,
+  costBasis: CostBasisMethod = 'fifo'
 ): Promise<PnLSummary> {
-  const params = new URLSearchParams({ timeframe });
+  const params = new URLSearchParams({ timeframe, costBasis });
   if (refresh) params.set('refresh', 'true');
 
   const response = await fetch(`${API_BASE}/wallet/${address}/analyze?${params}`);
@@ -52,22 +73,22 @@ export async function analyzeWallet(
 }
 
 /**
- * Get trades for a wallet
+ * Get one page of a wallet's trades, filtered and sorted by the API
  */
 export async function getTrades(
   address: string,
   timeframe: Timeframe = 'all',
-  page = 1,
-  pageSize = 50
-): Promise<TradesResponse> {
-  const params = new URLSearchParams({
-    timeframe,
-    page: page.toString(),
-    pageSize: pageSize.toString(),
-  });
+  query: TradeQuery = {}
+): Promise<TradePage> {
+  const params = new URLSearchParams({ timeframe });
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key === 'tokenMint' ? 'mint' : key, String(value));
+    }
+  }
 
   const response = await fetch(`${API_BASE}/wallet/${address}/trades?${params}`);
-  const result: ApiResponse<TradesResponse> = await response.json();
+  const result: ApiResponse<TradePage> = await response.json();
 
   if (!result.success || !result.data) {
     throw new Error(result.error || 'Failed to fetch trades');
@@ -79,8 +100,11 @@ export async function getTrades(
 /**
  * Get positions for a wallet
  */
-export async function getPositions(address: string): Promise<Position[]> {
-  const response = await fetch(`${API_BASE}/wallet/${address}/positions`);
+export async function getPositions(
+  address: string,
+  costBasis: CostBasisMethod = 'fifo'
+): Promise<Position[]> {
+  const response = await fetch(`${API_BASE}/wallet/${address}/positions?costBasis=${costBasis}`);
   const result: ApiResponse<PositionsResponse> = await response.json();
 
   if (!result.success || !result.data) {
@@ -90,6 +114,37 @@ export async function getPositions(address: string): Promise<Position[]> {
   return result.data.positions;
 }
 
+export interface RealizationFilters {
+  mint?: string;
+  from?: number;
+  to?: number;
+  timeframe?: Timeframe;
+  costBasis?: CostBasisMethod;
+  limit?: number;
+}
+
+/**
+ * Get realized sells with the lots each one closed
+ */
+export async function getRealizations(
+  address: string,
+  filters: RealizationFilters = {}
+): Promise<Realization[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+
+  const response = await fetch(`${API_BASE}/wallet/${address}/realizations?${params}`);
+  const result: ApiResponse<{ realizations: Realization[] }> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch realizations');
+  }
+
+  return result.data.realizations;
+}
+
 /**
  * Get wallet sync status
  */
@@ -146,6 +201,20 @@ export async function getWalletProfile(address: string): Promise<WalletProfile>
   return result.data;
 }
 
+/**
+ * Get the copytrade-farmer report for a wallet (refresh recomputes it from cached trades)
+ */
+export async function getFarmerReport(address: string, refresh = false): Promise<FarmerReport> {
+  const response = await fetch(`${API_BASE}/wallet/${address}/farmer-report${refresh ? '?refresh=1' : ''}`);
+  const result: ApiResponse<FarmerReport> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch farmer report');
+  }
+
+  return result.data;
+}
+
 /**
  * Get ranked profitable wallets (cached data only)
  */
@@ -178,7 +247,8 @@ export async function getProfitableWallets(params: {
  */
 export async function calculateFollowScores(params: {
   delaySeconds?: number;
-  slippageModel?: 'conservative' | 'moderate' | 'aggressive';
+  slippageModel?: SlippageModel;
+  slippageProfileId?: number;
 } = {}): Promise<{ scored: number }> {
   const response = await fetch(`${API_BASE}/wallet/follow-score/calculate-all`, {
     method: 'POST',
@@ -186,6 +256,7 @@ export async function calculateFollowScores(params: {
     body: JSON.stringify({
       delaySeconds: params.delaySeconds ?? 5,
       slippageModel: params.slippageModel ?? 'moderate',
+      slippageProfileId: params.slippageProfileId,
     }),
   });
   const result: ApiResponse<{ scored: number }> = await response.json();
@@ -197,9 +268,99 @@ export async function calculateFollowScores(params: {
   return result.data;
 }
 
+export interface FollowSweepGrid {
+  delays?: number[];
+  slippageModels?: SlippageModel[];
+}
+
+/**
+ * Sweep one wallet over a grid of delays and slippage models (server defaults when omitted)
+ */
+export async function runFollowSweep(address: string, grid: FollowSweepGrid = {}): Promise<FollowabilityCurve> {
+  const response = await fetch(`${API_BASE}/wallet/${address}/follow-sweep`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(grid),
+  });
+  const result: ApiResponse<FollowabilityCurve> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to run follow sweep');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get a wallet's stored followability curve; null if it has never been swept
+ */
+export async function getFollowSweep(address: string): Promise<FollowabilityCurve | null> {
+  const response = await fetch(`${API_BASE}/wallet/${address}/follow-sweep`);
+  if (response.status === 404) return null;
+  const result: ApiResponse<FollowabilityCurve> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch follow sweep');
+  }
+
+  return result.data;
+}
+
+/**
+ * Sweep every catalog wallet
+ */
+export async function runFollowSweepAll(grid: FollowSweepGrid = {}): Promise<{ swept: number; failed: number }> {
+  const response = await fetch(`${API_BASE}/wallet/follow-sweep/run-all`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(grid),
+  });
+  const result: ApiResponse<{ swept: number; failed: number }> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to sweep wallets');
+  }
+
+  return result.data;
+}
+
+/**
+ * Rank swept catalog wallets at one delay and slippage model
+ */
+export async function getFollowSweepRankings(
+  delaySeconds: number,
+  slippageModel: SlippageModel
+): Promise<FollowSweepRanking[]> {
+  const searchParams = new URLSearchParams({ delay: String(delaySeconds), slippageModel });
+  const response = await fetch(`${API_BASE}/wallet/follow-sweep/rankings?${searchParams.toString()}`);
+  const result: ApiResponse<FollowSweepRanking[]> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch follow sweep rankings');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get user-defined slippage profiles
+ */
+export async function getSlippageProfiles(): Promise<SlippageProfile[]> {
+  const response = await fetch(`${API_BASE}/wallet/slippage-profiles`);
+  const result: ApiResponse<SlippageProfile[]> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch slippage profiles');
+  }
+
+  return result.data;
+}
+
 // ============ CATALOG API ============
 
-import type { CatalogWallet, WalletImportPayload, AggregatedStats } from '@funeral-vision/shared';
+import type { CatalogWallet, WalletImportPayload, SyncJob } from '@funeral-vision/shared';
+
+export type { SyncJob } from '@funeral-vision/shared';
 
 export interface ImportResult {
   imported: number;
@@ -207,13 +368,6 @@ export interface ImportResult {
   failedDetails: { address: string; error: string }[];
 }
 
-export interface RefreshResult {
-  total: number;
-  successful: number;
-  failed: number;
-  results: { address: string; success: boolean; error?: string; trades?: number }[];
-}
-
 /**
  * Get all wallets in the catalog
  */
@@ -264,11 +418,11 @@ export async function deleteWallet(address: string, userId = 'default'): Promise
 }
 
 /**
- * Update wallet metadata
+ * Update wallet metadata. Omitted fields are left alone; null clears name or emoji.
  */
 export async function updateWalletMetadata(
   address: string,
-  data: { name?: string; emoji?: string; alertsOn?: boolean },
+  data: { name?: string | null; emoji?: string | null; alertsOn?: boolean },
   userId = 'default'
 ): Promise<void> {
   const response = await fetch(`${API_BASE}/wallet/catalog/${address}?userId=${userId}`, {
@@ -284,19 +438,19 @@ export async function updateWalletMetadata(
 }
 
 /**
- * Analyze multiple wallets and get aggregated stats
+ * Queue a bulk analysis job; the aggregated stats land on the job when it succeeds
  */
 export async function bulkAnalyzeWallets(
   addresses: string[],
   timeframe: Timeframe = 'all',
   userId = 'default'
-): Promise<AggregatedStats> {
+): Promise<SyncJob> {
   const response = await fetch(`${API_BASE}/wallet/catalog/bulk-analyze`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ addresses, timeframe, userId }),
   });
-  const result: ApiResponse<AggregatedStats> = await response.json();
+  const result: ApiResponse<SyncJob> = await response.json();
 
   if (!result.success || !result.data) {
     throw new Error(result.error || 'Failed to analyze wallets');
@@ -306,20 +460,20 @@ export async function bulkAnalyzeWallets(
 }
 
 /**
- * Refresh data for selected wallets
+ * Queue a refresh job for selected wallets
  * @param forceRefresh - If true, re-fetches all transactions. If false (default), only fetches new ones.
  */
 export async function refreshSelectedWallets(
   addresses: string[],
   userId = 'default',
   forceRefresh = false
-): Promise<RefreshResult> {
+): Promise<SyncJob> {
   const response = await fetch(`${API_BASE}/wallet/catalog/refresh-selected`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ addresses, userId, forceRefresh }),
   });
-  const result: ApiResponse<RefreshResult> = await response.json();
+  const result: ApiResponse<SyncJob> = await response.json();
 
   if (!result.success || !result.data) {
     throw new Error(result.error || 'Failed to refresh wallets');
@@ -327,3 +481,412 @@ export async function refreshSelectedWallets(
 
   return result.data;
 }
+
+/**
+ * Queue a history backfill for a wallet
+ * @param until - Stop at this date (unix seconds); omit to backfill to the wallet's first transaction
+ */
+export async function backfillWalletHistory(address: string, until?: number): Promise<SyncJob> {
+  const response = await fetch(`${API_BASE}/wallet/${address}/backfill`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ until }),
+  });
+  const result: ApiResponse<SyncJob> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to start backfill');
+  }
+
+  return result.data;
+}
+
+// ============ JOBS API ============
+
+/**
+ * Get a sync job with its progress and per-wallet results
+ */
+export async function getSyncJob(id: number): Promise<SyncJob> {
+  const response = await fetch(`${API_BASE}/wallet/jobs/${id}`);
+  const result: ApiResponse<SyncJob> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch job');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get queued/running sync jobs (used to re-attach after a page reload)
+ */
+export async function getActiveSyncJobs(userId = 'default'): Promise<SyncJob[]> {
+  const response = await fetch(`${API_BASE}/wallet/jobs?active=true&userId=${userId}`);
+  const result: ApiResponse<SyncJob[]> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch jobs');
+  }
+
+  return result.data;
+}
+
+/**
+ * Cancel a queued or running sync job
+ */
+export async function cancelSyncJob(id: number): Promise<SyncJob> {
+  const response = await fetch(`${API_BASE}/wallet/jobs/${id}`, { method: 'DELETE' });
+  const result: ApiResponse<SyncJob> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to cancel job');
+  }
+
+  return result.data;
+}
+
+// ============ ALERTS API ============
+
+import type { AlertEvent, AlertRule, AlertRuleType } from '@funeral-vision/shared';
+
+export type { AlertEvent, AlertRule, AlertRuleType } from '@funeral-vision/shared';
+
+/**
+ * Get recently fired alerts
+ */
+export async function getAlerts(params: { wallet?: string; limit?: number } = {}): Promise<AlertEvent[]> {
+  const searchParams = new URLSearchParams();
+  if (params.wallet) searchParams.set('wallet', params.wallet);
+  if (params.limit !== undefined) searchParams.set('limit', String(params.limit));
+
+  const response = await fetch(`${API_BASE}/wallet/alerts?${searchParams.toString()}`);
+  const result: ApiResponse<AlertEvent[]> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch alerts');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get configured alert rules
+ */
+export async function getAlertRules(): Promise<AlertRule[]> {
+  const response = await fetch(`${API_BASE}/wallet/alerts/rules`);
+  const result: ApiResponse<AlertRule[]> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch alert rules');
+  }
+
+  return result.data;
+}
+
+/**
+ * Create an alert rule
+ */
+export async function createAlertRule(rule: {
+  type: AlertRuleType;
+  threshold?: number | null;
+  walletAddress?: string | null;
+}): Promise<{ id: number }> {
+  const response = await fetch(`${API_BASE}/wallet/alerts/rules`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule),
+  });
+  const result: ApiResponse<{ id: number }> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to create alert rule');
+  }
+
+  return result.data;
+}
+
+/**
+ * Delete an alert rule
+ */
+export async function deleteAlertRule(id: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/wallet/alerts/rules/${id}`, { method: 'DELETE' });
+  const result: ApiResponse<{ deleted: string }> = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to delete alert rule');
+  }
+}
+
+// ============ SCHEDULER API ============
+
+import type { SchedulerState } from '@funeral-vision/shared';
+
+export type { SchedulerState } from '@funeral-vision/shared';
+
+/**
+ * Get background scheduler state
+ */
+export async function getSchedulerState(): Promise<SchedulerState> {
+  const response = await fetch(`${API_BASE}/wallet/scheduler`);
+  const result: ApiResponse<SchedulerState> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch scheduler state');
+  }
+
+  return result.data;
+}
+
+/**
+ * Pause/resume the scheduler or change its intervals
+ */
+export async function updateScheduler(
+  data: { paused?: boolean; defaultIntervalSec?: number; alertsIntervalSec?: number }
+): Promise<SchedulerState> {
+  const response = await fetch(`${API_BASE}/wallet/scheduler`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  const result: ApiResponse<SchedulerState> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to update scheduler');
+  }
+
+  return result.data;
+}
+
+// ============ USAGE API ============
+
+import type { HeliusUsage } from '@funeral-vision/shared';
+
+export type { HeliusUsage } from '@funeral-vision/shared';
+
+/**
+ * Get Helius credit usage for a UTC day (default today)
+ */
+export async function getUsage(day?: string): Promise<HeliusUsage> {
+  const params = day ? `?day=${day}` : '';
+  const response = await fetch(`${API_BASE}/wallet/usage${params}`);
+  const result: ApiResponse<HeliusUsage> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch usage');
+  }
+
+  return result.data;
+}
+
+// ============ PAPER TRADING API ============
+
+import type { PaperPortfolio, PaperPortfolioDetail, PaperPortfolioInput } from '@funeral-vision/shared';
+
+export type {
+  PaperPortfolio,
+  PaperPortfolioDetail,
+  PaperPortfolioInput,
+  PaperPosition,
+  PaperFill,
+  PaperEquityPoint,
+} from '@funeral-vision/shared';
+
+/**
+ * Get paper portfolios with balances
+ */
+export async function getPaperPortfolios(): Promise<PaperPortfolio[]> {
+  const response = await fetch(`${API_BASE}/wallet/paper-portfolios`);
+  const result: ApiResponse<PaperPortfolio[]> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch paper portfolios');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get a paper portfolio with open positions, recent fills and its equity curve
+ */
+export async function getPaperPortfolio(id: number): Promise<PaperPortfolioDetail> {
+  const response = await fetch(`${API_BASE}/wallet/paper-portfolios/${id}`);
+  const result: ApiResponse<PaperPortfolioDetail> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch paper portfolio');
+  }
+
+  return result.data;
+}
+
+/**
+ * Create a paper portfolio following catalog wallets
+ */
+export async function createPaperPortfolio(input: PaperPortfolioInput): Promise<{ id: number }> {
+  const response = await fetch(`${API_BASE}/wallet/paper-portfolios`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  const result: ApiResponse<{ id: number }> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to create paper portfolio');
+  }
+
+  return result.data;
+}
+
+/**
+ * Rebuild a paper portfolio from its start date
+ */
+export async function replayPaperPortfolio(id: number): Promise<{ fills: number }> {
+  const response = await fetch(`${API_BASE}/wallet/paper-portfolios/${id}/replay`, { method: 'POST' });
+  const result: ApiResponse<{ fills: number }> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to replay paper portfolio');
+  }
+
+  return result.data;
+}
+
+/**
+ * Delete a paper portfolio
+ */
+export async function deletePaperPortfolio(id: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/wallet/paper-portfolios/${id}`, { method: 'DELETE' });
+  const result: ApiResponse<{ deleted: string }> = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to delete paper portfolio');
+  }
+}
+
+// ============ CO-TRADING API ============
+
+import type { ClusterAnalysis, CoTradingSettings, LeadersFollowers } from '@funeral-vision/shared';
+
+export type {
+  ClusterAnalysis,
+  CoTradingPair,
+  CoTradingSettings,
+  CoTradingWallet,
+  LeadersFollowers,
+  WalletCluster,
+} from '@funeral-vision/shared';
+
+function coTradingSearchParams(settings: Partial<CoTradingSettings>): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  if (settings.windowSeconds !== undefined) searchParams.set('window', String(settings.windowSeconds));
+  if (settings.minCoEntries !== undefined) searchParams.set('minCoEntries', String(settings.minCoEntries));
+  if (settings.minStrength !== undefined) searchParams.set('minStrength', String(settings.minStrength));
+  return searchParams;
+}
+
+/**
+ * Get co-trading clusters across the catalog
+ */
+export async function getClusterAnalysis(settings: Partial<CoTradingSettings> = {}): Promise<ClusterAnalysis> {
+  const response = await fetch(`${API_BASE}/wallet/analysis/clusters?${coTradingSearchParams(settings).toString()}`);
+  const result: ApiResponse<ClusterAnalysis> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch wallet clusters');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get the catalog wallets that lead, follow or co-trade with a wallet
+ */
+export async function getLeadersFollowers(
+  address: string,
+  settings: Partial<CoTradingSettings> = {}
+): Promise<LeadersFollowers> {
+  const response = await fetch(
+    `${API_BASE}/wallet/${address}/leaders-followers?${coTradingSearchParams(settings).toString()}`
+  );
+  const result: ApiResponse<LeadersFollowers> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch leaders and followers');
+  }
+
+  return result.data;
+}
+
+// ============ TOKEN API ============
+
+import type { TokenActivity, TokenHolders } from '@funeral-vision/shared';
+
+export type {
+  TokenActivity,
+  TokenEntry,
+  TokenFlowBucket,
+  TokenHolder,
+  TokenHolders,
+  TokenInfo,
+  TokenTrade,
+} from '@funeral-vision/shared';
+
+/**
+ * Get catalog-wide activity in a token: launch, first entries, net flow and recent trades
+ */
+export async function getTokenActivity(mint: string): Promise<TokenActivity> {
+  const response = await fetch(`${API_BASE}/wallet/tokens/${mint}/activity`);
+  const result: ApiResponse<TokenActivity> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch token activity');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get each catalog wallet's position in a token
+ */
+export async function getTokenHolders(mint: string): Promise<TokenHolders> {
+  const response = await fetch(`${API_BASE}/wallet/tokens/${mint}/holders`);
+  const result: ApiResponse<TokenHolders> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch token holders');
+  }
+
+  return result.data;
+}
+
+// ============ EXPORT API ============
+
+import type { ExportKind, ExportOptions } from '@funeral-vision/shared';
+
+export type { ExportKind, ExportFormat, ExportCurrency, ExportOptions } from '@funeral-vision/shared';
+
+/**
+ * Download a wallet's trades, positions or realizations as a CSV or JSON file
+ */
+export async function downloadExport(
+  address: string,
+  kind: ExportKind,
+  options: ExportOptions
+): Promise<{ blob: Blob; filename: string }> {
+  const params = new URLSearchParams({
+    format: options.format,
+    currency: options.currency,
+    timeframe: options.timeframe,
+    costBasis: options.costBasis,
+  });
+
+  const response = await fetch(`${API_BASE}/wallet/${address}/export/${kind}?${params}`);
+  if (!response.ok) {
+    const result: ApiResponse<never> = await response.json().catch(() => ({ success: false }));
+    throw new Error(result.error || 'Failed to export');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `${kind}.${options.format}`;
+  return { blob: await response.blob(), filename };
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { createAlertRule, deleteAlertRule, type AlertRuleType } from '../api';
+import { useAlerts, useAlertRules } from '../hooks/useAlerts';
+
+interface Props {
+  onSelectWallet?: (address: string) => void;
+}
+
+const RULE_LABELS: Record<AlertRuleType, string> = {
+  new_token: 'New token bought',
+  buy_size: 'Buy larger than (SOL)',
+  position_exit: 'Position fully exited',
+  pnl_cross: 'Realized PnL crosses (SOL)',
+};
+
+const THRESHOLD_RULES: AlertRuleType[] = ['buy_size', 'pnl_cross'];
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString();
+}
+
+export function AlertsPanel({ onSelectWallet }: Props) {
+  const queryClient = useQueryClient();
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [newRuleType, setNewRuleType] = useState<AlertRuleType>('new_token');
+  const [newThreshold, setNewThreshold] = useState('');
+  const [ruleError, setRuleError] = useState('');
+  const { data: alerts = [], isLoading } = useAlerts({ limit: 50 });
+  const { data: rules = [] } = useAlertRules();
+
+  const needsThreshold = THRESHOLD_RULES.includes(newRuleType);
+
+  const handleAddRule = async () => {
+    setRuleError('');
+    try {
+      await createAlertRule({
+        type: newRuleType,
+        threshold: needsThreshold ? parseFloat(newThreshold) : null,
+      });
+      setNewThreshold('');
+      await queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : 'Failed to add rule');
+    }
+  };
+
+  const handleDeleteRule = async (id: number) => {
+    try {
+      await deleteAlertRule(id);
+      await queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    } catch (err) {
+      console.error('Failed to delete alert rule:', err);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <button
+          type="button"
+          onClick={() => setIsCollapsed((prev) => !prev)}
+          className="flex items-center gap-2 text-lg font-semibold text-white hover:text-gray-200"
+          aria-expanded={!isCollapsed}
+        >
+          <span className="text-gray-400">{isCollapsed ? '▸' : '▾'}</span>
+          🔔 Alerts
+          {alerts.length > 0 && <span className="text-sm text-gray-400">({alerts.length})</span>}
+        </button>
+        {isLoading && <span className="text-sm text-gray-400">Loading...</span>}
+      </div>
+
+      {!isCollapsed && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Rules */}
+          <div className="space-y-2">
+            <div className="text-sm text-gray-400">
+              Rules apply to wallets with alerts turned on (🔔 in the catalog).
+            </div>
+            {rules.length === 0 && (
+              <div className="text-sm text-gray-500">No rules yet.</div>
+            )}
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-2 bg-gray-800/50 rounded text-sm">
+                <span className="text-gray-200">
+                  {RULE_LABELS[rule.type]}
+                  {rule.threshold !== null && ` ${rule.threshold}`}
+                  {rule.walletAddress && (
+                    <span className="ml-1 text-xs text-gray-500 font-mono">({rule.walletAddress.slice(0, 4)}…)</span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteRule(rule.id)}
+                  className="text-gray-500 hover:text-red-400"
+                  title="Remove rule"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <select
+                value={newRuleType}
+                onChange={(e) => setNewRuleType(e.target.value as AlertRuleType)}
+                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm flex-1"
+              >
+                {Object.entries(RULE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {needsThreshold && (
+                <input
+                  value={newThreshold}
+                  onChange={(e) => setNewThreshold(e.target.value)}
+                  className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm"
+                  placeholder="SOL"
+                  inputMode="decimal"
+                />
+              )}
+              <button
+                type="button"
+                onClick={handleAddRule}
+                disabled={needsThreshold && !newThreshold.trim()}
+                className="btn-secondary"
+              >
+                Add
+              </button>
+            </div>
+            {ruleError && <div className="text-xs text-red-400">{ruleError}</div>}
+          </div>
+
+          {/* History */}
+          <div className="lg:col-span-2 max-h-72 overflow-y-auto space-y-1">
+            {alerts.length === 0 && !isLoading && (
+              <div className="text-sm text-gray-500 py-4 text-center">
+                No alerts have fired yet.
+              </div>
+            )}
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex items-start justify-between gap-3 p-2 rounded hover:bg-gray-800/60 cursor-pointer text-sm"
+                onClick={() => onSelectWallet?.(alert.walletAddress)}
+              >
+                <span className="text-gray-200">{alert.message}</span>
+                <div className="flex items-center gap-2 flex-shrink-0 text-xs text-gray-500">
+                  {alert.signature && (
+                    <a
+                      href={`https://solscan.io/tx/${alert.signature}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-solana-purple hover:text-solana-green"
+                    >
+                      tx
+                    </a>
+                  )}
+                  <span>{formatTime(alert.createdAt)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
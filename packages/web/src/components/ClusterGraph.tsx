@@ -0,0 +1,88 @@
+import type { CoTradingWallet, WalletCluster } from '../api';
+
+interface Props {
+  cluster: WalletCluster;
+  wallets: Map<string, CoTradingWallet>;
+  onSelectWallet: (address: string) => void;
+}
+
+const SIZE = 320;
+const NODE_RADIUS = 9;
+
+function walletLabel(wallet: CoTradingWallet | undefined, address: string): string {
+  const name = wallet?.name || address.slice(0, 6);
+  return `${wallet?.emoji || '👛'} ${name.length > 14 ? `${name.slice(0, 13)}…` : name}`;
+}
+
+/**
+ * Cluster wallets on a circle, leader at the top. Edges point from the wallet
+ * that usually enters first to the one that follows; width scales with strength.
+ */
+export function ClusterGraph({ cluster, wallets, onSelectWallet }: Props) {
+  const center = SIZE / 2;
+  const radius = SIZE / 2 - 48;
+  const positions = new Map(
+    cluster.wallets.map((address, i) => {
+      const angle = -Math.PI / 2 + (i / cluster.wallets.length) * 2 * Math.PI;
+      return [address, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) }];
+    })
+  );
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto">
+      <defs>
+        <marker id={`arrow-${cluster.id}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M0,0 L10,5 L0,10 z" fill="#9945FF" />
+        </marker>
+      </defs>
+
+      {cluster.pairs.map((pair) => {
+        const from = positions.get(pair.leader === pair.walletB ? pair.walletB : pair.walletA)!;
+        const to = positions.get(pair.leader === pair.walletB ? pair.walletA : pair.walletB)!;
+        // Stop short of the node so the arrowhead stays visible
+        const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+        const endX = to.x - ((to.x - from.x) / length) * (NODE_RADIUS + 2);
+        const endY = to.y - ((to.y - from.y) / length) * (NODE_RADIUS + 2);
+
+        return (
+          <line
+            key={`${pair.walletA}-${pair.walletB}`}
+            x1={from.x}
+            y1={from.y}
+            x2={endX}
+            y2={endY}
+            stroke={pair.leader ? '#9945FF' : '#6b7280'}
+            strokeOpacity={0.4 + pair.strength * 0.6}
+            strokeWidth={1 + pair.strength * 4}
+            markerEnd={pair.leader ? `url(#arrow-${cluster.id})` : undefined}
+          >
+            <title>
+              {`${pair.coEntries} co-entries of ${pair.sharedMints} shared mints, median lag ${pair.medianEntryLagSec !== null ? Math.round(pair.medianEntryLagSec) : '–'}s`}
+            </title>
+          </line>
+        );
+      })}
+
+      {cluster.wallets.map((address) => {
+        const { x, y } = positions.get(address)!;
+        const isLeader = address === cluster.leader;
+        return (
+          <g key={address} onClick={() => onSelectWallet(address)} className="cursor-pointer">
+            <circle
+              cx={x}
+              cy={y}
+              r={NODE_RADIUS}
+              fill={isLeader ? '#9945FF' : '#1f2937'}
+              stroke={isLeader ? '#c4b5fd' : '#4b5563'}
+              strokeWidth={2}
+            />
+            <text x={x} y={y + NODE_RADIUS + 12} textAnchor="middle" className="fill-gray-300 text-[10px]">
+              {walletLabel(wallets.get(address), address)}
+            </text>
+            <title>{address}</title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
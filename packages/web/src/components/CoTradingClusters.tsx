@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import type { CoTradingSettings } from '@funeral-vision/shared';
+import { useClusterAnalysis } from '../hooks/useCoTrading';
+import { ClusterGraph } from './ClusterGraph';
+
+interface Props {
+  onSelectWallet: (address: string) => void;
+}
+
+const INPUT_CLASS = 'w-24 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm';
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+export function CoTradingClusters({ onSelectWallet }: Props) {
+  const [settings, setSettings] = useState<Partial<CoTradingSettings>>({});
+  const [windowSeconds, setWindowSeconds] = useState('');
+  const [minCoEntries, setMinCoEntries] = useState('');
+  const [minStrength, setMinStrength] = useState('');
+  const { data: analysis, isLoading, error } = useClusterAnalysis(settings);
+
+  const handleApply = () => {
+    setSettings({
+      ...(windowSeconds.trim() ? { windowSeconds: parseFloat(windowSeconds) } : {}),
+      ...(minCoEntries.trim() ? { minCoEntries: parseInt(minCoEntries, 10) } : {}),
+      ...(minStrength.trim() ? { minStrength: parseFloat(minStrength) / 100 } : {}),
+    });
+  };
+
+  const wallets = new Map((analysis?.wallets ?? []).map(w => [w.address, w]));
+  const nameOf = (address: string) => {
+    const wallet = wallets.get(address);
+    return wallet?.name ? `${wallet.emoji || '👛'} ${wallet.name}` : shortAddress(address);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+        <div className="flex items-end justify-between gap-4 flex-wrap">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Co-trading clusters</h3>
+            <p className="text-sm text-gray-400">
+              Catalog wallets that repeatedly enter the same mints within
+              {' '}{analysis?.windowSeconds ?? '…'}s of each other. Arrows point from the wallet that usually enters first.
+            </p>
+          </div>
+          <div className="flex items-end gap-2 text-sm">
+            <label className="space-y-1">
+              <span className="block text-gray-400">Window (s)</span>
+              <input
+                value={windowSeconds}
+                onChange={(e) => setWindowSeconds(e.target.value)}
+                placeholder={String(analysis?.windowSeconds ?? '')}
+                inputMode="numeric"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-gray-400">Min co-entries</span>
+              <input
+                value={minCoEntries}
+                onChange={(e) => setMinCoEntries(e.target.value)}
+                placeholder={String(analysis?.minCoEntries ?? '')}
+                inputMode="numeric"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-gray-400">Min strength %</span>
+              <input
+                value={minStrength}
+                onChange={(e) => setMinStrength(e.target.value)}
+                placeholder={analysis ? String(analysis.minStrength * 100) : ''}
+                inputMode="decimal"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <button type="button" onClick={handleApply} className="btn-secondary">
+              Apply
+            </button>
+          </div>
+        </div>
+        {error && <div className="text-sm text-red-400 mt-3">{error.message}</div>}
+      </div>
+
+      {isLoading && <div className="h-60 bg-gray-800/60 rounded animate-pulse" />}
+
+      {analysis && analysis.clusters.length === 0 && (
+        <div className="card text-center text-gray-500">
+          No co-trading clusters at these settings. Sync more wallets or loosen the thresholds.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {analysis?.clusters.map((cluster) => (
+          <div key={cluster.id} className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-white">
+                Cluster #{cluster.id} · {cluster.wallets.length} wallets
+              </h4>
+              <span className="text-sm text-gray-400">
+                avg strength {(cluster.avgStrength * 100).toFixed(0)}%
+              </span>
+            </div>
+            {cluster.leader && (
+              <p className="text-sm text-gray-400 mb-2">
+                Leader: <span className="text-solana-purple">{nameOf(cluster.leader)}</span>
+              </p>
+            )}
+            <ClusterGraph cluster={cluster} wallets={wallets} onSelectWallet={onSelectWallet} />
+            <table className="min-w-full text-xs text-left mt-3">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-800">
+                  <th className="py-1 pr-2">Leads → follows</th>
+                  <th className="py-1 pr-2">Co-entries</th>
+                  <th className="py-1 pr-2">Shared</th>
+                  <th className="py-1 pr-2">Median lag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cluster.pairs.map((pair) => {
+                  const [first, second] = pair.leader === pair.walletB
+                    ? [pair.walletB, pair.walletA]
+                    : [pair.walletA, pair.walletB];
+                  return (
+                    <tr key={`${pair.walletA}-${pair.walletB}`} className="border-b border-gray-800">
+                      <td className="py-1 pr-2 text-gray-200">
+                        {nameOf(first)} {pair.leader ? '→' : '↔'} {nameOf(second)}
+                      </td>
+                      <td className="py-1 pr-2 text-gray-300">
+                        {pair.coEntries}
+                        {pair.leader && <span className="text-gray-500"> ({pair.leaderEntries} led)</span>}
+                      </td>
+                      <td className="py-1 pr-2 text-gray-300">{pair.sharedMints}</td>
+                      <td className="py-1 pr-2 text-gray-300">
+                        {pair.medianEntryLagSec !== null ? `${Math.round(pair.medianEntryLagSec)}s` : '–'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { CostBasisMethod } from '@funeral-vision/shared';
+
+interface CostBasisSelectorProps {
+  value: CostBasisMethod;
+  onChange: (method: CostBasisMethod) => void;
+}
+
+const methods: { value: CostBasisMethod; label: string; title: string }[] = [
+  { value: 'fifo', label: 'FIFO', title: 'First in, first out' },
+  { value: 'lifo', label: 'LIFO', title: 'Last in, first out' },
+  { value: 'average', label: 'AVG', title: 'Weighted-average cost' },
+  { value: 'hifo', label: 'HIFO', title: 'Highest cost first' },
+];
+
+export function CostBasisSelector({ value, onChange }: CostBasisSelectorProps) {
+  return (
+    <div className="flex gap-1 bg-gray-800 p-1 rounded-lg" title="Cost-basis method">
+      {methods.map((method) => (
+        <button
+          key={method.value}
+          onClick={() => onChange(method.value)}
+          title={method.title}
+          className={`px-3 py-2 rounded-md text-xs font-medium transition-colors ${
+            value === method.value
+              ? 'bg-solana-purple text-white'
+              : 'text-gray-400 hover:text-white hover:bg-gray-700'
+          }`}
+        >
+          {method.label}
+        </button>
+      ))}
+    </div>
+  );
+}
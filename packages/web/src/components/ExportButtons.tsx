@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { CostBasisMethod, Timeframe } from '@funeral-vision/shared';
+import { downloadExport, type ExportCurrency, type ExportFormat, type ExportKind } from '../api';
+
+interface Props {
+  walletAddress: string;
+  kind: ExportKind;
+  timeframe: Timeframe;
+  costBasis: CostBasisMethod;
+  label?: string;
+}
+
+const FORMATS: ExportFormat[] = ['csv', 'json'];
+
+/**
+ * Currency picker plus one download button per format
+ */
+export function ExportButtons({ walletAddress, kind, timeframe, costBasis, label = 'Export' }: Props) {
+  const [currency, setCurrency] = useState<ExportCurrency>('sol');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const { blob, filename } = await downloadExport(walletAddress, kind, { format, currency, timeframe, costBasis });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-gray-400">{label}</span>
+      <select
+        value={currency}
+        onChange={(e) => setCurrency(e.target.value as ExportCurrency)}
+        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm"
+        title="SOL values, or USD at each day's SOL/USD rate"
+      >
+        <option value="sol">SOL</option>
+        <option value="usd">USD</option>
+      </select>
+      {FORMATS.map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="btn-secondary disabled:opacity-50"
+        >
+          {exporting === format ? 'Exporting…' : format.toUpperCase()}
+        </button>
+      ))}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+}
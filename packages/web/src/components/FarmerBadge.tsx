@@ -0,0 +1,28 @@
+import type { FarmerVerdict } from '../api';
+
+interface Props {
+  verdict?: FarmerVerdict;
+  score?: number;
+}
+
+const BADGE_STYLES: Partial<Record<FarmerVerdict, { label: string; className: string }>> = {
+  likely: { label: 'Farmer', className: 'bg-red-900/50 text-red-400' },
+  suspicious: { label: 'Suspicious', className: 'bg-yellow-900/50 text-yellow-400' },
+};
+
+/**
+ * Copytrade-farmer verdict; renders nothing for clean wallets or without a report
+ */
+export function FarmerBadge({ verdict, score }: Props) {
+  const style = verdict ? BADGE_STYLES[verdict] : undefined;
+  if (!style) return null;
+
+  return (
+    <span
+      className={`text-xs px-1.5 py-0.5 rounded whitespace-nowrap ${style.className}`}
+      title={`Copytrade-farmer score ${((score ?? 0) * 100).toFixed(0)}% (see the wallet's profile tab for evidence)`}
+    >
+      ⚠️ {style.label}
+    </span>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { getFarmerReport, type FarmerSignal, type FarmerVerdict } from '../api';
+import { useFarmerReport } from '../hooks/useFarmerReport';
+
+interface Props {
+  walletAddress: string;
+}
+
+const SIGNAL_LABELS: Record<FarmerSignal, { label: string; description: string }> = {
+  follower_sells: {
+    label: 'Sells into followers',
+    description: 'Sells landing within ~20 slots of other catalog wallets buying the same token',
+  },
+  follower_inflow: {
+    label: 'Follower inflow',
+    description: 'Share of sell volume matched by those catalog buys',
+  },
+  quick_round_trips: {
+    label: 'Quick round trips',
+    description: 'Positions bought and sold within 60 seconds',
+  },
+  launch_buys: {
+    label: 'Launch buys',
+    description: 'First buys right at the token mint or pool creation',
+  },
+};
+
+const VERDICT_STYLES: Record<FarmerVerdict, { label: string; className: string }> = {
+  likely: { label: 'Likely farmer', className: 'text-red-400' },
+  suspicious: { label: 'Suspicious', className: 'text-yellow-400' },
+  clean: { label: 'No farming signals', className: 'text-green-400' },
+  insufficient_data: { label: 'Not enough data', className: 'text-gray-400' },
+};
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+export function FarmerReportCard({ walletAddress }: Props) {
+  const { data: report, isLoading, refetch } = useFarmerReport(walletAddress);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    try {
+      setIsRefreshing(true);
+      await getFarmerReport(walletAddress, true);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to refresh farmer report:', err);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 bg-gray-900/60 border border-gray-800 rounded-lg text-gray-400">
+        Loading farmer report...
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const verdict = VERDICT_STYLES[report.verdict];
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Copytrade-farmer report</h3>
+          <p className="text-sm text-gray-400">
+            <span className={`font-semibold ${verdict.className}`}>{verdict.label}</span>
+            {report.verdict !== 'insufficient_data' && ` · score ${(report.score * 100).toFixed(0)}%`}
+            {' '}· computed {new Date(report.computedAt * 1000).toLocaleString()}
+          </p>
+        </div>
+        <button type="button" onClick={handleRefresh} disabled={isRefreshing} className="btn-secondary">
+          {isRefreshing ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {report.signals.map((signal) => (
+          <div key={signal.signal} className="p-3 bg-gray-800/60 rounded" title={SIGNAL_LABELS[signal.signal].description}>
+            <div className="text-sm text-gray-400">{SIGNAL_LABELS[signal.signal].label}</div>
+            <div className="text-xl font-semibold text-white">{(signal.score * 100).toFixed(0)}%</div>
+            <div className="text-xs text-gray-500">
+              {signal.hits} of {signal.sampleSize} · weight {(signal.weight * 100).toFixed(0)}%
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="text-sm text-gray-400 mb-2">Evidence ({report.evidence.length} trades)</div>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-800">
+                <th className="py-2 pr-3">Time</th>
+                <th className="py-2 pr-3">Signal</th>
+                <th className="py-2 pr-3">Token</th>
+                <th className="py-2 pr-3">Detail</th>
+                <th className="py-2 pr-3">Related</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.evidence.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-4 text-center text-gray-500">No evidence trades</td>
+                </tr>
+              )}
+              {report.evidence.map((item) => (
+                <tr key={`${item.signal}-${item.trade.signature}`} className="border-b border-gray-800">
+                  <td className="py-2 pr-3 text-gray-300 whitespace-nowrap">
+                    <a
+                      href={`https://solscan.io/tx/${item.trade.signature}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      {new Date(item.trade.timestamp * 1000).toLocaleString()}
+                    </a>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-400">{SIGNAL_LABELS[item.signal].label}</td>
+                  <td className="py-2 pr-3 text-white">{item.tokenSymbol || shortAddress(item.tokenMint)}</td>
+                  <td className="py-2 pr-3 text-gray-300">{item.detail}</td>
+                  <td className="py-2 pr-3 text-xs font-mono text-gray-500">
+                    {item.related.map((related) => (
+                      <div key={related.signature}>
+                        {related.walletAddress !== walletAddress && `${shortAddress(related.walletAddress)} `}
+                        {related.type} {related.solAmount.toFixed(3)}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import {
+  DEFAULT_SWEEP_DELAYS_SECONDS,
+  SLIPPAGE_MODELS,
+  type SlippageModel,
+} from '@funeral-vision/shared';
+import { runFollowSweepAll } from '../api';
+import { useFollowSweepRankings } from '../hooks/useFollowSweep';
+
+interface Props {
+  onSelect?: (address: string) => void;
+}
+
+function formatDelay(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${(seconds / 60).toFixed(seconds % 60 === 0 ? 0 : 1)}m`;
+}
+
+export function FollowSweepRankings({ onSelect }: Props) {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [delaySeconds, setDelaySeconds] = useState(5);
+  const [slippageModel, setSlippageModel] = useState<SlippageModel>('moderate');
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [error, setError] = useState('');
+  const { data: rankings = [], isLoading, refetch } = useFollowSweepRankings(delaySeconds, slippageModel);
+
+  const handleSweepAll = async () => {
+    setError('');
+    try {
+      setIsSweeping(true);
+      await runFollowSweepAll();
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sweep wallets');
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <button
+          type="button"
+          onClick={() => setIsCollapsed((prev) => !prev)}
+          className="flex items-center gap-2 text-lg font-semibold text-white hover:text-gray-200"
+          aria-expanded={!isCollapsed}
+        >
+          <span className="text-gray-400">{isCollapsed ? '▸' : '▾'}</span>
+          Rank at delay
+        </button>
+        <div className="flex items-center gap-2">
+          {isLoading && <span className="text-sm text-gray-400">Loading...</span>}
+          <button type="button" onClick={handleSweepAll} disabled={isSweeping} className="btn-secondary">
+            {isSweeping ? 'Sweeping...' : 'Sweep all wallets'}
+          </button>
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+            <div className="flex gap-1 bg-gray-800 p-1 rounded-lg">
+              {DEFAULT_SWEEP_DELAYS_SECONDS.map((delay) => (
+                <button
+                  key={delay}
+                  type="button"
+                  onClick={() => setDelaySeconds(delay)}
+                  className={`px-3 py-1 rounded-md font-medium transition-colors ${
+                    delaySeconds === delay
+                      ? 'bg-solana-purple text-white'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  {formatDelay(delay)}
+                </button>
+              ))}
+            </div>
+            <select
+              value={slippageModel}
+              onChange={(e) => setSlippageModel(e.target.value as SlippageModel)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-gray-200 capitalize"
+            >
+              {SLIPPAGE_MODELS.map((model) => (
+                <option key={model} value={model}>{model} slippage</option>
+              ))}
+            </select>
+          </div>
+
+          {error && <div className="text-sm text-red-400 mb-3">{error}</div>}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-800">
+                  <th className="py-2 pr-3">#</th>
+                  <th className="py-2 pr-3">Wallet</th>
+                  <th className="py-2 pr-3">Sim. PnL</th>
+                  <th className="py-2 pr-3">Actual PnL</th>
+                  <th className="py-2 pr-3">Follow Score</th>
+                  <th className="py-2 pr-3" title="Smallest swept delay at which copying stops being profitable">
+                    Unprofitable from
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rankings.length === 0 && !isLoading && (
+                  <tr>
+                    <td colSpan={6} className="py-4 text-center text-gray-500">
+                      No sweep results at this delay yet. Sweep the catalog first.
+                    </td>
+                  </tr>
+                )}
+                {rankings.map((w, index) => (
+                  <tr
+                    key={w.address}
+                    className="border-b border-gray-800 hover:bg-gray-800/60 cursor-pointer"
+                    onClick={() => onSelect?.(w.address)}
+                  >
+                    <td className="py-2 pr-3 text-gray-400">{index + 1}</td>
+                    <td className="py-2 pr-3 text-white">
+                      <div className="flex items-center gap-2">
+                        <span>{w.emoji || '👛'}</span>
+                        <span className="font-mono">{w.name || w.address.slice(0, 8)}…</span>
+                      </div>
+                    </td>
+                    <td className={`py-2 pr-3 font-semibold ${w.simulatedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {w.simulatedPnL.toFixed(2)}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-300">{w.actualPnL.toFixed(2)}</td>
+                    <td className="py-2 pr-3 text-gray-200">{(w.followabilityRatio * 100).toFixed(0)}%</td>
+                    <td className="py-2 pr-3 text-gray-200">
+                      {w.unprofitableAtDelaySeconds === null ? '—' : formatDelay(w.unprofitableAtDelaySeconds)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import type { FollowSweepPoint, SlippageModel } from '@funeral-vision/shared';
+import { runFollowSweep } from '../api';
+import { useFollowSweep } from '../hooks/useFollowSweep';
+
+interface Props {
+  walletAddress: string;
+}
+
+const MODEL_COLORS: Record<SlippageModel, string> = {
+  conservative: '#14F195',
+  moderate: '#facc15',
+  aggressive: '#f87171',
+};
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 56 };
+
+function formatSol(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function formatDelay(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${(seconds / 60).toFixed(seconds % 60 === 0 ? 0 : 1)}m`;
+}
+
+export function FollowabilityChart({ walletAddress }: Props) {
+  const { data: curve, isLoading, refetch } = useFollowSweep(walletAddress);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSweep = async () => {
+    setError('');
+    try {
+      setIsSweeping(true);
+      await runFollowSweep(walletAddress);
+      await refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run follow sweep');
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  const points = curve?.points ?? [];
+  const delays = [...new Set(points.map(p => p.delaySeconds))].sort((a, b) => a - b);
+  const byModel = new Map<SlippageModel, FollowSweepPoint[]>();
+  for (const point of points) {
+    byModel.set(point.slippageModel, [...(byModel.get(point.slippageModel) || []), point]);
+  }
+  const actualPnL = points[0]?.actualPnL ?? 0;
+
+  // Delays are spaced evenly by grid position; the default grid is roughly logarithmic
+  const values = [...points.map(p => p.simulatedPnL), actualPnL, 0];
+  const minY = Math.min(...values);
+  const maxY = Math.max(...values);
+  const spanY = maxY - minY || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (delay: number) =>
+    PADDING.left + (delays.length > 1 ? (delays.indexOf(delay) / (delays.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + ((maxY - value) / spanY) * plotHeight;
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Followability curve</h3>
+          <p className="text-sm text-gray-400">Simulated PnL (SOL) if you copied this wallet with each delay</p>
+        </div>
+        <button type="button" onClick={handleSweep} disabled={isSweeping} className="btn-primary">
+          {isSweeping ? 'Sweeping...' : curve ? 'Re-run sweep' : 'Run sweep'}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-400 mb-3">{error}</div>}
+
+      {isLoading && <div className="h-60 bg-gray-800/60 rounded animate-pulse" />}
+
+      {!isLoading && !curve && (
+        <div className="py-10 text-center text-gray-500">
+          This wallet has not been swept yet. Run a sweep to see how returns decay with delay.
+        </div>
+      )}
+
+      {curve && delays.length > 0 && (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {/* Break-even and the wallet's own PnL for reference */}
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(0)}
+              y2={y(0)}
+              stroke="#4b5563"
+            />
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(actualPnL)}
+              y2={y(actualPnL)}
+              stroke="#9945FF"
+              strokeDasharray="4 4"
+            />
+            <text x={WIDTH - PADDING.right} y={y(actualPnL) - 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+              wallet {formatSol(actualPnL)}
+            </text>
+
+            {[maxY, 0, minY].map((value) => (
+              <text key={value} x={PADDING.left - 6} y={y(value) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+                {formatSol(value)}
+              </text>
+            ))}
+            {delays.map((delay) => (
+              <text key={delay} x={x(delay)} y={HEIGHT - 10} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                {formatDelay(delay)}
+              </text>
+            ))}
+
+            {[...byModel].map(([model, modelPoints]) => (
+              <g key={model}>
+                <polyline
+                  fill="none"
+                  stroke={MODEL_COLORS[model]}
+                  strokeWidth={2}
+                  points={modelPoints.map(p => `${x(p.delaySeconds)},${y(p.simulatedPnL)}`).join(' ')}
+                />
+                {modelPoints.map((p) => (
+                  <circle key={p.delaySeconds} cx={x(p.delaySeconds)} cy={y(p.simulatedPnL)} r={3} fill={MODEL_COLORS[model]}>
+                    <title>
+                      {`${model} @ ${formatDelay(p.delaySeconds)}: ${formatSol(p.simulatedPnL)} SOL (${(p.followabilityRatio * 100).toFixed(0)}% of wallet)`}
+                    </title>
+                  </circle>
+                ))}
+              </g>
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap gap-4 mt-3 text-sm">
+            {curve.cutoffs.map((cutoff) => (
+              <div key={cutoff.slippageModel} className="flex items-center gap-2">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: MODEL_COLORS[cutoff.slippageModel] }} />
+                <span className="text-gray-300 capitalize">{cutoff.slippageModel}</span>
+                <span className="text-gray-500">
+                  {cutoff.unprofitableAtDelaySeconds === null
+                    ? 'profitable across the grid'
+                    : cutoff.unprofitableAtDelaySeconds === delays[0]
+                      ? 'unprofitable at every delay'
+                      : `unprofitable from ${formatDelay(cutoff.unprofitableAtDelaySeconds)}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { backfillWalletHistory } from '../api';
+import { useSyncJob } from '../hooks/useSyncJob';
+import { useWalletStatus } from '../hooks/useWalletStatus';
+
+interface Props {
+  walletAddress: string;
+  onBackfillComplete?: () => void;
+}
+
+function formatDate(timestamp: number | null): string {
+  if (!timestamp) return '-';
+  return new Date(timestamp * 1000).toLocaleDateString();
+}
+
+export function HistoryCoverageBar({ walletAddress, onBackfillComplete }: Props) {
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [untilDate, setUntilDate] = useState('');
+  const [error, setError] = useState('');
+  const { data: job } = useSyncJob(jobId);
+  const isBackfilling = jobId !== null && (!job || job.status === 'queued' || job.status === 'running');
+  const { data: status } = useWalletStatus(walletAddress, { poll: isBackfilling });
+
+  useEffect(() => {
+    if (jobId === null || !job || isBackfilling) return;
+    setJobId(null);
+    onBackfillComplete?.();
+  }, [jobId, job, isBackfilling, onBackfillComplete]);
+
+  const history = status?.history;
+  if (!history || history.storedTransactions === 0) return null;
+
+  const handleBackfill = async () => {
+    setError('');
+    try {
+      const until = untilDate ? Math.floor(new Date(untilDate).getTime() / 1000) : undefined;
+      const started = await backfillWalletHistory(walletAddress, until);
+      setJobId(started.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start backfill');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm bg-gray-900/60 border border-gray-800 rounded-lg px-4 py-2">
+      <span className="font-semibold text-white">📜 History</span>
+      <span className="text-gray-400">
+        {history.storedTransactions.toLocaleString()} txs from {formatDate(history.earliestCoveredAt)} to {formatDate(history.latestCoveredAt)}
+      </span>
+      {history.isComplete ? (
+        <span className="text-green-400" title="Backfill reached the wallet's first transaction">
+          ✓ Complete (first activity {formatDate(history.firstActivityAt)})
+        </span>
+      ) : history.reachedTarget ? (
+        <span className="text-blue-400">Covered back to {formatDate(history.backfillTarget)}</span>
+      ) : (
+        <span className="text-yellow-400" title="Older transactions have not been fetched yet">
+          ⚠ Partial
+        </span>
+      )}
+      {!history.isComplete && (
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="date"
+            value={untilDate}
+            onChange={(e) => setUntilDate(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm"
+            title="Backfill back to this date (leave empty for full history)"
+            disabled={isBackfilling}
+          />
+          <button type="button" onClick={handleBackfill} disabled={isBackfilling} className="btn-secondary">
+            {isBackfilling ? '⏳ Backfilling...' : '⏪ Backfill'}
+          </button>
+        </div>
+      )}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+}
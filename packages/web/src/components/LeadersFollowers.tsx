@@ -0,0 +1,77 @@
+import type { CoTradingPair, CoTradingWallet } from '../api';
+import { useLeadersFollowers } from '../hooks/useCoTrading';
+
+interface Props {
+  walletAddress: string;
+  onSelectWallet: (address: string) => void;
+}
+
+const SECTIONS = [
+  { key: 'leaders', title: 'Leaders', empty: 'No wallet consistently enters before this one' },
+  { key: 'followers', title: 'Followers', empty: 'No wallet consistently enters after this one' },
+  { key: 'peers', title: 'Peers (no clear leader)', empty: 'None' },
+] as const;
+
+function RelationRow({ pair, wallet, onSelectWallet }: {
+  pair: CoTradingPair;
+  wallet?: CoTradingWallet;
+  onSelectWallet: (address: string) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelectWallet(pair.walletB)}
+      className="w-full flex items-center justify-between gap-2 p-2 rounded hover:bg-gray-800/60 text-left"
+    >
+      <span className="flex items-center gap-2 min-w-0">
+        <span>{wallet?.emoji || '👛'}</span>
+        <span className="text-gray-200 truncate">{wallet?.name || `${pair.walletB.slice(0, 4)}…${pair.walletB.slice(-4)}`}</span>
+      </span>
+      <span className="text-xs text-gray-400 whitespace-nowrap">
+        {pair.coEntries} co-entries / {pair.sharedMints} shared
+        {pair.medianEntryLagSec !== null && ` · ${Math.round(pair.medianEntryLagSec)}s lag`}
+      </span>
+    </button>
+  );
+}
+
+export function LeadersFollowersCard({ walletAddress, onSelectWallet }: Props) {
+  const { data, isLoading } = useLeadersFollowers(walletAddress);
+
+  if (isLoading) {
+    return (
+      <div className="p-4 bg-gray-900/60 border border-gray-800 rounded-lg text-gray-400">
+        Loading co-trading wallets...
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const wallets = new Map(data.wallets.map(w => [w.address, w]));
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-white">Leaders & followers</h3>
+      <p className="text-sm text-gray-400 mb-3">
+        Catalog wallets entering the same mints within {data.windowSeconds}s on at least {data.minCoEntries} tokens
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {SECTIONS.map(({ key, title, empty }) => (
+          <div key={key}>
+            <div className="text-sm text-gray-400 mb-1">{title} ({data[key].length})</div>
+            {data[key].length === 0 && <div className="text-sm text-gray-500 p-2">{empty}</div>}
+            {data[key].map((pair) => (
+              <RelationRow
+                key={pair.walletB}
+                pair={pair}
+                wallet={wallets.get(pair.walletB)}
+                onSelectWallet={onSelectWallet}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
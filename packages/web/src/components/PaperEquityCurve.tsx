@@ -0,0 +1,85 @@
+import type { PaperEquityPoint } from '../api';
+
+interface Props {
+  points: PaperEquityPoint[];
+  startingBalanceSol: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function PaperEquityCurve({ points, startingBalanceSol }: Props) {
+  if (points.length < 2) {
+    return (
+      <div className="py-10 text-center text-gray-500">
+        No fills yet. The curve fills in as the followed wallets trade and sync.
+      </div>
+    );
+  }
+
+  // Time-scaled, unlike the sweep chart: fills are irregular
+  const minX = points[0].timestamp;
+  const maxX = points[points.length - 1].timestamp;
+  const spanX = maxX - minX || 1;
+  const values = [...points.map(p => p.equitySol), startingBalanceSol];
+  const minY = Math.min(...values);
+  const maxY = Math.max(...values);
+  const spanY = maxY - minY || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (timestamp: number) => PADDING.left + ((timestamp - minX) / spanX) * plotWidth;
+  const y = (value: number) => PADDING.top + ((maxY - value) / spanY) * plotHeight;
+
+  const last = points[points.length - 1];
+  const color = last.equitySol >= startingBalanceSol ? '#14F195' : '#f87171';
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {/* Starting balance for reference */}
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={y(startingBalanceSol)}
+        y2={y(startingBalanceSol)}
+        stroke="#4b5563"
+        strokeDasharray="4 4"
+      />
+
+      {[maxY, minY].map((value) => (
+        <text key={value} x={PADDING.left - 6} y={y(value) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {value.toFixed(2)}
+        </text>
+      ))}
+      {[minX, maxX].map((timestamp, i) => (
+        <text
+          key={timestamp}
+          x={x(timestamp)}
+          y={HEIGHT - 8}
+          textAnchor={i === 0 ? 'start' : 'end'}
+          className="fill-gray-500 text-[10px]"
+        >
+          {formatDate(timestamp)}
+        </text>
+      ))}
+
+      <polyline
+        fill="none"
+        stroke={color}
+        strokeWidth={2}
+        points={points.map(p => `${x(p.timestamp)},${y(p.equitySol)}`).join(' ')}
+      />
+      {points.map((p, i) => (
+        <circle key={i} cx={x(p.timestamp)} cy={y(p.equitySol)} r={2} fill={color}>
+          <title>
+            {`${new Date(p.timestamp * 1000).toLocaleString()}: ${p.equitySol.toFixed(3)} SOL (cash ${p.cashSol.toFixed(3)})`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
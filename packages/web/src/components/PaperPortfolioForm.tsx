@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import {
+  BUILT_IN_SLIPPAGE_PROFILES,
+  SLIPPAGE_MODELS,
+  type CatalogWallet,
+} from '@funeral-vision/shared';
+import { getCatalogWallets, createPaperPortfolio, type SlippageModel } from '../api';
+import { useSlippageProfiles } from '../hooks/useSlippageProfiles';
+
+interface Props {
+  onCreated: (id: number) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm';
+
+// Percent field to fraction; blank means the rule is off
+function parsePercent(value: string): number | null {
+  return value.trim() ? parseFloat(value) / 100 : null;
+}
+
+export function PaperPortfolioForm({ onCreated, onCancel }: Props) {
+  const [catalog, setCatalog] = useState<CatalogWallet[]>([]);
+  const [name, setName] = useState('');
+  const [wallets, setWallets] = useState<Set<string>>(new Set());
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [startingBalance, setStartingBalance] = useState('10');
+  const [entrySize, setEntrySize] = useState('0.5');
+  const [maxPositions, setMaxPositions] = useState('5');
+  const [stopLoss, setStopLoss] = useState('50');
+  const [takeProfit, setTakeProfit] = useState('');
+  const [delaySeconds, setDelaySeconds] = useState('5');
+  const [slippage, setSlippage] = useState<SlippageModel | number>('moderate');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { data: slippageProfiles = [] } = useSlippageProfiles();
+
+  useEffect(() => {
+    getCatalogWallets()
+      .then(setCatalog)
+      .catch((err) => console.error('Failed to load catalog:', err));
+  }, []);
+
+  const toggleWallet = (address: string) => {
+    setWallets(prev => {
+      const next = new Set(prev);
+      if (next.has(address)) {
+        next.delete(address);
+      } else {
+        next.add(address);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    try {
+      setIsSaving(true);
+      const { id } = await createPaperPortfolio({
+        name,
+        wallets: [...wallets],
+        startAt: Math.floor(new Date(startDate).getTime() / 1000),
+        startingBalanceSol: parseFloat(startingBalance),
+        entrySizeSol: parseFloat(entrySize),
+        maxPositions: parseInt(maxPositions, 10),
+        stopLoss: parsePercent(stopLoss),
+        takeProfit: parsePercent(takeProfit),
+        delaySeconds: parseInt(delaySeconds, 10),
+        ...(typeof slippage === 'number' ? { slippageProfileId: slippage } : { slippageModel: slippage }),
+      });
+      onCreated(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create paper portfolio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-white">New paper portfolio</h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <label className="col-span-2 space-y-1">
+          <span className="text-gray-400">Name</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Start date</span>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Starting balance (SOL)</span>
+          <input value={startingBalance} onChange={(e) => setStartingBalance(e.target.value)} inputMode="decimal" className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">SOL per entry</span>
+          <input value={entrySize} onChange={(e) => setEntrySize(e.target.value)} inputMode="decimal" className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Max open positions</span>
+          <input value={maxPositions} onChange={(e) => setMaxPositions(e.target.value)} inputMode="numeric" className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Stop-loss % (blank = off)</span>
+          <input value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} inputMode="decimal" className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Take-profit % (blank = off)</span>
+          <input value={takeProfit} onChange={(e) => setTakeProfit(e.target.value)} inputMode="decimal" className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Delay (s)</span>
+          <input value={delaySeconds} onChange={(e) => setDelaySeconds(e.target.value)} inputMode="numeric" className={INPUT_CLASS} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Slippage</span>
+          <select
+            value={String(slippage)}
+            onChange={(e) => {
+              const value = e.target.value;
+              setSlippage(/^\d+$/.test(value) ? Number(value) : (value as SlippageModel));
+            }}
+            className={INPUT_CLASS}
+          >
+            {SLIPPAGE_MODELS.map((model) => (
+              <option key={model} value={model}>{BUILT_IN_SLIPPAGE_PROFILES[model].name}</option>
+            ))}
+            {slippageProfiles.map((profile) => (
+              <option key={profile.id} value={String(profile.id)}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="text-sm">
+        <div className="text-gray-400 mb-1">Follow wallets ({wallets.size} selected)</div>
+        <div className="max-h-48 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-1">
+          {catalog.map((wallet) => (
+            <label key={wallet.address} className="flex items-center gap-2 p-1 rounded hover:bg-gray-800/60 cursor-pointer">
+              <input type="checkbox" checked={wallets.has(wallet.address)} onChange={() => toggleWallet(wallet.address)} />
+              <span>{wallet.emoji || '👛'}</span>
+              <span className="text-gray-200">{wallet.name || wallet.address.slice(0, 8)}</span>
+              <span className="text-xs text-gray-500 font-mono">{wallet.address.slice(0, 4)}…{wallet.address.slice(-4)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <div className="flex gap-2">
+        <button type="button" onClick={handleSubmit} disabled={isSaving || wallets.size === 0} className="btn-primary">
+          {isSaving ? 'Creating...' : 'Create portfolio'}
+        </button>
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { replayPaperPortfolio, deletePaperPortfolio, type PaperFill } from '../api';
+import { usePaperPortfolios, usePaperPortfolio } from '../hooks/usePaperPortfolios';
+import { PaperEquityCurve } from './PaperEquityCurve';
+import { PaperPortfolioForm } from './PaperPortfolioForm';
+
+interface Props {
+  onSelectWallet: (address: string) => void;
+}
+
+const FILL_REASON_LABELS: Record<PaperFill['reason'], string> = {
+  copy: 'Copy',
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit',
+};
+
+function formatSOL(value: number): string {
+  return `${value >= 0 ? '' : '-'}${Math.abs(value).toFixed(3)}`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString();
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+export function PaperTrading({ onSelectWallet }: Props) {
+  const { data: portfolios = [], isLoading, refetch: refetchPortfolios } = usePaperPortfolios();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const { data: detail, refetch: refetchDetail } = usePaperPortfolio(selectedId);
+
+  // Default to the newest portfolio
+  useEffect(() => {
+    if (selectedId === null && portfolios.length > 0) setSelectedId(portfolios[0].id);
+  }, [portfolios, selectedId]);
+
+  const handleCreated = async (id: number) => {
+    setShowForm(false);
+    setSelectedId(id);
+    await refetchPortfolios();
+  };
+
+  const handleReplay = async () => {
+    if (selectedId === null) return;
+    try {
+      setIsReplaying(true);
+      await replayPaperPortfolio(selectedId);
+      await Promise.all([refetchDetail(), refetchPortfolios()]);
+    } catch (err) {
+      console.error('Failed to replay paper portfolio:', err);
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (selectedId === null || !confirm('Delete this paper portfolio and its history?')) return;
+    try {
+      await deletePaperPortfolio(selectedId);
+      setSelectedId(null);
+      await refetchPortfolios();
+    } catch (err) {
+      console.error('Failed to delete paper portfolio:', err);
+    }
+  };
+
+  const portfolio = detail?.portfolio;
+  const totalPnL = portfolio ? portfolio.equitySol - portfolio.startingBalanceSol : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 flex-wrap">
+          {isLoading && <span className="text-sm text-gray-400">Loading...</span>}
+          {portfolios.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => setSelectedId(p.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                selectedId === p.id
+                  ? 'bg-solana-purple text-white'
+                  : 'bg-gray-800 text-gray-400 hover:text-white hover:bg-gray-700'
+              }`}
+            >
+              {p.name}
+              <span className={`ml-2 ${p.equitySol >= p.startingBalanceSol ? 'text-green-300' : 'text-red-300'}`}>
+                {p.equitySol.toFixed(2)}
+              </span>
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={() => setShowForm((prev) => !prev)} className="btn-primary">
+          {showForm ? 'Close' : 'New portfolio'}
+        </button>
+      </div>
+
+      {showForm && <PaperPortfolioForm onCreated={handleCreated} onCancel={() => setShowForm(false)} />}
+
+      {!isLoading && portfolios.length === 0 && !showForm && (
+        <div className="card text-center text-gray-500">
+          No paper portfolios yet. Create one to copy catalog wallets as their trades sync.
+        </div>
+      )}
+
+      {portfolio && detail && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-gray-400 text-sm mb-1">Equity</p>
+              <p className={`text-2xl font-bold ${totalPnL >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {portfolio.equitySol.toFixed(3)} SOL
+              </p>
+              <p className="text-gray-500 text-sm mt-1">
+                {totalPnL >= 0 ? '+' : ''}{((totalPnL / portfolio.startingBalanceSol) * 100).toFixed(1)}% from {portfolio.startingBalanceSol} SOL
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-gray-400 text-sm mb-1">Cash</p>
+              <p className="text-2xl font-bold text-white">{portfolio.cashSol.toFixed(3)}</p>
+              <p className="text-gray-500 text-sm mt-1">{portfolio.positionsValueSol.toFixed(3)} SOL in positions</p>
+            </div>
+            <div className="card">
+              <p className="text-gray-400 text-sm mb-1">Realized PnL</p>
+              <p className={`text-2xl font-bold ${portfolio.realizedPnL >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {formatSOL(portfolio.realizedPnL)}
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-gray-400 text-sm mb-1">Open positions</p>
+              <p className="text-2xl font-bold text-white">{portfolio.openPositions} / {portfolio.maxPositions}</p>
+              <p className="text-gray-500 text-sm mt-1">{portfolio.entrySizeSol} SOL per entry</p>
+            </div>
+          </div>
+
+          <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="text-lg font-semibold text-white">Equity curve</h3>
+                <p className="text-sm text-gray-400">
+                  Following {portfolio.wallets.length} wallet{portfolio.wallets.length === 1 ? '' : 's'} from{' '}
+                  {new Date(portfolio.startAt * 1000).toLocaleDateString()} with a {portfolio.delaySeconds}s delay
+                  {portfolio.stopLoss !== null && ` · stop-loss -${(portfolio.stopLoss * 100).toFixed(0)}%`}
+                  {portfolio.takeProfit !== null && ` · take-profit +${(portfolio.takeProfit * 100).toFixed(0)}%`}
+                  {' '}· up to date through {formatTime(portfolio.processedThrough)}
+                </p>
+                {portfolio.missingWallets.length > 0 && (
+                  <p className="text-sm text-yellow-400 mt-1">
+                    {portfolio.missingWallets.length} followed wallet{portfolio.missingWallets.length === 1 ? ' is' : 's are'} no
+                    longer in the catalog and {portfolio.missingWallets.length === 1 ? 'is' : 'are'} skipped:{' '}
+                    {portfolio.missingWallets.map((address) => `${address.slice(0, 4)}…${address.slice(-4)}`).join(', ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button type="button" onClick={handleReplay} disabled={isReplaying} className="btn-secondary">
+                  {isReplaying ? 'Replaying...' : 'Replay'}
+                </button>
+                <button type="button" onClick={handleDelete} className="btn-secondary">
+                  Delete
+                </button>
+              </div>
+            </div>
+            <PaperEquityCurve points={detail.equityCurve} startingBalanceSol={portfolio.startingBalanceSol} />
+          </div>
+
+          <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold text-white mb-3">Open positions</h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-800">
+                    <th className="py-2 pr-3">Token</th>
+                    <th className="py-2 pr-3">Copied from</th>
+                    <th className="py-2 pr-3">Opened</th>
+                    <th className="py-2 pr-3">Cost</th>
+                    <th className="py-2 pr-3">Value</th>
+                    <th className="py-2 pr-3">Unrealized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.positions.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-4 text-center text-gray-500">No open positions</td>
+                    </tr>
+                  )}
+                  {detail.positions.map((position) => (
+                    <tr key={position.tokenMint} className="border-b border-gray-800">
+                      <td className="py-2 pr-3 text-white">
+                        {position.tokenSymbol || shortAddress(position.tokenMint)}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <button
+                          type="button"
+                          onClick={() => onSelectWallet(position.sourceWallet)}
+                          className="font-mono text-blue-400 hover:text-blue-300"
+                        >
+                          {shortAddress(position.sourceWallet)}
+                        </button>
+                      </td>
+                      <td className="py-2 pr-3 text-gray-300">{formatTime(position.openedAt)}</td>
+                      <td className="py-2 pr-3 text-gray-300">{position.costSol.toFixed(3)}</td>
+                      <td className="py-2 pr-3 text-gray-200" title={position.markPrice === null ? 'No print since entry' : undefined}>
+                        {position.valueSol.toFixed(3)}
+                      </td>
+                      <td className={`py-2 pr-3 font-semibold ${position.unrealizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatSOL(position.unrealizedPnL)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold text-white mb-3">Fills</h3>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="min-w-full text-sm text-left">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-800">
+                    <th className="py-2 pr-3">Time</th>
+                    <th className="py-2 pr-3">Side</th>
+                    <th className="py-2 pr-3">Token</th>
+                    <th className="py-2 pr-3">Reason</th>
+                    <th className="py-2 pr-3">SOL</th>
+                    <th className="py-2 pr-3">PnL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.fills.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-4 text-center text-gray-500">No fills yet</td>
+                    </tr>
+                  )}
+                  {detail.fills.map((fill) => (
+                    <tr key={fill.id} className="border-b border-gray-800">
+                      <td className="py-2 pr-3 text-gray-300">{formatTime(fill.timestamp)}</td>
+                      <td className={`py-2 pr-3 font-medium ${fill.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                        {fill.side.toUpperCase()}
+                      </td>
+                      <td className="py-2 pr-3 text-white">{fill.tokenSymbol || shortAddress(fill.tokenMint)}</td>
+                      <td className="py-2 pr-3 text-gray-400">{FILL_REASON_LABELS[fill.reason]}</td>
+                      <td className="py-2 pr-3 text-gray-200">{fill.solAmount.toFixed(3)}</td>
+                      <td className={`py-2 pr-3 ${(fill.realizedPnL ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {fill.realizedPnL !== null ? formatSOL(fill.realizedPnL) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
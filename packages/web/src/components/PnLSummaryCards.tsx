@@ -61,16 +61,37 @@ function StatCard({
   );
 }
 
+function formatSignedSOL(value: number): string {
+  return `${value >= 0 ? '+' : ''}${formatSOL(value)} SOL`;
+}
+
 export function PnLSummaryCards({ data, isLoading }: PnLSummaryCardsProps) {
-  const pnl = data?.totalRealizedPnL || 0;
-  const isProfitable = pnl >= 0;
+  const realized = data?.totalRealizedPnL || 0;
+  const unrealized = data?.totalUnrealizedPnL || 0;
+  const total = data?.totalPnL ?? realized + unrealized;
+  const unpriced = data?.unpricedPositions || 0;
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <StatCard
+        title="Realized PnL"
+        value={formatSignedSOL(realized)}
+        subValue={data ? `Cost basis: ${data.costBasisMethod.toUpperCase()}` : undefined}
+        isPositive={realized >= 0}
+        isLoading={isLoading}
+      />
+      <StatCard
+        title="Unrealized PnL"
+        value={formatSignedSOL(unrealized)}
+        subValue={`Equity: ${formatSOL(data?.totalEquity || 0)} SOL${unpriced > 0 ? ` · ${unpriced} unpriced` : ''}`}
+        isPositive={unrealized >= 0}
+        isLoading={isLoading}
+      />
       <StatCard
         title="Total PnL"
-        value={`${isProfitable ? '+' : ''}${formatSOL(pnl)} SOL`}
-        isPositive={isProfitable}
+        value={formatSignedSOL(total)}
+        subValue="Realized + unrealized"
+        isPositive={total >= 0}
         isLoading={isLoading}
       />
       <StatCard
@@ -92,6 +113,13 @@ export function PnLSummaryCards({ data, isLoading }: PnLSummaryCardsProps) {
         subValue={`Avg: ${formatSOL(data?.avgTradeSize || 0)} SOL`}
         isLoading={isLoading}
       />
+      <StatCard
+        title="Fees & Tips"
+        value={`${formatSOL(data?.totalFees || 0)} SOL`}
+        subValue={`Net realized: ${formatSignedSOL(data?.netRealizedPnL ?? realized)}`}
+        isPositive={data ? (data.netRealizedPnL ?? realized) >= 0 : undefined}
+        isLoading={isLoading}
+      />
       <StatCard
         title="Avg Hold Time"
         value={formatDuration(data?.avgHoldDuration || 0)}
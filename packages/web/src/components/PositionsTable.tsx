@@ -1,10 +1,16 @@
 import { useState, useEffect } from 'react';
-import type { Position } from '@funeral-vision/shared';
+import type { CostBasisMethod, Position, Timeframe } from '@funeral-vision/shared';
 import { getTokenMetadata, type TokenMetadata } from '../api';
+import { ExportButtons } from './ExportButtons';
 
 interface PositionsTableProps {
   positions: Position[];
   isLoading?: boolean;
+  onSelectToken?: (mint: string) => void;
+  // Export buttons show when the wallet is known
+  walletAddress?: string;
+  timeframe?: Timeframe;
+  costBasis?: CostBasisMethod;
 }
 
 function formatSOL(value: number): string {
@@ -14,11 +20,31 @@ function formatSOL(value: number): string {
   return value.toFixed(4);
 }
 
+function formatAge(timestamp: number): string {
+  const seconds = Math.max(0, Math.floor(Date.now() / 1000) - timestamp);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+function formatPrice(value: number): string {
+  if (value >= 0.01) return value.toFixed(4);
+  return value.toExponential(2);
+}
+
 function truncateAddress(address: string, chars = 6): string {
   return `${address.slice(0, chars)}...${address.slice(-chars)}`;
 }
 
-export function PositionsTable({ positions, isLoading }: PositionsTableProps) {
+export function PositionsTable({
+  positions,
+  isLoading,
+  onSelectToken,
+  walletAddress,
+  timeframe = 'all',
+  costBasis = 'fifo',
+}: PositionsTableProps) {
   const [tokenMetadata, setTokenMetadata] = useState<Record<string, TokenMetadata>>({});
   const [metadataLoading, setMetadataLoading] = useState(false);
 
@@ -67,15 +93,34 @@ export function PositionsTable({ positions, isLoading }: PositionsTableProps) {
 
   // Sort by realized PnL
   const sortedPositions = [...positions].sort((a, b) => b.realizedPnL - a.realizedPnL);
+  const totalRealized = positions.reduce((sum, p) => sum + p.realizedPnL, 0);
+  const totalUnrealized = positions.reduce((sum, p) => sum + (p.unrealizedPnL ?? 0), 0);
+  const totalFees = positions.reduce((sum, p) => sum + (p.totalFees ?? 0), 0);
 
   return (
     <div className="card overflow-hidden p-0">
+      {walletAddress && (
+        <div className="flex justify-end gap-4 p-4 border-b border-gray-700">
+          <ExportButtons walletAddress={walletAddress} kind="positions" timeframe={timeframe} costBasis={costBasis} label="Positions" />
+          <ExportButtons walletAddress={walletAddress} kind="realizations" timeframe={timeframe} costBasis={costBasis} label="Realized gains" />
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead className="bg-gray-800/50">
             <tr>
               <th className="text-left p-4 text-gray-400 font-medium">Token</th>
               <th className="text-right p-4 text-gray-400 font-medium">Realized PnL</th>
+              <th className="text-right p-4 text-gray-400 font-medium">Unrealized PnL</th>
+              <th className="text-right p-4 text-gray-400 font-medium">
+                Mark
+                <span
+                  className="ml-1 text-gray-500 cursor-help"
+                  title="Last known SOL price per token: the most recent stored trade across all wallets, or the configured price provider."
+                >
+                  ⓘ
+                </span>
+              </th>
               <th className="text-right p-4 text-gray-400 font-medium">Total Bought</th>
               <th className="text-right p-4 text-gray-400 font-medium">Total Sold</th>
               <th className="text-right p-4 text-gray-400 font-medium">Remaining</th>
@@ -116,14 +161,25 @@ export function PositionsTable({ positions, isLoading }: PositionsTableProps) {
                         />
                       )}
                       <div className="flex flex-col">
-                        <a
-                          href={`https://solscan.io/token/${pos.tokenMint}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-solana-purple hover:text-solana-green font-medium text-sm"
-                        >
-                          {displayName}
-                        </a>
+                        {onSelectToken ? (
+                          <button
+                            type="button"
+                            onClick={() => onSelectToken(pos.tokenMint)}
+                            className="text-left text-solana-purple hover:text-solana-green font-medium text-sm"
+                            title="Catalog activity in this token"
+                          >
+                            {displayName}
+                          </button>
+                        ) : (
+                          <a
+                            href={`https://solscan.io/token/${pos.tokenMint}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-solana-purple hover:text-solana-green font-medium text-sm"
+                          >
+                            {displayName}
+                          </a>
+                        )}
                         {meta?.name && meta.symbol && (
                           <span className="text-xs text-gray-500">{truncateAddress(pos.tokenMint, 4)}</span>
                         )}
@@ -137,6 +193,34 @@ export function PositionsTable({ positions, isLoading }: PositionsTableProps) {
                       {isProfitable ? '+' : ''}
                       {formatSOL(pos.realizedPnL)} SOL
                     </span>
+                    {pos.totalFees > 0 && (
+                      <div className="text-xs text-gray-500" title="Network + priority fees and tips">
+                        net {formatSOL(pos.netRealizedPnL)} · fees {formatSOL(pos.totalFees)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-4 text-right">
+                    {pos.unrealizedPnL !== undefined ? (
+                      <span className={`font-medium ${pos.unrealizedPnL >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                        {pos.unrealizedPnL >= 0 ? '+' : ''}
+                        {formatSOL(pos.unrealizedPnL)} SOL
+                      </span>
+                    ) : (
+                      <span className="text-gray-600">-</span>
+                    )}
+                  </td>
+                  <td className="p-4 text-right text-sm">
+                    {pos.markPrice !== undefined ? (
+                      <div className="flex flex-col items-end">
+                        <span className="text-gray-300">{formatPrice(pos.markPrice)}</span>
+                        <span className="text-xs text-gray-500">
+                          {pos.priceSource === 'trade' ? 'last trade' : pos.priceSource}
+                          {pos.priceObservedAt ? ` · ${formatAge(pos.priceObservedAt)}` : ''}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-600">-</span>
+                    )}
                   </td>
                   <td className="p-4 text-right text-sm text-gray-300">
                     {pos.totalBought.toLocaleString(undefined, { maximumFractionDigits: 2 })}
@@ -172,20 +256,37 @@ export function PositionsTable({ positions, isLoading }: PositionsTableProps) {
 
       {/* Summary */}
       <div className="p-4 border-t border-gray-700 bg-gray-800/30">
-        <div className="flex justify-between items-center">
+        <div className="flex flex-wrap justify-between items-center gap-4">
           <span className="text-gray-400">
-            Total Realized PnL:
+            Totals:
             {metadataLoading && <span className="ml-2 text-xs text-gray-500">(loading token names...)</span>}
           </span>
-          <span
-            className={`text-lg font-bold ${
-              positions.reduce((sum, p) => sum + p.realizedPnL, 0) >= 0
-                ? 'pnl-positive'
-                : 'pnl-negative'
-            }`}
-          >
-            {formatSOL(positions.reduce((sum, p) => sum + p.realizedPnL, 0))} SOL
-          </span>
+          <div className="flex gap-6 text-sm">
+            <span className="text-gray-400">
+              Realized{' '}
+              <span className={`text-lg font-bold ${totalRealized >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {formatSOL(totalRealized)} SOL
+              </span>
+            </span>
+            <span className="text-gray-400">
+              Fees{' '}
+              <span className="text-lg font-bold text-gray-300">
+                {formatSOL(totalFees)} SOL
+              </span>
+            </span>
+            <span className="text-gray-400">
+              Unrealized{' '}
+              <span className={`text-lg font-bold ${totalUnrealized >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {formatSOL(totalUnrealized)} SOL
+              </span>
+            </span>
+            <span className="text-gray-400">
+              Total{' '}
+              <span className={`text-lg font-bold ${totalRealized + totalUnrealized >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {formatSOL(totalRealized + totalUnrealized)} SOL
+              </span>
+            </span>
+          </div>
         </div>
       </div>
     </div>
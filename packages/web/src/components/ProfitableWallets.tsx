@@ -1,22 +1,55 @@
 import { useState, useMemo } from 'react';
-import type { WalletRanking } from '../api';
+import {
+  type Timeframe,
+  type FollowScoreConfig,
+  type SlippageBucket,
+  type SlippageProfileInput,
+  BUILT_IN_SLIPPAGE_PROFILES,
+  SLIPPAGE_MODELS,
+} from '@funeral-vision/shared';
+import type { WalletRanking, SlippageModel, SlippageProfile } from '../api';
+import { TimeframeSelector } from './TimeframeSelector';
+import { FarmerBadge } from './FarmerBadge';
 
 interface Props {
   wallets: WalletRanking[];
   isLoading: boolean;
+  timeframe: Timeframe;
+  onTimeframeChange: (timeframe: Timeframe) => void;
   onSelect?: (address: string) => void;
   onCalculateScores?: () => Promise<void>;
   isCalculating?: boolean;
+  // Built-in model name or the id of a stored slippage profile
+  slippage: SlippageModel | number;
+  slippageProfiles: SlippageProfile[];
+  onSlippageChange: (slippage: SlippageModel | number) => void;
 }
 
-type SortColumn = 'simulatedPnL' | 'realizedPnL' | 'followabilityRatio' | 'winRate' | 'avgTimeToFirstSellSec' | 'quickDumpRate';
+type SortColumn = 'rank' | 'simulatedPnL' | 'realizedPnL' | 'followabilityRatio' | 'winRate' | 'avgTimeToFirstSellSec' | 'quickDumpRate';
 type SortDirection = 'asc' | 'desc';
 
-const FOLLOW_SCORE_EXPLAINER = `Follow Score measures how profitable it would be to copy this wallet's trades.
+function formatBuckets(buckets: SlippageBucket[]): string {
+  let lowerSol = 0;
+  return buckets.map((bucket) => {
+    const range = bucket.maxSol === null ? `≥ ${lowerSol} SOL` : `< ${bucket.maxSol} SOL`;
+    lowerSol = bucket.maxSol ?? lowerSol;
+    return `${range}: ${(bucket.slippage * 100).toFixed(1)}%`;
+  }).join(', ');
+}
+
+function buildFollowScoreExplainer(profile: SlippageProfileInput, config: FollowScoreConfig): string {
+  const overrides = Object.entries(profile.dexOverrides ?? {}).map(
+    ([dex, buckets]) => `\n  ◦ ${dex}: ${formatBuckets(buckets)}`
+  ).join('');
+
+  return `Follow Score measures how profitable it would be to copy this wallet's trades.
 
-How it works:
-• Simulates entering each trade 5 seconds after the wallet
-• Applies realistic slippage based on trade size
+How the scores shown were computed (${profile.name} slippage):
+• Simulates entering each trade ${config.delaySeconds} seconds after the wallet
+${config.pricing === 'tape'
+    ? '• Prices the entry from stored trades at that time, falling back to drift without nearby prints'
+    : `• Moves the price against you by ${(profile.driftPerSecond * 100).toFixed(2)}% per second of delay`}
+• Applies slippage by trade size: ${formatBuckets(profile.buckets)}${overrides ? `\n• Overrides by DEX:${overrides}` : ''}
 • Penalizes quick exits (< 2 min) that can't be followed
 
 Score interpretation:
@@ -26,7 +59,9 @@ Score interpretation:
 • < 0.2 = Unfollowable (likely farming copytrades)
 
 Quick Dump Rate shows % of tokens sold within 60s of buying.
-High quick dump + low follow score = likely copytrade farmer.`;
+Farmer badges come from the copytrade-farmer detector (see a wallet's profile tab).
+Without a report, high quick dump + low follow score = likely copytrade farmer.`;
+}
 
 function getFollowScoreColor(ratio: number | undefined): string {
   if (ratio === undefined) return 'text-gray-500';
@@ -44,6 +79,24 @@ function getFollowScoreLabel(ratio: number | undefined): string {
   return 'Unfollowable';
 }
 
+function RankMovement({ rank, previousRank }: { rank?: number; previousRank?: number }) {
+  if (rank === undefined) return null;
+  if (previousRank === undefined) {
+    return <span className="text-xs text-blue-400" title="Not ranked a day ago">new</span>;
+  }
+
+  const moved = previousRank - rank;
+  if (moved === 0) return <span className="text-xs text-gray-600" title="No change since a day ago">–</span>;
+  return (
+    <span
+      className={`text-xs ${moved > 0 ? 'text-green-400' : 'text-red-400'}`}
+      title={`#${previousRank} a day ago`}
+    >
+      {moved > 0 ? '▲' : '▼'}{Math.abs(moved)}
+    </span>
+  );
+}
+
 function formatDuration(seconds: number | undefined): string {
   if (seconds === undefined) return 'N/A';
   if (seconds < 60) return `${seconds.toFixed(0)}s`;
@@ -51,11 +104,39 @@ function formatDuration(seconds: number | undefined): string {
   return `${(seconds / 3600).toFixed(1)}h`;
 }
 
-export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateScores, isCalculating }: Props) {
+export function ProfitableWallets({
+  wallets,
+  isLoading,
+  timeframe,
+  onTimeframeChange,
+  onSelect,
+  onCalculateScores,
+  isCalculating,
+  slippage,
+  slippageProfiles,
+  onSlippageChange,
+}: Props) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [showExplainer, setShowExplainer] = useState(false);
-  const [sortColumn, setSortColumn] = useState<SortColumn>('simulatedPnL');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [sortColumn, setSortColumn] = useState<SortColumn>('rank');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+
+  const findProfile = (choice: SlippageModel | number): SlippageProfileInput | undefined =>
+    typeof choice === 'number' ? slippageProfiles.find(p => p.id === choice) : BUILT_IN_SLIPPAGE_PROFILES[choice];
+
+  // Describe the settings the displayed scores came from (the most common one if they
+  // differ), not the dropdown selection, which only applies on the next calculation
+  const scoredConfigs = wallets.flatMap(w => (w.followConfig ? [w.followConfig] : []));
+  const configCounts = new Map<string, { config: FollowScoreConfig; count: number }>();
+  for (const config of scoredConfigs) {
+    const key = JSON.stringify([config.delaySeconds, config.slippageModel, config.slippageProfileId, config.pricing]);
+    const entry = configCounts.get(key) ?? { config, count: 0 };
+    entry.count++;
+    configCounts.set(key, entry);
+  }
+  const scoredConfig = [...configCounts.values()].sort((a, b) => b.count - a.count)[0]?.config;
+  const scoredSlippage = scoredConfig ? scoredConfig.slippageProfileId ?? scoredConfig.slippageModel : null;
+  const scoredProfile = scoredSlippage !== null ? findProfile(scoredSlippage) : undefined;
 
   // Check if any wallet has follow scores
   const hasFollowScores = wallets.some(w => w.followabilityRatio !== undefined);
@@ -81,7 +162,8 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
       setSortDirection(prev => prev === 'desc' ? 'asc' : 'desc');
     } else {
       setSortColumn(column);
-      setSortDirection('desc');
+      // Rank 1 is the best, so rank starts ascending
+      setSortDirection(column === 'rank' ? 'asc' : 'desc');
     }
   };
 
@@ -104,6 +186,23 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
         </button>
         <div className="flex items-center gap-2">
           {isLoading && <span className="text-sm text-gray-400">Loading...</span>}
+          <TimeframeSelector value={timeframe} onChange={onTimeframeChange} />
+          <select
+            value={String(slippage)}
+            onChange={(e) => {
+              const value = e.target.value;
+              onSlippageChange(/^\d+$/.test(value) ? Number(value) : (value as SlippageModel));
+            }}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-200"
+            title="Slippage used when calculating follow scores"
+          >
+            {SLIPPAGE_MODELS.map((model) => (
+              <option key={model} value={model}>{BUILT_IN_SLIPPAGE_PROFILES[model].name} slippage</option>
+            ))}
+            {slippageProfiles.map((profile) => (
+              <option key={profile.id} value={String(profile.id)}>{profile.name}</option>
+            ))}
+          </select>
           {onCalculateScores && (
             <button
               type="button"
@@ -120,7 +219,7 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
       {!isCollapsed && (
         <>
           <div className="text-sm text-gray-400 mb-3 flex items-center gap-2">
-            <span>Click column headers to sort.</span>
+            <span>Stats cover the selected timeframe. Click column headers to sort.</span>
             <button
               type="button"
               onClick={() => setShowExplainer(!showExplainer)}
@@ -132,7 +231,15 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
 
           {showExplainer && (
             <div className="mb-4 p-3 bg-gray-800/80 rounded-lg text-sm text-gray-300 whitespace-pre-line border border-gray-700">
-              {FOLLOW_SCORE_EXPLAINER}
+              {!scoredConfig
+                ? 'No follow scores yet. Calculate scores to simulate copying each wallet with the selected slippage.'
+                : scoredProfile
+                  ? buildFollowScoreExplainer(scoredProfile, scoredConfig)
+                  : 'The scores shown were computed with a slippage profile that has since been deleted. Recalculate to score with the selected one.'}
+              {configCounts.size > 1 &&
+                `\n\nSome wallets were scored with other settings (${configCounts.size} in use). Recalculate to score them all alike.`}
+              {scoredConfig && scoredSlippage !== slippage &&
+                `\n\nThe selected slippage (${findProfile(slippage)?.name ?? 'deleted profile'}) applies on the next recalculation.`}
             </div>
           )}
 
@@ -140,6 +247,17 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
             <table className="min-w-full text-sm text-left">
               <thead>
                 <tr className="text-gray-400 border-b border-gray-800">
+                  <th className="py-2 pr-3">
+                    <button
+                      type="button"
+                      onClick={() => handleSort('rank')}
+                      className="cursor-pointer hover:text-white flex items-center"
+                      title="Rank for this timeframe and movement since a day ago"
+                    >
+                      #
+                      <SortIndicator column="rank" />
+                    </button>
+                  </th>
                   <th className="py-2 pr-3">Wallet</th>
                   <th className="py-2 pr-3">
                     <button
@@ -211,14 +329,18 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
               <tbody>
                 {sortedWallets.length === 0 && !isLoading && (
                   <tr>
-                    <td colSpan={7} className="py-4 text-center text-gray-500">
+                    <td colSpan={8} className="py-4 text-center text-gray-500">
                       No wallets with trade data yet. Import wallets and sync their data first.
                     </td>
                   </tr>
                 )}
                 {sortedWallets.map((w) => {
-                  const isLikelyFarmer = (w.quickDumpRate !== undefined && w.quickDumpRate > 0.3) ||
-                    (w.followabilityRatio !== undefined && w.followabilityRatio < 0.2);
+                  // Detector verdict when there is one, otherwise the quick-dump / follow-score heuristic
+                  const hasVerdict = w.farmerVerdict !== undefined && w.farmerVerdict !== 'insufficient_data';
+                  const isLikelyFarmer = hasVerdict
+                    ? w.farmerVerdict === 'likely'
+                    : (w.quickDumpRate !== undefined && w.quickDumpRate > 0.3) ||
+                      (w.followabilityRatio !== undefined && w.followabilityRatio < 0.2);
 
                   return (
                     <tr
@@ -226,11 +348,17 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
                       className={`border-b border-gray-800 hover:bg-gray-800/60 cursor-pointer ${isLikelyFarmer ? 'opacity-60' : ''}`}
                       onClick={() => onSelect?.(w.address)}
                     >
+                      <td className="py-2 pr-3 text-gray-300 whitespace-nowrap">
+                        <div>{w.rank !== undefined ? w.rank : '—'}</div>
+                        <RankMovement rank={w.rank} previousRank={w.previousRank} />
+                      </td>
                       <td className="py-2 pr-3 text-white">
                         <div className="flex items-center gap-2">
                           <span>{w.emoji || '👛'}</span>
                           <span className="font-mono">{w.name || w.address.slice(0, 8)}…</span>
-                          {isLikelyFarmer && (
+                          {hasVerdict ? (
+                            <FarmerBadge verdict={w.farmerVerdict} score={w.farmerScore} />
+                          ) : isLikelyFarmer && (
                             <span className="text-xs px-1.5 py-0.5 bg-red-900/50 text-red-400 rounded" title="Likely farming copytrades">
                               ⚠️
                             </span>
@@ -243,6 +371,14 @@ export function ProfitableWallets({ wallets, isLoading, onSelect, onCalculateSco
                       </td>
                       <td className="py-2 pr-3 text-gray-300">
                         {w.realizedPnL.toFixed(2)}
+                        {w.totalFees !== undefined && w.totalFees > 0 && (
+                          <div
+                            className="text-xs text-gray-500"
+                            title={`${w.totalFees.toFixed(3)} SOL in fees and tips`}
+                          >
+                            net {(w.netRealizedPnL ?? w.realizedPnL - w.totalFees).toFixed(2)}
+                          </div>
+                        )}
                       </td>
                       <td className={`py-2 pr-3 font-semibold ${getFollowScoreColor(w.followabilityRatio)}`}>
                         {w.followabilityRatio !== undefined ? (
@@ -0,0 +1,55 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { updateScheduler } from '../api';
+import { useSchedulerState } from '../hooks/useScheduler';
+
+function formatInterval(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${(seconds / 3600).toFixed(1).replace(/\.0$/, '')}h`;
+}
+
+export function SchedulerControl() {
+  const queryClient = useQueryClient();
+  const { data: state } = useSchedulerState();
+
+  if (!state) return null;
+
+  const due = state.queue.filter((w) => w.overdueSec >= 0).length;
+  const lastRun = state.recentRuns[0];
+
+  const togglePaused = async () => {
+    try {
+      const next = await updateScheduler({ paused: !state.paused });
+      queryClient.setQueryData(['scheduler'], next);
+    } catch (err) {
+      console.error('Failed to update scheduler:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm bg-gray-900/60 border border-gray-800 rounded-lg px-4 py-2">
+      <span className="font-semibold text-white">⏱️ Auto-sync</span>
+      <span className={state.paused ? 'text-gray-500' : state.budgetExhausted ? 'text-yellow-400' : 'text-green-400'}>
+        {state.paused
+          ? 'Paused'
+          : state.budgetExhausted
+            ? 'Credit budget spent, waiting for 00:00 UTC'
+            : state.running ? `Syncing ${state.running.name}…` : 'Idle'}
+      </span>
+      <span className="text-gray-400">
+        {due} due / {state.queue.length} scheduled
+      </span>
+      <span className="text-gray-500" title="Default interval / alerts-on interval">
+        every {formatInterval(state.defaultIntervalSec)} · 🔔 {formatInterval(state.alertsIntervalSec)}
+      </span>
+      {lastRun && (
+        <span className={lastRun.success ? 'text-gray-500' : 'text-red-400'} title={lastRun.error}>
+          last: {lastRun.name} {lastRun.success ? `(+${lastRun.newTransactions ?? 0} tx)` : '(failed)'}
+        </span>
+      )}
+      <button type="button" onClick={togglePaused} className="btn-secondary ml-auto">
+        {state.paused ? 'Resume' : 'Pause'}
+      </button>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ function getTypeIcon(type: StatusEvent['type']): string {
     case 'success': return '✅';
     case 'error': return '❌';
     case 'warning': return '⚠️';
+    case 'alert': return '🔔';
     case 'connected': return '🔗';
     default: return '•';
   }
@@ -37,6 +38,7 @@ function getTypeColor(type: StatusEvent['type']): string {
     case 'success': return 'text-green-400';
     case 'error': return 'text-red-400';
     case 'warning': return 'text-orange-400';
+    case 'alert': return 'text-pink-400';
     case 'connected': return 'text-purple-400';
     default: return 'text-gray-400';
   }
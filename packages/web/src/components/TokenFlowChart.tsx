@@ -0,0 +1,80 @@
+import type { TokenFlowBucket } from '../api';
+
+interface Props {
+  flow: TokenFlowBucket[];
+  bucketSeconds: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 56 };
+
+function formatBucket(timestamp: number, bucketSeconds: number): string {
+  const date = new Date(timestamp * 1000);
+  return bucketSeconds < 86400
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Buys above the axis, sells below, with the cumulative net flow as a line
+ */
+export function TokenFlowChart({ flow, bucketSeconds }: Props) {
+  if (flow.length === 0) {
+    return <div className="py-10 text-center text-gray-500">No trades yet</div>;
+  }
+
+  let cumulative = 0;
+  const cumulativeNet = flow.map(bucket => (cumulative += bucket.netSol));
+
+  const maxBar = Math.max(...flow.map(b => Math.max(b.buySol, b.sellSol)), ...cumulativeNet.map(Math.abs)) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const barWidth = Math.max(1, plotWidth / flow.length - 1);
+  const x = (i: number) => PADDING.left + (i / flow.length) * plotWidth;
+  const y = (value: number) => PADDING.top + ((maxBar - value) / (2 * maxBar)) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#4b5563" />
+
+      {[maxBar, -maxBar].map((value) => (
+        <text key={value} x={PADDING.left - 6} y={y(value) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {value.toFixed(2)}
+        </text>
+      ))}
+      {[0, flow.length - 1].map((i) => (
+        <text
+          key={i}
+          x={i === 0 ? x(0) : x(i) + barWidth}
+          y={HEIGHT - 8}
+          textAnchor={i === 0 ? 'start' : 'end'}
+          className="fill-gray-500 text-[10px]"
+        >
+          {formatBucket(flow[i].timestamp, bucketSeconds)}
+        </text>
+      ))}
+
+      {flow.map((bucket, i) => (
+        <g key={bucket.timestamp}>
+          {bucket.buySol > 0 && (
+            <rect x={x(i)} y={y(bucket.buySol)} width={barWidth} height={y(0) - y(bucket.buySol)} fill="#14F195" fillOpacity={0.7} />
+          )}
+          {bucket.sellSol > 0 && (
+            <rect x={x(i)} y={y(0)} width={barWidth} height={y(-bucket.sellSol) - y(0)} fill="#f87171" fillOpacity={0.7} />
+          )}
+          <title>
+            {`${formatBucket(bucket.timestamp, bucketSeconds)}: bought ${bucket.buySol.toFixed(3)} SOL (${bucket.buyers} wallets), sold ${bucket.sellSol.toFixed(3)} SOL (${bucket.sellers} wallets)`}
+          </title>
+        </g>
+      ))}
+
+      <polyline
+        fill="none"
+        stroke="#9945FF"
+        strokeWidth={2}
+        points={cumulativeNet.map((value, i) => `${x(i) + barWidth / 2},${y(value)}`).join(' ')}
+      />
+    </svg>
+  );
+}
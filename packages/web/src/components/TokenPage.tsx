@@ -0,0 +1,284 @@
+import { useTokenActivity, useTokenHolders } from '../hooks/useToken';
+import { TokenFlowChart } from './TokenFlowChart';
+
+interface Props {
+  mint: string;
+  onSelectWallet: (address: string) => void;
+}
+
+const LAUNCH_SOURCE_LABELS = {
+  mint: 'Token mint',
+  pool_init: 'Pool creation',
+  first_seen: 'First stored transaction',
+} as const;
+
+function formatSOL(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString();
+}
+
+function formatDelay(seconds: number): string {
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 172800) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function WalletButton({ address, name, emoji, onSelectWallet }: {
+  address: string;
+  name?: string;
+  emoji?: string;
+  onSelectWallet: (address: string) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelectWallet(address)}
+      className="flex items-center gap-2 text-left hover:text-solana-green"
+    >
+      <span>{emoji || '👛'}</span>
+      <span className="text-gray-200">{name || shortAddress(address)}</span>
+    </button>
+  );
+}
+
+export function TokenPage({ mint, onSelectWallet }: Props) {
+  const { data: activity, isLoading, error } = useTokenActivity(mint);
+  const { data: holders } = useTokenHolders(mint);
+
+  if (isLoading) {
+    return <div className="h-60 bg-gray-800/60 rounded animate-pulse" />;
+  }
+
+  if (error || !activity) {
+    return (
+      <div className="card text-center text-gray-500">
+        {error instanceof Error ? error.message : 'No activity for this token'}
+      </div>
+    );
+  }
+
+  const { token } = activity;
+  const displayName = token.symbol || token.name || shortAddress(mint);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        {token.image && (
+          <img
+            src={token.image}
+            alt={displayName}
+            className="w-10 h-10 rounded-full"
+            onError={(e) => { e.currentTarget.style.display = 'none'; }}
+          />
+        )}
+        <div>
+          <h2 className="text-2xl font-bold text-white">{displayName}</h2>
+          <div className="text-sm text-gray-400">
+            {token.name && token.symbol && <span className="mr-2">{token.name}</span>}
+            <a
+              href={`https://solscan.io/token/${mint}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono text-blue-400 hover:text-blue-300"
+            >
+              {mint}
+            </a>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="card">
+          <p className="text-gray-400 text-sm mb-1">Launch</p>
+          {token.launch?.firstTimestamp != null ? (
+            <>
+              <p className="text-lg font-bold text-white">{formatTime(token.launch.firstTimestamp)}</p>
+              <p className="text-gray-500 text-sm mt-1">{LAUNCH_SOURCE_LABELS[token.launch.source]}</p>
+            </>
+          ) : (
+            <p className="text-lg font-bold text-gray-500">Unknown</p>
+          )}
+        </div>
+        <div className="card">
+          <p className="text-gray-400 text-sm mb-1">Catalog wallets</p>
+          <p className="text-2xl font-bold text-white">{activity.wallets}</p>
+          <p className="text-gray-500 text-sm mt-1">
+            {holders ? `${holders.openHolders} still holding` : `${activity.totalTrades} trades`}
+          </p>
+        </div>
+        <div className="card">
+          <p className="text-gray-400 text-sm mb-1">Net flow</p>
+          <p className={`text-2xl font-bold ${activity.buySol >= activity.sellSol ? 'pnl-positive' : 'pnl-negative'}`}>
+            {formatSOL(activity.buySol - activity.sellSol)} SOL
+          </p>
+          <p className="text-gray-500 text-sm mt-1">
+            {activity.buySol.toFixed(2)} bought · {activity.sellSol.toFixed(2)} sold
+          </p>
+        </div>
+        <div className="card">
+          <p className="text-gray-400 text-sm mb-1">Catalog PnL</p>
+          {holders ? (
+            <>
+              <p className={`text-2xl font-bold ${holders.totalRealizedPnL >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {formatSOL(holders.totalRealizedPnL)} SOL
+              </p>
+              <p className="text-gray-500 text-sm mt-1">{formatSOL(holders.totalUnrealizedPnL)} SOL unrealized</p>
+            </>
+          ) : (
+            <p className="text-2xl font-bold text-gray-500">—</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+        <h3 className="text-lg font-semibold text-white">Flow</h3>
+        <p className="text-sm text-gray-400 mb-3">
+          Catalog buys and sells per {formatDelay(activity.bucketSeconds)}, with cumulative net SOL in
+        </p>
+        <TokenFlowChart flow={activity.flow} bucketSeconds={activity.bucketSeconds} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-white mb-3">First in</h3>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="min-w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-800">
+                  <th className="py-2 pr-3">#</th>
+                  <th className="py-2 pr-3">Wallet</th>
+                  <th className="py-2 pr-3">First buy</th>
+                  <th className="py-2 pr-3">After launch</th>
+                  <th className="py-2 pr-3">SOL</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activity.entries.map((entry, i) => (
+                  <tr key={entry.walletAddress} className="border-b border-gray-800">
+                    <td className="py-2 pr-3 text-gray-400">{i + 1}</td>
+                    <td className="py-2 pr-3">
+                      <WalletButton address={entry.walletAddress} name={entry.name} emoji={entry.emoji} onSelectWallet={onSelectWallet} />
+                    </td>
+                    <td className="py-2 pr-3 text-gray-300">
+                      <a
+                        href={`https://solscan.io/tx/${entry.signature}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-blue-300"
+                      >
+                        {formatTime(entry.timestamp)}
+                      </a>
+                    </td>
+                    <td className="py-2 pr-3 text-gray-300">
+                      {entry.secondsAfterLaunch !== null ? formatDelay(Math.max(0, entry.secondsAfterLaunch)) : '—'}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-200">{entry.solAmount.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-white mb-3">Positions</h3>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="min-w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-800">
+                  <th className="py-2 pr-3">Wallet</th>
+                  <th className="py-2 pr-3">Entry #</th>
+                  <th className="py-2 pr-3">Cost</th>
+                  <th className="py-2 pr-3">Realized</th>
+                  <th className="py-2 pr-3">Holding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(holders?.holders ?? []).map(({ walletAddress, name, emoji, entryRank, isOpen, position }) => (
+                  <tr key={walletAddress} className="border-b border-gray-800">
+                    <td className="py-2 pr-3">
+                      <WalletButton address={walletAddress} name={name} emoji={emoji} onSelectWallet={onSelectWallet} />
+                    </td>
+                    <td className="py-2 pr-3 text-gray-400">{entryRank ?? '—'}</td>
+                    <td className="py-2 pr-3 text-gray-300">{position.totalCostBasis.toFixed(3)}</td>
+                    <td className={`py-2 pr-3 font-semibold ${position.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatSOL(position.realizedPnL)}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-300">
+                      {isOpen ? (
+                        <span title={position.markPrice === undefined ? 'No known price' : undefined}>
+                          {position.markValue !== undefined ? `${position.markValue.toFixed(3)} SOL` : 'Open'}
+                          {position.unrealizedPnL !== undefined && (
+                            <span className={position.unrealizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}>
+                              {' '}({formatSOL(position.unrealizedPnL)})
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">Closed</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-4">
+        <h3 className="text-lg font-semibold text-white mb-3">Recent trades</h3>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-800">
+                <th className="py-2 pr-3">Time</th>
+                <th className="py-2 pr-3">Wallet</th>
+                <th className="py-2 pr-3">Side</th>
+                <th className="py-2 pr-3">SOL</th>
+                <th className="py-2 pr-3">Price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {activity.recentTrades.map((trade) => (
+                <tr key={trade.id} className="border-b border-gray-800">
+                  <td className="py-2 pr-3 text-gray-300">
+                    <a
+                      href={`https://solscan.io/tx/${trade.signature}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-blue-300"
+                    >
+                      {formatTime(trade.timestamp)}
+                    </a>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <WalletButton
+                      address={trade.walletAddress}
+                      name={trade.walletName}
+                      emoji={trade.walletEmoji}
+                      onSelectWallet={onSelectWallet}
+                    />
+                  </td>
+                  <td className={`py-2 pr-3 font-medium ${trade.type === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                    {trade.type.toUpperCase()}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-200">{trade.solAmount.toFixed(3)}</td>
+                  <td className="py-2 pr-3 text-gray-400">{trade.pricePerToken.toExponential(3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
-import { useState } from 'react';
-import type { Timeframe } from '@funeral-vision/shared';
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import type { CostBasisMethod, Timeframe, TradeType } from '@funeral-vision/shared';
+import type { Realization, SortOrder, TradeQuery, TradeSortField } from '../api';
 import { useTrades } from '../hooks/useTrades';
+import { useRealizations } from '../hooks/useRealizations';
+import { ExportButtons } from './ExportButtons';
 
 interface TradesTableProps {
   walletAddress: string;
   timeframe: Timeframe;
+  costBasis?: CostBasisMethod;
+  onSelectToken?: (mint: string) => void;
 }
 
 function formatDate(timestamp: number): string {
@@ -19,128 +24,450 @@ function truncateAddress(address: string, chars = 6): string {
   return `${address.slice(0, chars)}...${address.slice(-chars)}`;
 }
 
-export function TradesTable({ walletAddress, timeframe }: TradesTableProps) {
-  const [page, setPage] = useState(1);
-  const { data, isLoading, error } = useTrades(walletAddress, timeframe, page);
+function formatSignedSOL(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(4)}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+function LotsBreakdown({ realization }: { realization: Realization }) {
+  return (
+    <div className="px-4 pb-4">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left py-1 font-medium">Bought</th>
+            <th className="text-right py-1 font-medium">Amount</th>
+            <th className="text-right py-1 font-medium">Buy Price</th>
+            <th className="text-right py-1 font-medium">Cost</th>
+            <th className="text-right py-1 font-medium">Proceeds</th>
+            <th className="text-right py-1 font-medium">PnL</th>
+            <th className="text-right py-1 font-medium">Held</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-300">
+          {realization.lots.map((lot, i) => (
+            <tr key={`${lot.buyTradeId}-${i}`}>
+              <td className="py-1">
+                {lot.buySignature ? (
+                  <a
+                    href={`https://solscan.io/tx/${lot.buySignature}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-solana-purple hover:text-solana-green"
+                  >
+                    {formatDate(lot.buyTimestamp)}
+                  </a>
+                ) : (
+                  formatDate(lot.buyTimestamp)
+                )}
+              </td>
+              <td className="py-1 text-right">
+                {lot.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </td>
+              <td className="py-1 text-right">{formatSOL(lot.buyPrice)}</td>
+              <td className="py-1 text-right">{formatSOL(lot.costBasis)}</td>
+              <td className="py-1 text-right">{formatSOL(lot.proceeds)}</td>
+              <td className={`py-1 text-right ${lot.realizedPnL >= 0 ? 'pnl-positive' : 'pnl-negative'}`}>
+                {formatSignedSOL(lot.realizedPnL)}
+              </td>
+              <td className="py-1 text-right">{formatDuration(lot.holdingPeriod)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {realization.unmatchedAmount > 0 && (
+        <p className="mt-2 text-xs text-yellow-500">
+          {realization.unmatchedAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })} tokens
+          had no recorded buy and were counted at zero cost.
+        </p>
+      )}
+    </div>
+  );
+}
+
+const INPUT_CLASS = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm';
 
+const PAGE_SIZE = 50;
+
+interface FilterDraft {
+  type: '' | TradeType;
+  search: string;
+  dex: string;
+  minSol: string;
+  maxSol: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterDraft = { type: '', search: '', dex: '', minSol: '', maxSol: '', from: '', to: '' };
+
+// Text columns read best A→Z; everything else starts with the largest or newest
+const TEXT_SORT_FIELDS: TradeSortField[] = ['type', 'tokenSymbol', 'dex'];
+
+function toTradeQuery(draft: FilterDraft): TradeQuery {
+  const number = (value: string) => (value.trim() ? parseFloat(value) : undefined);
+  // Date inputs are local days; `to` covers the whole day
+  const day = (value: string, time: string) =>
+    value ? Math.floor(new Date(`${value}T${time}`).getTime() / 1000) : undefined;
+
+  return {
+    type: draft.type || undefined,
+    search: draft.search.trim() || undefined,
+    dex: draft.dex.trim() || undefined,
+    minSol: number(draft.minSol),
+    maxSol: number(draft.maxSol),
+    from: day(draft.from, '00:00:00'),
+    to: day(draft.to, '23:59:59'),
+  };
+}
+
+function SortHeader({ field, label, sort, order, onSort, align = 'left' }: {
+  field: TradeSortField;
+  label: string;
+  sort: TradeSortField;
+  order: SortOrder;
+  onSort: (field: TradeSortField) => void;
+  align?: 'left' | 'right';
+}) {
+  const active = field === sort;
+  return (
+    <th className={`text-${align} p-4 font-medium`}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 ${active ? 'text-white' : 'text-gray-400 hover:text-gray-200'}`}
+      >
+        {label}
+        {active && <span className="text-xs">{order === 'desc' ? '▼' : '▲'}</span>}
+      </button>
+    </th>
+  );
+}
+
+export function TradesTable({ walletAddress, timeframe, costBasis = 'fifo', onSelectToken }: TradesTableProps) {
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<TradeQuery>({});
+  const [sort, setSort] = useState<TradeSortField>('timestamp');
+  const [order, setOrder] = useState<SortOrder>('desc');
+  // Cursors of the pages before the current one; empty on the first page
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [expandedSell, setExpandedSell] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCursors([]);
+  }, [walletAddress, timeframe]);
+
+  const cursor = cursors[cursors.length - 1];
+  const { data, isLoading, error } = useTrades(walletAddress, timeframe, {
+    ...filters,
+    sort,
+    order,
+    cursor,
+    limit: PAGE_SIZE,
+  });
+
+  // Only the first page carries the total; later pages keep showing it
+  const [total, setTotal] = useState(0);
+  useEffect(() => {
+    if (data && data.total !== null) setTotal(data.total);
+  }, [data]);
+
+  // Only the realizations for sells on this page
+  const sellTimes = (data?.trades || []).filter((t) => t.type === 'sell').map((t) => t.timestamp);
+  const { data: realizations } = useRealizations(
+    walletAddress,
+    { from: Math.min(...sellTimes), to: Math.max(...sellTimes), costBasis, limit: 1000 },
+    sellTimes.length > 0
+  );
+  const realizationBySell = useMemo(
+    () => new Map((realizations || []).map((r) => [r.sellTradeId, r])),
+    [realizations]
+  );
+
+  const updateDraft = (changes: Partial<FilterDraft>) => setDraft((d) => ({ ...d, ...changes }));
+
+  const applyFilters = (next: FilterDraft) => {
+    setFilters(toTradeQuery(next));
+    setCursors([]);
+  };
+
+  const handleSort = (field: TradeSortField) => {
+    if (field === sort) {
+      setOrder((o) => (o === 'desc' ? 'asc' : 'desc'));
+    } else {
+      setSort(field);
+      setOrder(TEXT_SORT_FIELDS.includes(field) ? 'asc' : 'desc');
+    }
+    setCursors([]);
+  };
+
+  const sortHeader = (field: TradeSortField, label: string, align?: 'left' | 'right') => (
+    <SortHeader field={field} label={label} sort={sort} order={order} onSort={handleSort} align={align} />
+  );
+
+  const filterBar = (
+    <form
+      className="flex flex-wrap items-end gap-2 p-4 border-b border-gray-700 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        applyFilters(draft);
+      }}
+    >
+      <label className="space-y-1">
+        <span className="block text-gray-400">Type</span>
+        <select
+          value={draft.type}
+          onChange={(e) => {
+            const next = { ...draft, type: e.target.value as FilterDraft['type'] };
+            setDraft(next);
+            applyFilters(next);
+          }}
+          className={INPUT_CLASS}
+        >
+          <option value="">All</option>
+          <option value="buy">Buys</option>
+          <option value="sell">Sells</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="block text-gray-400">Token</span>
+        <input
+          value={draft.search}
+          onChange={(e) => updateDraft({ search: e.target.value })}
+          placeholder="Symbol or mint"
+          className={`${INPUT_CLASS} w-40`}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="block text-gray-400">DEX</span>
+        <input
+          value={draft.dex}
+          onChange={(e) => updateDraft({ dex: e.target.value })}
+          placeholder="Any"
+          className={`${INPUT_CLASS} w-28`}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="block text-gray-400">SOL min</span>
+        <input
+          value={draft.minSol}
+          onChange={(e) => updateDraft({ minSol: e.target.value })}
+          inputMode="decimal"
+          className={`${INPUT_CLASS} w-20`}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="block text-gray-400">SOL max</span>
+        <input
+          value={draft.maxSol}
+          onChange={(e) => updateDraft({ maxSol: e.target.value })}
+          inputMode="decimal"
+          className={`${INPUT_CLASS} w-20`}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="block text-gray-400">From</span>
+        <input
+          type="date"
+          value={draft.from}
+          onChange={(e) => updateDraft({ from: e.target.value })}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="block text-gray-400">To</span>
+        <input
+          type="date"
+          value={draft.to}
+          onChange={(e) => updateDraft({ to: e.target.value })}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <button type="submit" className="btn-secondary">
+        Apply
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(EMPTY_FILTERS);
+          applyFilters(EMPTY_FILTERS);
+        }}
+        className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200"
+      >
+        Reset
+      </button>
+      <div className="ml-auto">
+        <ExportButtons walletAddress={walletAddress} kind="trades" timeframe={timeframe} costBasis={costBasis} />
+      </div>
+    </form>
+  );
+
+  let content;
   if (error) {
-    return (
-      <div className="card text-center py-8 text-red-400">
+    content = (
+      <div className="text-center py-8 text-red-400">
         Failed to load trades: {error.message}
       </div>
     );
-  }
-
-  if (isLoading) {
-    return (
-      <div className="card">
-        <div className="space-y-4">
-          {[...Array(5)].map((_, i) => (
-            <div key={i} className="h-12 bg-gray-700 rounded animate-pulse" />
-          ))}
-        </div>
+  } else if (isLoading) {
+    content = (
+      <div className="space-y-4 p-4">
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="h-12 bg-gray-700 rounded animate-pulse" />
+        ))}
       </div>
     );
-  }
-
-  if (!data?.trades.length) {
-    return (
-      <div className="card text-center py-8 text-gray-400">
-        No trades found for this timeframe
+  } else if (!data?.trades.length) {
+    content = (
+      <div className="text-center py-8 text-gray-400">
+        No trades match these filters
       </div>
     );
-  }
-
-  return (
-    <div className="card overflow-hidden p-0">
+  } else {
+    content = (
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead className="bg-gray-800/50">
             <tr>
-              <th className="text-left p-4 text-gray-400 font-medium">Time</th>
-              <th className="text-left p-4 text-gray-400 font-medium">Type</th>
-              <th className="text-left p-4 text-gray-400 font-medium">Token</th>
-              <th className="text-right p-4 text-gray-400 font-medium">Amount</th>
-              <th className="text-right p-4 text-gray-400 font-medium">SOL</th>
-              <th className="text-right p-4 text-gray-400 font-medium">Price</th>
-              <th className="text-left p-4 text-gray-400 font-medium">DEX</th>
+              {sortHeader('timestamp', 'Time')}
+              {sortHeader('type', 'Type')}
+              {sortHeader('tokenSymbol', 'Token')}
+              {sortHeader('tokenAmount', 'Amount', 'right')}
+              {sortHeader('solAmount', 'SOL', 'right')}
+              {sortHeader('pricePerToken', 'Price', 'right')}
+              <th className="text-right p-4 text-gray-400 font-medium">Realized</th>
+              {sortHeader('dex', 'DEX')}
               <th className="text-left p-4 text-gray-400 font-medium">Tx</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-700">
-            {data.trades.map((trade) => (
-              <tr key={trade.id} className="hover:bg-gray-800/30 transition-colors">
-                <td className="p-4 text-sm text-gray-300">
-                  {formatDate(trade.timestamp)}
-                </td>
-                <td className="p-4">
-                  <span
-                    className={`inline-flex px-2 py-1 rounded text-xs font-medium ${
-                      trade.type === 'buy'
-                        ? 'bg-green-900/50 text-green-400'
-                        : 'bg-red-900/50 text-red-400'
-                    }`}
-                  >
-                    {trade.type.toUpperCase()}
-                  </span>
-                </td>
-                <td className="p-4">
-                  <span className="text-sm font-mono text-gray-300">
-                    {trade.tokenSymbol || truncateAddress(trade.tokenMint, 4)}
-                  </span>
-                </td>
-                <td className="p-4 text-right text-sm text-gray-300">
-                  {trade.tokenAmount.toLocaleString(undefined, {
-                    maximumFractionDigits: 2,
-                  })}
-                </td>
-                <td className="p-4 text-right text-sm">
-                  <span className={trade.type === 'buy' ? 'pnl-negative' : 'pnl-positive'}>
-                    {trade.type === 'buy' ? '-' : '+'}
-                    {formatSOL(trade.solAmount)}
-                  </span>
-                </td>
-                <td className="p-4 text-right text-sm text-gray-300">
-                  {formatSOL(trade.pricePerToken)}
-                </td>
-                <td className="p-4 text-sm text-gray-400">{trade.dex || '-'}</td>
-                <td className="p-4">
-                  <a
-                    href={`https://solscan.io/tx/${trade.signature}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-solana-purple hover:text-solana-green text-sm"
-                  >
-                    {truncateAddress(trade.signature, 4)}
-                  </a>
-                </td>
-              </tr>
-            ))}
+            {data.trades.map((trade) => {
+              const realization = realizationBySell.get(trade.id);
+              const isExpanded = expandedSell === trade.id;
+
+              return (
+                <Fragment key={trade.id}>
+                  <tr className="hover:bg-gray-800/30 transition-colors">
+                    <td className="p-4 text-sm text-gray-300">
+                      {formatDate(trade.timestamp)}
+                    </td>
+                    <td className="p-4">
+                      <span
+                        className={`inline-flex px-2 py-1 rounded text-xs font-medium ${
+                          trade.type === 'buy'
+                            ? 'bg-green-900/50 text-green-400'
+                            : 'bg-red-900/50 text-red-400'
+                        }`}
+                      >
+                        {trade.type.toUpperCase()}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      {onSelectToken ? (
+                        <button
+                          type="button"
+                          onClick={() => onSelectToken(trade.tokenMint)}
+                          className="text-sm font-mono text-gray-300 hover:text-solana-green"
+                          title="Catalog activity in this token"
+                        >
+                          {trade.tokenSymbol || truncateAddress(trade.tokenMint, 4)}
+                        </button>
+                      ) : (
+                        <span className="text-sm font-mono text-gray-300">
+                          {trade.tokenSymbol || truncateAddress(trade.tokenMint, 4)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-4 text-right text-sm text-gray-300">
+                      {trade.tokenAmount.toLocaleString(undefined, {
+                        maximumFractionDigits: 2,
+                      })}
+                    </td>
+                    <td className="p-4 text-right text-sm">
+                      <span className={trade.type === 'buy' ? 'pnl-negative' : 'pnl-positive'}>
+                        {trade.type === 'buy' ? '-' : '+'}
+                        {formatSOL(trade.solAmount)}
+                      </span>
+                    </td>
+                    <td className="p-4 text-right text-sm text-gray-300">
+                      {formatSOL(trade.pricePerToken)}
+                    </td>
+                    <td className="p-4 text-right text-sm">
+                      {realization ? (
+                        <button
+                          type="button"
+                          onClick={() => setExpandedSell(isExpanded ? null : trade.id)}
+                          className={`inline-flex items-center gap-1 ${realization.realizedPnL >= 0 ? 'pnl-positive' : 'pnl-negative'}`}
+                          title={`${realization.lots.length} lot${realization.lots.length === 1 ? '' : 's'} closed`}
+                        >
+                          <span className="text-gray-500">{isExpanded ? '▾' : '▸'}</span>
+                          {formatSignedSOL(realization.realizedPnL)}
+                        </button>
+                      ) : (
+                        <span className="text-gray-600">-</span>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-gray-400">{trade.dex || '-'}</td>
+                    <td className="p-4">
+                      <a
+                        href={`https://solscan.io/tx/${trade.signature}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-solana-purple hover:text-solana-green text-sm"
+                      >
+                        {truncateAddress(trade.signature, 4)}
+                      </a>
+                    </td>
+                  </tr>
+                  {isExpanded && realization && (
+                    <tr className="bg-gray-800/20">
+                      <td colSpan={9}>
+                        <LotsBreakdown realization={realization} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
           </tbody>
         </table>
       </div>
+    );
+  }
+
+  const pageStart = cursors.length * PAGE_SIZE;
+
+  return (
+    <div className="card overflow-hidden p-0">
+      {filterBar}
+      {content}
 
       {/* Pagination */}
-      {data.totalPages > 1 && (
+      {data && (cursors.length > 0 || data.nextCursor) && (
         <div className="flex items-center justify-between p-4 border-t border-gray-700">
           <p className="text-sm text-gray-400">
-            Showing {(page - 1) * data.pageSize + 1} to{' '}
-            {Math.min(page * data.pageSize, data.total)} of {data.total} trades
+            Showing {pageStart + 1} to {pageStart + data.trades.length} of {total} trades
           </p>
           <div className="flex gap-2">
             <button
-              onClick={() => setPage((p) => Math.max(1, p - 1))}
-              disabled={page === 1}
+              onClick={() => setCursors((c) => c.slice(0, -1))}
+              disabled={cursors.length === 0}
               className="px-3 py-1 bg-gray-700 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-600"
             >
               Previous
             </button>
             <span className="px-3 py-1 text-sm text-gray-400">
-              Page {page} of {data.totalPages}
+              Page {cursors.length + 1} of {Math.max(1, Math.ceil(total / PAGE_SIZE))}
             </span>
             <button
-              onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
-              disabled={page === data.totalPages}
+              onClick={() => data.nextCursor && setCursors((c) => [...c, data.nextCursor!])}
+              disabled={!data.nextCursor}
               className="px-3 py-1 bg-gray-700 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-600"
             >
               Next
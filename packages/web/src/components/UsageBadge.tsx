@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useUsage } from '../hooks/useUsage';
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+/**
+ * Today's Helius credit spend for the header, with a breakdown by key, endpoint and wallet
+ */
+export function UsageBadge() {
+  const { data: usage } = useUsage();
+  const [open, setOpen] = useState(false);
+
+  if (!usage) return null;
+
+  const share = usage.dailyBudget ? usage.credits / usage.dailyBudget : 0;
+  const color = usage.budgetExhausted ? 'text-red-400' : share >= 0.8 ? 'text-yellow-400' : 'text-gray-300';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`text-sm px-3 py-1.5 rounded-md bg-gray-800 hover:bg-gray-700 ${color}`}
+        title="Helius credits spent today (UTC)"
+      >
+        ⚡ {usage.credits.toLocaleString()}
+        {usage.dailyBudget ? ` / ${usage.dailyBudget.toLocaleString()}` : ''} credits
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 card bg-gray-900 text-sm space-y-4 z-20">
+          <div className="flex justify-between text-gray-400">
+            <span>{usage.day} (UTC)</span>
+            <span>{usage.requests.toLocaleString()} requests</span>
+          </div>
+          {usage.budgetExhausted && (
+            <div className="text-red-400">Daily budget spent: syncs are paused until 00:00 UTC.</div>
+          )}
+
+          <UsageTable
+            title="API keys"
+            rows={usage.keys.map((k) => ({
+              label: `${k.key}${k.coolingDown ? ' (cooling down)' : ''}`,
+              credits: k.credits,
+              requests: k.requests,
+            }))}
+          />
+          <UsageTable
+            title="Endpoints"
+            rows={usage.endpoints.map((e) => ({
+              label: `${e.endpoint} (${e.creditCost}/req)`,
+              credits: e.credits,
+              requests: e.requests,
+            }))}
+          />
+          <UsageTable
+            title="Wallets"
+            rows={usage.wallets.map((w) => ({
+              label: w.walletAddress ? w.name || shortAddress(w.walletAddress) : 'Not wallet-specific',
+              credits: w.credits,
+              requests: w.requests,
+            }))}
+          />
+
+          {usage.history.length > 1 && (
+            <div>
+              <div className="text-gray-400 mb-1">Recent days</div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-gray-500">
+                {usage.history.map((h) => (
+                  <span key={h.day}>
+                    {h.day.slice(5)}: {h.credits.toLocaleString()}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UsageTable({ title, rows }: { title: string; rows: { label: string; credits: number; requests: number }[] }) {
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-gray-400 mb-1">{title}</div>
+      <table className="w-full">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t border-gray-800">
+              <td className="py-1 text-gray-300 truncate max-w-[12rem]">{row.label}</td>
+              <td className="py-1 text-right text-white">{row.credits.toLocaleString()}</td>
+              <td className="py-1 text-right text-gray-500">{row.requests.toLocaleString()} req</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -7,15 +7,25 @@ import {
   refreshSelectedWallets,
   updateWalletMetadata,
   calculateFollowScores,
+  getActiveSyncJobs,
+  cancelSyncJob,
+  type SlippageModel,
 } from '../api';
 import { useProfitableWallets } from '../hooks/useProfitableWallets';
+import { useSyncJob } from '../hooks/useSyncJob';
+import { useSlippageProfiles } from '../hooks/useSlippageProfiles';
 import { ProfitableWallets } from './ProfitableWallets';
+import { FollowSweepRankings } from './FollowSweepRankings';
+import { AlertsPanel } from './AlertsPanel';
+import { SchedulerControl } from './SchedulerControl';
+import { FarmerBadge } from './FarmerBadge';
 
 interface WalletCatalogProps {
   onSelectWallet: (address: string) => void;
 }
 
 const STORAGE_KEY = 'funeral-vision-selected-wallets';
+const SLIPPAGE_STORAGE_KEY = 'funeral-vision-follow-slippage';
 
 function formatSOL(value: number | undefined | null): string {
   if (value === undefined || value === null) return '-';
@@ -43,19 +53,24 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isImporting, setIsImporting] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshJobId, setRefreshJobId] = useState<number | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importJson, setImportJson] = useState('');
   const [importError, setImportError] = useState('');
   const [aggregatedStats, setAggregatedStats] = useState<AggregatedStats | null>(null);
   const [timeframe, setTimeframe] = useState<Timeframe>('all');
-  const [refreshProgress, setRefreshProgress] = useState<{ current: number; total: number } | null>(null);
   const [editingAddress, setEditingAddress] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [editingEmoji, setEditingEmoji] = useState('');
   const [isCalculatingScores, setIsCalculatingScores] = useState(false);
+  const [rankingTimeframe, setRankingTimeframe] = useState<Timeframe>('30d');
+  const [slippage, setSlippage] = useState<SlippageModel | number>(() => {
+    const saved = localStorage.getItem(SLIPPAGE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : 'moderate';
+  });
+  const { data: slippageProfiles = [] } = useSlippageProfiles();
   const { data: profitableWallets = [], isLoading: isLoadingProfitable, refetch: refetchProfitable } = useProfitableWallets({
-    timeframe: '30d',
+    timeframe: rankingTimeframe,
     minTrades: 1,
     minVolume: 0,
     minWinRate: 0,
@@ -67,6 +82,10 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
     localStorage.setItem(STORAGE_KEY, JSON.stringify([...selectedAddresses]));
   }, [selectedAddresses]);
 
+  useEffect(() => {
+    localStorage.setItem(SLIPPAGE_STORAGE_KEY, JSON.stringify(slippage));
+  }, [slippage]);
+
   const loadCatalog = useCallback(async () => {
     try {
       setIsLoading(true);
@@ -83,10 +102,38 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
     loadCatalog();
   }, [loadCatalog]);
 
+  // Refresh jobs run server-side; re-attach to one still in flight after a reload
+  useEffect(() => {
+    getActiveSyncJobs()
+      .then((jobs) => {
+        const active = jobs.filter((job) => job.kind === 'refresh').pop();
+        if (active) setRefreshJobId(active.id);
+      })
+      .catch((err) => console.error('Failed to load active jobs:', err));
+  }, []);
+
+  const { data: refreshJob } = useSyncJob(refreshJobId);
+  const isRefreshing = refreshJobId !== null;
+
+  useEffect(() => {
+    if (!refreshJob || refreshJob.status === 'queued' || refreshJob.status === 'running') return;
+
+    setRefreshJobId(null);
+    loadCatalog();
+    if (refreshJob.status === 'cancelled') return;
+
+    const successful = refreshJob.completed - refreshJob.failed;
+    alert(`${refreshJob.forceRefresh ? 'Full refresh' : 'Refreshed'} ${successful}/${refreshJob.total} wallets`);
+  }, [refreshJob, loadCatalog]);
+
   const handleCalculateScores = useCallback(async () => {
     try {
       setIsCalculatingScores(true);
-      await calculateFollowScores({ delaySeconds: 5, slippageModel: 'moderate' });
+      await calculateFollowScores(
+        typeof slippage === 'number'
+          ? { delaySeconds: 5, slippageProfileId: slippage }
+          : { delaySeconds: 5, slippageModel: slippage }
+      );
       // Refresh the profitable wallets list to show updated scores
       await refetchProfitable();
     } catch (err) {
@@ -94,7 +141,7 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
     } finally {
       setIsCalculatingScores(false);
     }
-  }, [refetchProfitable]);
+  }, [refetchProfitable, slippage]);
 
   const handleImport = async () => {
     setImportError('');
@@ -163,8 +210,8 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
     if (!editingAddress) return;
     try {
       await updateWalletMetadata(editingAddress, {
-        name: editingName.trim() || undefined,
-        emoji: editingEmoji.trim() || undefined,
+        name: editingName.trim() || null,
+        emoji: editingEmoji.trim() || null,
       });
       await loadCatalog();
       cancelEditing();
@@ -173,6 +220,15 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
     }
   };
 
+  const toggleAlerts = async (wallet: CatalogWallet) => {
+    try {
+      await updateWalletMetadata(wallet.address, { alertsOn: !wallet.alertsOn });
+      setWallets(prev => prev.map(w => (w.address === wallet.address ? { ...w, alertsOn: !w.alertsOn } : w)));
+    } catch (err) {
+      console.error('Failed to toggle alerts:', err);
+    }
+  };
+
   const exportWallets = (walletsToExport: CatalogWallet[], download: boolean) => {
     const exportData = walletsToExport.map(w => ({
       trackedWalletAddress: w.address,
@@ -231,19 +287,20 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
     // Hold Shift for full refresh (re-fetch all transactions)
     const forceRefresh = e.shiftKey;
     
-    setIsRefreshing(true);
-    setRefreshProgress({ current: 0, total: selectedAddresses.size });
-    
     try {
-      const result = await refreshSelectedWallets([...selectedAddresses], 'default', forceRefresh);
-      setRefreshProgress(null);
-      await loadCatalog();
-      alert(`${forceRefresh ? 'Full refresh' : 'Refreshed'} ${result.successful}/${result.total} wallets`);
+      const job = await refreshSelectedWallets([...selectedAddresses], 'default', forceRefresh);
+      setRefreshJobId(job.id);
     } catch (err) {
       console.error('Failed to refresh wallets:', err);
-    } finally {
-      setIsRefreshing(false);
-      setRefreshProgress(null);
+    }
+  };
+
+  const handleCancelRefresh = async () => {
+    if (refreshJobId === null) return;
+    try {
+      await cancelSyncJob(refreshJobId);
+    } catch (err) {
+      console.error('Failed to cancel refresh:', err);
     }
   };
 
@@ -279,11 +336,22 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
       <ProfitableWallets
         wallets={profitableWallets}
         isLoading={isLoadingProfitable}
+        timeframe={rankingTimeframe}
+        onTimeframeChange={setRankingTimeframe}
         onSelect={onSelectWallet}
         onCalculateScores={handleCalculateScores}
         isCalculating={isCalculatingScores}
+        slippage={slippage}
+        slippageProfiles={slippageProfiles}
+        onSlippageChange={setSlippage}
       />
 
+      <FollowSweepRankings onSelect={onSelectWallet} />
+
+      <AlertsPanel onSelectWallet={onSelectWallet} />
+
+      <SchedulerControl />
+
       {/* Header Actions */}
       <div className="flex flex-wrap gap-4 items-center justify-between">
         <div className="flex gap-2">
@@ -371,13 +439,22 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
             title="Fetch new transactions. Hold Shift for full re-sync."
           >
             {isRefreshing ? (
-              refreshProgress 
-                ? `🔄 ${refreshProgress.current}/${refreshProgress.total}` 
-                : '🔄 Refreshing...'
+              refreshJob?.status === 'running'
+                ? `🔄 ${refreshJob.completed}/${refreshJob.total}`
+                : '🔄 Queued...'
             ) : (
               '🔄 Refresh'
             )}
           </button>
+          {isRefreshing && (
+            <button
+              onClick={handleCancelRefresh}
+              className="btn-secondary"
+              title="Stop after the wallet currently syncing"
+            >
+              ✕ Cancel
+            </button>
+          )}
           {/* 
             <button
               onClick={handleAnalyzeSelected}
@@ -550,7 +627,10 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
                       >
                         <span className="text-xl">{wallet.emoji}</span>
                         <div className="text-left">
-                          <div className="font-medium">{wallet.name || 'Unnamed'}</div>
+                          <div className="font-medium flex items-center gap-2">
+                            {wallet.name || 'Unnamed'}
+                            <FarmerBadge verdict={wallet.farmerVerdict} score={wallet.farmerScore} />
+                          </div>
                           <div className="text-xs text-gray-500 font-mono">{truncateAddress(wallet.address)}</div>
                         </div>
                       </button>
@@ -583,6 +663,13 @@ export function WalletCatalog({ onSelectWallet }: WalletCatalogProps) {
                   </td>
                   <td className="p-4 text-right">
                     <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => toggleAlerts(wallet)}
+                        className={`transition-colors ${wallet.alertsOn ? 'text-yellow-400' : 'text-gray-500 opacity-40 hover:opacity-100'}`}
+                        title={wallet.alertsOn ? 'Alerts on - click to mute' : 'Alerts off - click to enable'}
+                      >
+                        🔔
+                      </button>
                       <button
                         onClick={() => startEditing(wallet)}
                         className="text-gray-500 hover:text-blue-400 transition-colors"
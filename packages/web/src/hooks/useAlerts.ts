@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { getAlerts, getAlertRules } from '../api';
+
+export function useAlerts(options: { wallet?: string; limit?: number } = {}) {
+  return useQuery({
+    queryKey: ['alerts', options],
+    queryFn: () => getAlerts(options),
+    staleTime: 15000,
+    refetchInterval: 30000, // Alerts fire from background syncs
+    retry: 1,
+  });
+}
+
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ['alert-rules'],
+    queryFn: () => getAlertRules(),
+    staleTime: 60000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import type { CoTradingSettings } from '@funeral-vision/shared';
+import { getClusterAnalysis, getLeadersFollowers } from '../api';
+
+export function useClusterAnalysis(settings: Partial<CoTradingSettings>) {
+  return useQuery({
+    queryKey: ['wallet-clusters', settings],
+    queryFn: () => getClusterAnalysis(settings),
+    staleTime: 120000,
+    retry: 1,
+  });
+}
+
+export function useLeadersFollowers(address: string) {
+  return useQuery({
+    queryKey: ['leaders-followers', address],
+    queryFn: () => getLeadersFollowers(address),
+    enabled: !!address && address.length >= 32,
+    staleTime: 120000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getFarmerReport } from '../api';
+
+export function useFarmerReport(address: string) {
+  return useQuery({
+    queryKey: ['farmer-report', address],
+    queryFn: () => getFarmerReport(address),
+    enabled: !!address && address.length >= 32,
+    staleTime: 120000, // 2 minutes
+    retry: 1,
+  });
+}
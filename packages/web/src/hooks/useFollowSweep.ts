@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SlippageModel } from '@funeral-vision/shared';
+import { getFollowSweep, getFollowSweepRankings } from '../api';
+
+export function useFollowSweep(address: string) {
+  return useQuery({
+    queryKey: ['follow-sweep', address],
+    queryFn: () => getFollowSweep(address),
+    enabled: !!address && address.length >= 32,
+    staleTime: 60000,
+  });
+}
+
+export function useFollowSweepRankings(delaySeconds: number, slippageModel: SlippageModel) {
+  return useQuery({
+    queryKey: ['follow-sweep-rankings', delaySeconds, slippageModel],
+    queryFn: () => getFollowSweepRankings(delaySeconds, slippageModel),
+    staleTime: 120000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { getPaperPortfolios, getPaperPortfolio } from '../api';
+
+export function usePaperPortfolios() {
+  return useQuery({
+    queryKey: ['paper-portfolios'],
+    queryFn: () => getPaperPortfolios(),
+    staleTime: 15000,
+    refetchInterval: 60000, // Portfolios advance as followed wallets sync
+    retry: 1,
+  });
+}
+
+export function usePaperPortfolio(id: number | null) {
+  return useQuery({
+    queryKey: ['paper-portfolio', id],
+    queryFn: () => getPaperPortfolio(id!),
+    enabled: id !== null,
+    staleTime: 15000,
+    refetchInterval: 60000,
+    retry: 1,
+  });
+}
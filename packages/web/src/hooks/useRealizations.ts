@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { getRealizations, type RealizationFilters } from '../api';
+
+export function useRealizations(address: string, filters: RealizationFilters = {}, enabled = true) {
+  return useQuery({
+    queryKey: ['wallet-realizations', address, filters],
+    queryFn: () => getRealizations(address, filters),
+    enabled: enabled && !!address && address.length >= 32,
+    staleTime: 30000,
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSchedulerState } from '../api';
+
+export function useSchedulerState() {
+  return useQuery({
+    queryKey: ['scheduler'],
+    queryFn: () => getSchedulerState(),
+    staleTime: 5000,
+    refetchInterval: 15000, // Queue drains in the background
+    retry: 1,
+  });
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSlippageProfiles } from '../api';
+
+export function useSlippageProfiles() {
+  return useQuery({
+    queryKey: ['slippage-profiles'],
+    queryFn: () => getSlippageProfiles(),
+    staleTime: 60000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSyncJob, type SyncJob } from '../api';
+
+function isActive(job: SyncJob | undefined): boolean {
+  return !job || job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Poll a sync job until it reaches a terminal state
+ */
+export function useSyncJob(id: number | null) {
+  return useQuery({
+    queryKey: ['sync-job', id],
+    queryFn: () => getSyncJob(id!),
+    enabled: id !== null,
+    refetchInterval: (query) => (isActive(query.state.data) ? 2000 : false),
+    retry: 1,
+  });
+}
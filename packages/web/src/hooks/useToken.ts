@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { getTokenActivity, getTokenHolders } from '../api';
+
+export function useTokenActivity(mint: string) {
+  return useQuery({
+    queryKey: ['token-activity', mint],
+    queryFn: () => getTokenActivity(mint),
+    enabled: !!mint && mint.length >= 32,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
+
+export function useTokenHolders(mint: string) {
+  return useQuery({
+    queryKey: ['token-holders', mint],
+    queryFn: () => getTokenHolders(mint),
+    enabled: !!mint && mint.length >= 32,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
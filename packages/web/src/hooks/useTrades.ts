@@ -1,16 +1,15 @@
 import { useQuery } from '@tanstack/react-query';
-import type { Timeframe } from '@funeral-vision/shared';
+import type { Timeframe, TradeQuery } from '@funeral-vision/shared';
 import { getTrades } from '../api';
 
 export function useTrades(
   address: string,
   timeframe: Timeframe = 'all',
-  page = 1,
-  pageSize = 50
+  query: TradeQuery = {}
 ) {
   return useQuery({
-    queryKey: ['wallet-trades', address, timeframe, page, pageSize],
-    queryFn: () => getTrades(address, timeframe, page, pageSize),
+    queryKey: ['wallet-trades', address, timeframe, query],
+    queryFn: () => getTrades(address, timeframe, query),
     enabled: !!address && address.length >= 32,
     staleTime: 30000,
   });
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getUsage } from '../api';
+
+export function useUsage() {
+  return useQuery({
+    queryKey: ['usage'],
+    queryFn: () => getUsage(),
+    staleTime: 10000,
+    refetchInterval: 30000, // Credits tick up while syncs run
+    retry: 1,
+  });
+}
@@ -1,11 +1,15 @@
 import { useQuery } from '@tanstack/react-query';
-import type { Timeframe } from '@funeral-vision/shared';
+import type { CostBasisMethod, Timeframe } from '@funeral-vision/shared';
 import { analyzeWallet } from '../api';
 
-export function useWalletPnL(address: string, timeframe: Timeframe = 'all') {
+export function useWalletPnL(
+  address: string,
+  timeframe: Timeframe = 'all',
+  costBasis: CostBasisMethod = 'fifo'
+) {
   return useQuery({
-    queryKey: ['wallet-pnl', address, timeframe],
-    queryFn: () => analyzeWallet(address, timeframe),
+    queryKey: ['wallet-pnl', address, timeframe, costBasis],
+    queryFn: () => analyzeWallet(address, timeframe, false, costBasis),
     enabled: !!address && address.length >= 32,
     staleTime: 60000, // 1 minute
     retry: 1,
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { getWalletStatus } from '../api';
+
+export function useWalletStatus(address: string, options: { poll?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['wallet-status', address],
+    queryFn: () => getWalletStatus(address),
+    enabled: !!address && address.length >= 32,
+    staleTime: 30000,
+    refetchInterval: options.poll ? 3000 : false, // Cursor moves while a backfill runs
+    retry: 1,
+  });
+}